@@ -16,6 +16,7 @@ export type Database = {
           product_id: number | null;
           quantity: number | null;
           user_id: string | null;
+          variant_id: number | null;
         };
         Insert: {
           created_at?: string | null;
@@ -23,6 +24,7 @@ export type Database = {
           product_id?: number | null;
           quantity?: number | null;
           user_id?: string | null;
+          variant_id?: number | null;
         };
         Update: {
           created_at?: string | null;
@@ -30,6 +32,7 @@ export type Database = {
           product_id?: number | null;
           quantity?: number | null;
           user_id?: string | null;
+          variant_id?: number | null;
         };
         Relationships: [
           {
@@ -46,6 +49,184 @@ export type Database = {
             referencedRelation: "profiles";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey";
+            columns: ["variant_id", "product_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id", "product_id"];
+          },
+        ];
+      };
+      categories: {
+        Row: {
+          created_at: string;
+          icon: string | null;
+          id: number;
+          is_visible: boolean;
+          name: string;
+          parent_id: number | null;
+          slug: string;
+          sort_order: number;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          icon?: string | null;
+          id?: number;
+          is_visible?: boolean;
+          name: string;
+          parent_id?: number | null;
+          slug: string;
+          sort_order?: number;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          icon?: string | null;
+          id?: number;
+          is_visible?: boolean;
+          name?: string;
+          parent_id?: number | null;
+          slug?: string;
+          sort_order?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey";
+            columns: ["parent_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      coupon_redemptions: {
+        Row: {
+          coupon_id: number;
+          created_at: string;
+          discount_amount: number;
+          id: number;
+          order_id: number;
+          user_id: string;
+        };
+        Insert: {
+          coupon_id: number;
+          created_at?: string;
+          discount_amount: number;
+          id?: number;
+          order_id: number;
+          user_id: string;
+        };
+        Update: {
+          coupon_id?: number;
+          created_at?: string;
+          discount_amount?: number;
+          id?: number;
+          order_id?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey";
+            columns: ["coupon_id"];
+            isOneToOne: false;
+            referencedRelation: "coupons";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: true;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "coupon_redemptions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      coupons: {
+        Row: {
+          code: string;
+          created_at: string;
+          created_by: string | null;
+          discount_type: string;
+          discount_value: number;
+          expires_at: string | null;
+          id: number;
+          is_active: boolean;
+          max_discount_amount: number | null;
+          min_order_amount: number;
+          name: string;
+          per_user_limit: number | null;
+          scope: string;
+          scope_category: string | null;
+          scope_product_ids: number[];
+          starts_at: string | null;
+          updated_at: string;
+          usage_limit: number | null;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          created_by?: string | null;
+          discount_type: string;
+          discount_value: number;
+          expires_at?: string | null;
+          id?: number;
+          is_active?: boolean;
+          max_discount_amount?: number | null;
+          min_order_amount?: number;
+          name: string;
+          per_user_limit?: number | null;
+          scope?: string;
+          scope_category?: string | null;
+          scope_product_ids?: number[];
+          starts_at?: string | null;
+          updated_at?: string;
+          usage_limit?: number | null;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          created_by?: string | null;
+          discount_type?: string;
+          discount_value?: number;
+          expires_at?: string | null;
+          id?: number;
+          is_active?: boolean;
+          max_discount_amount?: number | null;
+          min_order_amount?: number;
+          name?: string;
+          per_user_limit?: number | null;
+          scope?: string;
+          scope_category?: string | null;
+          scope_product_ids?: number[];
+          starts_at?: string | null;
+          updated_at?: string;
+          usage_limit?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "coupons_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "coupons_scope_category_fkey";
+            columns: ["scope_category"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["slug"];
+          },
         ];
       };
       order_items: {
@@ -56,6 +237,9 @@ export type Database = {
           price_at_time: number;
           product_id: number;
           quantity: number;
+          sku: string | null;
+          variant_id: number | null;
+          variant_label: string | null;
         };
         Insert: {
           created_at?: string | null;
@@ -64,6 +248,9 @@ export type Database = {
           price_at_time: number;
           product_id: number;
           quantity: number;
+          sku?: string | null;
+          variant_id?: number | null;
+          variant_label?: string | null;
         };
         Update: {
           created_at?: string | null;
@@ -72,6 +259,9 @@ export type Database = {
           price_at_time?: number;
           product_id?: number;
           quantity?: number;
+          sku?: string | null;
+          variant_id?: number | null;
+          variant_label?: string | null;
         };
         Relationships: [
           {
@@ -88,26 +278,101 @@ export type Database = {
             referencedRelation: "products";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      order_status_history: {
+        Row: {
+          changed_by: string | null;
+          created_at: string;
+          from_status: string | null;
+          id: number;
+          order_id: number;
+          reason: string | null;
+          to_status: string;
+        };
+        Insert: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: string | null;
+          id?: number;
+          order_id: number;
+          reason?: string | null;
+          to_status: string;
+        };
+        Update: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: string | null;
+          id?: number;
+          order_id?: number;
+          reason?: string | null;
+          to_status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
         ];
       };
       orders: {
         Row: {
+          coupon_code: string | null;
           created_at: string | null;
+          customer_address: string | null;
+          customer_name: string | null;
+          customer_phone: string | null;
+          customer_postcode: string | null;
+          discount_amount: number;
           id: number;
+          idempotency_key: string | null;
+          points_earned: number;
+          points_used: number;
+          shipping_fee: number;
           status: string;
           total_amount: number;
           user_id: string;
         };
         Insert: {
+          coupon_code?: string | null;
           created_at?: string | null;
+          customer_address?: string | null;
+          customer_name?: string | null;
+          customer_phone?: string | null;
+          customer_postcode?: string | null;
+          discount_amount?: number;
           id?: number;
+          idempotency_key?: string | null;
+          points_earned?: number;
+          points_used?: number;
+          shipping_fee?: number;
           status: string;
           total_amount: number;
           user_id: string;
         };
         Update: {
+          coupon_code?: string | null;
           created_at?: string | null;
+          customer_address?: string | null;
+          customer_name?: string | null;
+          customer_phone?: string | null;
+          customer_postcode?: string | null;
+          discount_amount?: number;
           id?: number;
+          idempotency_key?: string | null;
+          points_earned?: number;
+          points_used?: number;
+          shipping_fee?: number;
           status?: string;
           total_amount?: number;
           user_id?: string;
@@ -122,38 +387,367 @@ export type Database = {
           },
         ];
       };
+      payments: {
+        Row: {
+          amount: number;
+          created_at: string;
+          failure_reason: string | null;
+          id: number;
+          order_id: number;
+          provider: string;
+          provider_payment_id: string | null;
+          raw: Json | null;
+          refunded_amount: number;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string;
+          failure_reason?: string | null;
+          id?: number;
+          order_id: number;
+          provider: string;
+          provider_payment_id?: string | null;
+          raw?: Json | null;
+          refunded_amount?: number;
+          status: string;
+          updated_at?: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string;
+          failure_reason?: string | null;
+          id?: number;
+          order_id?: number;
+          provider?: string;
+          provider_payment_id?: string | null;
+          raw?: Json | null;
+          refunded_amount?: number;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      point_settings: {
+        Row: {
+          earn_rate: number;
+          expiry_months: number;
+          id: boolean;
+          max_redeem_rate: number;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          earn_rate?: number;
+          expiry_months?: number;
+          id?: boolean;
+          max_redeem_rate?: number;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          earn_rate?: number;
+          expiry_months?: number;
+          id?: boolean;
+          max_redeem_rate?: number;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "point_settings_updated_by_fkey";
+            columns: ["updated_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      point_transactions: {
+        Row: {
+          amount: number;
+          created_at: string;
+          created_by: string | null;
+          expires_at: string | null;
+          id: number;
+          order_id: number | null;
+          reason: string | null;
+          remaining_amount: number;
+          return_id: number | null;
+          type: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          id?: number;
+          order_id?: number | null;
+          reason?: string | null;
+          remaining_amount?: number;
+          return_id?: number | null;
+          type: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          created_at?: string;
+          created_by?: string | null;
+          expires_at?: string | null;
+          id?: number;
+          order_id?: number | null;
+          reason?: string | null;
+          remaining_amount?: number;
+          return_id?: number | null;
+          type?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "point_transactions_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "point_transactions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "point_transactions_return_id_fkey";
+            columns: ["return_id"];
+            isOneToOne: false;
+            referencedRelation: "returns";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "point_transactions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_images: {
+        Row: {
+          alt_text: string | null;
+          created_at: string;
+          id: number;
+          is_primary: boolean;
+          product_id: number;
+          sort_order: number;
+          url: string;
+        };
+        Insert: {
+          alt_text?: string | null;
+          created_at?: string;
+          id?: number;
+          is_primary?: boolean;
+          product_id: number;
+          sort_order?: number;
+          url: string;
+        };
+        Update: {
+          alt_text?: string | null;
+          created_at?: string;
+          id?: number;
+          is_primary?: boolean;
+          product_id?: number;
+          sort_order?: number;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_price_history: {
+        Row: {
+          changed_by: string | null;
+          created_at: string;
+          id: number;
+          price: number;
+          product_id: number;
+          sale_ends_at: string | null;
+          sale_price: number | null;
+          sale_starts_at: string | null;
+        };
+        Insert: {
+          changed_by?: string | null;
+          created_at?: string;
+          id?: number;
+          price: number;
+          product_id: number;
+          sale_ends_at?: string | null;
+          sale_price?: number | null;
+          sale_starts_at?: string | null;
+        };
+        Update: {
+          changed_by?: string | null;
+          created_at?: string;
+          id?: number;
+          price?: number;
+          product_id?: number;
+          sale_ends_at?: string | null;
+          sale_price?: number | null;
+          sale_starts_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_price_history_changed_by_fkey";
+            columns: ["changed_by"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "product_price_history_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      product_variants: {
+        Row: {
+          created_at: string;
+          id: number;
+          is_active: boolean;
+          options: Json;
+          price_delta: number;
+          product_id: number;
+          sku: string;
+          sort_order: number;
+          stock_quantity: number;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          options?: Json;
+          price_delta?: number;
+          product_id: number;
+          sku: string;
+          sort_order?: number;
+          stock_quantity?: number;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: number;
+          is_active?: boolean;
+          options?: Json;
+          price_delta?: number;
+          product_id?: number;
+          sku?: string;
+          sort_order?: number;
+          stock_quantity?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       products: {
         Row: {
-          created_at: string | null;
+          category: string;
+          created_at: string;
           created_by: string | null;
           description: string | null;
           id: number;
           image_url: string | null;
           name: string;
+          option_names: string[];
           price: number;
+          publish_at: string | null;
+          sale_ends_at: string | null;
+          sale_price: number | null;
+          sale_starts_at: string | null;
+          search_text: string | null;
+          shipping_class: string;
+          status: string;
           stock_quantity: number;
+          unpublish_at: string | null;
+          updated_at: string;
         };
         Insert: {
-          created_at?: string | null;
+          category?: string;
+          created_at?: string;
           created_by?: string | null;
           description?: string | null;
           id?: number;
           image_url?: string | null;
           name: string;
+          option_names?: string[];
           price: number;
+          publish_at?: string | null;
+          sale_ends_at?: string | null;
+          sale_price?: number | null;
+          sale_starts_at?: string | null;
+          search_text?: never;
+          shipping_class?: string;
+          status?: string;
           stock_quantity?: number;
+          unpublish_at?: string | null;
+          updated_at?: string;
         };
         Update: {
-          created_at?: string | null;
+          category?: string;
+          created_at?: string;
           created_by?: string | null;
           description?: string | null;
           id?: number;
           image_url?: string | null;
           name?: string;
+          option_names?: string[];
           price?: number;
+          publish_at?: string | null;
+          sale_ends_at?: string | null;
+          sale_price?: number | null;
+          sale_starts_at?: string | null;
+          search_text?: never;
+          shipping_class?: string;
+          status?: string;
           stock_quantity?: number;
+          unpublish_at?: string | null;
+          updated_at?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "products_category_fkey";
+            columns: ["category"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["slug"];
+          },
           {
             foreignKeyName: "products_created_by_fkey";
             columns: ["created_by"];
@@ -184,12 +778,316 @@ export type Database = {
         };
         Relationships: [];
       };
+      return_items: {
+        Row: {
+          id: number;
+          order_item_id: number;
+          quantity: number;
+          refund_amount: number;
+          restocked: boolean;
+          return_id: number;
+        };
+        Insert: {
+          id?: number;
+          order_item_id: number;
+          quantity: number;
+          refund_amount?: number;
+          restocked?: boolean;
+          return_id: number;
+        };
+        Update: {
+          id?: number;
+          order_item_id?: number;
+          quantity?: number;
+          refund_amount?: number;
+          restocked?: boolean;
+          return_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "return_items_order_item_id_fkey";
+            columns: ["order_item_id"];
+            isOneToOne: false;
+            referencedRelation: "order_items";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "return_items_return_id_fkey";
+            columns: ["return_id"];
+            isOneToOne: false;
+            referencedRelation: "returns";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      returns: {
+        Row: {
+          admin_note: string | null;
+          created_at: string;
+          id: number;
+          order_id: number;
+          photo_paths: string[];
+          reason: string;
+          refund_amount: number;
+          status: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          admin_note?: string | null;
+          created_at?: string;
+          id?: number;
+          order_id: number;
+          photo_paths?: string[];
+          reason: string;
+          refund_amount?: number;
+          status?: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          admin_note?: string | null;
+          created_at?: string;
+          id?: number;
+          order_id?: number;
+          photo_paths?: string[];
+          reason?: string;
+          refund_amount?: number;
+          status?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "returns_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "returns_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      search_queries: {
+        Row: {
+          last_searched_at: string;
+          query: string;
+          search_count: number;
+        };
+        Insert: {
+          last_searched_at?: string;
+          query: string;
+          search_count?: number;
+        };
+        Update: {
+          last_searched_at?: string;
+          query?: string;
+          search_count?: number;
+        };
+        Relationships: [];
+      };
     };
     Views: {
-      [_ in never]: never;
+      popular_search_queries: {
+        Row: {
+          last_searched_at: string | null;
+          query: string | null;
+          search_count: number | null;
+        };
+        Relationships: [];
+      };
+      point_balances: {
+        Row: {
+          balance: number | null;
+          user_id: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "point_transactions_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "profiles";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
     };
     Functions: {
-      [_ in never]: never;
+      adjust_points: {
+        Args: {
+          p_user_id: string;
+          p_amount: number;
+          p_reason: string;
+        };
+        Returns: Json;
+      };
+      cancel_order: {
+        Args: {
+          p_order_id: number;
+          p_reason?: string | null;
+        };
+        Returns: Json;
+      };
+      category_subtree_slugs: {
+        Args: {
+          p_slug: string;
+        };
+        Returns: string[];
+      };
+      change_order_status: {
+        Args: {
+          p_order_id: number;
+          p_status: string;
+          p_reason?: string | null;
+        };
+        Returns: Json;
+      };
+      change_return_status: {
+        Args: {
+          p_return_id: number;
+          p_status: string;
+          p_note?: string | null;
+        };
+        Returns: Json;
+      };
+      complete_return_refund: {
+        Args: {
+          p_return_id: number;
+          p_items: Json;
+          p_note?: string | null;
+        };
+        Returns: Json;
+      };
+      create_order: {
+        Args: {
+          p_user_id: string;
+          p_items: Json;
+          p_customer_name: string;
+          p_customer_phone: string;
+          p_customer_address: string;
+          p_clear_cart?: boolean;
+          p_idempotency_key?: string | null;
+          p_customer_postcode?: string | null;
+          p_coupon_code?: string | null;
+          p_points_to_use?: number;
+        };
+        Returns: Json;
+      };
+      get_point_summary: {
+        Args: Record<PropertyKey, never>;
+        Returns: Json;
+      };
+      order_shipping_fee: {
+        Args: {
+          p_subtotal: number;
+          p_has_chargeable_item: boolean;
+          p_bulky_quantity: number;
+          p_postcode: string | null;
+        };
+        Returns: number;
+      };
+      order_status_transition_allowed: {
+        Args: {
+          p_from: string;
+          p_to: string;
+        };
+        Returns: boolean;
+      };
+      preview_coupon: {
+        Args: {
+          p_code: string;
+          p_items: Json;
+        };
+        Returns: Json;
+      };
+      product_current_price: {
+        Args: {
+          p_product: Database["public"]["Tables"]["products"]["Row"];
+        };
+        Returns: number;
+      };
+      product_facets: {
+        Args: {
+          p_query?: string | null;
+          p_category_slugs?: string[] | null;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_in_stock_only?: boolean;
+        };
+        Returns: Json;
+      };
+      product_is_visible: {
+        Args: {
+          p_product: Database["public"]["Tables"]["products"]["Row"];
+        };
+        Returns: boolean;
+      };
+      product_sales_count: {
+        Args: {
+          p_product: Database["public"]["Tables"]["products"]["Row"];
+        };
+        Returns: number;
+      };
+      product_variant_label: {
+        Args: {
+          p_options: Json;
+          p_option_names: string[];
+        };
+        Returns: string;
+      };
+      record_search_query: {
+        Args: {
+          p_query: string;
+        };
+        Returns: undefined;
+      };
+      request_return: {
+        Args: {
+          p_order_id: number;
+          p_items: Json;
+          p_reason: string;
+          p_photo_paths?: string[];
+        };
+        Returns: Json;
+      };
+      release_return_refund: {
+        Args: {
+          p_return_id: number;
+        };
+        Returns: boolean;
+      };
+      return_status_transition_allowed: {
+        Args: {
+          p_from: string;
+          p_to: string;
+        };
+        Returns: boolean;
+      };
+      search_products: {
+        Args: {
+          p_query: string;
+        };
+        Returns: Database["public"]["Tables"]["products"]["Row"][];
+      };
+      shipping_remote_area: {
+        Args: {
+          p_postcode: string | null;
+        };
+        Returns: string | null;
+      };
+      start_return_refund: {
+        Args: {
+          p_return_id: number;
+          p_refund_amount: number;
+        };
+        Returns: Json;
+      };
     };
     Enums: {
       [_ in never]: never;
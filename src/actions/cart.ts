@@ -10,9 +10,15 @@
  * 5. 장바구니 비우기
  * 6. 장바구니 총액 계산
  *
+ * 옵션이 있는 상품은 옵션을 선택해야 담을 수 있으며, 재고 확인은 옵션 재고로 합니다.
+ * 같은 상품이라도 옵션이 다르면 별도 항목으로 담습니다.
+ * 공개 중이 아닌 상품(작성 중, 보관, 공개 기간 밖)은 담을 수 없고 장바구니 목록에서도 제외합니다.
+ *
  * @dependencies
  * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
  * - zod: 데이터 유효성 검사
+ * - @/lib/variants: 옵션 판매가(세일가 + 옵션 추가 금액)와 옵션 라벨
+ * - @/lib/product-status: 상품 공개 여부
  */
 
 "use server";
@@ -20,11 +26,18 @@
 import { createServerSupabaseClient } from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
+import {
+  getVariantLabel,
+  getVariantPrice,
+  type VariantOptions,
+} from "@/lib/variants";
+import { getProductVisibility, isProductVisible } from "@/lib/product-status";
 
 // 장바구니 아이템 스키마 정의
 const CartItemSchema = z.object({
   product_id: z.number().min(1, "상품 ID는 필수입니다"),
   quantity: z.number().min(1, "수량은 1 이상이어야 합니다"),
+  variant_id: z.number().int().positive().nullable().default(null),
 });
 
 // 장바구니 아이템 타입 정의
@@ -32,15 +45,29 @@ export type CartItem = {
   id: number;
   user_id: string;
   product_id: number;
+  variant_id: number | null; // 선택한 옵션 (옵션 없는 상품은 null)
   quantity: number;
   created_at: string;
   product: {
     id: number;
     name: string;
-    price: number;
+    price: number; // 정가
+    sale_price: number | null;
+    sale_starts_at: string | null;
+    sale_ends_at: string | null;
     image_url: string | null;
     stock_quantity: number;
+    shipping_class: string;
+    option_names: string[];
   };
+  variant: {
+    id: number;
+    sku: string;
+    options: VariantOptions;
+    price_delta: number; // 상품 판매가 대비 추가 금액
+    stock_quantity: number; // 옵션 재고
+    is_active: boolean;
+  } | null;
 };
 
 export type CartSummary = {
@@ -80,14 +107,31 @@ export async function getCartItems(): Promise<CartSummary> {
         id,
         user_id,
         product_id,
+        variant_id,
         quantity,
         created_at,
         product:products(
           id,
           name,
           price,
+          sale_price,
+          sale_starts_at,
+          sale_ends_at,
           image_url,
-          stock_quantity
+          stock_quantity,
+          shipping_class,
+          option_names,
+          status,
+          publish_at,
+          unpublish_at
+        ),
+        variant:product_variants!cart_items_variant_id_fkey(
+          id,
+          sku,
+          options,
+          price_delta,
+          stock_quantity,
+          is_active
         )
       `,
       )
@@ -105,19 +149,33 @@ export async function getCartItems(): Promise<CartSummary> {
       cartItems
         ?.filter((item) => {
           // product가 존재하고 객체이며 배열이 아닌지 확인
+          // (주문한 적 있는 상품은 보관 후에도 조회되므로 공개 중인 상품만 남김)
           const product = Array.isArray(item.product)
             ? item.product[0]
             : item.product;
-          return product !== null && typeof product === "object";
+          return (
+            product !== null &&
+            typeof product === "object" &&
+            isProductVisible(product)
+          );
         })
         .map((item) => {
           // product가 배열인 경우 첫 번째 요소를 사용 (조인 결과에서 단일 객체인 경우)
           const product = Array.isArray(item.product)
             ? item.product[0]
             : item.product;
+          const variant = Array.isArray(item.variant)
+            ? item.variant[0]
+            : item.variant;
           return {
             ...item,
             product: product as CartItem["product"],
+            variant: variant
+              ? ({
+                  ...variant,
+                  price_delta: Number(variant.price_delta),
+                } as CartItem["variant"])
+              : null,
           };
         }) || [];
 
@@ -127,7 +185,7 @@ export async function getCartItems(): Promise<CartSummary> {
       0,
     );
     const totalAmount = validCartItems.reduce((sum, item) => {
-      return sum + item.product.price * item.quantity;
+      return sum + getVariantPrice(item.product, item.variant) * item.quantity;
     }, 0);
 
     const result = {
@@ -153,16 +211,22 @@ export async function getCartItems(): Promise<CartSummary> {
 
 /**
  * 장바구니에 상품 추가
+ * @param variantId - 선택한 옵션 ID (옵션이 있는 상품은 필수)
  */
-export async function addToCart(productId: number, quantity: number = 1) {
+export async function addToCart(
+  productId: number,
+  quantity: number = 1,
+  variantId: number | null = null,
+) {
   console.group("🛒 장바구니 추가");
-  console.log("상품 ID:", productId, "수량:", quantity);
+  console.log("상품 ID:", productId, "수량:", quantity, "옵션 ID:", variantId);
 
   try {
     // 입력값 검증
     const validatedData = CartItemSchema.parse({
       product_id: productId,
       quantity,
+      variant_id: variantId,
     });
 
     const supabase = await createServerSupabaseClient();
@@ -182,7 +246,9 @@ export async function addToCart(productId: number, quantity: number = 1) {
     // 상품 존재 여부 및 재고 확인
     const { data: product, error: productError } = await supabase
       .from("products")
-      .select("id, name, stock_quantity")
+      .select(
+        "id, name, stock_quantity, option_names, status, publish_at, unpublish_at",
+      )
       .eq("id", validatedData.product_id)
       .single();
 
@@ -192,22 +258,70 @@ export async function addToCart(productId: number, quantity: number = 1) {
       throw new Error("상품을 찾을 수 없습니다");
     }
 
-    if (product.stock_quantity < validatedData.quantity) {
+    // 공개 중인 상품만 담을 수 있음 (관리자나 주문한 적 있는 고객은 비공개 상품도 조회되므로 직접 확인)
+    const visibility = getProductVisibility(product);
+    if (visibility !== "published") {
+      console.error("공개 중이 아닌 상품:", product.name, visibility);
+      console.groupEnd();
+      throw new Error(
+        visibility === "archived" || visibility === "expired"
+          ? "판매가 종료된 상품입니다"
+          : "아직 판매하지 않는 상품입니다",
+      );
+    }
+
+    // 옵션 상품은 선택한 옵션의 재고로 확인
+    const hasOptions = (product.option_names?.length ?? 0) > 0;
+    let stockQuantity = product.stock_quantity;
+    let itemName = product.name;
+
+    if (hasOptions && !validatedData.variant_id) {
+      console.error("옵션 미선택:", product.name);
+      console.groupEnd();
+      throw new Error("옵션을 선택해주세요");
+    }
+
+    if (validatedData.variant_id) {
+      const { data: variant, error: variantError } = await supabase
+        .from("product_variants")
+        .select("id, options, stock_quantity")
+        .eq("id", validatedData.variant_id)
+        .eq("product_id", validatedData.product_id)
+        .eq("is_active", true)
+        .single();
+
+      if (!hasOptions || variantError || !variant) {
+        console.error("옵션 조회 실패:", variantError);
+        console.groupEnd();
+        throw new Error("선택한 옵션을 찾을 수 없습니다");
+      }
+
+      stockQuantity = variant.stock_quantity;
+      itemName = `${product.name} (${getVariantLabel(variant.options, product.option_names)})`;
+    }
+
+    if (stockQuantity < validatedData.quantity) {
       console.error("재고 부족:", {
         요청수량: validatedData.quantity,
-        재고수량: product.stock_quantity,
+        재고수량: stockQuantity,
       });
       console.groupEnd();
       throw new Error("재고가 부족합니다");
     }
 
-    // 기존 장바구니 아이템 확인
-    const { data: existingItem, error: checkError } = await supabase
+    // 기존 장바구니 아이템 확인 (같은 상품이라도 옵션이 다르면 별도 항목)
+    let existingQuery = supabase
       .from("cart_items")
       .select("id, quantity")
       .eq("user_id", user.id)
-      .eq("product_id", validatedData.product_id)
-      .single();
+      .eq("product_id", validatedData.product_id);
+
+    existingQuery = validatedData.variant_id
+      ? existingQuery.eq("variant_id", validatedData.variant_id)
+      : existingQuery.is("variant_id", null);
+
+    const { data: existingItem, error: checkError } =
+      await existingQuery.single();
 
     if (checkError && checkError.code !== "PGRST116") {
       // PGRST116은 "no rows returned" 에러 (정상적인 경우)
@@ -223,17 +337,15 @@ export async function addToCart(productId: number, quantity: number = 1) {
       const newQuantity = existingItem.quantity + validatedData.quantity;
 
       // 재고 재확인
-      if (newQuantity > product.stock_quantity) {
+      if (newQuantity > stockQuantity) {
         console.error("총 수량이 재고를 초과:", {
           기존수량: existingItem.quantity,
           추가수량: validatedData.quantity,
           총수량: newQuantity,
-          재고수량: product.stock_quantity,
+          재고수량: stockQuantity,
         });
         console.groupEnd();
-        throw new Error(
-          `재고가 부족합니다. 현재 재고: ${product.stock_quantity}개`,
-        );
+        throw new Error(`재고가 부족합니다. 현재 재고: ${stockQuantity}개`);
       }
 
       const { data: updateData, error: updateError } = await supabase
@@ -261,6 +373,7 @@ export async function addToCart(productId: number, quantity: number = 1) {
         .insert({
           user_id: user.id,
           product_id: validatedData.product_id,
+          variant_id: validatedData.variant_id,
           quantity: validatedData.quantity,
         })
         .select()
@@ -276,7 +389,7 @@ export async function addToCart(productId: number, quantity: number = 1) {
       console.log("새 아이템 추가 완료");
     }
 
-    console.log("장바구니 추가 성공:", product.name);
+    console.log("장바구니 추가 성공:", itemName);
     console.groupEnd();
 
     // 관련 페이지 재검증
@@ -285,7 +398,7 @@ export async function addToCart(productId: number, quantity: number = 1) {
 
     return {
       success: true,
-      message: `${product.name}이(가) 장바구니에 추가되었습니다`,
+      message: `${itemName}이(가) 장바구니에 추가되었습니다`,
       cartItem: result,
     };
   } catch (error) {
@@ -338,8 +451,10 @@ export async function updateCartItemQuantity(
         id,
         user_id,
         product_id,
+        variant_id,
         quantity,
-        product:products(stock_quantity, name)
+        product:products(stock_quantity, name),
+        variant:product_variants!cart_items_variant_id_fkey(stock_quantity, is_active)
       `,
       )
       .eq("id", cartItemId)
@@ -359,16 +474,26 @@ export async function updateCartItemQuantity(
       throw new Error("상품 정보를 찾을 수 없습니다");
     }
 
+    // 옵션 상품은 옵션 재고로 확인 (판매 중지된 옵션은 수량을 늘릴 수 없음)
+    const variant = Array.isArray(cartItem.variant)
+      ? cartItem.variant[0]
+      : cartItem.variant;
+    if (cartItem.variant_id && !variant?.is_active) {
+      console.groupEnd();
+      throw new Error("판매가 중지된 옵션입니다");
+    }
+    const stockQuantity = cartItem.variant_id
+      ? variant.stock_quantity
+      : product.stock_quantity;
+
     // 재고 확인
-    if (quantity > product.stock_quantity) {
+    if (quantity > stockQuantity) {
       console.error("재고 초과:", {
         요청수량: quantity,
-        재고수량: product.stock_quantity,
+        재고수량: stockQuantity,
       });
       console.groupEnd();
-      throw new Error(
-        `재고가 부족합니다. 현재 재고: ${product.stock_quantity}개`,
-      );
+      throw new Error(`재고가 부족합니다. 현재 재고: ${stockQuantity}개`);
     }
 
     // 수량 업데이트
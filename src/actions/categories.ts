@@ -0,0 +1,487 @@
+/**
+ * @file categories.ts
+ * @description 상품 카테고리 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 카테고리 목록 조회 (고객 화면은 노출 중인 카테고리만, 관리자 화면은 상품 수 포함)
+ * 2. 카테고리 생성/수정/삭제 (관리자 전용)
+ * 3. 같은 상위 카테고리 안에서 표시 순서 변경 (관리자 전용)
+ *
+ * 카테고리 슬러그를 바꾸면 상품과 쿠폰의 카테고리도 DB 외래 키로 함께 바뀝니다.
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - zod: 데이터 유효성 검사
+ * - @/lib/categories: 카테고리 타입, 아이콘 목록, 트리 계산
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  CATEGORY_ICON_VALUES,
+  DEFAULT_CATEGORY,
+  getCategorySubtree,
+  getVisibleCategories,
+  type Category,
+} from "@/lib/categories";
+
+// 카테고리 생성/수정 스키마
+const CategorySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "카테고리 이름을 입력해주세요")
+    .max(30, "카테고리 이름은 30자 이내로 입력해주세요"),
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .max(50, "슬러그는 50자 이내로 입력해주세요")
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      "슬러그는 영문 소문자, 숫자와 - 조합으로 입력해주세요 (예: running-shoes)",
+    ),
+  parent_id: z.number().int().positive().nullable(),
+  icon: z.enum(CATEGORY_ICON_VALUES).nullable(),
+  is_visible: z.boolean().default(true),
+});
+
+// 카테고리 생성/수정 입력값
+export type CategoryInput = z.input<typeof CategorySchema>;
+
+// 관리자 화면용 카테고리 (직접 지정된 상품 수 포함)
+export type CategoryWithCount = Category & {
+  product_count: number;
+};
+
+// 관리자 카테고리 조회 결과 타입
+type CategoriesForAdminResult =
+  | { success: true; categories: CategoryWithCount[] }
+  | { success: false; error: string };
+
+const CATEGORY_COLUMNS =
+  "id, parent_id, slug, name, icon, sort_order, is_visible";
+
+/**
+ * 현재 사용자가 관리자인지 확인 (아니면 에러)
+ */
+async function requireAdmin(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new Error("로그인이 필요합니다");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    throw new Error("관리자 권한이 필요합니다");
+  }
+
+  return user;
+}
+
+// 카테고리 변경 후 경로 갱신 (카테고리 필터와 상품 화면)
+function revalidateCategoryPaths() {
+  revalidatePath("/");
+  revalidatePath("/admin/categories");
+  revalidatePath("/admin/products");
+}
+
+/**
+ * 카테고리 목록 조회 (표시 순서대로)
+ * @param includeHidden - 숨긴 카테고리도 포함 (관리자 화면, 상품 등록 폼)
+ */
+export async function getCategories(
+  includeHidden: boolean = false,
+): Promise<Category[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("categories")
+    .select(CATEGORY_COLUMNS)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("카테고리 조회 실패:", error);
+    throw new Error("카테고리를 불러오는 중 오류가 발생했습니다.");
+  }
+
+  const categories = (data || []) as Category[];
+  return includeHidden ? categories : getVisibleCategories(categories);
+}
+
+/**
+ * 관리자용 카테고리 목록 조회 (숨긴 카테고리와 카테고리별 상품 수 포함)
+ */
+export async function getCategoriesForAdmin(): Promise<CategoriesForAdminResult> {
+  console.group("🗂️ 관리자 카테고리 목록 조회");
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const [
+      { data: categories, error },
+      { data: products, error: productsError },
+    ] = await Promise.all([
+      supabase
+        .from("categories")
+        .select(CATEGORY_COLUMNS)
+        .order("sort_order", { ascending: true })
+        .order("id", { ascending: true }),
+      supabase.from("products").select("category"),
+    ]);
+
+    if (error || productsError) {
+      console.error("카테고리 목록 조회 실패:", error || productsError);
+      console.groupEnd();
+      return {
+        success: false,
+        error: "카테고리 목록 조회 중 오류가 발생했습니다",
+      };
+    }
+
+    const productCounts = new Map<string, number>();
+    (products || []).forEach(({ category }) => {
+      productCounts.set(category, (productCounts.get(category) ?? 0) + 1);
+    });
+
+    console.log("카테고리 목록:", categories?.length || 0, "개");
+    console.groupEnd();
+
+    return {
+      success: true,
+      categories: ((categories || []) as Category[]).map((category) => ({
+        ...category,
+        product_count: productCounts.get(category.slug) ?? 0,
+      })),
+    };
+  } catch (error) {
+    console.error("관리자 카테고리 목록 조회 오류:", error);
+    console.groupEnd();
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "카테고리 목록 조회 중 오류가 발생했습니다",
+    };
+  }
+}
+
+/**
+ * 카테고리 생성 (관리자 전용, 같은 상위 카테고리의 마지막에 추가)
+ */
+export async function createCategory(input: CategoryInput) {
+  console.group("🗂️ 카테고리 생성");
+
+  try {
+    const validatedData = CategorySchema.parse(input);
+    console.log("카테고리:", validatedData.slug, validatedData.name);
+
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    // 같은 상위 카테고리의 마지막 표시 순서 다음
+    let lastQuery = supabase
+      .from("categories")
+      .select("sort_order")
+      .order("sort_order", { ascending: false })
+      .limit(1);
+    lastQuery =
+      validatedData.parent_id === null
+        ? lastQuery.is("parent_id", null)
+        : lastQuery.eq("parent_id", validatedData.parent_id);
+    const { data: last } = await lastQuery.maybeSingle();
+
+    const { data: category, error } = await supabase
+      .from("categories")
+      .insert({
+        ...validatedData,
+        sort_order: last ? last.sort_order + 1 : 0,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("카테고리 생성 실패:", error);
+      console.groupEnd();
+      // 23505: unique_violation (같은 슬러그의 카테고리가 이미 있음)
+      // 23503: foreign_key_violation (상위 카테고리가 없음)
+      throw new Error(
+        error.code === "23505"
+          ? `이미 사용 중인 슬러그입니다: ${validatedData.slug}`
+          : error.code === "23503"
+            ? "상위 카테고리를 찾을 수 없습니다"
+            : "카테고리 생성 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("카테고리 생성 완료:", category.id);
+    console.groupEnd();
+
+    revalidateCategoryPaths();
+    return { success: true, categoryId: category.id as number };
+  } catch (error) {
+    console.error("카테고리 생성 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 카테고리 수정 (관리자 전용)
+ *
+ * 상위 카테고리를 바꾸면 새 상위 카테고리의 마지막으로 옮깁니다.
+ * 슬러그를 바꾸면 상품과 쿠폰의 카테고리도 함께 바뀝니다.
+ */
+export async function updateCategory(categoryId: number, input: CategoryInput) {
+  console.group("🗂️ 카테고리 수정");
+  console.log("카테고리 ID:", categoryId);
+
+  try {
+    const validatedData = CategorySchema.parse(input);
+
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { data: allCategories, error: fetchError } = await supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS);
+
+    if (fetchError) {
+      console.error("카테고리 조회 실패:", fetchError);
+      console.groupEnd();
+      throw new Error("카테고리 수정 중 오류가 발생했습니다");
+    }
+
+    const categories = (allCategories || []) as Category[];
+    const current = categories.find((category) => category.id === categoryId);
+
+    if (!current) {
+      console.groupEnd();
+      throw new Error("카테고리를 찾을 수 없습니다");
+    }
+
+    if (
+      current.slug === DEFAULT_CATEGORY &&
+      validatedData.slug !== DEFAULT_CATEGORY
+    ) {
+      console.groupEnd();
+      throw new Error(
+        "기본 카테고리의 슬러그는 바꿀 수 없습니다 (카테고리를 고르지 않은 상품에 사용)",
+      );
+    }
+
+    // 자기 자신이나 하위 카테고리 아래로는 옮길 수 없음
+    if (
+      validatedData.parent_id !== null &&
+      getCategorySubtree(categories, categoryId).some(
+        (category) => category.id === validatedData.parent_id,
+      )
+    ) {
+      console.groupEnd();
+      throw new Error(
+        "자기 자신이나 하위 카테고리를 상위 카테고리로 지정할 수 없습니다",
+      );
+    }
+
+    const parentChanged = validatedData.parent_id !== current.parent_id;
+    const sortOrder = parentChanged
+      ? Math.max(
+          -1,
+          ...categories
+            .filter(
+              (category) => category.parent_id === validatedData.parent_id,
+            )
+            .map((category) => category.sort_order),
+        ) + 1
+      : current.sort_order;
+
+    const { error } = await supabase
+      .from("categories")
+      .update({ ...validatedData, sort_order: sortOrder })
+      .eq("id", categoryId);
+
+    if (error) {
+      console.error("카테고리 수정 실패:", error);
+      console.groupEnd();
+      throw new Error(
+        error.code === "23505"
+          ? `이미 사용 중인 슬러그입니다: ${validatedData.slug}`
+          : error.message === "category_cycle"
+            ? "자기 자신이나 하위 카테고리를 상위 카테고리로 지정할 수 없습니다"
+            : "카테고리 수정 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("카테고리 수정 완료");
+    console.groupEnd();
+
+    revalidateCategoryPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("카테고리 수정 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 카테고리 노출/숨김 (관리자 전용, 숨기면 하위 카테고리도 고객 화면에서 빠짐)
+ */
+export async function setCategoryVisible(
+  categoryId: number,
+  isVisible: boolean,
+) {
+  console.group("🗂️ 카테고리 노출 상태 변경");
+  console.log("카테고리 ID:", categoryId, "노출:", isVisible);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { error } = await supabase
+      .from("categories")
+      .update({ is_visible: isVisible })
+      .eq("id", categoryId);
+
+    if (error) {
+      console.error("카테고리 노출 상태 변경 실패:", error);
+      console.groupEnd();
+      throw new Error("카테고리 노출 상태 변경 중 오류가 발생했습니다");
+    }
+
+    console.groupEnd();
+
+    revalidateCategoryPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("카테고리 노출 상태 변경 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 같은 상위 카테고리 안에서 표시 순서 변경 (관리자 전용)
+ * @param orderedIds - 같은 상위 카테고리의 카테고리 ID를 표시할 순서대로
+ */
+export async function reorderCategories(
+  parentId: number | null,
+  orderedIds: number[],
+) {
+  console.group("🗂️ 카테고리 순서 변경");
+  console.log("상위 카테고리 ID:", parentId, "순서:", orderedIds);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    for (const [index, id] of orderedIds.entries()) {
+      let query = supabase
+        .from("categories")
+        .update({ sort_order: index })
+        .eq("id", id);
+      query =
+        parentId === null
+          ? query.is("parent_id", null)
+          : query.eq("parent_id", parentId);
+
+      const { error } = await query;
+
+      if (error) {
+        console.error("카테고리 순서 변경 실패:", id, error);
+        console.groupEnd();
+        throw new Error("카테고리 순서 변경 중 오류가 발생했습니다");
+      }
+    }
+
+    console.groupEnd();
+
+    revalidateCategoryPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("카테고리 순서 변경 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 카테고리 삭제 (관리자 전용)
+ *
+ * 하위 카테고리가 있거나, 상품이나 쿠폰이 쓰는 카테고리는 삭제할 수 없습니다.
+ */
+export async function deleteCategory(categoryId: number) {
+  console.group("🗂️ 카테고리 삭제");
+  console.log("카테고리 ID:", categoryId);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { data: category } = await supabase
+      .from("categories")
+      .select("slug")
+      .eq("id", categoryId)
+      .single();
+
+    if (category?.slug === DEFAULT_CATEGORY) {
+      console.groupEnd();
+      throw new Error(
+        "기본 카테고리는 삭제할 수 없습니다 (카테고리를 고르지 않은 상품에 사용)",
+      );
+    }
+
+    const { error } = await supabase
+      .from("categories")
+      .delete()
+      .eq("id", categoryId);
+
+    if (error) {
+      console.error("카테고리 삭제 실패:", error);
+      console.groupEnd();
+      // 23503: foreign_key_violation (하위 카테고리, 상품, 쿠폰이 참조 중)
+      throw new Error(
+        error.code === "23503"
+          ? "하위 카테고리가 있거나 상품 또는 쿠폰이 사용 중인 카테고리는 삭제할 수 없습니다. 숨김으로 변경해주세요."
+          : "카테고리 삭제 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("카테고리 삭제 완료");
+    console.groupEnd();
+
+    revalidateCategoryPaths();
+    return { success: true };
+  } catch (error) {
+    console.error("카테고리 삭제 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
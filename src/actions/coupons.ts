@@ -0,0 +1,522 @@
+/**
+ * @file coupons.ts
+ * @description 쿠폰 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 관리자용 쿠폰 목록 조회 (사용 횟수 포함)
+ * 2. 쿠폰 생성/수정/사용 중지/삭제 (관리자 전용)
+ * 3. 주문서에서 쿠폰 코드 미리 적용 (할인 금액 확인)
+ *
+ * 쿠폰 사용 기록은 주문 생성 시 create_order DB 함수가 처리합니다. (@/actions/orders의 createOrder)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - zod: 데이터 유효성 검사
+ * - @/lib/coupons: 할인 방식, 적용 범위, 에러 메시지
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  COUPON_DISCOUNT_TYPE_VALUES,
+  COUPON_SCOPE_VALUES,
+  getCouponErrorMessage,
+  type CouponRpcFailure,
+} from "@/lib/coupons";
+
+// 빈 값은 null로, 나머지는 숫자로 변환 (선택 입력 숫자 필드)
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess(
+    (value) =>
+      value === "" || value === null || value === undefined
+        ? null
+        : Number(value),
+    schema.nullable(),
+  );
+
+// 빈 값은 null로 변환 (선택 입력 날짜 필드, ISO 문자열)
+const optionalDateTime = z.preprocess(
+  (value) => (value === "" || value === undefined ? null : value),
+  z
+    .string()
+    .datetime({ offset: true, message: "날짜 형식이 올바르지 않습니다" })
+    .nullable(),
+);
+
+// 쿠폰 생성/수정 스키마
+const CouponSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(
+        /^[A-Z0-9_-]{3,30}$/,
+        "쿠폰 코드는 영문, 숫자, -, _ 조합 3~30자로 입력해주세요",
+      ),
+    name: z
+      .string()
+      .trim()
+      .min(1, "쿠폰 이름을 입력해주세요")
+      .max(50, "쿠폰 이름은 50자 이내로 입력해주세요"),
+    discount_type: z.enum(COUPON_DISCOUNT_TYPE_VALUES),
+    discount_value: z.number().positive("할인 값은 0보다 커야 합니다"),
+    max_discount_amount: optionalNumber(
+      z.number().positive("최대 할인 금액은 0보다 커야 합니다"),
+    ),
+    min_order_amount: z
+      .number()
+      .min(0, "최소 주문 금액은 0원 이상이어야 합니다"),
+    starts_at: optionalDateTime,
+    expires_at: optionalDateTime,
+    usage_limit: optionalNumber(
+      z.number().int().positive("전체 사용 횟수는 1회 이상이어야 합니다"),
+    ),
+    per_user_limit: optionalNumber(
+      z.number().int().positive("1인당 사용 횟수는 1회 이상이어야 합니다"),
+    ),
+    scope: z.enum(COUPON_SCOPE_VALUES),
+    scope_category: z.string().nullable().optional(),
+    scope_product_ids: z.array(z.number().int().positive()).default([]),
+    is_active: z.boolean().default(true),
+  })
+  .superRefine((coupon, ctx) => {
+    if (coupon.discount_type === "percentage" && coupon.discount_value > 100) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["discount_value"],
+        message: "할인율은 100% 이하로 입력해주세요",
+      });
+    }
+    if (
+      coupon.starts_at &&
+      coupon.expires_at &&
+      new Date(coupon.starts_at) >= new Date(coupon.expires_at)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["expires_at"],
+        message: "만료일은 시작일 이후로 입력해주세요",
+      });
+    }
+    // 카테고리가 있는지는 DB 외래 키(coupons_scope_category_fkey)로 확인
+    if (coupon.scope === "category" && !coupon.scope_category?.trim()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["scope_category"],
+        message: "적용할 카테고리를 선택해주세요",
+      });
+    }
+    if (coupon.scope === "product" && coupon.scope_product_ids.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["scope_product_ids"],
+        message: "적용할 상품 ID를 입력해주세요",
+      });
+    }
+  })
+  .transform((coupon) => ({
+    ...coupon,
+    // 정액 할인에는 최대 할인 금액을 쓰지 않음, 적용 범위에 맞지 않는 대상은 비움
+    max_discount_amount:
+      coupon.discount_type === "percentage" ? coupon.max_discount_amount : null,
+    scope_category:
+      coupon.scope === "category" ? (coupon.scope_category ?? null) : null,
+    scope_product_ids:
+      coupon.scope === "product" ? coupon.scope_product_ids : [],
+  }));
+
+// 쿠폰 미리보기 스키마
+const PreviewCouponSchema = z.object({
+  code: z.string().trim().min(1, "쿠폰 코드를 입력해주세요"),
+  items: z
+    .array(
+      z.object({
+        product_id: z.number().int().positive(),
+        variant_id: z.number().int().positive().nullable().optional(), // 옵션 상품의 옵션 (옵션 추가 금액 반영)
+        quantity: z.number().int().min(1),
+      }),
+    )
+    .min(1, "주문할 상품이 없습니다"),
+});
+
+// 쿠폰 생성/수정 입력값 (숫자 선택 필드는 빈 문자열 허용)
+export type CouponInput = z.input<typeof CouponSchema>;
+
+// 쿠폰 타입
+export type Coupon = {
+  id: number;
+  code: string;
+  name: string;
+  discount_type: string;
+  discount_value: number;
+  max_discount_amount: number | null;
+  min_order_amount: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  scope: string;
+  scope_category: string | null;
+  scope_product_ids: number[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  redemption_count: number; // 사용 횟수 (취소된 주문 제외)
+};
+
+// 쿠폰 미리보기 결과 (주문서 표시용, 실제 할인은 주문 생성 시 다시 계산)
+export type CouponPreview =
+  | {
+      success: true;
+      code: string;
+      name: string;
+      discountAmount: number;
+      eligibleAmount: number; // 할인 대상 상품 금액
+    }
+  | { success: false; error: string };
+
+// 관리자 쿠폰 조회 결과 타입
+type CouponsForAdminResult =
+  | { success: true; coupons: Coupon[] }
+  | { success: false; error: string };
+
+// 쿠폰 미리보기 RPC(preview_coupon) 결과 타입
+type PreviewCouponRpcResult =
+  | {
+      success: true;
+      coupon_id: number;
+      code: string;
+      name: string;
+      discount_amount: number;
+      eligible_amount: number;
+    }
+  | CouponRpcFailure;
+
+/**
+ * 현재 사용자가 관리자인지 확인 (아니면 에러)
+ */
+async function requireAdmin(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new Error("로그인이 필요합니다");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    throw new Error("관리자 권한이 필요합니다");
+  }
+
+  return user;
+}
+
+/**
+ * 관리자용 쿠폰 목록 조회
+ */
+export async function getCouponsForAdmin(): Promise<CouponsForAdminResult> {
+  console.group("🎟️ 관리자 쿠폰 목록 조회");
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { data: coupons, error } = await supabase
+      .from("coupons")
+      .select("*, coupon_redemptions(count)")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("쿠폰 목록 조회 실패:", error);
+      console.groupEnd();
+      return { success: false, error: "쿠폰 목록 조회 중 오류가 발생했습니다" };
+    }
+
+    console.log("쿠폰 목록:", coupons?.length || 0, "개");
+    console.groupEnd();
+
+    return {
+      success: true,
+      coupons: (coupons || []).map(({ coupon_redemptions, ...coupon }) => ({
+        ...coupon,
+        redemption_count: coupon_redemptions?.[0]?.count ?? 0,
+      })) as Coupon[],
+    };
+  } catch (error) {
+    console.error("관리자 쿠폰 목록 조회 오류:", error);
+    console.groupEnd();
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "쿠폰 목록 조회 중 오류가 발생했습니다",
+    };
+  }
+}
+
+/**
+ * 쿠폰 생성 (관리자 전용)
+ */
+export async function createCoupon(input: CouponInput) {
+  console.group("🎟️ 쿠폰 생성");
+
+  try {
+    const validatedData = CouponSchema.parse(input);
+    console.log("쿠폰 코드:", validatedData.code);
+
+    const supabase = await createServerSupabaseClient();
+    const user = await requireAdmin(supabase);
+
+    const { data: coupon, error } = await supabase
+      .from("coupons")
+      .insert({ ...validatedData, created_by: user.id })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("쿠폰 생성 실패:", error);
+      console.groupEnd();
+      // 23505: unique_violation (같은 코드의 쿠폰이 이미 있음)
+      // 23503: foreign_key_violation (적용 카테고리가 없음)
+      throw new Error(
+        error.code === "23505"
+          ? `이미 사용 중인 쿠폰 코드입니다: ${validatedData.code}`
+          : error.code === "23503"
+            ? "적용할 카테고리를 찾을 수 없습니다"
+            : "쿠폰 생성 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("쿠폰 생성 완료:", coupon.id);
+    console.groupEnd();
+
+    revalidatePath("/admin/coupons");
+    return { success: true, couponId: coupon.id as number };
+  } catch (error) {
+    console.error("쿠폰 생성 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 쿠폰 수정 (관리자 전용)
+ *
+ * 이미 사용된 쿠폰을 수정해도 기존 주문의 할인 금액은 바뀌지 않습니다.
+ */
+export async function updateCoupon(couponId: number, input: CouponInput) {
+  console.group("🎟️ 쿠폰 수정");
+  console.log("쿠폰 ID:", couponId);
+
+  try {
+    const validatedData = CouponSchema.parse(input);
+
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { error } = await supabase
+      .from("coupons")
+      .update(validatedData)
+      .eq("id", couponId);
+
+    if (error) {
+      console.error("쿠폰 수정 실패:", error);
+      console.groupEnd();
+      throw new Error(
+        error.code === "23505"
+          ? `이미 사용 중인 쿠폰 코드입니다: ${validatedData.code}`
+          : error.code === "23503"
+            ? "적용할 카테고리를 찾을 수 없습니다"
+            : "쿠폰 수정 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("쿠폰 수정 완료");
+    console.groupEnd();
+
+    revalidatePath("/admin/coupons");
+    return { success: true };
+  } catch (error) {
+    console.error("쿠폰 수정 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 쿠폰 사용 중지/재개 (관리자 전용)
+ */
+export async function setCouponActive(couponId: number, isActive: boolean) {
+  console.group("🎟️ 쿠폰 사용 상태 변경");
+  console.log("쿠폰 ID:", couponId, "사용 가능:", isActive);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { error } = await supabase
+      .from("coupons")
+      .update({ is_active: isActive })
+      .eq("id", couponId);
+
+    if (error) {
+      console.error("쿠폰 사용 상태 변경 실패:", error);
+      console.groupEnd();
+      throw new Error("쿠폰 사용 상태 변경 중 오류가 발생했습니다");
+    }
+
+    console.groupEnd();
+
+    revalidatePath("/admin/coupons");
+    return { success: true };
+  } catch (error) {
+    console.error("쿠폰 사용 상태 변경 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 쿠폰 삭제 (관리자 전용, 사용 내역이 없는 쿠폰만)
+ */
+export async function deleteCoupon(couponId: number) {
+  console.group("🎟️ 쿠폰 삭제");
+  console.log("쿠폰 ID:", couponId);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { error } = await supabase
+      .from("coupons")
+      .delete()
+      .eq("id", couponId);
+
+    if (error) {
+      console.error("쿠폰 삭제 실패:", error);
+      console.groupEnd();
+      // 23503: foreign_key_violation (사용 내역이 있는 쿠폰)
+      throw new Error(
+        error.code === "23503"
+          ? "이미 사용된 쿠폰은 삭제할 수 없습니다. 사용 중지로 변경해주세요."
+          : "쿠폰 삭제 중 오류가 발생했습니다",
+      );
+    }
+
+    console.log("쿠폰 삭제 완료");
+    console.groupEnd();
+
+    revalidatePath("/admin/coupons");
+    return { success: true };
+  } catch (error) {
+    console.error("쿠폰 삭제 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 주문서에서 쿠폰 코드 미리 적용 (할인 금액 확인용)
+ *
+ * 실제 할인은 주문 생성 시 create_order DB 함수가 같은 규칙으로 다시 계산하고 사용 내역을 기록합니다.
+ */
+export async function previewCoupon(input: {
+  code: string;
+  items: Array<{
+    product_id: number;
+    variant_id?: number | null;
+    quantity: number;
+  }>;
+}): Promise<CouponPreview> {
+  console.group("🎟️ 쿠폰 미리보기");
+
+  try {
+    const validatedData = PreviewCouponSchema.parse(input);
+    console.log(
+      "쿠폰 코드:",
+      validatedData.code,
+      "상품 수:",
+      validatedData.items.length,
+    );
+
+    const supabase = await createServerSupabaseClient();
+
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "preview_coupon",
+      {
+        p_code: validatedData.code,
+        p_items: validatedData.items,
+      },
+    );
+
+    if (rpcError || !rpcResult) {
+      console.error("쿠폰 미리보기 실패:", rpcError);
+      console.groupEnd();
+      return { success: false, error: "쿠폰 적용 중 오류가 발생했습니다" };
+    }
+
+    const result = rpcResult as PreviewCouponRpcResult;
+
+    if (!result.success) {
+      const failure = result as CouponRpcFailure;
+      console.warn("쿠폰 적용 불가:", failure);
+      console.groupEnd();
+      return { success: false, error: getCouponErrorMessage(failure) };
+    }
+
+    console.log(
+      "쿠폰 적용 가능:",
+      result.code,
+      "할인:",
+      result.discount_amount,
+    );
+    console.groupEnd();
+
+    return {
+      success: true,
+      code: result.code,
+      name: result.name,
+      discountAmount: Number(result.discount_amount),
+      eligibleAmount: Number(result.eligible_amount),
+    };
+  } catch (error) {
+    console.error("쿠폰 미리보기 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "쿠폰 적용 중 오류가 발생했습니다",
+    };
+  }
+}
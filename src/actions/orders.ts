@@ -8,20 +8,47 @@
  * 3. 개별 주문 상세 조회
  * 4. 관리자용 전체 주문 조회
  * 5. 주문 상태 변경 (관리자 전용)
+ * 6. 주문 취소 (배송 전 주문, 재고 복구)
  *
  * @dependencies
- * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
- * - @/actions/cart: 장바구니 관련 함수
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트 (주문 생성은 서비스 롤 클라이언트)
  * - zod: 데이터 유효성 검사
+ * - @/constants/order-status: 주문 상태 목록과 전이 규칙
+ * - @/lib/payments: 결제 대행사 선택 (주문 전 결제 가능 여부 확인)
+ * - @/lib/payments/service: 결제 승인/매입 및 취소 시 환불
+ * - @/lib/shipping: 배송비 계산
+ * - @/lib/coupons: 쿠폰 적용 실패 메시지
+ * - @/lib/points: 적립금 사용 실패 메시지
+ * - @/lib/variants: 옵션 판매가(세일가 + 옵션 추가 금액)와 옵션 라벨
  */
 
 "use server";
 
-import { createServerSupabaseClient } from "@/utils/supabase/server";
-import { clearCart } from "@/actions/cart";
+import {
+  createServerSupabaseAdminClient,
+  createServerSupabaseClient,
+} from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { z } from "zod";
+import { getPaymentProvider } from "@/lib/payments";
+import { payForOrder, cancelOrderPayments } from "@/lib/payments/service";
+import { calculateShippingFee } from "@/lib/shipping";
+import { getVariantLabel, getVariantPrice } from "@/lib/variants";
+import {
+  getCouponErrorMessage,
+  isCouponErrorCode,
+  type CouponRpcFailure,
+} from "@/lib/coupons";
+import {
+  getPointErrorMessage,
+  isPointErrorCode,
+  type PointRpcFailure,
+} from "@/lib/points";
+import {
+  ORDER_STATUS_VALUES,
+  getOrderStatusLabel,
+} from "@/constants/order-status";
 
 // 주문 생성 스키마
 const CreateOrderSchema = z.object({
@@ -37,16 +64,31 @@ const CreateOrderSchema = z.object({
     .string()
     .min(5, "상세한 주소를 입력해주세요")
     .max(200, "주소는 200자 이내로 입력해주세요"),
+  customerPostcode: z
+    .string()
+    .regex(/^\d{5}$/, "우편번호 5자리를 입력해주세요"),
+  idempotencyKey: z.string().uuid("주문서 정보가 올바르지 않습니다").optional(),
+  couponCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .max(30, "쿠폰 코드가 올바르지 않습니다")
+    .optional(),
+  pointsToUse: z
+    .number()
+    .int("적립금은 원 단위로 입력해주세요")
+    .min(0, "적립금 금액이 올바르지 않습니다")
+    .default(0),
 });
 
 // 주문 상태 스키마
-const OrderStatusSchema = z.enum([
-  "pending",
-  "confirmed",
-  "shipping",
-  "delivered",
-  "cancelled",
-]);
+const OrderStatusSchema = z.enum(ORDER_STATUS_VALUES);
+
+// 상태 변경 사유 스키마
+const StatusReasonSchema = z
+  .string()
+  .max(200, "변경 사유는 200자 이내로 입력해주세요")
+  .optional();
 
 // 주문 타입 정의
 export type Order = {
@@ -55,9 +97,15 @@ export type Order = {
   status: string;
   total_amount: number;
   created_at: string;
-  customer_name?: string;
-  customer_phone?: string;
-  customer_address?: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_address: string | null;
+  customer_postcode: string | null;
+  shipping_fee: number;
+  coupon_code: string | null; // 적용한 쿠폰 코드
+  discount_amount: number; // 쿠폰 할인 금액 (total_amount에서 차감됨)
+  points_used: number; // 사용한 적립금 (total_amount에서 차감됨)
+  points_earned: number; // 배송 완료로 적립한 적립금
 };
 
 export type OrderWithItems = Order & {
@@ -66,14 +114,130 @@ export type OrderWithItems = Order & {
     product_id: number;
     quantity: number;
     price_at_time: number;
+    variant_id: number | null; // 주문한 옵션 (옵션 없는 상품이거나 옵션이 삭제되면 null)
+    variant_label: string | null; // 주문 당시 옵션 라벨 (예: "사이즈: M / 색상: 블랙")
+    sku: string | null; // 주문 당시 옵션 SKU
     product: {
       id: number;
       name: string;
       image_url: string | null;
     };
   }>;
+  returns?: Array<{ id: number; status: string }>; // 반품 신청 내역 (주문 목록에서만 조회)
+  status_history?: OrderStatusEvent[]; // 상태 변경 이력 (고객 주문 조회에서만 조회, 시간순)
+};
+
+// 주문 상태 변경 이력 (order_status_history)
+export type OrderStatusEvent = {
+  id: number;
+  from_status: string | null; // 주문 생성 시에는 null
+  to_status: string;
+  reason: string | null;
+  created_at: string;
+};
+
+// 주문 중 가격이 바뀐 상품 정보
+export type PriceChange = {
+  product_id: number;
+  product_name: string;
+  variant_id?: number | null; // 옵션 상품의 옵션 ID
+  variant_label?: string | null; // 옵션 라벨
+  quantity: number;
+  old_price: number; // 고객이 확인한 단가
+  new_price: number; // 현재 단가
+};
+
+// 가격 변동으로 주문이 보류된 경우의 응답 (주문 성공 시에는 주문 완료 페이지로 리다이렉트)
+export type CreateOrderPriceChanged = {
+  success: false;
+  code: "price_changed";
+  message: string;
+  priceChanges: PriceChange[];
+  totalAmount: number; // 현재 가격 기준 상품 총액
+};
+
+// 결제 실패로 주문이 취소된 경우의 응답 (새 주문서로 다시 시도해야 함)
+export type CreateOrderPaymentFailed = {
+  success: false;
+  code: "payment_failed";
+  message: string;
+};
+
+// 주문 생성 RPC(create_order) 실패 결과 타입
+type CreateOrderRpcFailure = {
+  success: false;
+  error_code:
+    | "unauthenticated"
+    | "empty_items"
+    | "invalid_shipping_info"
+    | "invalid_quantity"
+    | "product_not_found"
+    | "variant_required"
+    | "variant_not_found"
+    | "insufficient_stock"
+    | "price_changed"
+    | `coupon_${string}` // 쿠폰 적용 실패 (@/lib/coupons의 getCouponErrorMessage로 변환)
+    | `points_${string}`; // 적립금 사용 실패 (@/lib/points의 getPointErrorMessage로 변환)
+  product_id?: number;
+  product_name?: string;
+  variant_id?: number | null;
+  variant_label?: string | null;
+  available?: number;
+  old_price?: number;
+  new_price?: number;
+};
+
+// 주문 생성 RPC(create_order) 결과 타입
+type CreateOrderRpcResult =
+  | {
+      success: true;
+      order_id: number;
+      total_amount: number;
+      discount_amount?: number; // 쿠폰 할인 금액
+      points_used?: number; // 사용한 적립금
+      duplicate?: boolean; // 같은 멱등성 키로 이미 생성된 주문
+    }
+  | CreateOrderRpcFailure;
+
+// 주문 상태 변경 RPC(change_order_status) 실패 결과 타입
+type ChangeOrderStatusRpcFailure = {
+  success: false;
+  error_code:
+    | "unauthenticated"
+    | "forbidden"
+    | "order_not_found"
+    | "invalid_status"
+    | "invalid_status_transition";
+  from?: string;
+  to?: string;
+};
+
+// 주문 상태 변경 RPC(change_order_status) 결과 타입
+type ChangeOrderStatusRpcResult =
+  | {
+      success: true;
+      order_id: number;
+      from_status: string;
+      to_status: string;
+    }
+  | ChangeOrderStatusRpcFailure;
+
+// 주문 취소 RPC(cancel_order) 실패 결과 타입
+type CancelOrderRpcFailure = {
+  success: false;
+  error_code: "unauthenticated" | "order_not_found" | "not_cancellable";
+  status?: string;
 };
 
+// 주문 취소 RPC(cancel_order) 결과 타입
+type CancelOrderRpcResult =
+  | {
+      success: true;
+      order_id: number;
+      from_status: string;
+    }
+  | CancelOrderRpcFailure;
+
 // 관리자 주문 조회 결과 타입
 type OrdersWithProfilesResult =
   | {
@@ -88,10 +252,150 @@ type OrdersWithProfilesResult =
       error: string;
     };
 
+/**
+ * 주문 생성 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getCreateOrderErrorMessage(result: CreateOrderRpcFailure): string {
+  if (isCouponErrorCode(result.error_code)) {
+    return getCouponErrorMessage(result as CouponRpcFailure);
+  }
+
+  if (isPointErrorCode(result.error_code)) {
+    return getPointErrorMessage(result as PointRpcFailure);
+  }
+
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "empty_items":
+      return "구매할 상품이 없습니다";
+    case "invalid_shipping_info":
+      return "배송 정보를 모두 입력해주세요";
+    case "invalid_quantity":
+      return "주문 수량이 올바르지 않습니다";
+    case "product_not_found":
+      return `상품을 찾을 수 없습니다 (ID: ${result.product_id})`;
+    case "variant_required":
+      return `${result.product_name}의 옵션을 선택해주세요`;
+    case "variant_not_found":
+      return "선택한 옵션을 찾을 수 없습니다. 판매가 중지되었거나 삭제된 옵션입니다";
+    case "insufficient_stock":
+      return result.variant_label
+        ? `${result.product_name} (${result.variant_label})의 재고가 부족합니다 (재고: ${result.available}개)`
+        : `${result.product_name}의 재고가 부족합니다 (재고: ${result.available}개)`;
+    case "price_changed":
+      return `${result.product_name}의 가격이 변경되었습니다`;
+    default:
+      return "주문 생성 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 주문 상태 변경 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getChangeOrderStatusErrorMessage(
+  result: ChangeOrderStatusRpcFailure,
+): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "forbidden":
+      return "관리자 권한이 필요합니다";
+    case "order_not_found":
+      return "주문을 찾을 수 없습니다";
+    case "invalid_status":
+      return `유효하지 않은 주문 상태: ${result.to}`;
+    case "invalid_status_transition":
+      return `'${getOrderStatusLabel(result.from)}' 상태에서 '${getOrderStatusLabel(result.to)}' 상태로 변경할 수 없습니다`;
+    default:
+      return "주문 상태 변경 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 주문 취소 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getCancelOrderErrorMessage(result: CancelOrderRpcFailure): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "order_not_found":
+      return "주문을 찾을 수 없습니다";
+    case "not_cancellable":
+      return `'${getOrderStatusLabel(result.status)}' 상태의 주문은 취소할 수 없습니다. 배송이 시작된 주문은 고객센터로 문의해주세요.`;
+    default:
+      return "주문 취소 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 주문 상태 변경 이력을 시간순으로 정렬 (임베디드 조회 결과는 순서가 보장되지 않음)
+ */
+function sortStatusHistory(
+  history: OrderStatusEvent[] | null | undefined,
+): OrderStatusEvent[] {
+  return [...(history || [])].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  );
+}
+
+// 같은 멱등성 키로 이미 만들어진 주문의 결제 상태
+// paid: 결제 기록이 있거나 이미 처리가 진행된 주문 / unpaid: 결제 전 주문 (결제를 다시 시도) / cancelled: 결제되지 않고 취소된 주문
+type ExistingOrderPaymentState = "paid" | "unpaid" | "cancelled";
+
+/**
+ * 이미 만들어진 주문의 결제 상태 확인 (재제출 시 결제를 건너뛸지 판단)
+ */
+async function getExistingOrderPaymentState(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  orderId: number,
+): Promise<ExistingOrderPaymentState> {
+  const [{ data: order, error: orderError }, { data: payments, error }] =
+    await Promise.all([
+      supabase.from("orders").select("status").eq("id", orderId).single(),
+      supabase
+        .from("payments")
+        .select("id")
+        .eq("order_id", orderId)
+        .in("status", [
+          "authorized",
+          "captured",
+          "partially_refunded",
+          "refunded",
+        ])
+        .limit(1),
+    ]);
+
+  if (orderError || !order || error) {
+    console.error("기존 주문 결제 조회 실패:", orderError || error);
+    throw new Error("주문 결제 정보를 확인하는 중 오류가 발생했습니다");
+  }
+
+  if ((payments?.length ?? 0) > 0) return "paid";
+  if (order.status === "pending") return "unpaid";
+  if (order.status === "cancelled") return "cancelled";
+
+  // 결제 기록 없이 배송 단계로 넘어간 주문 (결제 기능 도입 이전 주문 등)
+  return "paid";
+}
+
 /**
  * 주문 생성 (장바구니에서 주문으로 변환 또는 바로 구매)
+ *
+ * 재고 차감과 주문 저장은 create_order DB 함수에서 하나의 트랜잭션으로 처리됩니다.
+ * create_order는 서비스 롤로만 실행할 수 있으므로 결제를 거치지 않고 브라우저에서 직접 주문을 만들 수 없습니다.
+ * 주문 금액은 항상 서버에서 products.price(옵션 상품은 옵션 추가 금액 포함)와 배송비 규칙(@/lib/shipping, create_order의 order_shipping_fee)으로 다시 계산하며, 고객이 본 가격과 다르면
+ * 주문하지 않고 가격 변동 내역(CreateOrderPriceChanged)을 반환합니다.
+ * 주문서의 멱등성 키(idempotency_key)가 같은 제출은 새 주문을 만들지 않고 기존 주문으로 이동합니다.
+ * 쿠폰 코드(coupon_code)가 있으면 create_order DB 함수가 적용 조건을 확인하고 할인 금액과 사용 내역을 함께 저장합니다.
+ * 사용할 적립금(points_to_use)은 create_order DB 함수가 잔액과 주문당 사용 한도를 확인한 뒤 차감합니다.
+ * 주문 생성 후 결제 대행사로 결제(승인 → 매입)하며, 결제에 실패하면 주문을 취소하고 재고를 되돌립니다.
+ * 같은 주문서의 재제출은 기존 주문이 결제되었을 때만 결제를 건너뛰고, 결제 전 주문이면 결제를 다시 시도합니다.
  */
-export async function createOrder(formData: FormData) {
+export async function createOrder(
+  formData: FormData,
+): Promise<CreateOrderPriceChanged | CreateOrderPaymentFailed | void> {
   console.group("📦 주문 생성");
 
   try {
@@ -99,11 +403,16 @@ export async function createOrder(formData: FormData) {
     const customerName = formData.get("customerName") as string;
     const customerPhone = formData.get("customerPhone") as string;
     const customerAddress = formData.get("customerAddress") as string;
+    const customerPostcode = formData.get("customerPostcode") as string;
     const isDirectPurchase = formData.get("is_direct_purchase") === "true";
     const directPurchaseDataRaw = formData.get(
       "direct_purchase_data",
     ) as string;
     const cartDataRaw = formData.get("cart_data") as string;
+    const idempotencyKey =
+      (formData.get("idempotency_key") as string) || undefined;
+    const couponCode = (formData.get("coupon_code") as string) || undefined;
+    const pointsToUse = Number(formData.get("points_to_use") || 0);
 
     console.log("🔍 받은 폼 데이터:", {
       customerName: customerName?.substring(0, 10) + "...",
@@ -112,6 +421,7 @@ export async function createOrder(formData: FormData) {
       hasCartData: !!cartDataRaw,
       directDataLength: directPurchaseDataRaw?.length || 0,
       cartDataLength: cartDataRaw?.length || 0,
+      idempotencyKey,
     });
 
     // 입력값 검증
@@ -119,6 +429,10 @@ export async function createOrder(formData: FormData) {
       customerName,
       customerPhone,
       customerAddress,
+      customerPostcode,
+      idempotencyKey,
+      couponCode,
+      pointsToUse,
     });
 
     console.log("주문자 정보:", validatedData);
@@ -140,82 +454,95 @@ export async function createOrder(formData: FormData) {
 
     console.log("사용자 ID:", user.id);
 
-    const orderItems: Array<{
+    // 결제 대행사를 쓸 수 없으면 주문을 만들기 전에 중단 (재고, 쿠폰, 적립금만 쓰이고 결제되지 않는 주문 방지)
+    try {
+      getPaymentProvider();
+    } catch (providerError) {
+      console.error("결제 대행사 설정 오류:", providerError);
+      console.groupEnd();
+      throw new Error(
+        "지금은 결제를 진행할 수 없습니다. 잠시 후 다시 시도해주세요",
+      );
+    }
+
+    // 같은 주문서로 이미 주문했다면 (재시도, 다른 탭에서 중복 제출) 결제된 주문은 기존 주문으로 이동
+    // 결제 전 주문은 아래 create_order가 기존 주문을 돌려주므로 이어서 결제를 다시 시도합니다.
+    if (validatedData.idempotencyKey) {
+      const { data: existingOrder } = await supabase
+        .from("orders")
+        .select("id")
+        .eq("user_id", user.id)
+        .eq("idempotency_key", validatedData.idempotencyKey)
+        .maybeSingle();
+
+      if (existingOrder) {
+        const paymentState = await getExistingOrderPaymentState(
+          supabase,
+          existingOrder.id,
+        );
+        console.log(
+          "🔁 이미 처리된 주문서 제출:",
+          existingOrder.id,
+          paymentState,
+        );
+
+        if (paymentState === "paid") {
+          console.groupEnd();
+          redirect(`/order-success/${existingOrder.id}`);
+        }
+
+        if (paymentState === "cancelled") {
+          console.groupEnd();
+          return {
+            success: false,
+            code: "payment_failed",
+            message: "결제되지 않아 취소된 주문입니다. 다시 주문해주세요.",
+          };
+        }
+      }
+    }
+
+    // 클라이언트가 보낸 주문 항목 (수량과 화면에 표시된 단가만 사용, 총액은 신뢰하지 않음)
+    let requestedItems: Array<{
       product_id: number;
+      variant_id: number | null;
       quantity: number;
-      price_at_time: number;
-      product_name: string;
+      price: number;
     }> = [];
-    let totalAmount = 0;
 
     if (isDirectPurchase && directPurchaseDataRaw) {
       // 바로 구매 모드
       console.log("바로 구매 데이터 처리");
 
+      let directPurchaseData;
       try {
-        const directPurchaseData = JSON.parse(directPurchaseDataRaw);
-
-        if (
-          !directPurchaseData.items ||
-          directPurchaseData.items.length === 0
-        ) {
-          console.error("바로 구매 데이터가 비어있음");
-          console.groupEnd();
-          throw new Error("구매할 상품이 없습니다");
-        }
-
-        totalAmount = directPurchaseData.total_amount;
-        console.log("바로 구매 아이템:", directPurchaseData.items.length, "개");
-        console.log("총 주문 금액:", totalAmount, "원");
-
-        // 바로 구매 아이템들의 재고 검증 및 데이터 준비
-        for (const item of directPurchaseData.items) {
-          // 상품 정보 조회 (재고 검증용)
-          const { data: product, error: productError } = await supabase
-            .from("products")
-            .select("id, name, stock_quantity, price")
-            .eq("id", item.product_id)
-            .single();
-
-          if (productError || !product) {
-            console.error("상품 조회 실패:", item.product_id, productError);
-            console.groupEnd();
-            throw new Error(`상품을 찾을 수 없습니다 (ID: ${item.product_id})`);
-          }
-
-          // 재고 검증
-          if (product.stock_quantity < item.quantity) {
-            console.error("재고 부족:", product.name, {
-              요청수량: item.quantity,
-              재고수량: product.stock_quantity,
-            });
-            console.groupEnd();
-            throw new Error(
-              `${product.name}의 재고가 부족합니다 (재고: ${product.stock_quantity}개)`,
-            );
-          }
-
-          // 가격 검증 (세션 데이터의 가격과 현재 가격 비교)
-          if (product.price !== item.price) {
-            console.warn("가격 변동 감지:", product.name, {
-              세션가격: item.price,
-              현재가격: product.price,
-            });
-            // 실제 서비스에서는 사용자에게 알리고 확인받는 것이 좋음
-          }
-
-          orderItems.push({
-            product_id: item.product_id,
-            quantity: item.quantity,
-            price_at_time: product.price, // 현재 가격 사용
-            product_name: product.name,
-          });
-        }
+        directPurchaseData = JSON.parse(directPurchaseDataRaw);
       } catch (parseError) {
         console.error("바로 구매 데이터 파싱 오류:", parseError);
         console.groupEnd();
         throw new Error("구매 데이터가 유효하지 않습니다");
       }
+
+      if (!directPurchaseData.items || directPurchaseData.items.length === 0) {
+        console.error("바로 구매 데이터가 비어있음");
+        console.groupEnd();
+        throw new Error("구매할 상품이 없습니다");
+      }
+
+      requestedItems = directPurchaseData.items.map(
+        (item: {
+          product_id: number;
+          variant_id?: number | null;
+          quantity: number;
+          price: number;
+        }) => ({
+          product_id: item.product_id,
+          variant_id: item.variant_id ?? null,
+          quantity: item.quantity,
+          price: item.price,
+        }),
+      );
+      console.log("바로 구매 아이템:", requestedItems.length, "개");
     } else {
       // 기존 장바구니 모드
       console.log("장바구니 데이터 처리");
@@ -234,7 +561,6 @@ export async function createOrder(formData: FormData) {
         cartData = JSON.parse(cartDataRaw);
         console.log("✅ 클라이언트 장바구니 데이터 파싱 성공:", {
           itemsCount: cartData.items?.length || 0,
-          totalAmount: cartData.totalAmount,
           timestamp: cartData.timestamp,
         });
       } catch (parseError) {
@@ -265,172 +591,314 @@ export async function createOrder(formData: FormData) {
         );
       }
 
-      totalAmount = cartData.totalAmount;
-      console.log("장바구니 아이템:", cartData.items.length, "개");
-      console.log("총 주문 금액:", totalAmount, "원");
+      requestedItems = cartData.items.map(
+        (item: {
+          product: { id: number; price: number };
+          variant_id?: number | null;
+          quantity: number;
+        }) => ({
+          product_id: item.product.id,
+          variant_id: item.variant_id ?? null,
+          quantity: item.quantity,
+          price: item.product.price,
+        }),
+      );
+      console.log("장바구니 아이템:", requestedItems.length, "개");
+    }
+
+    const orderItems: Array<{
+      product_id: number;
+      variant_id: number | null;
+      quantity: number;
+      price_at_time: number;
+      product_name: string;
+      variant_label: string | null;
+      shipping_class: string;
+    }> = [];
+    const priceChanges: PriceChange[] = [];
+    let totalAmount = 0;
+
+    // 재고 검증 및 서버 가격으로 주문 아이템 데이터 준비
+    for (const item of requestedItems) {
+      // 상품 정보 다시 조회하여 최신 데이터 사용
+      const { data: product, error: productError } = await supabase
+        .from("products")
+        .select(
+          "id, name, price, sale_price, sale_starts_at, sale_ends_at, stock_quantity, shipping_class, option_names",
+        )
+        .eq("id", item.product_id)
+        .single();
 
-      // 실제 상품 가격으로 총액 재계산 (가격 변동 고려)
-      let recalculatedTotal = 0;
+      if (productError || !product) {
+        console.error("상품 조회 실패:", item.product_id, productError);
+        console.groupEnd();
+        throw new Error(`상품을 찾을 수 없습니다 (ID: ${item.product_id})`);
+      }
 
-      // 재고 검증 및 주문 아이템 데이터 준비
-      for (const item of cartData.items) {
-        // 상품 정보 다시 조회하여 최신 데이터 사용
-        const { data: product, error: productError } = await supabase
-          .from("products")
-          .select("id, name, price, stock_quantity")
-          .eq("id", item.product.id)
+      // 옵션 상품은 선택한 옵션의 재고와 추가 금액 사용
+      let variant: {
+        id: number;
+        options: Record<string, string>;
+        price_delta: number;
+        stock_quantity: number;
+      } | null = null;
+
+      if (item.variant_id) {
+        const { data: variantData, error: variantError } = await supabase
+          .from("product_variants")
+          .select("id, options, price_delta, stock_quantity")
+          .eq("id", item.variant_id)
+          .eq("product_id", product.id)
+          .eq("is_active", true)
           .single();
 
-        if (productError || !product) {
-          console.error("상품 조회 실패:", item.product.id, productError);
+        if (variantError || !variantData) {
+          console.error("옵션 조회 실패:", item.variant_id, variantError);
           console.groupEnd();
           throw new Error(
-            `상품을 찾을 수 없습니다: ${item.product.name || item.product.id}`,
+            `${product.name}의 선택한 옵션을 찾을 수 없습니다. 판매가 중지되었거나 삭제된 옵션입니다`,
           );
         }
 
-        // 재고 검증
-        if (product.stock_quantity < item.quantity) {
-          console.error("재고 부족:", product.name, {
-            요청수량: item.quantity,
-            재고수량: product.stock_quantity,
-          });
-          console.groupEnd();
-          throw new Error(
-            `${product.name}의 재고가 부족합니다 (재고: ${product.stock_quantity}개)`,
-          );
-        }
+        variant = {
+          ...variantData,
+          price_delta: Number(variantData.price_delta),
+        };
+      } else if ((product.option_names?.length ?? 0) > 0) {
+        console.error("옵션 미선택:", product.name);
+        console.groupEnd();
+        throw new Error(`${product.name}의 옵션을 선택해주세요`);
+      }
 
-        // 가격 변동 확인
-        if (product.price !== item.product.price) {
-          console.warn("가격 변동 감지:", product.name, {
-            장바구니가격: item.product.price,
-            현재가격: product.price,
-          });
-          // 실제 서비스에서는 사용자에게 알리고 확인받는 것이 좋음
-        }
+      const variantLabel = variant
+        ? getVariantLabel(variant.options, product.option_names)
+        : null;
+      const itemName = variantLabel
+        ? `${product.name} (${variantLabel})`
+        : product.name;
+      const stockQuantity = variant
+        ? variant.stock_quantity
+        : product.stock_quantity;
+
+      // 재고 검증
+      if (stockQuantity < item.quantity) {
+        console.error("재고 부족:", itemName, {
+          요청수량: item.quantity,
+          재고수량: stockQuantity,
+        });
+        console.groupEnd();
+        throw new Error(
+          `${itemName}의 재고가 부족합니다 (재고: ${stockQuantity}개)`,
+        );
+      }
 
-        orderItems.push({
+      // 가격 변동 확인 (화면에 표시된 가격과 현재 판매가 비교, 세일 시작/종료와 옵션 추가 금액 포함)
+      const currentPrice = getVariantPrice(product, variant);
+      if (currentPrice !== item.price) {
+        console.warn("가격 변동 감지:", itemName, {
+          표시가격: item.price,
+          현재가격: currentPrice,
+        });
+        priceChanges.push({
           product_id: product.id,
-          quantity: item.quantity,
-          price_at_time: product.price, // 현재 가격 사용
           product_name: product.name,
+          variant_id: variant?.id ?? null,
+          variant_label: variantLabel,
+          quantity: item.quantity,
+          old_price: item.price,
+          new_price: currentPrice,
         });
-
-        recalculatedTotal += product.price * item.quantity;
       }
 
-      // 총액 검증
-      if (Math.abs(recalculatedTotal - totalAmount) > 1) {
-        console.warn("💰 총액 불일치 감지:", {
-          클라이언트총액: totalAmount,
-          재계산총액: recalculatedTotal,
-          차이: Math.abs(recalculatedTotal - totalAmount),
-        });
-
-        // 차이가 크면 에러, 작으면 서버 가격 사용
-        if (Math.abs(recalculatedTotal - totalAmount) > totalAmount * 0.1) {
-          console.groupEnd();
-          throw new Error(
-            "상품 가격이 변동되었습니다. 장바구니를 새로고침하고 다시 시도해주세요.",
-          );
-        } else {
-          totalAmount = recalculatedTotal; // 서버 가격으로 업데이트
-          console.log("✅ 서버 가격으로 총액 업데이트:", totalAmount);
-        }
-      }
+      orderItems.push({
+        product_id: product.id,
+        variant_id: variant?.id ?? null,
+        quantity: item.quantity,
+        price_at_time: currentPrice, // 현재 판매가 사용
+        product_name: product.name,
+        variant_label: variantLabel,
+        shipping_class: product.shipping_class,
+      });
+
+      totalAmount += currentPrice * item.quantity;
     }
 
-    // Supabase 트랜잭션으로 주문 처리
-    const { data: order, error: orderError } = await supabase
-      .from("orders")
-      .insert({
-        user_id: user.id,
-        status: "pending",
-        total_amount: totalAmount,
-        // 주문자 정보는 별도 테이블로 분리하는 것이 좋지만, 현재는 간단히 구현
-      })
-      .select()
-      .single();
+    // 배송비 계산 (상품 배송 유형 + 배송지 우편번호, 주문에 저장되는 배송비는 create_order가 같은 규칙으로 다시 계산)
+    const shipping = calculateShippingFee(
+      orderItems.map((item) => ({
+        price: item.price_at_time,
+        quantity: item.quantity,
+        shippingClass: item.shipping_class,
+      })),
+      validatedData.customerPostcode,
+    );
+
+    console.log("서버 계산 총액:", totalAmount, "원", {
+      배송비: shipping.total,
+      추가배송지역: shipping.remoteArea,
+    });
 
-    if (orderError || !order) {
-      console.error("주문 생성 실패:", orderError);
+    // 가격이 바뀐 상품이 있으면 주문하지 않고 변경 내역을 돌려보내 다시 확인받음
+    if (priceChanges.length > 0) {
+      console.warn("💰 가격 변동으로 주문 보류:", priceChanges);
       console.groupEnd();
-      throw new Error("주문 생성 중 오류가 발생했습니다");
+      return {
+        success: false,
+        code: "price_changed",
+        message:
+          "주문하신 상품의 가격이 변경되었습니다. 변경된 가격을 확인해주세요.",
+        priceChanges,
+        totalAmount,
+      };
     }
 
-    console.log("주문 생성 완료:", order.id);
+    // 재고 확인/차감, 주문 저장, 장바구니 비우기를 DB 함수 하나로 처리 (단일 트랜잭션)
+    // unit_price: 고객이 확인한 단가. 그 사이 가격이 바뀌면 DB 함수가 주문을 거부합니다.
+    // create_order는 결제와 함께 처리해야 하므로 서비스 롤로만 호출할 수 있고, 주문자는 직접 전달합니다.
+    const adminSupabase = await createServerSupabaseAdminClient();
+    const { data: rpcResult, error: rpcError } = await adminSupabase.rpc(
+      "create_order",
+      {
+        p_user_id: user.id,
+        p_items: orderItems.map((item) => ({
+          product_id: item.product_id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+          unit_price: item.price_at_time,
+        })),
+        p_customer_name: validatedData.customerName,
+        p_customer_phone: validatedData.customerPhone,
+        p_customer_address: validatedData.customerAddress,
+        p_clear_cart: !isDirectPurchase,
+        p_idempotency_key: validatedData.idempotencyKey ?? null,
+        p_customer_postcode: validatedData.customerPostcode,
+        p_coupon_code: validatedData.couponCode || null,
+        p_points_to_use: validatedData.pointsToUse,
+      },
+    );
 
-    // 주문 상품 정보 저장
-    const orderItemsForDB = orderItems.map((item) => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      price_at_time: item.price_at_time,
-    }));
+    if (rpcError || !rpcResult) {
+      console.error("주문 생성 실패:", rpcError);
+      console.groupEnd();
+      throw new Error("주문 생성 중 오류가 발생했습니다");
+    }
 
-    const { error: orderItemsError } = await supabase
-      .from("order_items")
-      .insert(orderItemsForDB);
+    const result = rpcResult as CreateOrderRpcResult;
 
-    if (orderItemsError) {
-      console.error("주문 상품 저장 실패:", orderItemsError);
+    if (!result.success) {
+      const failure = result as CreateOrderRpcFailure;
+      console.error("주문 생성 거부:", failure);
+      console.groupEnd();
 
-      // 주문 취소 (롤백)
-      await supabase.from("orders").delete().eq("id", order.id);
+      // 검증과 주문 사이에 가격이 바뀐 경우에도 같은 형태로 다시 확인받음
+      if (failure.error_code === "price_changed") {
+        const changedItem = orderItems.find(
+          (item) =>
+            item.product_id === failure.product_id &&
+            item.variant_id === (failure.variant_id ?? null),
+        );
+        return {
+          success: false,
+          code: "price_changed",
+          message:
+            "주문하신 상품의 가격이 변경되었습니다. 변경된 가격을 확인해주세요.",
+          priceChanges: [
+            {
+              product_id: failure.product_id,
+              product_name: failure.product_name,
+              variant_id: failure.variant_id ?? null,
+              variant_label: failure.variant_label ?? null,
+              quantity: changedItem?.quantity ?? 0,
+              old_price: failure.old_price,
+              new_price: failure.new_price,
+            },
+          ],
+          totalAmount:
+            totalAmount +
+            (failure.new_price - failure.old_price) *
+              (changedItem?.quantity ?? 0),
+        };
+      }
 
-      console.groupEnd();
-      throw new Error("주문 상품 저장 중 오류가 발생했습니다");
+      throw new Error(getCreateOrderErrorMessage(failure));
     }
 
-    console.log("주문 상품 저장 완료:", orderItemsForDB.length, "개");
+    const order = { id: result.order_id, total_amount: result.total_amount };
 
-    // 재고 차감
-    for (const item of orderItems) {
-      // 현재 재고 조회
-      const { data: currentProduct, error: currentProductError } =
-        await supabase
-          .from("products")
-          .select("stock_quantity")
-          .eq("id", item.product_id)
-          .single();
+    console.log("주문 생성 완료:", order.id, {
+      상품수: orderItems.length,
+      총액: order.total_amount,
+      쿠폰할인: result.discount_amount ?? 0,
+      적립금사용: result.points_used ?? 0,
+      장바구니비움: !isDirectPurchase,
+      중복제출: !!result.duplicate,
+    });
 
-      if (currentProductError || !currentProduct) {
-        console.error(
-          "상품 재고 조회 실패:",
-          item.product_id,
-          currentProductError,
-        );
-        console.groupEnd();
-        throw new Error(
-          `${item.product_name} 재고 조회 중 오류가 발생했습니다`,
-        );
-      }
+    // 결제 (같은 주문서의 재제출이면 기존 주문이 결제되었을 때만 건너뜀)
+    const paymentState: ExistingOrderPaymentState = result.duplicate
+      ? await getExistingOrderPaymentState(supabase, order.id)
+      : "unpaid";
 
-      const newStock = currentProduct.stock_quantity - item.quantity;
+    if (paymentState === "cancelled") {
+      console.groupEnd();
+      return {
+        success: false,
+        code: "payment_failed",
+        message: "결제되지 않아 취소된 주문입니다. 다시 주문해주세요.",
+      };
+    }
 
-      const { error: stockError } = await supabase
-        .from("products")
-        .update({ stock_quantity: newStock })
-        .eq("id", item.product_id);
+    if (paymentState === "unpaid") {
+      const payment = await payForOrder({
+        orderId: order.id,
+        amount: order.total_amount,
+        customerName: validatedData.customerName,
+        orderName:
+          orderItems.length > 1
+            ? `${orderItems[0].product_name} 외 ${orderItems.length - 1}건`
+            : orderItems[0].product_name,
+      });
+
+      if (!payment.success) {
+        const paymentError = (payment as { error: string }).error;
+        console.error("결제 실패, 주문 취소:", order.id, paymentError);
+
+        // 결제되지 않은 주문은 취소해 재고를 되돌림
+        const { data: cancelResult, error: cancelError } = await supabase.rpc(
+          "cancel_order",
+          {
+            p_order_id: order.id,
+            p_reason: `결제 실패: ${paymentError}`,
+          },
+        );
+        const cancel = cancelResult as CancelOrderRpcResult;
+
+        if (cancelError || !cancel || !cancel.success) {
+          // 결제되지 않은 주문이 남아 있으므로 수동 확인이 필요함
+          console.error(
+            "❌ 결제 실패 주문 취소 실패:",
+            order.id,
+            cancelError || cancel,
+          );
+          console.groupEnd();
+          revalidatePath("/orders");
+          return {
+            success: false,
+            code: "payment_failed",
+            message: `결제에 실패했고 주문 #${order.id} 취소도 완료되지 않았습니다. 고객센터에 문의해주세요. (${paymentError})`,
+          };
+        }
 
-      if (stockError) {
-        console.error("재고 차감 실패:", stockError);
         console.groupEnd();
-        throw new Error(
-          `${item.product_name} 재고 업데이트 중 오류가 발생했습니다`,
-        );
+        revalidatePath("/orders");
+        return {
+          success: false,
+          code: "payment_failed",
+          message: `결제에 실패했습니다: ${paymentError}`,
+        };
       }
 
-      console.log(
-        `재고 차감: ${item.product_name} (${currentProduct.stock_quantity} → ${newStock})`,
-      );
-    }
-
-    // 장바구니 비우기 (장바구니 모드인 경우에만)
-    if (!isDirectPurchase) {
-      await clearCart();
-      console.log("장바구니 비우기 완료");
+      console.log("결제 완료:", payment.payment.id);
     }
 
     console.log("주문 처리 완료:", order.id);
@@ -491,11 +959,25 @@ export async function getOrders(page: number = 1, limit: number = 10) {
           product_id,
           quantity,
           price_at_time,
+          variant_id,
+          variant_label,
+          sku,
           product:products(
             id,
             name,
             image_url
           )
+        ),
+        returns(
+          id,
+          status
+        ),
+        status_history:order_status_history(
+          id,
+          from_status,
+          to_status,
+          reason,
+          created_at
         )
       `,
       )
@@ -531,6 +1013,7 @@ export async function getOrders(page: number = 1, limit: number = 10) {
               ? item.product[0]
               : item.product,
           })),
+          status_history: sortStatusHistory(order.status_history),
         })) as OrderWithItems[]) || [],
       totalCount: count || 0,
       currentPage: page,
@@ -584,17 +1067,36 @@ export async function getOrder(orderId: number) {
         status,
         total_amount,
         created_at,
+        customer_name,
+        customer_phone,
+        customer_address,
+        customer_postcode,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_used,
+        points_earned,
         order_items(
           id,
           product_id,
           quantity,
           price_at_time,
+          variant_id,
+          variant_label,
+          sku,
           product:products(
             id,
             name,
             image_url,
             description
           )
+        ),
+        status_history:order_status_history(
+          id,
+          from_status,
+          to_status,
+          reason,
+          created_at
         )
       `,
       )
@@ -618,6 +1120,7 @@ export async function getOrder(orderId: number) {
         ...item,
         product: Array.isArray(item.product) ? item.product[0] : item.product,
       })),
+      status_history: sortStatusHistory(order.status_history),
     };
 
     return transformedOrder as OrderWithItems;
@@ -675,6 +1178,15 @@ export async function getOrdersForAdmin(page: number = 1, limit: number = 20) {
         status,
         total_amount,
         created_at,
+        customer_name,
+        customer_phone,
+        customer_address,
+        customer_postcode,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_used,
+        points_earned,
         profiles(
           name
         ),
@@ -683,6 +1195,9 @@ export async function getOrdersForAdmin(page: number = 1, limit: number = 20) {
           product_id,
           quantity,
           price_at_time,
+          variant_id,
+          variant_label,
+          sku,
           product:products(
             id,
             name,
@@ -809,6 +1324,12 @@ export async function getOrdersWithProfiles(
         customer_name,
         customer_phone,
         customer_address,
+        customer_postcode,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_used,
+        points_earned,
         profiles(
           name
         ),
@@ -817,6 +1338,9 @@ export async function getOrdersWithProfiles(
           product_id,
           quantity,
           price_at_time,
+          variant_id,
+          variant_label,
+          sku,
           product:products(
             id,
             name,
@@ -921,15 +1445,31 @@ export async function getOrdersWithProfiles(
 
 /**
  * 주문 상태 변경 (관리자 전용)
+ *
+ * 허용된 상태 전이인지 확인하고 변경 이력(변경자, 시각, 사유)을 남기는 작업은
+ * change_order_status DB 함수와 orders 트리거에서 처리됩니다.
+ * 주문 취소로 변경하면 같은 트랜잭션에서 주문 상품 수량만큼 재고가 복구되고, 결제도 취소/환불됩니다.
  */
-export async function updateOrderStatus(orderId: number, status: string) {
+export async function updateOrderStatus(
+  orderId: number,
+  status: string,
+  reason?: string,
+) {
   console.group("📦 주문 상태 변경");
-  console.log("주문 ID:", orderId, "상태:", status);
+  console.log("주문 ID:", orderId, "상태:", status, "사유:", reason);
 
   try {
     // 상태 유효성 검사
     const validatedStatus = OrderStatusSchema.parse(status);
 
+    // 변경 사유 검사
+    const reasonResult = StatusReasonSchema.safeParse(reason);
+    if (!reasonResult.success) {
+      console.groupEnd();
+      throw new Error(reasonResult.error.errors[0].message);
+    }
+    const validatedReason = reasonResult.data?.trim() || null;
+
     const supabase = await createServerSupabaseClient();
 
     // 현재 사용자 확인 및 관리자 권한 체크
@@ -957,27 +1497,63 @@ export async function updateOrderStatus(orderId: number, status: string) {
       throw new Error("관리자 권한이 필요합니다");
     }
 
-    // 주문 상태 업데이트
-    const { data: order, error } = await supabase
-      .from("orders")
-      .update({ status: validatedStatus })
-      .eq("id", orderId)
-      .select()
-      .single();
+    // 상태 전이 검증, 상태 변경, 이력 기록을 DB 함수 하나로 처리
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "change_order_status",
+      {
+        p_order_id: orderId,
+        p_status: validatedStatus,
+        p_reason: validatedReason,
+      },
+    );
 
-    if (error || !order) {
-      console.error("주문 상태 변경 실패:", error);
+    if (rpcError || !rpcResult) {
+      console.error("주문 상태 변경 실패:", rpcError);
       console.groupEnd();
       throw new Error("주문 상태 변경 중 오류가 발생했습니다");
     }
 
-    console.log("주문 상태 변경 완료:", order.id, "→", validatedStatus);
+    const result = rpcResult as ChangeOrderStatusRpcResult;
+
+    if (!result.success) {
+      console.error("주문 상태 변경 거부:", result);
+      console.groupEnd();
+      throw new Error(
+        getChangeOrderStatusErrorMessage(result as ChangeOrderStatusRpcFailure),
+      );
+    }
+
+    console.log(
+      "주문 상태 변경 완료:",
+      result.order_id,
+      result.from_status,
+      "→",
+      result.to_status,
+    );
+
+    // 관리자가 주문을 취소하면 결제도 취소/환불
+    let refundFailed = false;
+    if (result.to_status === "cancelled") {
+      const refund = await cancelOrderPayments(
+        orderId,
+        validatedReason ?? undefined,
+      );
+      refundFailed = !refund.success;
+      if (refundFailed) {
+        console.error("결제 취소 실패:", refund.errors);
+      }
+    }
     console.groupEnd();
 
     revalidatePath("/admin/orders");
     revalidatePath("/orders");
+    revalidatePath(`/order-success/${orderId}`);
 
-    return { success: true, order };
+    return {
+      success: true,
+      order: { id: result.order_id, status: result.to_status },
+      refundFailed,
+    };
   } catch (error) {
     console.error("주문 상태 변경 오류:", error);
     console.groupEnd();
@@ -989,3 +1565,93 @@ export async function updateOrderStatus(orderId: number, status: string) {
     throw error;
   }
 }
+
+/**
+ * 주문 취소 (주문자 본인, 배송 전 주문만)
+ *
+ * 상태 변경, 주문 상품 수량만큼의 재고 복구, 이력 기록은
+ * cancel_order DB 함수와 orders 트리거에서 하나의 트랜잭션으로 처리되고,
+ * 그 다음 결제 대행사에 결제 취소/환불을 요청합니다.
+ */
+export async function cancelOrder(orderId: number, reason?: string) {
+  console.group("🚫 주문 취소");
+  console.log("주문 ID:", orderId, "사유:", reason);
+
+  try {
+    // 취소 사유 검사
+    const reasonResult = StatusReasonSchema.safeParse(reason);
+    if (!reasonResult.success) {
+      console.groupEnd();
+      throw new Error(reasonResult.error.errors[0].message);
+    }
+    const validatedReason = reasonResult.data?.trim() || null;
+
+    const supabase = await createServerSupabaseClient();
+
+    // 현재 사용자 확인
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      console.error("인증 실패:", authError);
+      console.groupEnd();
+      throw new Error("로그인이 필요합니다");
+    }
+
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "cancel_order",
+      {
+        p_order_id: orderId,
+        p_reason: validatedReason,
+      },
+    );
+
+    if (rpcError || !rpcResult) {
+      console.error("주문 취소 실패:", rpcError);
+      console.groupEnd();
+      throw new Error("주문 취소 중 오류가 발생했습니다");
+    }
+
+    const result = rpcResult as CancelOrderRpcResult;
+
+    if (!result.success) {
+      console.error("주문 취소 거부:", result);
+      console.groupEnd();
+      throw new Error(
+        getCancelOrderErrorMessage(result as CancelOrderRpcFailure),
+      );
+    }
+
+    console.log("주문 취소 완료:", result.order_id, {
+      이전상태: result.from_status,
+    });
+
+    // 결제 취소/환불 (주문 취소는 이미 확정되었으므로 실패해도 주문은 취소 상태로 둠)
+    const refund = await cancelOrderPayments(
+      orderId,
+      validatedReason ?? undefined,
+    );
+    if (!refund.success) {
+      console.error("결제 취소 실패:", refund.errors);
+    }
+    console.groupEnd();
+
+    revalidatePath("/");
+    revalidatePath("/orders");
+    revalidatePath(`/order-success/${orderId}`);
+    revalidatePath("/admin/orders");
+
+    return {
+      success: true,
+      message: refund.success
+        ? "주문이 취소되었습니다"
+        : "주문이 취소되었습니다. 환불 처리가 지연되고 있어 확인 후 환불해드립니다.",
+    };
+  } catch (error) {
+    console.error("주문 취소 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * @file points.ts
+ * @description 적립금 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 내 적립금 잔액, 소멸 예정 금액, 거래 내역 조회 (프로필, 주문서)
+ * 2. 적립금 정책 조회/변경 (변경은 관리자 전용)
+ * 3. 관리자 적립금 지급/차감 (사유 필수)
+ * 4. 관리자용 사용자별 거래 내역 조회
+ *
+ * 구매 적립, 주문 사용, 취소/반품 시 회수는 DB 함수와 트리거가 처리합니다. (@/actions/orders의 createOrder)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - zod: 데이터 유효성 검사
+ * - @/lib/points: 적립금 정책 타입과 에러 메시지
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  getPointErrorMessage,
+  type PointRpcFailure,
+  type PointSettings,
+} from "@/lib/points";
+
+// 적립금 정책 스키마
+const PointSettingsSchema = z.object({
+  earn_rate: z
+    .number()
+    .min(0, "적립률은 0% 이상이어야 합니다")
+    .max(100, "적립률은 100% 이하로 입력해주세요"),
+  expiry_months: z
+    .number()
+    .int("유효기간은 개월 단위로 입력해주세요")
+    .min(1, "유효기간은 1개월 이상이어야 합니다")
+    .max(120, "유효기간은 120개월 이하로 입력해주세요"),
+  max_redeem_rate: z
+    .number()
+    .min(0, "최대 사용 비율은 0% 이상이어야 합니다")
+    .max(100, "최대 사용 비율은 100% 이하로 입력해주세요"),
+});
+
+// 관리자 적립금 조정 스키마
+const AdjustPointsSchema = z.object({
+  userId: z.string().uuid("사용자 정보가 올바르지 않습니다"),
+  amount: z
+    .number()
+    .int("적립금은 원 단위로 입력해주세요")
+    .refine((amount) => amount !== 0, "조정할 금액을 입력해주세요"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "조정 사유를 입력해주세요")
+    .max(200, "조정 사유는 200자 이내로 입력해주세요"),
+});
+
+export type PointSettingsInput = z.input<typeof PointSettingsSchema>;
+export type AdjustPointsInput = z.input<typeof AdjustPointsSchema>;
+
+// 적립금 요약
+export type PointSummary = {
+  balance: number; // 현재 잔액
+  expiringAmount: number; // 30일 안에 소멸 예정인 금액
+  nextExpiresAt: string | null; // 가장 먼저 소멸되는 시각
+};
+
+// 적립금 거래 내역 (point_transactions)
+export type PointTransaction = {
+  id: number;
+  type: string;
+  amount: number; // 지급은 +, 사용/회수/소멸은 -
+  expires_at: string | null;
+  order_id: number | null;
+  reason: string | null;
+  created_at: string;
+};
+
+// 적립금 요약 RPC(get_point_summary) 결과 타입
+type PointSummaryRpcResult =
+  | {
+      success: true;
+      balance: number;
+      expiring_amount: number;
+      next_expires_at: string | null;
+    }
+  | PointRpcFailure;
+
+// 관리자 적립금 조정 RPC(adjust_points) 결과 타입
+type AdjustPointsRpcResult =
+  | { success: true; user_id: string; balance: number }
+  | PointRpcFailure;
+
+/**
+ * 현재 사용자가 관리자인지 확인 (아니면 에러)
+ */
+async function requireAdmin(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new Error("로그인이 필요합니다");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    throw new Error("관리자 권한이 필요합니다");
+  }
+
+  return user;
+}
+
+/**
+ * 내 적립금 요약 조회 (조회 시 유효기간이 지난 적립분을 소멸 처리)
+ */
+export async function getMyPointSummary(): Promise<PointSummary> {
+  console.group("💰 적립금 요약 조회");
+
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const { data, error } = await supabase.rpc("get_point_summary");
+
+    if (error || !data) {
+      console.error("적립금 요약 조회 실패:", error);
+      console.groupEnd();
+      throw new Error("적립금 정보를 불러오는 중 오류가 발생했습니다");
+    }
+
+    const result = data as PointSummaryRpcResult;
+
+    if (!result.success) {
+      console.groupEnd();
+      throw new Error(getPointErrorMessage(result as PointRpcFailure));
+    }
+
+    console.log("적립금 잔액:", result.balance);
+    console.groupEnd();
+
+    return {
+      balance: result.balance,
+      expiringAmount: result.expiring_amount,
+      nextExpiresAt: result.next_expires_at,
+    };
+  } catch (error) {
+    console.error("적립금 요약 조회 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 내 적립금 거래 내역 조회 (최신순)
+ */
+export async function getMyPointTransactions(
+  limit: number = 20,
+): Promise<PointTransaction[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new Error("로그인이 필요합니다");
+  }
+
+  const { data, error } = await supabase
+    .from("point_transactions")
+    .select("id, type, amount, expires_at, order_id, reason, created_at")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("적립금 내역 조회 실패:", error);
+    throw new Error("적립금 내역을 불러오는 중 오류가 발생했습니다");
+  }
+
+  return (data || []) as PointTransaction[];
+}
+
+/**
+ * 적립금 정책 조회 (적립률, 유효기간, 최대 사용 비율)
+ */
+export async function getPointSettings(): Promise<PointSettings> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("point_settings")
+    .select("earn_rate, expiry_months, max_redeem_rate")
+    .single();
+
+  if (error || !data) {
+    console.error("적립금 정책 조회 실패:", error);
+    throw new Error("적립금 정책을 불러오는 중 오류가 발생했습니다");
+  }
+
+  return {
+    earn_rate: Number(data.earn_rate),
+    expiry_months: data.expiry_months,
+    max_redeem_rate: Number(data.max_redeem_rate),
+  };
+}
+
+/**
+ * 적립금 정책 변경 (관리자 전용)
+ *
+ * 변경한 적립률은 이후 배송 완료되는 주문부터, 유효기간은 이후 지급분부터 적용됩니다.
+ */
+export async function updatePointSettings(input: PointSettingsInput) {
+  console.group("💰 적립금 정책 변경");
+
+  try {
+    const validatedData = PointSettingsSchema.parse(input);
+    console.log("변경할 정책:", validatedData);
+
+    const supabase = await createServerSupabaseClient();
+    const user = await requireAdmin(supabase);
+
+    const { error } = await supabase
+      .from("point_settings")
+      .update({
+        ...validatedData,
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", true);
+
+    if (error) {
+      console.error("적립금 정책 변경 실패:", error);
+      console.groupEnd();
+      throw new Error("적립금 정책 변경 중 오류가 발생했습니다");
+    }
+
+    console.log("적립금 정책 변경 완료");
+    console.groupEnd();
+
+    revalidatePath("/admin/users");
+    return { success: true };
+  } catch (error) {
+    console.error("적립금 정책 변경 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 적립금 지급/차감 (관리자 전용)
+ *
+ * 양수는 지급(현재 유효기간 적용), 음수는 차감이며 차감은 현재 잔액까지만 가능합니다.
+ */
+export async function adjustPoints(input: AdjustPointsInput) {
+  console.group("💰 관리자 적립금 조정");
+
+  try {
+    const validatedData = AdjustPointsSchema.parse(input);
+    console.log("조정 대상:", validatedData.userId, {
+      금액: validatedData.amount,
+      사유: validatedData.reason,
+    });
+
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    const { data, error } = await supabase.rpc("adjust_points", {
+      p_user_id: validatedData.userId,
+      p_amount: validatedData.amount,
+      p_reason: validatedData.reason,
+    });
+
+    if (error || !data) {
+      console.error("적립금 조정 실패:", error);
+      console.groupEnd();
+      throw new Error("적립금 조정 중 오류가 발생했습니다");
+    }
+
+    const result = data as AdjustPointsRpcResult;
+
+    if (!result.success) {
+      console.error("적립금 조정 거부:", result);
+      console.groupEnd();
+      throw new Error(getPointErrorMessage(result as PointRpcFailure));
+    }
+
+    console.log("적립금 조정 완료, 잔액:", result.balance);
+    console.groupEnd();
+
+    revalidatePath("/admin/users");
+    return { success: true, balance: result.balance };
+  } catch (error) {
+    console.error("관리자 적립금 조정 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 사용자별 적립금 거래 내역 조회 (관리자 전용, 최신순)
+ */
+export async function getUserPointTransactions(
+  userId: string,
+  limit: number = 20,
+): Promise<PointTransaction[]> {
+  const supabase = await createServerSupabaseClient();
+  await requireAdmin(supabase);
+
+  const { data, error } = await supabase
+    .from("point_transactions")
+    .select("id, type, amount, expires_at, order_id, reason, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("사용자 적립금 내역 조회 실패:", error);
+    throw new Error("적립금 내역을 불러오는 중 오류가 발생했습니다");
+  }
+
+  return (data || []) as PointTransaction[];
+}
@@ -0,0 +1,259 @@
+/**
+ * @file product-images.ts
+ * @description 상품 이미지(상품 상세 갤러리) 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 상품 이미지 목록 조회 (표시 순서대로)
+ * 2. 상품 이미지 목록 저장 (관리자만, 추가/수정/삭제/순서 변경을 한 번에 처리)
+ *
+ * products.image_url은 대표 이미지 URL로 DB 트리거가 맞춰 줍니다. (상품 카드, 장바구니, 주문 내역에서 사용)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - zod: 데이터 유효성 검사
+ * - @/lib/product-images: 상품 이미지 타입과 최대 이미지 수
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { MAX_PRODUCT_IMAGES, type ProductImage } from "@/lib/product-images";
+
+// 이미지 스키마 (id가 없으면 새 이미지)
+const ProductImageSchema = z.object({
+  id: z.number().int().positive().optional(),
+  url: z.string().trim().url("올바른 이미지 URL을 입력해주세요"),
+  alt_text: z
+    .string()
+    .trim()
+    .max(200, "대체 텍스트는 200자 이내로 입력해주세요")
+    .nullish()
+    .transform((value) => value || null),
+  is_primary: z.boolean().default(false),
+});
+
+// 상품 이미지 목록 스키마 (대표 이미지는 하나만)
+const ProductImagesSchema = z
+  .array(ProductImageSchema)
+  .max(
+    MAX_PRODUCT_IMAGES,
+    `상품 이미지는 ${MAX_PRODUCT_IMAGES}장까지 등록할 수 있습니다`,
+  )
+  .refine(
+    (images) => images.filter((image) => image.is_primary).length <= 1,
+    "대표 이미지는 하나만 선택할 수 있습니다",
+  );
+
+// 상품 이미지 저장 입력값
+export type ProductImagesInput = z.input<typeof ProductImagesSchema>;
+
+/**
+ * 상품 이미지 목록 조회 (표시 순서대로)
+ */
+export async function getProductImages(
+  productId: number,
+): Promise<ProductImage[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("product_images")
+    .select("id, product_id, url, alt_text, sort_order, is_primary")
+    .eq("product_id", productId)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("상품 이미지 조회 실패:", error);
+    throw new Error("상품 이미지를 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return (data || []) as ProductImage[];
+}
+
+/**
+ * 상품 이미지 저장 (관리자만)
+ *
+ * 입력한 목록이 상품의 전체 이미지가 되도록 새 이미지는 추가하고, 기존 이미지는 수정하며, 목록에서 빠진 이미지는 삭제합니다.
+ * 입력 순서가 표시 순서이며, 대표 이미지를 고르지 않으면 첫 번째 이미지가 대표 이미지가 됩니다.
+ * 스토리지에 올린 파일은 지우지 않습니다. (주문 내역 등에서 이전 이미지 URL을 쓸 수 있음)
+ */
+export async function saveProductImages(
+  productId: number,
+  input: ProductImagesInput,
+): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  try {
+    console.group("🖼️ 상품 이미지 저장");
+    console.log("상품 ID:", productId, "입력값:", input);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 현재 사용자 확인
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      console.groupEnd();
+      return { success: false, message: "로그인이 필요합니다." };
+    }
+
+    // 관리자 권한 확인
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      console.groupEnd();
+      return { success: false, message: "관리자 권한이 필요합니다." };
+    }
+
+    const validatedImages = ProductImagesSchema.parse(input);
+    const primaryIndex = Math.max(
+      validatedImages.findIndex((image) => image.is_primary),
+      0,
+    );
+
+    const { data: existingImages, error: existingError } = await supabase
+      .from("product_images")
+      .select("id")
+      .eq("product_id", productId);
+
+    if (existingError) {
+      console.error("기존 이미지 조회 실패:", existingError);
+      console.groupEnd();
+      return {
+        success: false,
+        message: "상품 이미지 저장 중 오류가 발생했습니다.",
+      };
+    }
+
+    // 목록에서 빠진 기존 이미지 삭제
+    const keptIds = new Set(
+      validatedImages
+        .map((image) => image.id)
+        .filter((id): id is number => id !== undefined),
+    );
+    const removedIds = (existingImages || [])
+      .map((image) => image.id as number)
+      .filter((id) => !keptIds.has(id));
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("product_images")
+        .delete()
+        .eq("product_id", productId)
+        .in("id", removedIds);
+
+      if (deleteError) {
+        console.error("이미지 삭제 실패:", deleteError);
+        console.groupEnd();
+        return {
+          success: false,
+          message: "상품 이미지 삭제 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    // 대표 이미지를 옮길 때 잠시라도 대표 이미지가 둘이 되지 않도록 먼저 해제
+    if (keptIds.size > 0) {
+      const { error: resetError } = await supabase
+        .from("product_images")
+        .update({ is_primary: false })
+        .eq("product_id", productId)
+        .eq("is_primary", true);
+
+      if (resetError) {
+        console.error("대표 이미지 해제 실패:", resetError);
+        console.groupEnd();
+        return {
+          success: false,
+          message: "상품 이미지 저장 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    // 기존 이미지 수정, 새 이미지 추가 (입력 순서를 표시 순서로 사용)
+    const newImages = [];
+    for (const [index, image] of validatedImages.entries()) {
+      const row = {
+        url: image.url,
+        alt_text: image.alt_text,
+        sort_order: index,
+        is_primary: index === primaryIndex,
+      };
+
+      if (image.id === undefined) {
+        newImages.push({ ...row, product_id: productId });
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("product_images")
+        .update(row)
+        .eq("id", image.id)
+        .eq("product_id", productId);
+
+      if (updateError) {
+        console.error("이미지 수정 실패:", image.id, updateError);
+        console.groupEnd();
+        return {
+          success: false,
+          message: "상품 이미지 수정 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    if (newImages.length > 0) {
+      const { error: insertError } = await supabase
+        .from("product_images")
+        .insert(newImages);
+
+      if (insertError) {
+        console.error("이미지 추가 실패:", insertError);
+        console.groupEnd();
+        return {
+          success: false,
+          message: "상품 이미지 추가 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    console.log("상품 이미지 저장 완료:", {
+      이미지수: validatedImages.length,
+      대표이미지: validatedImages[primaryIndex]?.url ?? null,
+      삭제: removedIds.length,
+    });
+    console.groupEnd();
+
+    revalidatePath("/");
+    revalidatePath("/admin/products");
+    revalidatePath(`/products/${productId}`);
+
+    return {
+      success: true,
+      message:
+        validatedImages.length > 0
+          ? `이미지 ${validatedImages.length}장이 저장되었습니다.`
+          : "이미지가 모두 삭제되었습니다.",
+    };
+  } catch (error) {
+    console.error("상품 이미지 저장 실패:", error);
+    console.groupEnd();
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: `유효성 검사 실패: ${error.errors[0].message}`,
+      };
+    }
+    return {
+      success: false,
+      message: "상품 이미지 저장 중 오류가 발생했습니다.",
+    };
+  }
+}
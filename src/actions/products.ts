@@ -3,15 +3,26 @@
  * @description 상품 관련 서버 액션
  *
  * 주요 기능:
- * 1. 상품 목록 조회 (페이지네이션 지원)
+ * 1. 상품 목록 조회 (페이지 번호 / 무한 스크롤용 커서 페이지네이션, 검색어가 있으면 관련도 순)
  * 2. 상품 상세 조회
  * 3. 상품 생성 (관리자만)
  * 4. 상품 수정 (관리자만)
- * 5. 상품 삭제 (관리자만)
+ * 5. 상품 삭제 (관리자만, 주문 내역이 없는 상품만)
+ * 6. 정가/세일 가격 설정 및 가격 변경 이력 조회 (관리자만)
+ * 7. 상품 등록 시 옵션(사이즈, 색상 등) 함께 저장 (관리자만)
+ * 8. 상품 등록 시 이미지 여러 장 함께 저장 (관리자만)
+ * 9. 상품 보관/복원 (관리자만, 주문 내역이 있는 상품은 삭제 대신 보관)
  *
  * @dependencies
  * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
  * - zod: 데이터 유효성 검사
+ * - @/lib/shipping: 상품 배송 유형
+ * - @/lib/categories: 기본 카테고리
+ * - @/lib/product-status: 상품 공개 상태
+ * - @/lib/product-filters: 상품 목록 정렬과 필터
+ * - @/lib/product-cursor: 무한 스크롤 다음 페이지 커서
+ * - @/actions/variants: 상품 옵션 저장
+ * - @/actions/product-images: 상품 이미지 저장
  */
 
 "use server";
@@ -19,48 +30,352 @@
 import { createServerSupabaseClient } from "@/utils/supabase/server";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
-
-// 상품 스키마 정의 (category 필드 제거로 스키마 캐시 문제 해결)
-const ProductSchema = z.object({
-  name: z.string().min(1, "상품명은 필수입니다"),
-  description: z.string().optional(),
-  price: z.number().min(0, "가격은 0 이상이어야 합니다"),
-  image_url: z
+import { SHIPPING_CLASS_VALUES } from "@/lib/shipping";
+import { DEFAULT_CATEGORY } from "@/lib/categories";
+import {
+  PRODUCT_STATUS_VALUES,
+  type ProductStatus,
+} from "@/lib/product-status";
+import {
+  resolveProductSort,
+  type ProductFacets,
+  type ProductListFilters,
+  type ProductSort,
+} from "@/lib/product-filters";
+import { decodeProductCursor, encodeProductCursor } from "@/lib/product-cursor";
+import {
+  saveProductVariants,
+  type ProductVariantsInput,
+} from "@/actions/variants";
+import {
+  saveProductImages,
+  type ProductImagesInput,
+} from "@/actions/product-images";
+
+// 빈 값은 null로 변환 (선택 입력 날짜 필드, ISO 문자열)
+const optionalDateTime = z.preprocess(
+  (value) => (value === "" || value === undefined ? null : value),
+  z
     .string()
-    .transform((val) => (val === "" ? undefined : val))
-    .optional()
-    .refine(
-      (val) => val === undefined || z.string().url().safeParse(val).success,
-      "올바른 이미지 URL을 입력해주세요",
+    .datetime({ offset: true, message: "날짜 형식이 올바르지 않습니다" })
+    .nullable(),
+);
+
+// 상품 스키마 정의
+const ProductSchema = z
+  .object({
+    name: z.string().min(1, "상품명은 필수입니다"),
+    description: z.string().optional(),
+    price: z.number().min(0, "가격은 0 이상이어야 합니다"),
+    image_url: z
+      .string()
+      .transform((val) => (val === "" ? undefined : val))
+      .optional()
+      .refine(
+        (val) => val === undefined || z.string().url().safeParse(val).success,
+        "올바른 이미지 URL을 입력해주세요",
+      ),
+    stock_quantity: z.number().min(0, "재고는 0 이상이어야 합니다"),
+    shipping_class: z.enum(SHIPPING_CLASS_VALUES).default("standard"),
+    // 카테고리가 있는지는 DB 외래 키(products_category_fkey)로 확인
+    category: z
+      .string()
+      .trim()
+      .min(1, "올바른 카테고리를 선택해주세요")
+      .default(DEFAULT_CATEGORY),
+    // 새 상품은 작성 중 상태로 등록되어 공개하기 전까지 관리자만 볼 수 있음
+    status: z.enum(PRODUCT_STATUS_VALUES).default("draft"),
+    publish_at: optionalDateTime,
+    unpublish_at: optionalDateTime,
+  })
+  .superRefine((product, ctx) => {
+    if (
+      product.publish_at &&
+      product.unpublish_at &&
+      new Date(product.publish_at) >= new Date(product.unpublish_at)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["unpublish_at"],
+        message: "공개 종료 시각은 공개 시작 시각 이후로 입력해주세요",
+      });
+    }
+  });
+
+// 정가/세일 가격 스키마 (세일가를 비우면 세일 기간도 함께 비움)
+const ProductPricingSchema = z
+  .object({
+    price: z.number().positive("정가는 0보다 커야 합니다"),
+    sale_price: z.preprocess(
+      (value) =>
+        value === "" || value === null || value === undefined
+          ? null
+          : Number(value),
+      z.number().positive("세일가는 0보다 커야 합니다").nullable(),
     ),
-  stock_quantity: z.number().min(0, "재고는 0 이상이어야 합니다"),
-  // category 필드 완전 제거 (스키마 캐시 문제 해결 시까지)
-});
+    sale_starts_at: optionalDateTime,
+    sale_ends_at: optionalDateTime,
+  })
+  .superRefine((pricing, ctx) => {
+    if (pricing.sale_price !== null && pricing.sale_price >= pricing.price) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sale_price"],
+        message: "세일가는 정가보다 낮아야 합니다",
+      });
+    }
+    if (
+      pricing.sale_starts_at &&
+      pricing.sale_ends_at &&
+      new Date(pricing.sale_starts_at) >= new Date(pricing.sale_ends_at)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sale_ends_at"],
+        message: "세일 종료일은 시작일 이후로 입력해주세요",
+      });
+    }
+  })
+  .transform((pricing) =>
+    pricing.sale_price === null
+      ? { ...pricing, sale_starts_at: null, sale_ends_at: null }
+      : pricing,
+  );
+
+// 정가/세일 가격 입력값 (세일가는 빈 문자열 허용)
+export type ProductPricingInput = z.input<typeof ProductPricingSchema>;
+
+// 가격 변경 이력 타입 (변경 후 값)
+export type ProductPriceHistoryEntry = {
+  id: number;
+  product_id: number;
+  price: number;
+  sale_price: number | null;
+  sale_starts_at: string | null;
+  sale_ends_at: string | null;
+  changed_by: string | null;
+  created_at: string;
+};
 
 export type Product = {
   id: number;
   name: string;
   description: string | null;
-  price: number;
+  price: number; // 정가
+  sale_price: number | null; // 세일가 (세일 기간은 sale_starts_at ~ sale_ends_at)
+  sale_starts_at: string | null;
+  sale_ends_at: string | null;
   image_url: string | null;
-  stock_quantity: number;
+  stock_quantity: number; // 옵션 상품은 판매 중인 옵션 재고의 합계
   category: string;
+  shipping_class: string;
+  option_names: string[]; // 옵션 종류 (비어 있으면 옵션 없는 상품)
+  status: ProductStatus; // 공개 상태 (작성 중 / 공개 / 보관)
+  publish_at: string | null; // 공개 시작 시각 (null이면 바로 공개)
+  unpublish_at: string | null; // 공개 종료 시각 (null이면 계속 공개)
   created_by: string | null;
-  created_at: string | null;
+  created_at: string;
+  updated_at: string; // 관리자가 상품 정보를 마지막으로 바꾼 시각 (재고 변경은 제외)
 };
 
+// 서버 측 Supabase 클라이언트
+type SupabaseServerClient = Awaited<
+  ReturnType<typeof createServerSupabaseClient>
+>;
+
+// 상품 목록 조회 조건 (getProducts, getProductFeed 공통)
+interface ProductListQueryOptions {
+  searchTerm: string; // 앞뒤 공백을 제거한 검색어
+  categorySlugs: string[] | null; // 하위 카테고리를 포함한 카테고리 슬러그 (전체면 null)
+  lowStockOnly?: boolean;
+  status?: ProductStatus | "all";
+  filters: ProductListFilters;
+}
+
+// 무한 스크롤 상품 목록 한 페이지
+export type ProductFeedPage = {
+  products: Product[];
+  nextCursor: string | null; // 다음 페이지 커서 (마지막 페이지면 null)
+  totalCount?: number; // 첫 페이지에서만 조회
+  facets?: ProductFacets; // 첫 페이지에서만 조회 (withFacets)
+};
+
+// 무한 스크롤 한 페이지 상품 수 (공개 서버 액션이라 요청한 개수는 최대값까지만 허용)
+const DEFAULT_PRODUCT_FEED_LIMIT = 12;
+const MAX_PRODUCT_FEED_LIMIT = 48;
+
+/**
+ * 카테고리 슬러그를 하위 카테고리까지 포함한 슬러그 목록으로 바꿉니다. (전체면 null)
+ */
+async function getCategoryFilterSlugs(
+  supabase: SupabaseServerClient,
+  category?: string,
+): Promise<string[] | null> {
+  if (!category || category === "all") return null;
+
+  const { data: subtreeSlugs, error: subtreeError } = await supabase.rpc(
+    "category_subtree_slugs",
+    { p_slug: category },
+  );
+
+  if (subtreeError) {
+    console.error("하위 카테고리 조회 오류:", subtreeError);
+    throw new Error("상품 목록을 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return (subtreeSlugs as string[] | null) ?? [category];
+}
+
+/**
+ * 상품 목록 기본 쿼리 (검색어가 있으면 검색 함수 결과에서 관련도 순으로 조회)
+ * 검색어는 함수 인자로 전달하므로 쉼표, % 같은 문자가 필터 문법과 섞이지 않습니다.
+ */
+function selectProductList(
+  supabase: SupabaseServerClient,
+  searchTerm: string,
+  countOptions?: { count: "exact"; head?: boolean },
+) {
+  return searchTerm
+    ? supabase.rpc("search_products", { p_query: searchTerm }, countOptions)
+    : supabase.from("products").select("*", countOptions);
+}
+
+// 상품 목록 기본 쿼리 (필터와 정렬을 적용해도 같은 빌더 타입이 유지됨)
+type ProductListQuery = ReturnType<typeof selectProductList>;
+
+/**
+ * 상품 목록 쿼리에 카테고리, 재고, 가격대, 공개 상태 필터를 적용합니다.
+ */
+function applyProductListFilters<Query extends ProductListQuery>(
+  query: Query,
+  { categorySlugs, lowStockOnly, status, filters }: ProductListQueryOptions,
+): Query {
+  // 카테고리 필터 조건 (하위 카테고리 포함)
+  if (categorySlugs) {
+    query = query.in("category", categorySlugs);
+  }
+
+  // 재고 부족 필터 조건
+  if (lowStockOnly) {
+    query = query.lte("stock_quantity", 5);
+  }
+
+  // 재고 있는 상품만
+  if (filters.inStockOnly) {
+    query = query.gt("stock_quantity", 0);
+  }
+
+  // 가격대 필터 조건 (product_current_price 계산 컬럼: 세일 중이면 세일가)
+  if (filters.minPrice != null) {
+    query = query.gte("product_current_price", filters.minPrice);
+  }
+  if (filters.maxPrice != null) {
+    query = query.lte("product_current_price", filters.maxPrice);
+  }
+
+  // 상태 필터 조건 (RLS는 관리자에게 모든 상품을 보여주므로 쇼핑몰 화면은 공개 중인 상품만 조회)
+  if (!status) {
+    const now = new Date().toISOString();
+    query = query
+      .eq("status", "published")
+      .or(`publish_at.is.null,publish_at.lte."${now}"`)
+      .or(`unpublish_at.is.null,unpublish_at.gt."${now}"`);
+  } else if (status !== "all") {
+    query = query.eq("status", status);
+  }
+
+  return query;
+}
+
 /**
- * 상품 목록 조회
+ * 정렬 (관련도순은 검색 함수의 순서를 그대로 사용, 나머지는 같은 값이면 최신 상품 먼저)
+ */
+function applyProductListSort<Query extends ProductListQuery>(
+  query: Query,
+  sort: ProductSort,
+): Query {
+  switch (sort) {
+    case "price_asc":
+      query = query.order("product_current_price", { ascending: true });
+      break;
+    case "price_desc":
+      query = query.order("product_current_price", { ascending: false });
+      break;
+    case "best_selling":
+      query = query.order("product_sales_count", { ascending: false });
+      break;
+  }
+  if (sort !== "relevance") {
+    query = query
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: false });
+  }
+
+  return query;
+}
+
+/**
+ * 필터 항목별 상품 수 (쇼핑몰 화면의 필터 표시용)
+ * 필터 항목 수를 못 구해도 상품 목록은 보여주므로 에러를 던지지 않습니다.
+ */
+async function getProductFacets(
+  supabase: SupabaseServerClient,
+  { searchTerm, categorySlugs, filters }: ProductListQueryOptions,
+): Promise<ProductFacets | undefined> {
+  const { data: facetData, error: facetError } = await supabase.rpc(
+    "product_facets",
+    {
+      p_query: searchTerm || null,
+      p_category_slugs: categorySlugs,
+      p_min_price: filters.minPrice ?? null,
+      p_max_price: filters.maxPrice ?? null,
+      p_in_stock_only: !!filters.inStockOnly,
+    },
+  );
+
+  if (facetError) {
+    console.error("필터 항목 조회 오류:", facetError);
+    return undefined;
+  }
+  if (!facetData) return undefined;
+
+  return {
+    categoryCounts: facetData.category_counts ?? {},
+    priceRange:
+      facetData.price_min !== null && facetData.price_max !== null
+        ? {
+            min: Number(facetData.price_min),
+            max: Number(facetData.price_max),
+          }
+        : null,
+    inStockCount: Number(facetData.in_stock_count ?? 0),
+  };
+}
+
+/**
+ * 상품 목록 조회 (페이지 번호)
+ * 관리자 상품 목록과 쇼핑몰의 페이지 번호 목록(?page=N, 검색 엔진 수집용)에서 사용합니다.
+ * @param category - 카테고리 슬러그 (하위 카테고리 상품도 함께 조회)
+ * @param searchTerm - 검색어 (search_products 함수로 상품명/설명 검색, 관련도 순 정렬)
+ * @param lowStockOnly - 재고 부족(5개 이하) 상품만 조회 (관리자 화면)
+ * @param status - 상품 상태 필터 (관리자 화면, "all"이면 전체).
+ *   지정하지 않으면 지금 공개 중인 상품만 조회합니다. (관리자가 쇼핑몰 화면을 볼 때도 작성 중 상품이 섞이지 않도록)
+ * @param filters - 정렬, 가격대(세일가 반영), 재고 있는 상품만 보기 (쇼핑몰 화면).
+ *   withFacets를 주면 필터 항목별 상품 수(facets)를 함께 반환합니다.
  */
 export async function getProducts(
   page: number = 1,
   limit: number = 12,
   category?: string,
   searchTerm?: string,
+  lowStockOnly: boolean = false,
+  status?: ProductStatus | "all",
+  filters: ProductListFilters & { withFacets?: boolean } = {},
 ): Promise<{
   products: Product[];
   totalCount: number;
   totalPages: number;
+  facets?: ProductFacets;
 }> {
   try {
     console.group("📦 상품 목록 조회");
@@ -73,37 +388,47 @@ export async function getProducts(
       category || "전체",
       "검색어:",
       searchTerm || "없음",
+      "재고 부족만:",
+      lowStockOnly,
+      "상태:",
+      status || "공개 중",
+      "필터:",
+      filters,
     );
 
     const supabase = await createServerSupabaseClient();
     const offset = (page - 1) * limit;
 
-    // 기본 쿼리
-    let query = supabase.from("products").select("*", { count: "exact" });
-    let countQuery = supabase
-      .from("products")
-      .select("*", { count: "exact", head: true });
-
-    // 카테고리 필터 조건
-    if (category && category !== "all") {
-      query = query.eq("category", category);
-      countQuery = countQuery.eq("category", category);
-    }
-
-    // 검색 조건 (상품명 또는 설명에서 검색)
-    if (searchTerm && searchTerm.trim()) {
-      const searchFilter = `name.ilike.%${searchTerm.trim()}%,description.ilike.%${searchTerm.trim()}%`;
-      query = query.or(searchFilter);
-      countQuery = countQuery.or(searchFilter);
-    }
+    const trimmedSearchTerm = searchTerm?.trim() ?? "";
+    const options: ProductListQueryOptions = {
+      searchTerm: trimmedSearchTerm,
+      categorySlugs: await getCategoryFilterSlugs(supabase, category),
+      lowStockOnly,
+      status,
+      filters,
+    };
 
     // 전체 상품 수 조회 (필터 적용)
-    const { count } = await countQuery;
+    const { count } = await applyProductListFilters(
+      selectProductList(supabase, trimmedSearchTerm, {
+        count: "exact",
+        head: true,
+      }),
+      options,
+    );
 
     // 상품 목록 조회 (필터 적용)
-    const { data: products, error } = await query
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+    const query = applyProductListSort(
+      applyProductListFilters(
+        selectProductList(supabase, trimmedSearchTerm),
+        options,
+      ),
+      resolveProductSort(filters.sort, !!trimmedSearchTerm),
+    );
+    const { data: products, error } = await query.range(
+      offset,
+      offset + limit - 1,
+    );
 
     if (error) {
       console.error("상품 목록 조회 오류:", error);
@@ -113,6 +438,10 @@ export async function getProducts(
     const totalCount = count || 0;
     const totalPages = Math.ceil(totalCount / limit);
 
+    const facets = filters.withFacets
+      ? await getProductFacets(supabase, options)
+      : undefined;
+
     console.log("조회된 상품 수:", products?.length || 0);
     console.log("전체 상품 수 (필터링 후):", totalCount);
     console.groupEnd();
@@ -121,6 +450,7 @@ export async function getProducts(
       products: products || [],
       totalCount,
       totalPages,
+      facets,
     };
   } catch (error) {
     console.error("상품 목록 조회 실패:", error);
@@ -128,6 +458,127 @@ export async function getProducts(
   }
 }
 
+/**
+ * 쇼핑몰 상품 목록 조회 (무한 스크롤, 커서 페이지네이션)
+ * 지금 공개 중인 상품만 조회하며, 전체 상품 수와 필터 항목별 상품 수는 첫 페이지에서만 조회합니다.
+ * @param cursor - 이전 페이지의 nextCursor (없으면 첫 페이지)
+ * @param limit - 한 페이지 상품 수 (1 ~ 48)
+ * @param withFacets - 첫 페이지에서 필터 항목별 상품 수(facets)를 함께 반환
+ */
+export async function getProductFeed({
+  cursor,
+  limit: requestedLimit = DEFAULT_PRODUCT_FEED_LIMIT,
+  category,
+  searchTerm,
+  filters = {},
+  withFacets = false,
+}: {
+  cursor?: string | null;
+  limit?: number;
+  category?: string;
+  searchTerm?: string;
+  filters?: ProductListFilters;
+  withFacets?: boolean;
+}): Promise<ProductFeedPage> {
+  try {
+    console.group("📦 상품 목록 조회 (무한 스크롤)");
+    const limit = Number.isInteger(requestedLimit)
+      ? Math.min(Math.max(requestedLimit, 1), MAX_PRODUCT_FEED_LIMIT)
+      : DEFAULT_PRODUCT_FEED_LIMIT;
+    console.log(
+      "커서:",
+      cursor || "첫 페이지",
+      "제한:",
+      limit,
+      "카테고리:",
+      category || "전체",
+      "검색어:",
+      searchTerm || "없음",
+      "필터:",
+      filters,
+    );
+
+    const supabase = await createServerSupabaseClient();
+    const decodedCursor = decodeProductCursor(cursor);
+    const isFirstPage = !decodedCursor;
+
+    const trimmedSearchTerm = searchTerm?.trim() ?? "";
+    const sort = resolveProductSort(filters.sort, !!trimmedSearchTerm);
+    const options: ProductListQueryOptions = {
+      searchTerm: trimmedSearchTerm,
+      categorySlugs: await getCategoryFilterSlugs(supabase, category),
+      filters,
+    };
+
+    let query = applyProductListSort(
+      applyProductListFilters(
+        selectProductList(supabase, trimmedSearchTerm),
+        options,
+      ),
+      sort,
+    );
+
+    // 최신순은 마지막 상품보다 뒤에 있는 상품부터, 그 밖의 정렬은 받은 상품 수만큼 건너뛰고 조회
+    // 다음 페이지가 있는지 알기 위해 한 개 더 조회
+    const offset = decodedCursor?.type === "offset" ? decodedCursor.offset : 0;
+    if (decodedCursor?.type === "key") {
+      const { createdAt, id } = decodedCursor;
+      query = query.or(
+        `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt.${id})`,
+      );
+    }
+    const { data, error } = await query.range(offset, offset + limit);
+
+    if (error) {
+      console.error("상품 목록 조회 오류:", error);
+      throw new Error("상품 목록을 불러오는 중 오류가 발생했습니다.");
+    }
+
+    const rows = (data || []) as Product[];
+    const products = rows.slice(0, limit);
+    const lastProduct = products[products.length - 1];
+    const nextCursor =
+      rows.length > limit && lastProduct
+        ? encodeProductCursor(
+            sort === "newest"
+              ? {
+                  type: "key",
+                  createdAt: lastProduct.created_at,
+                  id: lastProduct.id,
+                }
+              : { type: "offset", offset: offset + products.length },
+          )
+        : null;
+
+    // 첫 페이지에서만 전체 상품 수와 필터 항목별 상품 수 조회
+    let totalCount: number | undefined;
+    let facets: ProductFacets | undefined;
+    if (isFirstPage) {
+      const [{ count }, facetResult] = await Promise.all([
+        applyProductListFilters(
+          selectProductList(supabase, trimmedSearchTerm, {
+            count: "exact",
+            head: true,
+          }),
+          options,
+        ),
+        withFacets ? getProductFacets(supabase, options) : undefined,
+      ]);
+      totalCount = count || 0;
+      facets = facetResult;
+    }
+
+    console.log("조회된 상품 수:", products.length);
+    console.log("다음 페이지:", nextCursor ? "있음" : "없음");
+    console.groupEnd();
+
+    return { products, nextCursor, totalCount, facets };
+  } catch (error) {
+    console.error("상품 목록 조회 실패:", error);
+    throw new Error("상품 목록을 불러오는 중 오류가 발생했습니다.");
+  }
+}
+
 /**
  * 상품 상세 조회
  */
@@ -227,7 +678,11 @@ export async function createProduct(formData: FormData): Promise<{
       price: formData.get("price"),
       image_url: formData.get("image_url"),
       stock_quantity: formData.get("stock_quantity"),
-      // category: formData.get("category"), // 제거
+      shipping_class: formData.get("shipping_class"),
+      category: formData.get("category"),
+      status: formData.get("status"),
+      publish_at: formData.get("publish_at"),
+      unpublish_at: formData.get("unpublish_at"),
     };
 
     console.log("원본 폼 데이터:", rawData);
@@ -238,7 +693,11 @@ export async function createProduct(formData: FormData): Promise<{
       price: Number(rawData.price),
       image_url: rawData.image_url as string,
       stock_quantity: Number(rawData.stock_quantity),
-      // category 필드 완전 제거
+      shipping_class: (rawData.shipping_class as string) || undefined,
+      category: (rawData.category as string) || undefined,
+      status: (rawData.status as string) || undefined,
+      publish_at: (rawData.publish_at as string) || undefined,
+      unpublish_at: (rawData.unpublish_at as string) || undefined,
     };
 
     console.log("파싱된 상품 데이터:", productData);
@@ -263,6 +722,35 @@ export async function createProduct(formData: FormData): Promise<{
       throw validationError;
     }
 
+    // 옵션 입력값 파싱 (옵션 편집기가 JSON으로 전달, 옵션이 없으면 비어 있음)
+    let variantsInput: ProductVariantsInput | null = null;
+    const variantsRaw = formData.get("variants") as string | null;
+    if (variantsRaw) {
+      try {
+        variantsInput = JSON.parse(variantsRaw);
+      } catch (parseError) {
+        console.error("❌ 옵션 데이터 파싱 실패:", parseError);
+        return { success: false, message: "옵션 데이터가 올바르지 않습니다." };
+      }
+    }
+
+    // 이미지 입력값 파싱 (이미지 업로드가 JSON으로 전달, 없으면 image_url을 대표 이미지로 사용)
+    let imagesInput: ProductImagesInput = validatedData.image_url
+      ? [{ url: validatedData.image_url, is_primary: true }]
+      : [];
+    const imagesRaw = formData.get("images") as string | null;
+    if (imagesRaw) {
+      try {
+        imagesInput = JSON.parse(imagesRaw);
+      } catch (parseError) {
+        console.error("❌ 이미지 데이터 파싱 실패:", parseError);
+        return {
+          success: false,
+          message: "이미지 데이터가 올바르지 않습니다.",
+        };
+      }
+    }
+
     // 상품 생성
     console.log("💾 데이터베이스에 상품 저장...");
     const insertData = {
@@ -284,9 +772,13 @@ export async function createProduct(formData: FormData): Promise<{
         details: error.details,
         hint: error.hint,
       });
+      // 23503: foreign_key_violation (카테고리가 없음)
       return {
         success: false,
-        message: `데이터베이스 오류: ${error.message} (코드: ${error.code})`,
+        message:
+          error.code === "23503"
+            ? "카테고리를 찾을 수 없습니다. 카테고리를 다시 선택해주세요."
+            : `데이터베이스 오류: ${error.message} (코드: ${error.code})`,
       };
     }
 
@@ -298,6 +790,41 @@ export async function createProduct(formData: FormData): Promise<{
       };
     }
 
+    // 옵션 저장 (상품 재고는 옵션 재고 합계로 바뀜)
+    if (variantsInput && variantsInput.variants.length > 0) {
+      console.log("🎨 상품 옵션 저장...");
+      const variantResult = await saveProductVariants(
+        product.id,
+        variantsInput,
+      );
+
+      if (!variantResult.success) {
+        console.error("❌ 상품 옵션 저장 실패:", variantResult.message);
+        console.groupEnd();
+        return {
+          success: false,
+          message: `상품은 등록되었지만 옵션을 저장하지 못했습니다. 상품 관리에서 옵션을 다시 설정해주세요. (${variantResult.message})`,
+          productId: product.id,
+        };
+      }
+    }
+
+    // 이미지 저장 (products.image_url은 대표 이미지 URL로 바뀜)
+    if (imagesInput.length > 0) {
+      console.log("🖼️ 상품 이미지 저장...");
+      const imageResult = await saveProductImages(product.id, imagesInput);
+
+      if (!imageResult.success) {
+        console.error("❌ 상품 이미지 저장 실패:", imageResult.message);
+        console.groupEnd();
+        return {
+          success: false,
+          message: `상품은 등록되었지만 이미지를 저장하지 못했습니다. 상품 관리에서 이미지를 다시 설정해주세요. (${imageResult.message})`,
+          productId: product.id,
+        };
+      }
+    }
+
     console.log("✅ 상품 생성 완료:", product.id);
     console.groupEnd();
 
@@ -340,6 +867,9 @@ export async function createProduct(formData: FormData): Promise<{
 
 /**
  * 상품 수정 (관리자만)
+ *
+ * expected_updated_at을 보내면 그 뒤에 다른 관리자가 상품을 저장했을 때 수정하지 않고 conflict를 반환합니다.
+ * stock_quantity나 category를 보내지 않으면 기존 값을 유지합니다.
  */
 export async function updateProduct(
   id: number,
@@ -347,6 +877,8 @@ export async function updateProduct(
 ): Promise<{
   success: boolean;
   message: string;
+  conflict?: boolean; // 불러온 뒤 다른 관리자가 상품을 저장함
+  updatedAt?: string; // 수정 후 상품 수정 시각 (다음 저장의 expected_updated_at)
 }> {
   try {
     console.group("✏️ 상품 수정");
@@ -380,7 +912,11 @@ export async function updateProduct(
       price: Number(formData.get("price")),
       image_url: formData.get("image_url") as string,
       stock_quantity: Number(formData.get("stock_quantity")),
-      category: formData.get("category") as string,
+      shipping_class: (formData.get("shipping_class") as string) || undefined,
+      category: (formData.get("category") as string) || undefined,
+      status: (formData.get("status") as string) || undefined,
+      publish_at: (formData.get("publish_at") as string) || undefined,
+      unpublish_at: (formData.get("unpublish_at") as string) || undefined,
     };
 
     console.log("수정할 상품 데이터:", productData);
@@ -388,27 +924,91 @@ export async function updateProduct(
     // 데이터 유효성 검사
     const validatedData = ProductSchema.parse(productData);
 
-    // 상품 수정
-    const { error } = await supabase
+    // 옵션 상품의 재고는 옵션 재고 합계이므로 상품 수정으로 바꾸지 않습니다.
+    const { data: currentProduct } = await supabase
       .from("products")
-      .update(validatedData)
-      .eq("id", id);
+      .select("option_names, product_images(count)")
+      .eq("id", id)
+      .single();
+
+    const updateData: Partial<typeof validatedData> = { ...validatedData };
+    // 카테고리를 보내지 않으면 기존 카테고리를 유지합니다.
+    if (!formData.get("category")) {
+      delete updateData.category;
+    }
+    // 공개 설정을 보내지 않으면 기존 상태와 공개 기간을 유지합니다.
+    if (!formData.get("status")) {
+      delete updateData.status;
+    }
+    if (!formData.has("publish_at")) {
+      delete updateData.publish_at;
+    }
+    if (!formData.has("unpublish_at")) {
+      delete updateData.unpublish_at;
+    }
+    // 재고를 보내지 않으면 기존 재고를 유지합니다. (수정하는 동안 들어온 주문의 재고 차감 보존)
+    if (!formData.has("stock_quantity")) {
+      delete updateData.stock_quantity;
+    }
+    if (currentProduct?.option_names?.length) {
+      delete updateData.stock_quantity;
+    }
+    // 이미지가 등록된 상품의 image_url은 대표 이미지 URL이므로 상품 수정으로 바꾸지 않습니다.
+    if (currentProduct?.product_images?.[0]?.count) {
+      delete updateData.image_url;
+    }
+
+    // 상품 수정 (불러온 시각 이후 다른 관리자가 저장했으면 수정되는 행이 없음)
+    const expectedUpdatedAt = formData.get("expected_updated_at") as
+      | string
+      | null;
+    let updateQuery = supabase.from("products").update(updateData).eq("id", id);
+    if (expectedUpdatedAt) {
+      updateQuery = updateQuery.eq("updated_at", expectedUpdatedAt);
+    }
+    const { data: updatedProduct, error } = await updateQuery
+      .select("updated_at")
+      .maybeSingle();
 
     if (error) {
       console.error("상품 수정 오류:", error);
+      // 23503: foreign_key_violation (카테고리가 없음)
+      if (error.code === "23503") {
+        console.groupEnd();
+        return {
+          success: false,
+          message: "카테고리를 찾을 수 없습니다. 카테고리를 다시 선택해주세요.",
+        };
+      }
       throw new Error("상품 수정 중 오류가 발생했습니다.");
     }
 
+    if (!updatedProduct) {
+      console.groupEnd();
+      if (!currentProduct) {
+        return { success: false, message: "상품을 찾을 수 없습니다." };
+      }
+      console.log("수정 충돌: 불러온 뒤 다른 관리자가 상품을 저장함");
+      return {
+        success: false,
+        conflict: true,
+        message:
+          "상품을 불러온 뒤 다른 관리자가 상품을 수정했습니다. 최신 내용을 확인한 뒤 다시 저장해주세요.",
+      };
+    }
+
     console.log("상품 수정 완료");
     console.groupEnd();
 
     revalidatePath("/");
     revalidatePath("/admin");
+    revalidatePath("/admin/products");
     revalidatePath(`/products/${id}`);
 
     return {
       success: true,
       message: "상품이 성공적으로 수정되었습니다.",
+      updatedAt: updatedProduct.updated_at as string,
     };
   } catch (error) {
     console.error("상품 수정 실패:", error);
@@ -427,10 +1027,13 @@ export async function updateProduct(
 
 /**
  * 상품 삭제 (관리자만)
+ * 주문 내역이 있는 상품은 주문 상품(order_items)이 참조하므로 삭제할 수 없습니다.
+ * 이때는 hasOrders를 반환하므로 대신 보관(archiveProduct)하도록 안내합니다.
  */
 export async function deleteProduct(id: number): Promise<{
   success: boolean;
   message: string;
+  hasOrders?: boolean; // 주문 내역이 있어 삭제하지 못한 경우
 }> {
   try {
     console.group("🗑️ 상품 삭제");
@@ -457,11 +1060,43 @@ export async function deleteProduct(id: number): Promise<{
       return { success: false, message: "관리자 권한이 필요합니다." };
     }
 
+    // 주문 내역 확인 (한 번이라도 주문된 상품은 삭제 대신 보관)
+    const { count: orderItemCount, error: orderItemError } = await supabase
+      .from("order_items")
+      .select("id", { count: "exact", head: true })
+      .eq("product_id", id);
+
+    if (orderItemError) {
+      console.error("주문 내역 확인 오류:", orderItemError);
+      throw new Error("상품 삭제 중 오류가 발생했습니다.");
+    }
+
+    if (orderItemCount) {
+      console.log("주문 내역이 있어 삭제 불가:", orderItemCount);
+      console.groupEnd();
+      return {
+        success: false,
+        message:
+          "주문 내역이 있는 상품은 삭제할 수 없습니다. 대신 보관하면 쇼핑몰에서 숨겨집니다.",
+        hasOrders: true,
+      };
+    }
+
     // 상품 삭제
     const { error } = await supabase.from("products").delete().eq("id", id);
 
     if (error) {
       console.error("상품 삭제 오류:", error);
+      // 확인한 뒤 그 사이에 주문이 들어온 경우 (order_items 외래 키 제한)
+      if (error.code === "23503") {
+        console.groupEnd();
+        return {
+          success: false,
+          message:
+            "주문 내역이 있는 상품은 삭제할 수 없습니다. 대신 보관하면 쇼핑몰에서 숨겨집니다.",
+          hasOrders: true,
+        };
+      }
       throw new Error("상품 삭제 중 오류가 발생했습니다.");
     }
 
@@ -484,6 +1119,125 @@ export async function deleteProduct(id: number): Promise<{
   }
 }
 
+/**
+ * 상품 보관/복원 공통 처리 (관리자만)
+ */
+async function changeProductStatus(
+  id: number,
+  status: ProductStatus,
+): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  const supabase = await createServerSupabaseClient();
+
+  // 현재 사용자 확인
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, message: "로그인이 필요합니다." };
+  }
+
+  // 관리자 권한 확인
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    return { success: false, message: "관리자 권한이 필요합니다." };
+  }
+
+  const { data: product, error } = await supabase
+    .from("products")
+    .update({ status })
+    .eq("id", id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("상품 상태 변경 오류:", error);
+    throw new Error("상품 상태를 변경하는 중 오류가 발생했습니다.");
+  }
+
+  if (!product) {
+    return { success: false, message: "상품을 찾을 수 없습니다." };
+  }
+
+  revalidatePath("/");
+  revalidatePath("/admin/products");
+  revalidatePath(`/products/${id}`);
+
+  return { success: true, message: "" };
+}
+
+/**
+ * 상품 보관 (관리자만)
+ * 보관한 상품은 쇼핑몰 목록/상세와 장바구니 담기에서 제외되지만,
+ * 주문 내역, 거래명세서, 관리자 화면에서는 그대로 조회됩니다.
+ */
+export async function archiveProduct(id: number): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  try {
+    console.group("📦 상품 보관");
+    console.log("상품 ID:", id);
+
+    const result = await changeProductStatus(id, "archived");
+
+    console.log(result.success ? "상품 보관 완료" : result.message);
+    console.groupEnd();
+
+    return result.success
+      ? { success: true, message: "상품을 보관했습니다." }
+      : result;
+  } catch (error) {
+    console.error("상품 보관 실패:", error);
+    console.groupEnd();
+    return {
+      success: false,
+      message: "상품 보관 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 보관한 상품 복원 (관리자만)
+ * 복원한 상품은 작성 중 상태가 되므로, 내용을 확인한 뒤 공개 상태로 바꿔야 쇼핑몰에 다시 보입니다.
+ */
+export async function restoreProduct(id: number): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  try {
+    console.group("♻️ 상품 복원");
+    console.log("상품 ID:", id);
+
+    const result = await changeProductStatus(id, "draft");
+
+    console.log(result.success ? "상품 복원 완료" : result.message);
+    console.groupEnd();
+
+    return result.success
+      ? {
+          success: true,
+          message:
+            "상품을 복원했습니다. 작성 중 상태이므로 공개하려면 상품 수정에서 공개 상태를 바꿔주세요.",
+        }
+      : result;
+  } catch (error) {
+    console.error("상품 복원 실패:", error);
+    console.groupEnd();
+    return {
+      success: false,
+      message: "상품 복원 중 오류가 발생했습니다.",
+    };
+  }
+}
+
 /**
  * 상품 재고 수량 조정 (관리자만)
  */
@@ -529,7 +1283,7 @@ export async function adjustProductStock(
     // 현재 상품 정보 조회
     const { data: product, error: productError } = await supabase
       .from("products")
-      .select("id, name, stock_quantity")
+      .select("id, name, stock_quantity, option_names")
       .eq("id", productId)
       .single();
 
@@ -539,6 +1293,16 @@ export async function adjustProductStock(
       return { success: false, message: "상품을 찾을 수 없습니다." };
     }
 
+    // 옵션 상품의 재고는 옵션 재고 합계이므로 옵션별로 조정해야 합니다.
+    if (product.option_names?.length) {
+      console.warn("옵션 상품의 재고 직접 조정 시도:", product.name);
+      console.groupEnd();
+      return {
+        success: false,
+        message: `${product.name}은(는) 옵션 상품입니다. 옵션 관리에서 옵션별 재고를 조정해주세요.`,
+      };
+    }
+
     // 새로운 재고 계산
     const newStock = product.stock_quantity + adjustment;
 
@@ -596,3 +1360,125 @@ export async function adjustProductStock(
     throw error;
   }
 }
+
+/**
+ * 정가/세일 가격 설정 (관리자만)
+ * 세일 시작/종료는 조회 시점에 판단하므로 예약 세일도 그대로 저장합니다.
+ * 가격 변경 이력은 DB 트리거가 기록합니다.
+ */
+export async function updateProductPricing(
+  productId: number,
+  input: ProductPricingInput,
+): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  try {
+    console.group("💲 상품 가격 설정");
+    console.log("상품 ID:", productId, "입력값:", input);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 현재 사용자 확인
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      console.groupEnd();
+      return { success: false, message: "로그인이 필요합니다." };
+    }
+
+    // 관리자 권한 확인
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      console.groupEnd();
+      return { success: false, message: "관리자 권한이 필요합니다." };
+    }
+
+    const validatedData = ProductPricingSchema.parse(input);
+
+    const { error } = await supabase
+      .from("products")
+      .update(validatedData)
+      .eq("id", productId);
+
+    if (error) {
+      console.error("상품 가격 설정 오류:", error);
+      console.groupEnd();
+      return {
+        success: false,
+        message: "상품 가격 설정 중 오류가 발생했습니다.",
+      };
+    }
+
+    console.log("상품 가격 설정 완료:", validatedData);
+    console.groupEnd();
+
+    revalidatePath("/");
+    revalidatePath("/admin/products");
+    revalidatePath(`/products/${productId}`);
+
+    return {
+      success: true,
+      message:
+        validatedData.sale_price === null
+          ? "상품 가격이 변경되었습니다."
+          : "세일 가격이 설정되었습니다.",
+    };
+  } catch (error) {
+    console.error("상품 가격 설정 실패:", error);
+    console.groupEnd();
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: `유효성 검사 실패: ${error.errors[0].message}`,
+      };
+    }
+    return {
+      success: false,
+      message: "상품 가격 설정 중 오류가 발생했습니다.",
+    };
+  }
+}
+
+/**
+ * 상품 가격 변경 이력 조회 (관리자만, 최신순)
+ */
+export async function getProductPriceHistory(
+  productId: number,
+  limit: number = 20,
+): Promise<ProductPriceHistoryEntry[]> {
+  try {
+    console.group("📈 상품 가격 이력 조회");
+    console.log("상품 ID:", productId);
+
+    const supabase = await createServerSupabaseClient();
+
+    // RLS에서 관리자만 조회할 수 있도록 제한되어 있습니다.
+    const { data, error } = await supabase
+      .from("product_price_history")
+      .select("*")
+      .eq("product_id", productId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("상품 가격 이력 조회 오류:", error);
+      console.groupEnd();
+      throw new Error("가격 변경 이력을 불러오는 중 오류가 발생했습니다.");
+    }
+
+    console.log("조회된 이력 수:", data?.length || 0);
+    console.groupEnd();
+
+    return data || [];
+  } catch (error) {
+    console.error("상품 가격 이력 조회 실패:", error);
+    throw new Error("가격 변경 이력을 불러오는 중 오류가 발생했습니다.");
+  }
+}
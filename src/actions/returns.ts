@@ -0,0 +1,827 @@
+/**
+ * @file returns.ts
+ * @description 반품(RMA) 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 반품 신청 (배송 완료된 주문의 상품별 수량, 사유, 사진)
+ *    - 사진은 본인 폴더(<사용자 ID>/...)에만 업로드
+ * 2. 주문별 반품 내역 조회
+ * 3. 관리자용 반품 목록 조회
+ * 4. 반품 승인/거절/회수 완료 처리 (관리자 전용)
+ * 5. 상품별 부분 환불 및 선택적 재고 복구 (관리자 전용)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트 (환불 선점 해제는 서비스 롤 클라이언트)
+ * - zod: 데이터 유효성 검사
+ * - @/constants/return-status: 반품 상태 목록과 전이 규칙
+ * - @/lib/payments/service: 결제 환불
+ */
+
+"use server";
+
+import {
+  createServerSupabaseAdminClient,
+  createServerSupabaseClient,
+} from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { refundPayment } from "@/lib/payments/service";
+import {
+  MAX_RETURN_PHOTOS,
+  getReturnStatusLabel,
+} from "@/constants/return-status";
+
+// 반품 신청 스키마
+const RequestReturnSchema = z.object({
+  orderId: z.number().int().positive("주문 정보가 올바르지 않습니다"),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.number().int().positive(),
+        quantity: z.number().int().min(1, "반품 수량은 1개 이상이어야 합니다"),
+      }),
+    )
+    .min(1, "반품할 상품을 선택해주세요"),
+  reason: z
+    .string()
+    .trim()
+    .min(5, "반품 사유를 5자 이상 입력해주세요")
+    .max(500, "반품 사유는 500자 이내로 입력해주세요"),
+  photoPaths: z
+    .array(z.string().min(1))
+    .max(
+      MAX_RETURN_PHOTOS,
+      `사진은 최대 ${MAX_RETURN_PHOTOS}장까지 첨부할 수 있습니다`,
+    ),
+});
+
+// 반품 사진으로 올릴 수 있는 파일 형식
+const RETURN_PHOTO_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+
+// 관리자가 변경할 수 있는 반품 상태 (환불 완료는 refundReturn으로만 변경)
+const ReturnStatusChangeSchema = z.enum(["approved", "received", "rejected"]);
+
+// 관리자 메모 스키마
+const ReturnNoteSchema = z
+  .string()
+  .max(200, "메모는 200자 이내로 입력해주세요")
+  .optional();
+
+// 상품별 환불 정보 스키마
+const RefundLinesSchema = z.array(
+  z.object({
+    returnItemId: z.number().int().positive(),
+    refundAmount: z.number().min(0, "환불 금액은 0원 이상이어야 합니다"),
+    restock: z.boolean(),
+  }),
+);
+
+// 반품 상품 타입
+export type ReturnItem = {
+  id: number;
+  order_item_id: number;
+  quantity: number;
+  refund_amount: number;
+  restocked: boolean;
+  order_item: {
+    id: number;
+    quantity: number;
+    price_at_time: number;
+    variant_label: string | null; // 주문 당시 옵션 라벨
+    product: {
+      id: number;
+      name: string;
+      image_url: string | null;
+    };
+  };
+};
+
+// 반품 타입
+export type OrderReturn = {
+  id: number;
+  order_id: number;
+  user_id: string;
+  status: string;
+  reason: string;
+  photo_paths: string[];
+  admin_note: string | null;
+  refund_amount: number;
+  created_at: string;
+  updated_at: string;
+  return_items: ReturnItem[];
+};
+
+// 관리자 반품 목록 항목 (주문 정보 포함)
+export type OrderReturnWithOrder = OrderReturn & {
+  order: {
+    id: number;
+    customer_name: string | null;
+    total_amount: number;
+  } | null;
+};
+
+// 반품 신청 RPC(request_return) 실패 결과 타입
+type RequestReturnRpcFailure = {
+  success: false;
+  error_code:
+    | "unauthenticated"
+    | "order_not_found"
+    | "not_returnable"
+    | "invalid_reason"
+    | "too_many_photos"
+    | "invalid_photo_path"
+    | "empty_items"
+    | "invalid_item"
+    | "invalid_quantity"
+    | "quantity_exceeded";
+  status?: string;
+  product_name?: string;
+  available?: number;
+};
+
+// 반품 신청 RPC(request_return) 결과 타입
+type RequestReturnRpcResult =
+  | { success: true; return_id: number }
+  | RequestReturnRpcFailure;
+
+// 반품 상태 변경 RPC(change_return_status) 실패 결과 타입
+type ChangeReturnStatusRpcFailure = {
+  success: false;
+  error_code:
+    | "unauthenticated"
+    | "forbidden"
+    | "return_not_found"
+    | "invalid_status"
+    | "invalid_status_transition";
+  from?: string;
+  to?: string;
+};
+
+// 반품 상태 변경 RPC(change_return_status) 결과 타입
+type ChangeReturnStatusRpcResult =
+  | {
+      success: true;
+      return_id: number;
+      from_status: string;
+      to_status: string;
+    }
+  | ChangeReturnStatusRpcFailure;
+
+// 반품 환불 완료 RPC(complete_return_refund) 실패 결과 타입
+type CompleteReturnRefundRpcFailure = {
+  success: false;
+  error_code:
+    | "unauthenticated"
+    | "forbidden"
+    | "return_not_found"
+    | "invalid_status_transition"
+    | "invalid_item"
+    | "invalid_refund_amount";
+  from?: string;
+  max?: number;
+};
+
+// 반품 환불 완료 RPC(complete_return_refund) 결과 타입
+type CompleteReturnRefundRpcResult =
+  | { success: true; return_id: number; refund_amount: number }
+  | CompleteReturnRefundRpcFailure;
+
+// 반품 환불 선점 RPC(start_return_refund) 결과 타입 (실패 형식은 complete_return_refund와 같음)
+type StartReturnRefundRpcResult =
+  | { success: true; return_id: number }
+  | CompleteReturnRefundRpcFailure;
+
+// 관리자 반품 조회 결과 타입
+type ReturnsForAdminResult =
+  | { success: true; returns: OrderReturnWithOrder[] }
+  | { success: false; error: string };
+
+// 반품 조회 시 함께 가져올 컬럼
+const RETURN_SELECT = `
+  id,
+  order_id,
+  user_id,
+  status,
+  reason,
+  photo_paths,
+  admin_note,
+  refund_amount,
+  created_at,
+  updated_at,
+  return_items(
+    id,
+    order_item_id,
+    quantity,
+    refund_amount,
+    restocked,
+    order_item:order_items(
+      id,
+      quantity,
+      price_at_time,
+      variant_label,
+      product:products(
+        id,
+        name,
+        image_url
+      )
+    )
+  )
+`;
+
+/**
+ * 반품 신청 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getRequestReturnErrorMessage(result: RequestReturnRpcFailure): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "order_not_found":
+      return "주문을 찾을 수 없습니다";
+    case "not_returnable":
+      return "배송 완료된 주문만 반품을 신청할 수 있습니다";
+    case "invalid_reason":
+      return "반품 사유를 입력해주세요";
+    case "too_many_photos":
+      return `사진은 최대 ${MAX_RETURN_PHOTOS}장까지 첨부할 수 있습니다`;
+    case "invalid_photo_path":
+      return "첨부한 사진을 다시 올려주세요";
+    case "empty_items":
+      return "반품할 상품을 선택해주세요";
+    case "invalid_item":
+      return "반품할 수 없는 상품이 포함되어 있습니다";
+    case "invalid_quantity":
+      return "반품 수량이 올바르지 않습니다";
+    case "quantity_exceeded":
+      return `${result.product_name}은(는) 최대 ${result.available}개까지 반품할 수 있습니다`;
+    default:
+      return "반품 신청 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 반품 상태 변경 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getChangeReturnStatusErrorMessage(
+  result: ChangeReturnStatusRpcFailure,
+): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "forbidden":
+      return "관리자 권한이 필요합니다";
+    case "return_not_found":
+      return "반품을 찾을 수 없습니다";
+    case "invalid_status":
+      return `변경할 수 없는 반품 상태: ${result.to}`;
+    case "invalid_status_transition":
+      return `'${getReturnStatusLabel(result.from)}' 상태에서 '${getReturnStatusLabel(result.to)}' 상태로 변경할 수 없습니다`;
+    default:
+      return "반품 상태 변경 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 반품 환불 완료 RPC 실패 결과를 사용자에게 보여줄 에러 메시지로 변환
+ */
+function getCompleteReturnRefundErrorMessage(
+  result: CompleteReturnRefundRpcFailure,
+): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "forbidden":
+      return "관리자 권한이 필요합니다";
+    case "return_not_found":
+      return "반품을 찾을 수 없습니다";
+    case "invalid_status_transition":
+      return `'${getReturnStatusLabel(result.from)}' 상태의 반품은 환불할 수 없습니다`;
+    case "invalid_item":
+      return "반품에 포함되지 않은 상품입니다";
+    case "invalid_refund_amount":
+      return `환불 금액은 최대 ${result.max}원입니다`;
+    default:
+      return "반품 환불 처리 중 오류가 발생했습니다";
+  }
+}
+
+/**
+ * 반품 환불 선점 해제 (돈이 움직이지 않은 채 환불을 중단할 때, 다시 환불할 수 있도록 회수 완료 상태로 되돌림)
+ */
+async function releaseReturnRefund(returnId: number) {
+  const adminSupabase = await createServerSupabaseAdminClient();
+  const { error } = await adminSupabase.rpc("release_return_refund", {
+    p_return_id: returnId,
+  });
+
+  if (error) {
+    console.error("❌ 반품 환불 선점 해제 실패:", returnId, error);
+  }
+}
+
+/**
+ * 현재 사용자가 관리자인지 확인 (아니면 에러)
+ */
+async function requireAdmin(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    throw new Error("로그인이 필요합니다");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.is_admin) {
+    throw new Error("관리자 권한이 필요합니다");
+  }
+
+  return user;
+}
+
+/**
+ * 반품 사진 업로드 (로그인한 사용자 본인 폴더: <사용자 ID>/<파일명>)
+ *
+ * request_return은 호출한 사용자의 폴더 밖을 가리키는 사진 경로를 거부합니다.
+ */
+export async function uploadReturnPhoto(
+  formData: FormData,
+): Promise<{ success: true; path: string } | { error: string }> {
+  console.group("📷 반품 사진 업로드");
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      console.groupEnd();
+      return { error: "로그인이 필요합니다" };
+    }
+
+    const file = formData.get("file");
+    if (!(file instanceof File) || !RETURN_PHOTO_TYPES.includes(file.type)) {
+      console.groupEnd();
+      return { error: "사진은 JPG, PNG, GIF, WEBP 형식만 첨부할 수 있습니다" };
+    }
+
+    // 파일명 중복 방지: timestamp + 랜덤값 + 확장자
+    const ext = file.name.split(".").pop()?.toLowerCase() || "bin";
+    const path = `${user.id}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${ext}`;
+
+    const { error } = await supabase.storage
+      .from(process.env.NEXT_PUBLIC_STORAGE_BUCKET || "test-bucket")
+      .upload(path, file, { upsert: false, contentType: file.type });
+
+    if (error) {
+      console.error("사진 업로드 실패:", error);
+      console.groupEnd();
+      return { error: "사진 업로드에 실패했습니다" };
+    }
+
+    console.log("업로드 완료:", path);
+    console.groupEnd();
+    return { success: true, path };
+  } catch (error) {
+    console.error("사진 업로드 오류:", error);
+    console.groupEnd();
+    return { error: "사진 업로드 중 오류가 발생했습니다" };
+  }
+}
+
+/**
+ * 반품 신청 (배송 완료된 주문, 주문자 본인)
+ *
+ * 사진은 먼저 uploadReturnPhoto로 올린 뒤 경로만 전달합니다.
+ */
+export async function requestReturn(input: {
+  orderId: number;
+  items: Array<{ orderItemId: number; quantity: number }>;
+  reason: string;
+  photoPaths: string[];
+}) {
+  console.group("↩️ 반품 신청");
+  console.log("주문 ID:", input.orderId, "상품 수:", input.items.length);
+
+  try {
+    const validatedData = RequestReturnSchema.parse(input);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 상품 검증, 수량 확인, 반품 저장을 DB 함수 하나로 처리 (단일 트랜잭션)
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "request_return",
+      {
+        p_order_id: validatedData.orderId,
+        p_items: validatedData.items.map((item) => ({
+          order_item_id: item.orderItemId,
+          quantity: item.quantity,
+        })),
+        p_reason: validatedData.reason,
+        p_photo_paths: validatedData.photoPaths,
+      },
+    );
+
+    if (rpcError || !rpcResult) {
+      console.error("반품 신청 실패:", rpcError);
+      throw new Error("반품 신청 중 오류가 발생했습니다");
+    }
+
+    const result = rpcResult as RequestReturnRpcResult;
+
+    if (!result.success) {
+      const failure = result as RequestReturnRpcFailure;
+      console.error("반품 신청 거부:", failure);
+      throw new Error(getRequestReturnErrorMessage(failure));
+    }
+
+    console.log("반품 신청 완료:", result.return_id);
+    console.groupEnd();
+
+    revalidatePath("/orders");
+    revalidatePath("/admin/orders");
+
+    return {
+      success: true,
+      returnId: result.return_id,
+      message: "반품 신청이 접수되었습니다. 검토 후 안내드리겠습니다.",
+    };
+  } catch (error) {
+    console.error("반품 신청 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 주문별 반품 내역 조회 (주문자 본인 또는 관리자, RLS로 제한)
+ */
+export async function getOrderReturns(orderId: number): Promise<OrderReturn[]> {
+  console.group("↩️ 주문 반품 내역 조회");
+  console.log("주문 ID:", orderId);
+
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      console.error("인증 실패:", authError);
+      throw new Error("로그인이 필요합니다");
+    }
+
+    const { data: returns, error } = await supabase
+      .from("returns")
+      .select(RETURN_SELECT)
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("반품 내역 조회 실패:", error);
+      throw new Error("반품 내역 조회 중 오류가 발생했습니다");
+    }
+
+    console.log("반품 내역:", returns?.length || 0, "건");
+    console.groupEnd();
+
+    return (returns || []) as unknown as OrderReturn[];
+  } catch (error) {
+    console.error("반품 내역 조회 오류:", error);
+    console.groupEnd();
+    throw error;
+  }
+}
+
+/**
+ * 관리자용 반품 목록 조회
+ */
+export async function getReturnsForAdmin(
+  status?: string,
+): Promise<ReturnsForAdminResult> {
+  console.group("↩️ 관리자 반품 목록 조회");
+  console.log("상태 필터:", status || "전체");
+
+  try {
+    const supabase = await createServerSupabaseClient();
+    await requireAdmin(supabase);
+
+    let query = supabase
+      .from("returns")
+      .select(
+        `${RETURN_SELECT},
+        order:orders(
+          id,
+          customer_name,
+          total_amount
+        )`,
+      )
+      .order("created_at", { ascending: false });
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data: returns, error } = await query;
+
+    if (error) {
+      console.error("반품 목록 조회 실패:", error);
+      console.groupEnd();
+      return { success: false, error: "반품 목록 조회 중 오류가 발생했습니다" };
+    }
+
+    console.log("반품 목록:", returns?.length || 0, "건");
+    console.groupEnd();
+
+    return {
+      success: true,
+      returns: (returns || []) as unknown as OrderReturnWithOrder[],
+    };
+  } catch (error) {
+    console.error("관리자 반품 목록 조회 오류:", error);
+    console.groupEnd();
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "반품 목록 조회 중 오류가 발생했습니다",
+    };
+  }
+}
+
+/**
+ * 반품 상태 변경 (관리자 전용: 승인, 거절, 회수 완료)
+ */
+export async function updateReturnStatus(
+  returnId: number,
+  status: string,
+  note?: string,
+) {
+  console.group("↩️ 반품 상태 변경");
+  console.log("반품 ID:", returnId, "새 상태:", status);
+
+  try {
+    const validatedStatus = ReturnStatusChangeSchema.parse(status);
+    const validatedNote = ReturnNoteSchema.parse(note);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 관리자 확인과 상태 전이 검증은 DB 함수에서 처리
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "change_return_status",
+      {
+        p_return_id: returnId,
+        p_status: validatedStatus,
+        p_note: validatedNote || null,
+      },
+    );
+
+    if (rpcError || !rpcResult) {
+      console.error("반품 상태 변경 실패:", rpcError);
+      throw new Error("반품 상태 변경 중 오류가 발생했습니다");
+    }
+
+    const result = rpcResult as ChangeReturnStatusRpcResult;
+
+    if (!result.success) {
+      const failure = result as ChangeReturnStatusRpcFailure;
+      console.error("반품 상태 변경 거부:", failure);
+      throw new Error(getChangeReturnStatusErrorMessage(failure));
+    }
+
+    console.log(
+      "반품 상태 변경 완료:",
+      result.from_status,
+      "→",
+      result.to_status,
+    );
+    console.groupEnd();
+
+    revalidatePath("/orders");
+    revalidatePath("/admin/orders");
+
+    return { success: true };
+  } catch (error) {
+    console.error("반품 상태 변경 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * 반품 환불 (관리자 전용)
+ *
+ * 상품별로 환불 금액(부분 환불 가능)과 재고 복구 여부를 정합니다.
+ * 결제 대행사를 호출하기 전에 start_return_refund DB 함수로 반품을 환불 처리 중 상태로 선점해서
+ * 동시에 여러 번 요청해도 한 번만 환불합니다. (결제 대행사 환불에 실패하면 선점을 해제)
+ * 결제 대행사 환불에 성공한 뒤 complete_return_refund DB 함수로 환불 내역을 기록하고 재고를 되돌립니다.
+ */
+export async function refundReturn(
+  returnId: number,
+  lines: Array<{
+    returnItemId: number;
+    refundAmount: number;
+    restock: boolean;
+  }>,
+  note?: string,
+) {
+  console.group("💸 반품 환불");
+  console.log("반품 ID:", returnId, "상품별 환불:", lines);
+
+  try {
+    const validatedLines = RefundLinesSchema.parse(lines);
+    const validatedNote = ReturnNoteSchema.parse(note);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 결제 환불은 서비스 롤로 처리되므로, 호출 전에 반드시 관리자인지 확인
+    await requireAdmin(supabase);
+
+    const { data: returnData, error: returnError } = await supabase
+      .from("returns")
+      .select(RETURN_SELECT)
+      .eq("id", returnId)
+      .single();
+
+    if (returnError || !returnData) {
+      console.error("반품 조회 실패:", returnError);
+      throw new Error("반품을 찾을 수 없습니다");
+    }
+
+    const orderReturn = returnData as unknown as OrderReturn;
+
+    if (orderReturn.status === "refunding") {
+      throw new Error("이미 환불을 처리 중인 반품입니다");
+    }
+
+    if (orderReturn.status !== "received") {
+      throw new Error(
+        `'${getReturnStatusLabel(orderReturn.status)}' 상태의 반품은 환불할 수 없습니다. 상품 회수를 먼저 완료해주세요.`,
+      );
+    }
+
+    // 상품별 환불 금액 검증 (주문 당시 단가 × 반품 수량까지)
+    let totalRefund = 0;
+    for (const line of validatedLines) {
+      const item = orderReturn.return_items.find(
+        (returnItem) => returnItem.id === line.returnItemId,
+      );
+
+      if (!item) {
+        throw new Error("반품에 포함되지 않은 상품입니다");
+      }
+
+      const maxRefund = item.order_item.price_at_time * item.quantity;
+      if (line.refundAmount > maxRefund) {
+        throw new Error(
+          `${item.order_item.product.name}의 환불 금액은 최대 ${maxRefund}원입니다`,
+        );
+      }
+
+      totalRefund += line.refundAmount;
+    }
+
+    console.log("총 환불 금액:", totalRefund, "원");
+
+    // 결제 대행사를 호출하기 전에 반품을 선점 (회수 완료 상태인 반품만 한 요청이 선점 가능)
+    const { data: claimResult, error: claimError } = await supabase.rpc(
+      "start_return_refund",
+      {
+        p_return_id: returnId,
+        p_refund_amount: totalRefund,
+      },
+    );
+
+    const claim = claimResult as StartReturnRefundRpcResult;
+
+    if (claimError || !claim) {
+      console.error("반품 환불 선점 실패:", claimError);
+      throw new Error("반품 환불 처리 중 오류가 발생했습니다");
+    }
+
+    if (!claim.success) {
+      console.warn("반품 환불 선점 거부:", claim);
+      throw new Error(
+        getCompleteReturnRefundErrorMessage(
+          claim as CompleteReturnRefundRpcFailure,
+        ),
+      );
+    }
+
+    // 결제 대행사 환불 (환불 금액이 0원이면 재고만 처리)
+    if (totalRefund > 0) {
+      const { data: payment } = await supabase
+        .from("payments")
+        .select("id")
+        .eq("order_id", orderReturn.order_id)
+        .in("status", ["captured", "partially_refunded"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!payment) {
+        await releaseReturnRefund(returnId);
+        throw new Error("환불할 수 있는 결제 내역이 없습니다");
+      }
+
+      const refund = await refundPayment(
+        payment.id,
+        totalRefund,
+        `반품 #${returnId} 환불`,
+      );
+
+      if (!refund.success) {
+        const refundError = (refund as { error: string }).error;
+        console.error("결제 환불 실패:", refundError);
+        await releaseReturnRefund(returnId);
+        throw new Error(`환불에 실패했습니다: ${refundError}`);
+      }
+    }
+
+    const { data: rpcResult, error: rpcError } = await supabase.rpc(
+      "complete_return_refund",
+      {
+        p_return_id: returnId,
+        p_items: validatedLines.map((line) => ({
+          return_item_id: line.returnItemId,
+          refund_amount: line.refundAmount,
+          restock: line.restock,
+        })),
+        p_note: validatedNote || null,
+      },
+    );
+
+    const result = rpcResult as CompleteReturnRefundRpcResult;
+
+    if (rpcError || !result || !result.success) {
+      // 환불한 금액이 없으면 선점만 해제하고 다시 시도할 수 있게 함
+      if (totalRefund === 0) {
+        console.error("반품 기록 실패:", rpcError || result);
+        await releaseReturnRefund(returnId);
+        throw new Error(
+          rpcError || !result
+            ? "반품 환불 처리 중 오류가 발생했습니다"
+            : getCompleteReturnRefundErrorMessage(
+                result as CompleteReturnRefundRpcFailure,
+              ),
+        );
+      }
+
+      // 결제는 이미 환불되었으므로 반품을 환불 처리 중 상태로 남겨 다시 환불되지 않게 하고 수동 확인
+      console.error("❌ 결제 환불 후 반품 기록 실패:", rpcError || result);
+      throw new Error(
+        rpcError || !result
+          ? `결제 환불은 완료되었지만 반품 #${returnId} 처리 기록에 실패했습니다. 관리자 확인이 필요합니다.`
+          : `결제 환불은 완료되었지만 반품 기록에 실패했습니다: ${getCompleteReturnRefundErrorMessage(result as CompleteReturnRefundRpcFailure)}`,
+      );
+    }
+
+    console.log("반품 환불 완료:", result.refund_amount, "원");
+    console.groupEnd();
+
+    revalidatePath("/orders");
+    revalidatePath("/admin/orders");
+    revalidatePath("/");
+
+    return {
+      success: true,
+      refundAmount: result.refund_amount,
+    };
+  } catch (error) {
+    console.error("반품 환불 오류:", error);
+    console.groupEnd();
+
+    if (error instanceof z.ZodError) {
+      throw new Error(`입력 오류: ${error.errors[0].message}`);
+    }
+
+    throw error;
+  }
+}
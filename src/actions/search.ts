@@ -0,0 +1,151 @@
+/**
+ * @file search.ts
+ * @description 검색 팔레트용 검색 제안 서버 액션
+ *
+ * 입력할 때마다 호출되므로 상품 목록 조회(getProducts)보다 적은 컬럼과 개수만 조회합니다.
+ * 디바운싱과 결과 캐시는 화면 쪽(@/hooks/use-search-suggestions)에서 처리합니다.
+ *
+ * 주요 기능:
+ * 1. 검색어로 상품 제안(이미지, 판매가 표시용 컬럼만)과 카테고리 바로가기 조회
+ * 2. 인기 검색어 조회 (최근 30일, popular_search_queries 뷰)
+ * 3. 검색어 기록 (인기 검색어 집계용, 검색 결과가 있는 검색어만)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - @/actions/categories: 노출 중인 카테고리 목록 조회
+ * - @/lib/categories: 카테고리 경로 계산
+ * - @/lib/search: 검색어 정리
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { getCategories } from "@/actions/categories";
+import { getCategoryPath, getChildCategories } from "@/lib/categories";
+import { normalizeSearchQuery } from "@/lib/search";
+
+// 제안 상품 (목록 한 줄 표시에 필요한 정보만)
+export interface SearchSuggestionProduct {
+  id: number;
+  name: string;
+  image_url: string | null;
+  price: number;
+  sale_price: number | null;
+  sale_starts_at: string | null;
+  sale_ends_at: string | null;
+}
+
+// 카테고리 바로가기
+export interface SearchSuggestionCategory {
+  slug: string;
+  name: string;
+  icon: string | null; // CATEGORY_ICONS의 값 (null이면 기본 아이콘)
+  label: string; // 상위 카테고리부터 표시한 이름 (예: 패션/의류 > 신발)
+}
+
+export interface SearchSuggestions {
+  products: SearchSuggestionProduct[];
+  categories: SearchSuggestionCategory[];
+}
+
+const SUGGESTION_PRODUCT_COLUMNS =
+  "id, name, image_url, price, sale_price, sale_starts_at, sale_ends_at";
+const MAX_PRODUCT_SUGGESTIONS = 6;
+const MAX_CATEGORY_SUGGESTIONS = 4;
+
+/**
+ * 검색 제안 조회
+ * 검색어가 없으면 상품 없이 최상위 카테고리 바로가기만 반환합니다.
+ */
+export async function getSearchSuggestions(
+  query: string,
+): Promise<SearchSuggestions> {
+  const normalizedQuery = normalizeSearchQuery(query);
+  const supabase = await createServerSupabaseClient();
+
+  // 카테고리 바로가기 (이름에 검색어가 포함된 카테고리)
+  const categories = await getCategories();
+  const matchedCategories = normalizedQuery
+    ? categories.filter((category) =>
+        category.name.toLowerCase().includes(normalizedQuery),
+      )
+    : getChildCategories(categories, null);
+
+  const categorySuggestions = matchedCategories
+    .slice(0, MAX_CATEGORY_SUGGESTIONS)
+    .map((category) => ({
+      slug: category.slug,
+      name: category.name,
+      icon: category.icon,
+      label: getCategoryPath(categories, category.slug)
+        .map((pathCategory) => pathCategory.name)
+        .join(" > "),
+    }));
+
+  if (!normalizedQuery) {
+    return { products: [], categories: categorySuggestions };
+  }
+
+  // 상품 제안 (관련도 순, 지금 공개 중인 상품만)
+  const now = new Date().toISOString();
+  const { data: products, error } = await supabase
+    .rpc("search_products", { p_query: normalizedQuery })
+    .eq("status", "published")
+    .or(`publish_at.is.null,publish_at.lte."${now}"`)
+    .or(`unpublish_at.is.null,unpublish_at.gt."${now}"`)
+    .select(SUGGESTION_PRODUCT_COLUMNS)
+    .limit(MAX_PRODUCT_SUGGESTIONS);
+
+  if (error) {
+    console.error("검색 제안 조회 실패:", error);
+    throw new Error("검색 제안을 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return {
+    products: (products || []) as SearchSuggestionProduct[],
+    categories: categorySuggestions,
+  };
+}
+
+/**
+ * 인기 검색어 조회
+ * 최근 30일 동안 5번 이상 검색한 검색어 중 검색 횟수 순 상위 10개만 뷰로 공개되므로,
+ * 한두 번 입력한 검색어(다른 고객이 붙여 넣은 개인 정보 등)는 보이지 않습니다.
+ */
+export async function getPopularSearchQueries(
+  limit: number = 5,
+): Promise<string[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase
+    .from("popular_search_queries")
+    .select("query")
+    .order("search_count", { ascending: false })
+    .order("last_searched_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("인기 검색어 조회 실패:", error);
+    throw new Error("인기 검색어를 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return (data || []).map((row: { query: string }) => row.query);
+}
+
+/**
+ * 검색어 기록 (인기 검색어 집계용, 실패해도 검색은 계속되므로 에러를 던지지 않음)
+ * 공개 상품이 검색되지 않는 검색어는 DB 함수가 기록하지 않습니다.
+ */
+export async function recordSearchQuery(query: string): Promise<void> {
+  const normalizedQuery = normalizeSearchQuery(query);
+  if (!normalizedQuery) return;
+
+  const supabase = await createServerSupabaseClient();
+  const { error } = await supabase.rpc("record_search_query", {
+    p_query: normalizedQuery,
+  });
+
+  if (error) {
+    console.error("검색어 기록 실패:", error);
+  }
+}
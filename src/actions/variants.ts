@@ -0,0 +1,375 @@
+/**
+ * @file variants.ts
+ * @description 상품 옵션(사이즈, 색상 등) 관련 서버 액션
+ *
+ * 주요 기능:
+ * 1. 상품 옵션 목록 조회 (상품 상세에서는 판매 중인 옵션만)
+ * 2. 상품 옵션 종류와 옵션 목록 저장 (관리자만, 추가/수정/삭제를 한 번에 처리)
+ *
+ * 옵션 재고 차감과 복구, 상품 재고 합계는 DB 함수와 트리거가 처리합니다. (@/actions/orders의 createOrder)
+ *
+ * @dependencies
+ * - @/utils/supabase/server: 서버 측 Supabase 클라이언트
+ * - zod: 데이터 유효성 검사
+ * - @/lib/variants: 옵션 타입과 최대 옵션 종류 수
+ */
+
+"use server";
+
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { MAX_OPTION_NAMES, type ProductVariant } from "@/lib/variants";
+
+// 옵션 스키마 (id가 없으면 새 옵션)
+const VariantSchema = z.object({
+  id: z.number().int().positive().optional(),
+  sku: z
+    .string()
+    .trim()
+    .regex(
+      /^[A-Za-z0-9_-]{1,50}$/,
+      "SKU는 영문, 숫자, -, _ 50자 이내로 입력해주세요",
+    ),
+  options: z.record(
+    z
+      .string()
+      .trim()
+      .min(1, "옵션 값을 입력해주세요")
+      .max(30, "옵션 값은 30자 이내로 입력해주세요"),
+  ),
+  price_delta: z.number().int("추가 금액은 원 단위로 입력해주세요"),
+  stock_quantity: z
+    .number()
+    .int("옵션 재고는 개 단위로 입력해주세요")
+    .min(0, "옵션 재고는 0 이상이어야 합니다"),
+  is_active: z.boolean().default(true),
+});
+
+// 상품 옵션 전체 스키마 (옵션 종류와 옵션 조합)
+const ProductVariantsSchema = z
+  .object({
+    option_names: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, "옵션 이름을 입력해주세요")
+          .max(20, "옵션 이름은 20자 이내로 입력해주세요"),
+      )
+      .max(
+        MAX_OPTION_NAMES,
+        `옵션 종류는 ${MAX_OPTION_NAMES}개까지 설정할 수 있습니다`,
+      ),
+    variants: z
+      .array(VariantSchema)
+      .max(100, "옵션은 100개까지 등록할 수 있습니다"),
+  })
+  .superRefine((input, ctx) => {
+    if (new Set(input.option_names).size !== input.option_names.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["option_names"],
+        message: "같은 이름의 옵션 종류가 있습니다",
+      });
+    }
+    if (input.option_names.length > 0 && input.variants.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["variants"],
+        message: "옵션 조합을 하나 이상 추가해주세요",
+      });
+    }
+
+    const combinations = new Set<string>();
+    const skus = new Set<string>();
+
+    input.variants.forEach((variant, index) => {
+      const keys = Object.keys(variant.options);
+      if (
+        keys.length !== input.option_names.length ||
+        input.option_names.some((name) => !variant.options[name])
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["variants", index, "options"],
+          message: `${variant.sku}: 모든 옵션 종류의 값을 입력해주세요`,
+        });
+        return;
+      }
+
+      const combination = JSON.stringify(
+        input.option_names.map((name) => variant.options[name]),
+      );
+      if (combinations.has(combination)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["variants", index, "options"],
+          message: `${variant.sku}: 같은 옵션 조합이 이미 있습니다`,
+        });
+      }
+      combinations.add(combination);
+
+      if (skus.has(variant.sku)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["variants", index, "sku"],
+          message: `SKU가 중복되었습니다: ${variant.sku}`,
+        });
+      }
+      skus.add(variant.sku);
+    });
+  });
+
+// 상품 옵션 저장 입력값
+export type ProductVariantsInput = z.input<typeof ProductVariantsSchema>;
+
+/**
+ * 상품 옵션 목록 조회 (표시 순서대로)
+ * @param includeInactive - 판매 중지된 옵션도 포함 (관리자 화면)
+ */
+export async function getProductVariants(
+  productId: number,
+  includeInactive: boolean = false,
+): Promise<ProductVariant[]> {
+  const supabase = await createServerSupabaseClient();
+
+  let query = supabase
+    .from("product_variants")
+    .select(
+      "id, product_id, sku, options, price_delta, stock_quantity, is_active, sort_order",
+    )
+    .eq("product_id", productId)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("상품 옵션 조회 실패:", error);
+    throw new Error("상품 옵션을 불러오는 중 오류가 발생했습니다.");
+  }
+
+  return (data || []).map((variant) => ({
+    ...variant,
+    price_delta: Number(variant.price_delta),
+  })) as ProductVariant[];
+}
+
+/**
+ * 상품 옵션 저장 (관리자만)
+ *
+ * 입력한 목록이 상품의 전체 옵션이 되도록 새 옵션은 추가하고, 기존 옵션은 수정하며, 목록에서 빠진 옵션은 삭제합니다.
+ * 옵션 종류를 모두 비우면 옵션 없는 상품으로 돌아가며, 상품 재고는 0이 되므로 다시 입력해야 합니다.
+ * 삭제된 옵션은 장바구니에서 빠지고, 주문 내역에는 주문 당시 옵션 라벨이 남습니다.
+ */
+export async function saveProductVariants(
+  productId: number,
+  input: ProductVariantsInput,
+): Promise<{
+  success: boolean;
+  message: string;
+}> {
+  try {
+    console.group("🎨 상품 옵션 저장");
+    console.log("상품 ID:", productId, "입력값:", input);
+
+    const supabase = await createServerSupabaseClient();
+
+    // 현재 사용자 확인
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      console.groupEnd();
+      return { success: false, message: "로그인이 필요합니다." };
+    }
+
+    // 관리자 권한 확인
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.is_admin) {
+      console.groupEnd();
+      return { success: false, message: "관리자 권한이 필요합니다." };
+    }
+
+    const validatedData = ProductVariantsSchema.parse(input);
+
+    const { data: product, error: productError } = await supabase
+      .from("products")
+      .select("id, price, sale_price")
+      .eq("id", productId)
+      .single();
+
+    if (productError || !product) {
+      console.error("상품 조회 실패:", productError);
+      console.groupEnd();
+      return { success: false, message: "상품을 찾을 수 없습니다." };
+    }
+
+    // 세일 중에도 옵션 판매가가 0원 이하가 되지 않아야 합니다.
+    const lowestPrice = Math.min(
+      Number(product.price),
+      Number(product.sale_price ?? product.price),
+    );
+    const invalidVariant = validatedData.variants.find(
+      (variant) => lowestPrice + variant.price_delta <= 0,
+    );
+    if (invalidVariant) {
+      console.groupEnd();
+      return {
+        success: false,
+        message: `${invalidVariant.sku}: 옵션 판매가는 0원보다 커야 합니다.`,
+      };
+    }
+
+    // 목록에서 빠진 기존 옵션 삭제 (SKU/조합 중복을 피하려고 수정/추가보다 먼저 처리)
+    const { data: existingVariants, error: existingError } = await supabase
+      .from("product_variants")
+      .select("id")
+      .eq("product_id", productId);
+
+    if (existingError) {
+      console.error("기존 옵션 조회 실패:", existingError);
+      console.groupEnd();
+      return {
+        success: false,
+        message: "상품 옵션 저장 중 오류가 발생했습니다.",
+      };
+    }
+
+    const keptIds = new Set(
+      validatedData.variants
+        .map((variant) => variant.id)
+        .filter((id): id is number => id !== undefined),
+    );
+    const removedIds = (existingVariants || [])
+      .map((variant) => variant.id as number)
+      .filter((id) => !keptIds.has(id));
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("product_variants")
+        .delete()
+        .eq("product_id", productId)
+        .in("id", removedIds);
+
+      if (deleteError) {
+        console.error("옵션 삭제 실패:", deleteError);
+        console.groupEnd();
+        return {
+          success: false,
+          message: "상품 옵션 삭제 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    // 기존 옵션 수정, 새 옵션 추가 (입력 순서를 표시 순서로 사용)
+    const newVariants = [];
+    for (const [index, variant] of validatedData.variants.entries()) {
+      const row = {
+        sku: variant.sku,
+        options: variant.options,
+        price_delta: variant.price_delta,
+        stock_quantity: variant.stock_quantity,
+        is_active: variant.is_active,
+        sort_order: index,
+      };
+
+      if (variant.id === undefined) {
+        newVariants.push({ ...row, product_id: productId });
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("product_variants")
+        .update(row)
+        .eq("id", variant.id)
+        .eq("product_id", productId);
+
+      if (updateError) {
+        console.error("옵션 수정 실패:", variant.sku, updateError);
+        console.groupEnd();
+        return {
+          success: false,
+          message:
+            updateError.code === "23505"
+              ? `이미 사용 중인 SKU이거나 중복된 옵션 조합입니다: ${variant.sku}`
+              : "상품 옵션 수정 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    if (newVariants.length > 0) {
+      const { error: insertError } = await supabase
+        .from("product_variants")
+        .insert(newVariants);
+
+      if (insertError) {
+        console.error("옵션 추가 실패:", insertError);
+        console.groupEnd();
+        return {
+          success: false,
+          message:
+            insertError.code === "23505"
+              ? "이미 사용 중인 SKU이거나 중복된 옵션 조합입니다."
+              : "상품 옵션 추가 중 오류가 발생했습니다.",
+        };
+      }
+    }
+
+    const { error: optionNamesError } = await supabase
+      .from("products")
+      .update({ option_names: validatedData.option_names })
+      .eq("id", productId);
+
+    if (optionNamesError) {
+      console.error("옵션 종류 저장 실패:", optionNamesError);
+      console.groupEnd();
+      return {
+        success: false,
+        message: "옵션 종류 저장 중 오류가 발생했습니다.",
+      };
+    }
+
+    console.log("상품 옵션 저장 완료:", {
+      옵션종류: validatedData.option_names,
+      옵션수: validatedData.variants.length,
+      삭제: removedIds.length,
+    });
+    console.groupEnd();
+
+    revalidatePath("/");
+    revalidatePath("/admin/products");
+    revalidatePath(`/products/${productId}`);
+
+    return {
+      success: true,
+      message:
+        validatedData.variants.length > 0
+          ? `옵션 ${validatedData.variants.length}개가 저장되었습니다.`
+          : "옵션이 모두 삭제되었습니다.",
+    };
+  } catch (error) {
+    console.error("상품 옵션 저장 실패:", error);
+    console.groupEnd();
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        message: `유효성 검사 실패: ${error.errors[0].message}`,
+      };
+    }
+    return {
+      success: false,
+      message: "상품 옵션 저장 중 오류가 발생했습니다.",
+    };
+  }
+}
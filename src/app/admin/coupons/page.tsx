@@ -0,0 +1,92 @@
+/**
+ * @file admin/coupons/page.tsx
+ * @description 관리자 쿠폰 관리 페이지
+ *
+ * 주요 기능:
+ * 1. 관리자 권한 확인
+ * 2. 쿠폰 목록 조회 및 생성/수정/사용 중지/삭제 (CouponManagement)
+ *
+ * @dependencies
+ * - @/components/nav/navbar: 네비게이션 바
+ * - @/components/admin/coupon-management: 쿠폰 관리 컴포넌트
+ * - @/utils/supabase/server: 서버 Supabase 클라이언트
+ */
+
+import { redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { Navbar } from "@/components/nav/navbar";
+import { CouponManagement } from "@/components/admin/coupon-management";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Ticket } from "lucide-react";
+import Link from "next/link";
+
+// 관리자 권한 확인
+async function checkAdminAccess(): Promise<boolean> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return false;
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .single();
+
+    return profile?.is_admin === true;
+  } catch (error) {
+    console.error("관리자 권한 확인 오류:", error);
+    return false;
+  }
+}
+
+// 메인 쿠폰 관리 페이지
+export default async function AdminCouponsPage() {
+  console.log("🎟️ 쿠폰 관리 페이지 렌더링 시작");
+
+  // 관리자 권한 확인
+  const isAdmin = await checkAdminAccess();
+
+  if (!isAdmin) {
+    console.log("❌ 관리자 권한 없음 - 홈으로 리다이렉트");
+    redirect("/");
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navbar />
+
+      <main className="flex-grow">
+        {/* 헤더 */}
+        <div className="border-b bg-white">
+          <div className="container mx-auto px-4 py-6">
+            <div className="flex items-center gap-4">
+              <Link href="/admin">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  대시보드로
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Ticket className="h-6 w-6" />
+                <h1 className="text-2xl font-bold">쿠폰 관리</h1>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* 쿠폰 관리 내용 */}
+        <div className="container mx-auto px-4 py-8">
+          <CouponManagement />
+        </div>
+      </main>
+    </div>
+  );
+}
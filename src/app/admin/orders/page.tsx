@@ -5,13 +5,15 @@
  * 주요 기능:
  * 1. 전체 주문 목록 조회 (페이지네이션)
  * 2. 주문 상태별 필터링
- * 3. 주문 상태 변경 (관리자 전용)
- * 4. 주문 상세 정보 표시
+ * 3. 주문 상태 변경 (관리자 전용, 허용된 다음 상태로만 변경하고 변경 사유 기록)
+ * 4. 주문 상세 정보 표시 (영수증 새 창으로 열기)
  * 5. 주문자 정보 확인
- * 6. 반응형 레이아웃
+ * 6. 반품 관리 탭 (반품 승인/거절/회수, 부분 환불 및 재고 복구)
+ * 7. 반응형 레이아웃
  *
  * @dependencies
  * - @/actions/orders: 주문 서버 액션
+ * - @/components/admin/return-management: 반품 관리
  * - @/components/nav/navbar: 네비게이션 바
  * - @/components/ui: ShadcnUI 컴포넌트들
  */
@@ -26,8 +28,11 @@ import { Navbar } from "@/components/nav/navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReturnManagement } from "@/components/admin/return-management";
 import {
   ArrowLeft,
   ShoppingCart,
@@ -35,12 +40,10 @@ import {
   MoreHorizontal,
   Eye,
   Edit,
-  Clock,
-  CheckCircle2,
-  Truck,
   Package,
   AlertCircle,
   User,
+  Receipt,
 } from "lucide-react";
 import {
   Table,
@@ -63,6 +66,8 @@ import {
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -70,28 +75,22 @@ import Link from "next/link";
 import Image from "next/image";
 import { formatPrice } from "@/lib/utils";
 import { useAuth } from "@/components/auth/auth-provider";
+import {
+  OrderStatusBadge,
+  getOrderStatusIcon,
+} from "@/components/order/order-status-badge";
+import {
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+  getOrderStatusLabel,
+  isValidOrderStatus,
+} from "@/constants/order-status";
 
 // 페이지당 주문 수
 const ORDERS_PER_PAGE = 10;
 
-// 주문 상태 설정
-const ORDER_STATUSES = [
-  { value: "", label: "전체" },
-  { value: "pending", label: "주문 접수" },
-  { value: "confirmed", label: "주문 확인" },
-  { value: "shipping", label: "배송 중" },
-  { value: "delivered", label: "배송 완료" },
-  { value: "cancelled", label: "주문 취소" },
-];
-
-// 주문 상태 변경 옵션
-const STATUS_ACTIONS = [
-  { value: "pending", label: "주문 접수", icon: Clock },
-  { value: "confirmed", label: "주문 확인", icon: CheckCircle2 },
-  { value: "shipping", label: "배송 중", icon: Truck },
-  { value: "delivered", label: "배송 완료", icon: Package },
-  { value: "cancelled", label: "주문 취소", icon: AlertCircle },
-];
+// 주문 상태 필터 옵션
+const ORDER_STATUS_FILTERS = [{ value: "", label: "전체" }, ...ORDER_STATUSES];
 
 // 주문 목록 스켈레톤
 function OrderTableSkeleton() {
@@ -155,48 +154,6 @@ function OrderTableSkeleton() {
   );
 }
 
-// 주문 상태 배지 컴포넌트
-function OrderStatusBadge({ status }: { status: string }) {
-  const statusConfig = {
-    pending: {
-      label: "주문 접수",
-      variant: "outline" as const,
-      icon: Clock,
-    },
-    confirmed: {
-      label: "주문 확인",
-      variant: "secondary" as const,
-      icon: CheckCircle2,
-    },
-    shipping: {
-      label: "배송 중",
-      variant: "default" as const,
-      icon: Truck,
-    },
-    delivered: {
-      label: "배송 완료",
-      variant: "secondary" as const,
-      icon: Package,
-    },
-    cancelled: {
-      label: "주문 취소",
-      variant: "destructive" as const,
-      icon: AlertCircle,
-    },
-  };
-
-  const config =
-    statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
-  const Icon = config.icon;
-
-  return (
-    <Badge variant={config.variant} className="flex items-center gap-1">
-      <Icon className="h-3 w-3" />
-      {config.label}
-    </Badge>
-  );
-}
-
 // 주문 상세 다이얼로그
 function OrderDetailDialog({
   order,
@@ -213,7 +170,19 @@ function OrderDetailDialog({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>주문 상세 정보 #{order.id}</DialogTitle>
+          <DialogTitle className="flex items-center justify-between gap-4 pr-6">
+            주문 상세 정보 #{order.id}
+            <a
+              href={`/orders/${order.id}/invoice`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Button variant="outline" size="sm">
+                <Receipt className="h-4 w-4 mr-2" />
+                영수증
+              </Button>
+            </a>
+          </DialogTitle>
         </DialogHeader>
 
         <div className="space-y-6">
@@ -236,6 +205,32 @@ function OrderDetailDialog({
                   <span className="text-gray-600">주문상태:</span>
                   <OrderStatusBadge status={order.status} />
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">배송비:</span>
+                  <span>{formatPrice(order.shipping_fee ?? 0)}원</span>
+                </div>
+                {order.discount_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">쿠폰 할인:</span>
+                    <span className="text-red-600">
+                      {`-${formatPrice(order.discount_amount)}원 (${order.coupon_code})`}
+                    </span>
+                  </div>
+                )}
+                {order.points_used > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">적립금 사용:</span>
+                    <span className="text-red-600">
+                      -{formatPrice(order.points_used)}원
+                    </span>
+                  </div>
+                )}
+                {order.points_earned > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">구매 적립:</span>
+                    <span>{formatPrice(order.points_earned)}원</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">총 결제금액:</span>
                   <span className="font-bold text-orange-600">
@@ -262,6 +257,34 @@ function OrderDetailDialog({
             </div>
           </div>
 
+          {/* 배송 정보 */}
+          <div>
+            <h3 className="font-semibold mb-2">배송 정보</h3>
+            {order.customer_name ? (
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">수령인:</span>
+                  <span>{order.customer_name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">연락처:</span>
+                  <span>{order.customer_phone}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-600 shrink-0">배송 주소:</span>
+                  <span className="text-right break-all">
+                    {order.customer_postcode && `(${order.customer_postcode}) `}
+                    {order.customer_address}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                배송 정보가 저장되지 않은 주문입니다.
+              </p>
+            )}
+          </div>
+
           {/* 주문 상품 목록 */}
           <div>
             <h3 className="font-semibold mb-3">
@@ -288,6 +311,9 @@ function OrderDetailDialog({
                   <div className="flex-grow">
                     <h4 className="font-medium">{item.product.name}</h4>
                     <div className="text-sm text-gray-600 space-y-1">
+                      {item.variant_label && (
+                        <p>{`옵션: ${item.variant_label} (SKU: ${item.sku ?? "-"})`}</p>
+                      )}
                       <p>수량: {item.quantity}개</p>
                       <p>단가: {formatPrice(item.price_at_time)}원</p>
                       <p className="font-medium text-gray-900">
@@ -306,6 +332,68 @@ function OrderDetailDialog({
   );
 }
 
+// 주문 상태 변경 확인 다이얼로그 (변경 사유 입력)
+function StatusChangeDialog({
+  change,
+  isSubmitting,
+  onConfirm,
+  onClose,
+}: {
+  change: { order: OrderWithItems; status: string } | null;
+  isSubmitting: boolean;
+  onConfirm: (reason: string) => void;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = useState("");
+
+  // 다이얼로그가 열릴 때마다 사유 초기화
+  useEffect(() => {
+    if (change) setReason("");
+  }, [change]);
+
+  if (!change) return null;
+
+  return (
+    <Dialog open={change !== null} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>주문 상태 변경 #{change.order.id}</DialogTitle>
+          <DialogDescription>
+            {`'${getOrderStatusLabel(change.order.status)}' → '${getOrderStatusLabel(change.status)}' 상태로 변경합니다. 변경 후에는 이전 상태로 되돌릴 수 없습니다.`}
+            {change.status === "cancelled" &&
+              " 주문 상품 수량만큼 재고가 복구됩니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="statusReason">변경 사유 (선택)</Label>
+          <Textarea
+            id="statusReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="예: 송장번호 1234-5678 발송 완료"
+            maxLength={200}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            닫기
+          </Button>
+          <Button
+            variant={change.status === "cancelled" ? "destructive" : "default"}
+            onClick={() => onConfirm(reason)}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? "변경 중..." : "상태 변경"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // 관리자 주문 관리 페이지
 function AdminOrdersPageClient() {
   const router = useRouter();
@@ -326,6 +414,13 @@ function AdminOrdersPageClient() {
     null,
   );
   const [isUpdatingStatus, setIsUpdatingStatus] = useState<number | null>(null);
+  const [pendingStatusChange, setPendingStatusChange] = useState<{
+    order: OrderWithItems;
+    status: string;
+  } | null>(null);
+
+  const activeTab =
+    searchParams.get("tab") === "returns" ? "returns" : "orders";
 
   console.log("🔧 관리자 주문 관리 페이지 렌더링");
 
@@ -412,14 +507,19 @@ function AdminOrdersPageClient() {
   }, [searchTerm, authLoading, user, isLoading, fetchOrders]);
 
   // 주문 상태 변경 처리
-  const handleStatusUpdate = async (orderId: number, newStatus: string) => {
+  const handleStatusUpdate = async (
+    orderId: number,
+    newStatus: string,
+    reason: string,
+  ) => {
     try {
       setIsUpdatingStatus(orderId);
       console.log("📦 주문 상태 변경:", orderId, "→", newStatus);
 
-      const result = await updateOrderStatus(orderId, newStatus);
+      const result = await updateOrderStatus(orderId, newStatus, reason);
 
       if (result.success) {
+        setPendingStatusChange(null);
         await fetchOrders(); // 목록 새로고침
         console.log("✅ 주문 상태 변경 완료");
       } else {
@@ -437,6 +537,13 @@ function AdminOrdersPageClient() {
     }
   };
 
+  // 탭 변경 (반품 탭은 URL에 tab=returns로 유지)
+  const handleTabChange = (tab: string) => {
+    router.push(
+      tab === "returns" ? "/admin/orders?tab=returns" : "/admin/orders",
+    );
+  };
+
   // 필터 변경
   const handleFilterChange = (status: string) => {
     const params = new URLSearchParams();
@@ -456,7 +563,7 @@ function AdminOrdersPageClient() {
   };
 
   // 로딩 상태
-  if (authLoading || isLoading) {
+  if (authLoading || (activeTab === "orders" && isLoading)) {
     return (
       <div className="min-h-screen flex flex-col bg-background">
         <Navbar />
@@ -480,7 +587,7 @@ function AdminOrdersPageClient() {
   }
 
   // 에러 상태
-  if (error && !orders.length) {
+  if (activeTab === "orders" && error && !orders.length) {
     return (
       <div className="min-h-screen flex flex-col bg-background">
         <Navbar />
@@ -534,213 +641,249 @@ function AdminOrdersPageClient() {
           </div>
         </div>
 
-        {/* 주문 관리 내용 */}
+        {/* 주문 관리 내용 (주문 / 반품 탭) */}
         <div className="container mx-auto px-4 py-8">
-          <div className="space-y-6">
-            {/* 검색 및 필터 */}
-            <div className="flex flex-col sm:flex-row gap-4">
-              <div className="flex-1 relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="주문 번호 또는 사용자 정보로 검색..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-              <div className="flex gap-2 flex-wrap">
-                {ORDER_STATUSES.map((status) => (
-                  <Button
-                    key={status.value}
-                    variant={
-                      filterStatus === status.value ? "default" : "outline"
-                    }
-                    size="sm"
-                    onClick={() => handleFilterChange(status.value)}
-                  >
-                    {status.label}
-                  </Button>
-                ))}
-              </div>
-            </div>
-
-            {/* 에러 메시지 (부분 에러) */}
-            {error && orders.length > 0 && (
-              <Card className="border-red-200 bg-red-50">
-                <CardContent className="pt-6">
-                  <div className="flex items-center gap-2 text-red-700">
-                    <AlertCircle className="h-5 w-5" />
-                    <span>{error}</span>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* 주문 테이블 */}
-            {orders.length === 0 ? (
-              <div className="text-center py-12">
-                <ShoppingCart className="h-16 w-16 mx-auto text-gray-400 mb-4" />
-                <h2 className="text-xl font-semibold mb-2">주문이 없습니다</h2>
-                <p className="text-gray-600 mb-6">
-                  {searchTerm
-                    ? `"${searchTerm}" 검색 결과가 없습니다.`
-                    : filterStatus
-                      ? `${ORDER_STATUSES.find((s) => s.value === filterStatus)?.label} 상태의 주문이 없습니다.`
-                      : "등록된 주문이 없습니다."}
-                </p>
-              </div>
-            ) : (
-              <Card>
-                <CardHeader>
-                  <CardTitle>
-                    주문 목록 (총 {totalCount}개 중 {orders.length}개 표시)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="border rounded-lg">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>주문번호</TableHead>
-                          <TableHead>주문자</TableHead>
-                          <TableHead>상태</TableHead>
-                          <TableHead>결제금액</TableHead>
-                          <TableHead>상품수</TableHead>
-                          <TableHead>주문일시</TableHead>
-                          <TableHead className="w-[50px]">액션</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {orders.map((order) => (
-                          <TableRow key={order.id}>
-                            <TableCell className="font-mono">
-                              #{order.id}
-                            </TableCell>
-                            <TableCell>
-                              <div>
-                                <div className="flex items-center gap-2">
-                                  <User className="h-4 w-4 text-gray-400" />
-                                  <span className="text-sm">
-                                    {order.profiles?.name || "익명"}
-                                  </span>
-                                </div>
-                                <p className="text-xs text-gray-500 font-mono">
-                                  {order.user_id.substring(0, 8)}...
-                                </p>
-                              </div>
-                            </TableCell>
-                            <TableCell>
-                              <OrderStatusBadge status={order.status} />
-                            </TableCell>
-                            <TableCell className="font-medium">
-                              {formatPrice(order.total_amount)}원
-                            </TableCell>
-                            <TableCell>{order.order_items.length}개</TableCell>
-                            <TableCell>
-                              {new Date(order.created_at).toLocaleDateString(
-                                "ko-KR",
-                              )}
-                            </TableCell>
-                            <TableCell>
-                              <DropdownMenu>
-                                <DropdownMenuTrigger asChild>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    disabled={isUpdatingStatus === order.id}
-                                  >
-                                    <MoreHorizontal className="h-4 w-4" />
-                                  </Button>
-                                </DropdownMenuTrigger>
-                                <DropdownMenuContent align="end">
-                                  <DropdownMenuItem
-                                    onClick={() => setSelectedOrder(order)}
-                                  >
-                                    <Eye className="h-4 w-4 mr-2" />
-                                    상세 보기
-                                  </DropdownMenuItem>
-                                  <DropdownMenuSeparator />
-                                  <DropdownMenuSub>
-                                    <DropdownMenuSubTrigger>
-                                      <Edit className="h-4 w-4 mr-2" />
-                                      상태 변경
-                                    </DropdownMenuSubTrigger>
-                                    <DropdownMenuSubContent>
-                                      {STATUS_ACTIONS.map((action) => {
-                                        const Icon = action.icon;
-                                        return (
-                                          <DropdownMenuItem
-                                            key={action.value}
-                                            onClick={() =>
-                                              handleStatusUpdate(
-                                                order.id,
-                                                action.value,
-                                              )
-                                            }
-                                            disabled={
-                                              order.status === action.value
-                                            }
-                                          >
-                                            <Icon className="h-4 w-4 mr-2" />
-                                            {action.label}
-                                          </DropdownMenuItem>
-                                        );
-                                      })}
-                                    </DropdownMenuSubContent>
-                                  </DropdownMenuSub>
-                                </DropdownMenuContent>
-                              </DropdownMenu>
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
+          <Tabs
+            value={activeTab}
+            onValueChange={handleTabChange}
+            className="gap-6"
+          >
+            <TabsList>
+              <TabsTrigger value="orders">주문</TabsTrigger>
+              <TabsTrigger value="returns">반품</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="returns">
+              <ReturnManagement />
+            </TabsContent>
+
+            <TabsContent value="orders">
+              <div className="space-y-6">
+                {/* 검색 및 필터 */}
+                <div className="flex flex-col sm:flex-row gap-4">
+                  <div className="flex-1 relative">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                    <Input
+                      placeholder="주문 번호 또는 사용자 정보로 검색..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10"
+                    />
                   </div>
-                </CardContent>
-              </Card>
-            )}
-
-            {/* 페이지네이션 */}
-            {totalPages > 1 && (
-              <div className="flex justify-center gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={currentPage === 1}
-                  onClick={() => handlePageChange(currentPage - 1)}
-                >
-                  이전
-                </Button>
-
-                {Array.from({ length: Math.min(5, totalPages) }).map(
-                  (_, index) => {
-                    const page = Math.max(1, currentPage - 2) + index;
-                    if (page > totalPages) return null;
-
-                    return (
+                  <div className="flex gap-2 flex-wrap">
+                    {ORDER_STATUS_FILTERS.map((status) => (
                       <Button
-                        key={page}
-                        variant={currentPage === page ? "default" : "outline"}
+                        key={status.value}
+                        variant={
+                          filterStatus === status.value ? "default" : "outline"
+                        }
                         size="sm"
-                        onClick={() => handlePageChange(page)}
+                        onClick={() => handleFilterChange(status.value)}
                       >
-                        {page}
+                        {status.label}
                       </Button>
-                    );
-                  },
+                    ))}
+                  </div>
+                </div>
+
+                {/* 에러 메시지 (부분 에러) */}
+                {error && orders.length > 0 && (
+                  <Card className="border-red-200 bg-red-50">
+                    <CardContent className="pt-6">
+                      <div className="flex items-center gap-2 text-red-700">
+                        <AlertCircle className="h-5 w-5" />
+                        <span>{error}</span>
+                      </div>
+                    </CardContent>
+                  </Card>
                 )}
 
-                <Button
-                  variant="outline"
-                  size="sm"
-                  disabled={currentPage === totalPages}
-                  onClick={() => handlePageChange(currentPage + 1)}
-                >
-                  다음
-                </Button>
+                {/* 주문 테이블 */}
+                {orders.length === 0 ? (
+                  <div className="text-center py-12">
+                    <ShoppingCart className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+                    <h2 className="text-xl font-semibold mb-2">
+                      주문이 없습니다
+                    </h2>
+                    <p className="text-gray-600 mb-6">
+                      {searchTerm
+                        ? `"${searchTerm}" 검색 결과가 없습니다.`
+                        : filterStatus
+                          ? `${ORDER_STATUS_FILTERS.find((s) => s.value === filterStatus)?.label} 상태의 주문이 없습니다.`
+                          : "등록된 주문이 없습니다."}
+                    </p>
+                  </div>
+                ) : (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>
+                        주문 목록 (총 {totalCount}개 중 {orders.length}개 표시)
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="border rounded-lg">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>주문번호</TableHead>
+                              <TableHead>주문자</TableHead>
+                              <TableHead>상태</TableHead>
+                              <TableHead>결제금액</TableHead>
+                              <TableHead>상품수</TableHead>
+                              <TableHead>주문일시</TableHead>
+                              <TableHead className="w-[50px]">액션</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {orders.map((order) => (
+                              <TableRow key={order.id}>
+                                <TableCell className="font-mono">
+                                  #{order.id}
+                                </TableCell>
+                                <TableCell>
+                                  <div>
+                                    <div className="flex items-center gap-2">
+                                      <User className="h-4 w-4 text-gray-400" />
+                                      <span className="text-sm">
+                                        {order.profiles?.name || "익명"}
+                                      </span>
+                                    </div>
+                                    <p className="text-xs text-gray-500 font-mono">
+                                      {order.user_id.substring(0, 8)}...
+                                    </p>
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <OrderStatusBadge status={order.status} />
+                                </TableCell>
+                                <TableCell className="font-medium">
+                                  {formatPrice(order.total_amount)}원
+                                </TableCell>
+                                <TableCell>
+                                  {order.order_items.length}개
+                                </TableCell>
+                                <TableCell>
+                                  {new Date(
+                                    order.created_at,
+                                  ).toLocaleDateString("ko-KR")}
+                                </TableCell>
+                                <TableCell>
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        disabled={isUpdatingStatus === order.id}
+                                      >
+                                        <MoreHorizontal className="h-4 w-4" />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      <DropdownMenuItem
+                                        onClick={() => setSelectedOrder(order)}
+                                      >
+                                        <Eye className="h-4 w-4 mr-2" />
+                                        상세 보기
+                                      </DropdownMenuItem>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuSub>
+                                        <DropdownMenuSubTrigger>
+                                          <Edit className="h-4 w-4 mr-2" />
+                                          상태 변경
+                                        </DropdownMenuSubTrigger>
+                                        <DropdownMenuSubContent>
+                                          {(isValidOrderStatus(order.status)
+                                            ? ORDER_STATUS_TRANSITIONS[
+                                                order.status
+                                              ]
+                                            : []
+                                          ).map((nextStatus) => {
+                                            const Icon =
+                                              getOrderStatusIcon(nextStatus);
+                                            return (
+                                              <DropdownMenuItem
+                                                key={nextStatus}
+                                                onClick={() =>
+                                                  setPendingStatusChange({
+                                                    order,
+                                                    status: nextStatus,
+                                                  })
+                                                }
+                                              >
+                                                <Icon className="h-4 w-4 mr-2" />
+                                                {getOrderStatusLabel(
+                                                  nextStatus,
+                                                )}
+                                              </DropdownMenuItem>
+                                            );
+                                          })}
+                                          {(!isValidOrderStatus(order.status) ||
+                                            ORDER_STATUS_TRANSITIONS[
+                                              order.status
+                                            ].length === 0) && (
+                                            <DropdownMenuItem disabled>
+                                              변경 가능한 상태가 없습니다
+                                            </DropdownMenuItem>
+                                          )}
+                                        </DropdownMenuSubContent>
+                                      </DropdownMenuSub>
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* 페이지네이션 */}
+                {totalPages > 1 && (
+                  <div className="flex justify-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={currentPage === 1}
+                      onClick={() => handlePageChange(currentPage - 1)}
+                    >
+                      이전
+                    </Button>
+
+                    {Array.from({ length: Math.min(5, totalPages) }).map(
+                      (_, index) => {
+                        const page = Math.max(1, currentPage - 2) + index;
+                        if (page > totalPages) return null;
+
+                        return (
+                          <Button
+                            key={page}
+                            variant={
+                              currentPage === page ? "default" : "outline"
+                            }
+                            size="sm"
+                            onClick={() => handlePageChange(page)}
+                          >
+                            {page}
+                          </Button>
+                        );
+                      },
+                    )}
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={currentPage === totalPages}
+                      onClick={() => handlePageChange(currentPage + 1)}
+                    >
+                      다음
+                    </Button>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
+            </TabsContent>
+          </Tabs>
         </div>
       </main>
 
@@ -750,6 +893,24 @@ function AdminOrdersPageClient() {
         isOpen={selectedOrder !== null}
         onClose={() => setSelectedOrder(null)}
       />
+
+      {/* 주문 상태 변경 다이얼로그 */}
+      <StatusChangeDialog
+        change={pendingStatusChange}
+        isSubmitting={
+          pendingStatusChange !== null &&
+          isUpdatingStatus === pendingStatusChange.order.id
+        }
+        onConfirm={(reason) =>
+          pendingStatusChange &&
+          handleStatusUpdate(
+            pendingStatusChange.order.id,
+            pendingStatusChange.status,
+            reason,
+          )
+        }
+        onClose={() => setPendingStatusChange(null)}
+      />
     </div>
   );
 }
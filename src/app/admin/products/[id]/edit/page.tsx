@@ -0,0 +1,129 @@
+/**
+ * @file admin/products/[id]/edit/page.tsx
+ * @description 관리자 상품 수정 페이지
+ *
+ * 주요 기능:
+ * 1. 관리자 권한 확인
+ * 2. 상품 정보, 옵션(판매 중지 포함), 이미지 불러오기
+ * 3. 상품 수정 폼 (ProductForm, 새 상품 등록 페이지와 같은 폼)
+ *
+ * @dependencies
+ * - @/actions/products: 상품 조회 서버 액션
+ * - @/actions/variants: 상품 옵션 조회
+ * - @/actions/product-images: 상품 이미지 조회
+ * - @/components/nav/navbar: 네비게이션 바
+ * - @/components/admin/product-form: 상품 등록/수정 폼
+ * - @/utils/supabase/server: 서버 Supabase 클라이언트
+ */
+
+import { notFound, redirect } from "next/navigation";
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import { getProduct } from "@/actions/products";
+import { getProductVariants } from "@/actions/variants";
+import { getProductImages } from "@/actions/product-images";
+import { Navbar } from "@/components/nav/navbar";
+import { ProductForm } from "@/components/admin/product-form";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Pencil } from "lucide-react";
+import Link from "next/link";
+
+interface EditProductPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// 관리자 권한 확인
+async function checkAdminAccess(): Promise<boolean> {
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return false;
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("is_admin")
+      .eq("id", user.id)
+      .single();
+
+    return profile?.is_admin === true;
+  } catch (error) {
+    console.error("관리자 권한 확인 오류:", error);
+    return false;
+  }
+}
+
+// 메인 상품 수정 페이지
+export default async function EditProductPage({
+  params,
+}: EditProductPageProps) {
+  const { id } = await params;
+  const productId = parseInt(id, 10);
+
+  console.log("✏️ 상품 수정 페이지 렌더링 시작:", productId);
+
+  if (isNaN(productId) || productId <= 0) {
+    notFound();
+  }
+
+  // 관리자 권한 확인
+  const isAdmin = await checkAdminAccess();
+
+  if (!isAdmin) {
+    console.log("❌ 관리자 권한 없음 - 홈으로 리다이렉트");
+    redirect("/");
+  }
+
+  const product = await getProduct(productId);
+
+  if (!product) {
+    notFound();
+  }
+
+  const [variants, images] = await Promise.all([
+    getProductVariants(productId, true),
+    getProductImages(productId),
+  ]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Navbar />
+
+      <main className="flex-grow">
+        {/* 헤더 */}
+        <div className="border-b bg-white">
+          <div className="container mx-auto px-4 py-6">
+            <div className="flex items-center gap-4">
+              <Link href="/admin/products">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  상품 목록으로
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <Pencil className="h-6 w-6" />
+                <h1 className="text-2xl font-bold">상품 수정</h1>
+                <span className="text-gray-500 truncate">{product.name}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* 상품 수정 폼 (최신 내용을 다시 불러오면 새 수정 시각으로 폼을 다시 만듦) */}
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <ProductForm
+              key={product.updated_at}
+              initialData={{ product, variants, images }}
+            />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -9,11 +9,21 @@
  * 4. 재고 부족 상품 필터링
  * 5. 상품 검색 기능
  * 6. 반응형 레이아웃
+ * 7. 정가/세일 가격 설정 및 가격 변경 이력 (ProductPricingDialog)
+ * 8. 옵션(사이즈, 색상 등)과 옵션별 SKU, 가격, 재고 관리 (ProductVariantsDialog)
+ * 9. 상품 카테고리 표시 및 카테고리별 필터링
+ * 10. 공개 상태(작성 중, 공개 예약 등) 표시 및 상태별 필터링, 공개 전 상품 미리보기
+ * 11. 상품 보관/복원 (주문 내역이 있어 삭제할 수 없는 상품은 보관)
  *
  * @dependencies
  * - @/actions/products: 상품 서버 액션
  * - @/components/nav/navbar: 네비게이션 바
+ * - @/components/admin/product-pricing-dialog: 가격/세일 설정 다이얼로그
+ * - @/components/admin/product-variants-dialog: 옵션 관리 다이얼로그
  * - @/components/ui: ShadcnUI 컴포넌트들
+ * - @/hooks/use-categories: 카테고리 목록 조회 훅
+ * - @/components/admin/category-select: 카테고리 선택 (하위 카테고리 포함 필터)
+ * - @/lib/product-status: 상품 공개 상태
  */
 
 "use client";
@@ -23,15 +33,26 @@ import { useRouter, useSearchParams } from "next/navigation";
 import {
   getProducts,
   deleteProduct,
+  archiveProduct,
+  restoreProduct,
   adjustProductStock,
 } from "@/actions/products";
 import type { Product } from "@/actions/products";
 import { Navbar } from "@/components/nav/navbar";
+import { ProductPricingDialog } from "@/components/admin/product-pricing-dialog";
+import { ProductVariantsDialog } from "@/components/admin/product-variants-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   ArrowLeft,
   Package,
@@ -40,10 +61,14 @@ import {
   Search,
   Edit,
   Trash2,
+  Archive,
+  RotateCcw,
   AlertCircle,
   Eye,
   Filter,
   MoreHorizontal,
+  Tag,
+  Layers,
 } from "lucide-react";
 import {
   Table,
@@ -72,6 +97,16 @@ import {
 import Link from "next/link";
 import Image from "next/image";
 import { formatPrice } from "@/lib/utils";
+import { getProductPricing } from "@/lib/pricing";
+import { getCategoryLabel } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { CategorySelect } from "@/components/admin/category-select";
+import {
+  PRODUCT_STATUSES,
+  PRODUCT_VISIBILITY_LABELS,
+  getProductVisibility,
+  type ProductStatus,
+} from "@/lib/product-status";
 import { useAuth } from "@/components/auth/auth-provider";
 
 // 페이지당 상품 수
@@ -93,6 +128,9 @@ function ProductTableSkeleton() {
             <TableHead>
               <Skeleton className="h-4 w-16" />
             </TableHead>
+            <TableHead>
+              <Skeleton className="h-4 w-16" />
+            </TableHead>
             <TableHead>
               <Skeleton className="h-4 w-20" />
             </TableHead>
@@ -105,6 +143,9 @@ function ProductTableSkeleton() {
             <TableHead>
               <Skeleton className="h-4 w-16" />
             </TableHead>
+            <TableHead>
+              <Skeleton className="h-4 w-16" />
+            </TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -116,6 +157,12 @@ function ProductTableSkeleton() {
               <TableCell>
                 <Skeleton className="h-4 w-32" />
               </TableCell>
+              <TableCell>
+                <Skeleton className="h-5 w-16" />
+              </TableCell>
+              <TableCell>
+                <Skeleton className="h-5 w-16" />
+              </TableCell>
               <TableCell>
                 <Skeleton className="h-4 w-20" />
               </TableCell>
@@ -154,6 +201,86 @@ function StockBadge({ stock }: { stock: number }) {
   }
 }
 
+// 공개 상태 배지 컴포넌트 (공개 예약/종료는 공개 기간도 함께 표시)
+function ProductStatusBadge({ product }: { product: Product }) {
+  const visibility = getProductVisibility(product);
+  const label = PRODUCT_VISIBILITY_LABELS[visibility];
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString("ko-KR", {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  switch (visibility) {
+    case "published":
+      return <Badge className="bg-green-600 hover:bg-green-600">{label}</Badge>;
+    case "scheduled":
+      return (
+        <div className="space-y-1">
+          <Badge variant="outline" className="border-blue-500 text-blue-700">
+            {label}
+          </Badge>
+          {product.publish_at && (
+            <p className="text-xs text-blue-700">
+              {`${formatDate(product.publish_at)} 공개`}
+            </p>
+          )}
+        </div>
+      );
+    case "expired":
+      return (
+        <div className="space-y-1">
+          <Badge
+            variant="outline"
+            className="border-orange-500 text-orange-700"
+          >
+            {label}
+          </Badge>
+          {product.unpublish_at && (
+            <p className="text-xs text-orange-700">
+              {`${formatDate(product.unpublish_at)} 종료`}
+            </p>
+          )}
+        </div>
+      );
+    case "archived":
+      return <Badge variant="outline">{label}</Badge>;
+    default:
+      return <Badge variant="secondary">{label}</Badge>;
+  }
+}
+
+// 가격 셀 (세일 중이면 정가 취소선과 세일가, 예약 세일이면 시작일 표시)
+function ProductPriceCell({ product }: { product: Product }) {
+  const pricing = getProductPricing(product);
+
+  if (pricing.isOnSale) {
+    return (
+      <div>
+        <p className="text-sm text-gray-400 line-through">
+          {formatPrice(pricing.listPrice)}원
+        </p>
+        <p className="text-red-600">
+          {`${formatPrice(pricing.currentPrice)}원 (${pricing.discountRate}%)`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p>{formatPrice(pricing.listPrice)}원</p>
+      {product.sale_price !== null &&
+        product.sale_starts_at &&
+        new Date(product.sale_starts_at) > new Date() && (
+          <p className="text-xs text-orange-600">
+            {`${new Date(product.sale_starts_at).toLocaleDateString("ko-KR")} 세일 예정`}
+          </p>
+        )}
+    </div>
+  );
+}
+
 // 관리자 상품 관리 페이지
 function AdminProductsPageClient() {
   const router = useRouter();
@@ -169,8 +296,15 @@ function AdminProductsPageClient() {
   const [totalPages, setTotalPages] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<"all" | "low_stock">("all");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<ProductStatus | "all">(
+    "all",
+  );
+  const { categories } = useCategories(true);
   const [deleteProductId, setDeleteProductId] = useState<number | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [pricingProduct, setPricingProduct] = useState<Product | null>(null);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
   const [adjustingStock, setAdjustingStock] = useState<Record<number, boolean>>(
     {},
   );
@@ -181,8 +315,13 @@ function AdminProductsPageClient() {
   // URL 파라미터에서 필터 상태 가져오기
   useEffect(() => {
     const filter = (searchParams.get("filter") as "all" | "low_stock") || "all";
+    const category = searchParams.get("category") || "all";
+    const status =
+      (searchParams.get("status") as ProductStatus | null) || "all";
     const page = parseInt(searchParams.get("page") || "1");
     setFilterType(filter);
+    setCategoryFilter(category);
+    setStatusFilter(status);
     setCurrentPage(page);
   }, [searchParams]);
 
@@ -197,15 +336,19 @@ function AdminProductsPageClient() {
 
         console.log("📦 상품 조회 시작:", {
           page: currentPage,
-          category: filterType,
+          filter: filterType,
+          category: categoryFilter,
+          status: statusFilter,
           search: search || searchTerm,
         });
 
         const result = await getProducts(
           currentPage,
           PRODUCTS_PER_PAGE,
-          filterType,
+          categoryFilter,
           search || searchTerm,
+          filterType === "low_stock",
+          statusFilter,
         );
 
         setProducts(result.products);
@@ -229,7 +372,7 @@ function AdminProductsPageClient() {
         setIsLoading(false);
       }
     },
-    [currentPage, filterType, searchTerm, user],
+    [currentPage, filterType, categoryFilter, statusFilter, searchTerm, user],
   );
 
   // 페이지 및 필터 변경 시 상품 조회
@@ -237,7 +380,15 @@ function AdminProductsPageClient() {
     if (!authLoading && user) {
       fetchProducts();
     }
-  }, [currentPage, filterType, authLoading, user, fetchProducts]);
+  }, [
+    currentPage,
+    filterType,
+    categoryFilter,
+    statusFilter,
+    authLoading,
+    user,
+    fetchProducts,
+  ]);
 
   // 검색어 변경 시 디바운스 처리
   useEffect(() => {
@@ -264,6 +415,13 @@ function AdminProductsPageClient() {
         alert(result.message);
         fetchProducts(); // 목록 새로고침
         setDeleteProductId(null);
+      } else if (result.hasOrders) {
+        // 주문 내역이 있는 상품은 삭제 대신 보관
+        const productId = deleteProductId;
+        setDeleteProductId(null);
+        if (confirm(`${result.message}\n\n지금 보관하시겠습니까?`)) {
+          await handleArchiveProduct(productId);
+        }
       } else {
         alert(result.message);
       }
@@ -279,6 +437,42 @@ function AdminProductsPageClient() {
     }
   };
 
+  // 상품 보관 (쇼핑몰에서 숨기고 주문 내역에는 남김)
+  const handleArchiveProduct = async (productId: number) => {
+    console.log("📦 상품 보관:", productId);
+
+    try {
+      const result = await archiveProduct(productId);
+      alert(result.message);
+      if (result.success) {
+        fetchProducts(); // 목록 새로고침
+      }
+    } catch (error) {
+      console.error("상품 보관 실패:", error);
+      alert("상품 보관 중 오류가 발생했습니다.");
+    }
+  };
+
+  // 보관한 상품 복원 (작성 중 상태로 돌아감)
+  const handleRestoreProduct = async (productId: number) => {
+    console.log("♻️ 상품 복원:", productId);
+
+    try {
+      const result = await restoreProduct(productId);
+      alert(result.message);
+      if (result.success) {
+        fetchProducts(); // 목록 새로고침
+      }
+    } catch (error) {
+      console.error("상품 복원 실패:", error);
+      alert("상품 복원 중 오류가 발생했습니다.");
+    }
+  };
+
+  // 재고를 바로 조정할 수 없는 상품 (조정 중이거나, 옵션별로 재고를 관리하는 옵션 상품)
+  const isStockLocked = (product: Product) =>
+    !!adjustingStock[product.id] || product.option_names?.length > 0;
+
   // 재고 조정
   const handleStockAdjustment = async (
     productId: number,
@@ -333,6 +527,30 @@ function AdminProductsPageClient() {
   const handleFilterChange = (filter: "all" | "low_stock") => {
     const params = new URLSearchParams();
     if (filter !== "all") params.set("filter", filter);
+    if (categoryFilter !== "all") params.set("category", categoryFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    params.set("page", "1");
+
+    router.push(`/admin/products?${params.toString()}`);
+  };
+
+  // 카테고리 변경
+  const handleCategoryChange = (category: string) => {
+    const params = new URLSearchParams();
+    if (filterType !== "all") params.set("filter", filterType);
+    if (category !== "all") params.set("category", category);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    params.set("page", "1");
+
+    router.push(`/admin/products?${params.toString()}`);
+  };
+
+  // 공개 상태 변경
+  const handleStatusChange = (status: string) => {
+    const params = new URLSearchParams();
+    if (filterType !== "all") params.set("filter", filterType);
+    if (categoryFilter !== "all") params.set("category", categoryFilter);
+    if (status !== "all") params.set("status", status);
     params.set("page", "1");
 
     router.push(`/admin/products?${params.toString()}`);
@@ -342,6 +560,8 @@ function AdminProductsPageClient() {
   const handlePageChange = (page: number) => {
     const params = new URLSearchParams();
     if (filterType !== "all") params.set("filter", filterType);
+    if (categoryFilter !== "all") params.set("category", categoryFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
     params.set("page", page.toString());
 
     router.push(`/admin/products?${params.toString()}`);
@@ -441,6 +661,28 @@ function AdminProductsPageClient() {
                 />
               </div>
               <div className="flex gap-2">
+                <CategorySelect
+                  categories={categories}
+                  value={categoryFilter}
+                  onValueChange={handleCategoryChange}
+                  includeAll
+                  placeholder="카테고리"
+                  size="sm"
+                  className="w-[160px]"
+                />
+                <Select value={statusFilter} onValueChange={handleStatusChange}>
+                  <SelectTrigger size="sm" className="w-[120px]">
+                    <SelectValue placeholder="공개 상태" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">전체 상태</SelectItem>
+                    {PRODUCT_STATUSES.map((status) => (
+                      <SelectItem key={status.value} value={status.value}>
+                        {status.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button
                   variant={filterType === "all" ? "default" : "outline"}
                   size="sm"
@@ -487,7 +729,9 @@ function AdminProductsPageClient() {
                     ? `"${searchTerm}" 검색 결과가 없습니다.`
                     : filterType === "low_stock"
                       ? "재고가 부족한 상품이 없습니다."
-                      : "등록된 상품이 없습니다."}
+                      : statusFilter !== "all"
+                        ? "해당 상태의 상품이 없습니다."
+                        : "등록된 상품이 없습니다."}
                 </p>
                 <Link href="/admin/products/new">
                   <Button>
@@ -509,6 +753,8 @@ function AdminProductsPageClient() {
                         <TableRow>
                           <TableHead>이미지</TableHead>
                           <TableHead>상품명</TableHead>
+                          <TableHead>카테고리</TableHead>
+                          <TableHead>공개</TableHead>
                           <TableHead>가격</TableHead>
                           <TableHead>재고</TableHead>
                           <TableHead>상태</TableHead>
@@ -539,6 +785,11 @@ function AdminProductsPageClient() {
                             <TableCell>
                               <div>
                                 <p className="font-medium">{product.name}</p>
+                                {product.option_names?.length > 0 && (
+                                  <p className="text-xs text-gray-500">
+                                    {`옵션: ${product.option_names.join(", ")}`}
+                                  </p>
+                                )}
                                 {product.description && (
                                   <p className="text-sm text-gray-500 truncate max-w-[200px]">
                                     {product.description}
@@ -546,8 +797,28 @@ function AdminProductsPageClient() {
                                 )}
                               </div>
                             </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">
+                                {getCategoryLabel(categories, product.category)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                <ProductStatusBadge product={product} />
+                                {getProductVisibility(product) !==
+                                  "published" && (
+                                  <Link
+                                    href={`/products/${product.id}`}
+                                    target="_blank"
+                                    className="block text-xs text-blue-600 hover:underline"
+                                  >
+                                    미리보기
+                                  </Link>
+                                )}
+                              </div>
+                            </TableCell>
                             <TableCell className="font-medium">
-                              {formatPrice(product.price)}원
+                              <ProductPriceCell product={product} />
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-2">
@@ -559,7 +830,7 @@ function AdminProductsPageClient() {
                                       handleStockAdjustment(product.id, -1)
                                     }
                                     disabled={
-                                      adjustingStock[product.id] ||
+                                      isStockLocked(product) ||
                                       product.stock_quantity <= 0
                                     }
                                     className="h-7 w-7 p-0"
@@ -578,7 +849,7 @@ function AdminProductsPageClient() {
                                     onClick={() =>
                                       handleStockAdjustment(product.id, 1)
                                     }
-                                    disabled={adjustingStock[product.id]}
+                                    disabled={isStockLocked(product)}
                                     className="h-7 w-7 p-0"
                                     title="재고 1개 증가"
                                   >
@@ -608,7 +879,10 @@ function AdminProductsPageClient() {
                                   <Link href={`/products/${product.id}`}>
                                     <DropdownMenuItem>
                                       <Eye className="h-4 w-4 mr-2" />
-                                      상품 보기
+                                      {getProductVisibility(product) ===
+                                      "published"
+                                        ? "상품 보기"
+                                        : "미리보기"}
                                     </DropdownMenuItem>
                                   </Link>
                                   <Link
@@ -619,6 +893,18 @@ function AdminProductsPageClient() {
                                       수정
                                     </DropdownMenuItem>
                                   </Link>
+                                  <DropdownMenuItem
+                                    onClick={() => setPricingProduct(product)}
+                                  >
+                                    <Tag className="h-4 w-4 mr-2" />
+                                    가격/세일 설정
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => setVariantsProduct(product)}
+                                  >
+                                    <Layers className="h-4 w-4 mr-2" />
+                                    옵션 관리
+                                  </DropdownMenuItem>
 
                                   {/* 재고 조정 옵션들 */}
                                   <div className="border-t my-1" />
@@ -626,7 +912,7 @@ function AdminProductsPageClient() {
                                     onClick={() =>
                                       handleStockAdjustment(product.id, 10)
                                     }
-                                    disabled={adjustingStock[product.id]}
+                                    disabled={isStockLocked(product)}
                                   >
                                     <Plus className="h-4 w-4 mr-2" />
                                     재고 +10
@@ -635,7 +921,7 @@ function AdminProductsPageClient() {
                                     onClick={() =>
                                       handleStockAdjustment(product.id, 50)
                                     }
-                                    disabled={adjustingStock[product.id]}
+                                    disabled={isStockLocked(product)}
                                   >
                                     <Plus className="h-4 w-4 mr-2" />
                                     재고 +50
@@ -645,7 +931,7 @@ function AdminProductsPageClient() {
                                       handleStockAdjustment(product.id, -10)
                                     }
                                     disabled={
-                                      adjustingStock[product.id] ||
+                                      isStockLocked(product) ||
                                       product.stock_quantity < 10
                                     }
                                   >
@@ -657,7 +943,7 @@ function AdminProductsPageClient() {
                                       handleStockAdjustment(product.id, -50)
                                     }
                                     disabled={
-                                      adjustingStock[product.id] ||
+                                      isStockLocked(product) ||
                                       product.stock_quantity < 50
                                     }
                                   >
@@ -666,6 +952,25 @@ function AdminProductsPageClient() {
                                   </DropdownMenuItem>
 
                                   <div className="border-t my-1" />
+                                  {product.status === "archived" ? (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        handleRestoreProduct(product.id)
+                                      }
+                                    >
+                                      <RotateCcw className="h-4 w-4 mr-2" />
+                                      복원
+                                    </DropdownMenuItem>
+                                  ) : (
+                                    <DropdownMenuItem
+                                      onClick={() =>
+                                        handleArchiveProduct(product.id)
+                                      }
+                                    >
+                                      <Archive className="h-4 w-4 mr-2" />
+                                      보관
+                                    </DropdownMenuItem>
+                                  )}
                                   <DropdownMenuItem
                                     className="text-red-600"
                                     onClick={() =>
@@ -731,6 +1036,20 @@ function AdminProductsPageClient() {
         </div>
       </main>
 
+      {/* 가격/세일 설정 다이얼로그 */}
+      <ProductPricingDialog
+        product={pricingProduct}
+        onClose={() => setPricingProduct(null)}
+        onSaved={() => fetchProducts()}
+      />
+
+      {/* 옵션 관리 다이얼로그 */}
+      <ProductVariantsDialog
+        product={variantsProduct}
+        onClose={() => setVariantsProduct(null)}
+        onSaved={() => fetchProducts()}
+      />
+
       {/* 삭제 확인 다이얼로그 */}
       <AlertDialog
         open={deleteProductId !== null}
@@ -740,7 +1059,9 @@ function AdminProductsPageClient() {
           <AlertDialogHeader>
             <AlertDialogTitle>상품을 삭제하시겠습니까?</AlertDialogTitle>
             <AlertDialogDescription>
-              이 작업은 되돌릴 수 없습니다. 상품이 영구적으로 삭제됩니다.
+              이 작업은 되돌릴 수 없습니다. 상품이 영구적으로 삭제됩니다. 주문
+              내역이 있는 상품은 삭제할 수 없으며, 대신 보관하면 쇼핑몰에서
+              숨겨집니다.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
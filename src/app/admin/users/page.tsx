@@ -7,9 +7,13 @@
  * 2. 사용자 권한 관리 (관리자 권한 부여/제거)
  * 3. 사용자 검색 기능
  * 4. 사용자 정보 표시
+ * 5. 사용자별 적립금 잔액 표시와 지급/차감
+ * 6. 적립금 정책 변경 (적립률, 유효기간, 최대 사용 비율)
  *
  * @dependencies
  * - @/components/nav/navbar: 네비게이션 바
+ * - @/components/admin/point-management: 적립금 정책 카드와 조정 다이얼로그
+ * - @/actions/points: 적립금 정책 조회
  * - @/components/ui: ShadcnUI 컴포넌트들
  * - @/utils/supabase/server: 서버 Supabase 클라이언트
  */
@@ -28,6 +32,12 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import {
+  PointSettingsCard,
+  PointAdjustmentButton,
+} from "@/components/admin/point-management";
+import { getPointSettings } from "@/actions/points";
+import { formatPrice } from "@/lib/utils";
 import { ArrowLeft, Users, Crown, Calendar } from "lucide-react";
 import Link from "next/link";
 
@@ -37,6 +47,7 @@ interface UserProfile {
   name: string | null;
   is_admin: boolean;
   created_at: string;
+  point_balance: number; // 적립금 잔액
 }
 
 // 관리자 권한 확인
@@ -88,7 +99,23 @@ async function getUsers(): Promise<UserProfile[]> {
       return [];
     }
 
-    return data || [];
+    // 사용자별 적립금 잔액 (적립금 내역이 없는 사용자는 0원)
+    const { data: balances, error: balanceError } = await supabase
+      .from("point_balances")
+      .select("user_id, balance");
+
+    if (balanceError) {
+      console.error("적립금 잔액 조회 오류:", balanceError);
+    }
+
+    const balanceByUser = new Map<string, number>(
+      (balances || []).map((row) => [row.user_id, row.balance]),
+    );
+
+    return (data || []).map((user) => ({
+      ...user,
+      point_balance: balanceByUser.get(user.id) ?? 0,
+    }));
   } catch (error) {
     console.error("사용자 목록 조회 중 예외:", error);
     return [];
@@ -134,8 +161,14 @@ export default async function AdminUsersPage() {
     redirect("/");
   }
 
-  // 사용자 목록 조회
-  const users = await getUsers();
+  // 사용자 목록과 적립금 정책 조회
+  const [users, pointSettings] = await Promise.all([
+    getUsers(),
+    getPointSettings().catch((error) => {
+      console.error("적립금 정책 조회 오류:", error);
+      return null;
+    }),
+  ]);
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -203,6 +236,11 @@ export default async function AdminUsersPage() {
               </Card>
             </div>
 
+            {/* 적립금 정책 */}
+            {pointSettings && (
+              <PointSettingsCard initialSettings={pointSettings} />
+            )}
+
             {/* 사용자 테이블 */}
             {users.length === 0 ? (
               <div className="text-center py-12">
@@ -224,6 +262,7 @@ export default async function AdminUsersPage() {
                         <TableRow>
                           <TableHead>사용자 정보</TableHead>
                           <TableHead>권한</TableHead>
+                          <TableHead>적립금</TableHead>
                           <TableHead>가입일</TableHead>
                         </TableRow>
                       </TableHeader>
@@ -250,6 +289,18 @@ export default async function AdminUsersPage() {
                             <TableCell>
                               <RoleBadge isAdmin={user.is_admin} />
                             </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-3">
+                                <span className="font-medium">
+                                  {formatPrice(user.point_balance)}원
+                                </span>
+                                <PointAdjustmentButton
+                                  userId={user.id}
+                                  userName={user.name}
+                                  balance={user.point_balance}
+                                />
+                              </div>
+                            </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-2">
                                 <Calendar className="h-4 w-4 text-gray-400" />
@@ -0,0 +1,60 @@
+/**
+ * @file route.ts
+ * @description 결제 대행사 웹훅 수신 API 라우트
+ *
+ * 결제 대행사가 결제 상태 변경(매입, 실패, 승인 취소, 환불)을 알려주는 엔드포인트입니다.
+ * 대행사별 서명 검증을 통과한 이벤트만 payments 테이블에 반영합니다.
+ *
+ * 주요 기능:
+ * 1. provider 쿼리 파라미터로 결제 대행사 선택 (예: /api/payments/webhook?provider=mock)
+ * 2. 요청 원문(raw body)으로 웹훅 서명 검증
+ * 3. 검증된 이벤트를 payments 테이블에 반영
+ *
+ * 응답:
+ * - 200: 처리 완료 (대상 결제가 없는 이벤트도 재전송되지 않도록 200으로 응답)
+ * - 400: 알 수 없는 결제 대행사 또는 서명 검증 실패
+ * - 500: 반영 중 오류 (결제 대행사가 다시 전송하도록 함)
+ *
+ * @dependencies
+ * - next/server
+ * - @/lib/payments: 결제 대행사 선택
+ * - @/lib/payments/service: 웹훅 이벤트 반영
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { getPaymentProviderByName } from "@/lib/payments";
+import { applyPaymentWebhookEvent } from "@/lib/payments/service";
+
+export async function POST(request: NextRequest) {
+  try {
+    const providerName = request.nextUrl.searchParams.get("provider") ?? "";
+    const provider = getPaymentProviderByName(providerName);
+
+    console.log("🔔 결제 웹훅 수신:", { provider: providerName });
+
+    if (!provider) {
+      console.warn("알 수 없는 결제 대행사:", providerName);
+      return NextResponse.json({ error: "unknown_provider" }, { status: 400 });
+    }
+
+    // 서명 검증은 요청 원문 그대로 해야 하므로 JSON 파싱 전에 text로 읽음
+    const rawBody = await request.text();
+    const event = await provider.verifyWebhook(request.headers, rawBody);
+
+    if (!event) {
+      console.warn("웹훅 서명 검증 실패");
+      return NextResponse.json({ error: "invalid_signature" }, { status: 400 });
+    }
+
+    const result = await applyPaymentWebhookEvent(provider.name, event);
+
+    if (!result.success && result.error !== "payment_not_found") {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("❌ 결제 웹훅 처리 중 예외 발생:", error);
+    return NextResponse.json({ error: "server_error" }, { status: 500 });
+  }
+}
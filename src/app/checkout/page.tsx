@@ -11,13 +11,24 @@
  * 6. 로딩 상태 관리
  * 7. 에러 핸들링
  * 8. 결제 버튼 중복 클릭 방지 (디바운싱)
+ * 9. 가격 변동 시 변경 내역 안내 및 재확인
+ * 10. 주문서 멱등성 키로 중복 주문 방지 (재시도, 다른 탭)
+ * 11. 배송비 계산 (무료배송 기준, 대형 상품, 우편번호별 제주/도서산간 추가 배송비)
+ * 12. 쿠폰 코드 적용 및 할인 금액 표시
+ * 13. 적립금 사용 (잔액과 주문당 최대 사용 비율 안에서) 및 적립 예정 금액 표시
+ * 14. 옵션 상품의 옵션 라벨과 옵션 판매가 표시
  *
  * @dependencies
  * - @/hooks/use-cart: 장바구니 hooks
  * - @/actions/orders: 주문 서버 액션
+ * - @/actions/coupons: 쿠폰 미리보기 서버 액션
+ * - @/actions/points: 적립금 잔액과 정책 조회 서버 액션
  * - @/components/nav/navbar: 네비게이션 바
  * - @/components/ui: ShadcnUI 컴포넌트들
  * - next/navigation: useRouter, useSearchParams
+ * - @/lib/shipping: 배송비 계산
+ * - @/lib/variants: 옵션 판매가(세일가 + 옵션 추가 금액), 옵션 라벨, 상품/옵션 구분 키
+ * - @/lib/points: 적립금 사용 한도와 적립 예정 금액 계산
  */
 
 "use client";
@@ -25,7 +36,9 @@
 import { useState, useEffect, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCartItems } from "@/hooks/use-cart";
-import { createOrder } from "@/actions/orders";
+import { createOrder, type PriceChange } from "@/actions/orders";
+import { previewCoupon } from "@/actions/coupons";
+import { getMyPointSummary, getPointSettings } from "@/actions/points";
 import { Navbar } from "@/components/nav/navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -42,10 +55,27 @@ import {
   CreditCard,
   AlertCircle,
   CheckCircle2,
+  Ticket,
+  Coins,
 } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { formatPrice } from "@/lib/utils";
+import {
+  getVariantKey,
+  getVariantLabel,
+  getVariantPrice,
+} from "@/lib/variants";
+import {
+  getMaxRedeemablePoints,
+  getEarnablePoints,
+  type PointSettings,
+} from "@/lib/points";
+import {
+  calculateShippingFee,
+  getRemoteAreaLabel,
+  SHIPPING_POLICY,
+} from "@/lib/shipping";
 import { useAuth } from "@/components/auth/auth-provider";
 import { useOrder } from "@/components/order/order-context";
 
@@ -53,10 +83,13 @@ import { useOrder } from "@/components/order/order-context";
 interface DirectPurchaseItem {
   product_id: number;
   product_name: string;
+  variant_id?: number | null; // 선택한 옵션 (옵션 상품만)
+  variant_label?: string | null; // 옵션 라벨 (표시용)
   product_image?: string;
   quantity: number;
   price: number;
   total: number;
+  shipping_class?: string;
 }
 
 interface DirectPurchaseData {
@@ -136,6 +169,37 @@ function CheckoutPageClient() {
   const [isDirectMode, setIsDirectMode] = useState(false);
   const [isPaymentProcessing, setIsPaymentProcessing] = useState(false);
   const [lastClickTime, setLastClickTime] = useState(0);
+  // 주문서를 열 때 한 번 만드는 멱등성 키 (같은 주문서의 재제출은 같은 주문으로 처리)
+  const [idempotencyKey, setIdempotencyKey] = useState(() =>
+    crypto.randomUUID(),
+  );
+  // 서버에서 알려준 가격 변동 내역 (고객 확인 전)
+  const [priceChanges, setPriceChanges] = useState<PriceChange[] | null>(null);
+  // 고객이 확인한 변경 가격 (상품/옵션 구분 키 → 단가)
+  const [confirmedPrices, setConfirmedPrices] = useState<
+    Record<string, number>
+  >({});
+  // 배송지 우편번호 (제주/도서산간 추가 배송비 계산용)
+  const [postcode, setPostcode] = useState("");
+  // 쿠폰 코드 입력값과 적용된 쿠폰 (할인 금액은 표시용, 실제 할인은 주문 생성 시 서버에서 다시 계산)
+  const [couponCode, setCouponCode] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{
+    code: string;
+    name: string;
+    discountAmount: number;
+  } | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  // 적립금 잔액과 정책 (불러오지 못하면 적립금 사용란을 숨김), 사용할 적립금 입력값
+  const [pointInfo, setPointInfo] = useState<{
+    balance: number;
+    settings: PointSettings;
+  } | null>(null);
+  const [pointsInput, setPointsInput] = useState("");
+
+  // 고객이 확인한 가격이 있으면 그 가격을, 없으면 화면에 불러온 가격을 사용
+  const getUnitPrice = (key: string, loadedPrice: number) =>
+    confirmedPrices[key] ?? loadedPrice;
 
   console.group("🛒 주문서 페이지 렌더링");
 
@@ -178,6 +242,23 @@ function CheckoutPageClient() {
     console.groupEnd();
   }, [searchParams, router]);
 
+  // 적립금 잔액과 정책 조회
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getMyPointSummary(), getPointSettings()])
+      .then(([summary, settings]) => {
+        if (!cancelled) setPointInfo({ balance: summary.balance, settings });
+      })
+      .catch((error) => {
+        console.error("적립금 정보 조회 실패:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // 페이지 이탈 방지 (결제 처리 중일 때)
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
@@ -220,6 +301,14 @@ function CheckoutPageClient() {
     }
     setLastClickTime(now);
 
+    // 가격 변동을 아직 확인하지 않았으면 주문하지 않음
+    if (priceChanges) {
+      console.warn("가격 변동 미확인 상태");
+      console.groupEnd();
+      setFormError("변경된 가격을 확인한 후 다시 결제해주세요.");
+      return;
+    }
+
     // 이미 처리 중인지 확인 (강화된 검사)
     if (isSubmitting || isOrderProcessing || isPaymentProcessing) {
       console.warn("이미 주문 처리 중입니다:", {
@@ -249,6 +338,10 @@ function CheckoutPageClient() {
     try {
       // FormData 수동 생성
       const formData = new FormData(event.currentTarget);
+      formData.append("idempotency_key", idempotencyKey);
+      if (appliedCoupon) {
+        formData.append("coupon_code", appliedCoupon.code);
+      }
 
       console.log("🔍 전송할 데이터 검증:", {
         isDirectMode,
@@ -263,7 +356,16 @@ function CheckoutPageClient() {
         formData.append("is_direct_purchase", "true");
         formData.append(
           "direct_purchase_data",
-          JSON.stringify(directPurchaseData),
+          JSON.stringify({
+            ...directPurchaseData,
+            items: directPurchaseData.items.map((item) => ({
+              ...item,
+              price: getUnitPrice(
+                getVariantKey(item.product_id, item.variant_id),
+                item.price,
+              ),
+            })),
+          }),
         );
         console.log("바로 구매 데이터 첨부:", directPurchaseData);
       } else if (!isDirectMode && cartData) {
@@ -284,15 +386,18 @@ function CheckoutPageClient() {
             product: {
               id: item.product.id,
               name: item.product.name,
-              price: item.product.price,
+              price: getUnitPrice(
+                getVariantKey(item.product.id, item.variant_id),
+                getVariantPrice(item.product, item.variant),
+              ),
               image_url: item.product.image_url,
               stock_quantity: item.product.stock_quantity,
             },
+            variant_id: item.variant_id,
             quantity: item.quantity,
             id: item.id,
             created_at: item.created_at,
           })),
-          totalAmount: cartData.totalAmount,
           timestamp: Date.now(),
         };
 
@@ -310,7 +415,30 @@ function CheckoutPageClient() {
         return;
       }
 
-      await createOrder(formData);
+      const result = await createOrder(formData);
+
+      // 가격이 바뀐 상품이 있으면 변경 내역을 보여주고 다시 확인받음
+      if (result && result.code === "price_changed") {
+        console.warn("💰 가격 변동으로 주문 보류:", result.priceChanges);
+        console.groupEnd();
+        setPriceChanges(result.priceChanges);
+        setIsSubmitting(false);
+        setIsPaymentProcessing(false);
+        setOrderProcessing(false);
+        return;
+      }
+
+      // 결제 실패: 주문은 취소되었으므로 새 멱등성 키로 다시 시도할 수 있게 함
+      if (result && result.code === "payment_failed") {
+        console.warn("💳 결제 실패:", result.message);
+        console.groupEnd();
+        setIdempotencyKey(crypto.randomUUID());
+        setFormError(result.message);
+        setIsSubmitting(false);
+        setIsPaymentProcessing(false);
+        setOrderProcessing(false);
+        return;
+      }
 
       // 바로 구매 모드인 경우 세션 스토리지 정리
       if (isDirectMode) {
@@ -338,6 +466,75 @@ function CheckoutPageClient() {
     // finally 블록은 제거하여 성공 시 상태 유지 (리다이렉트 되므로)
   };
 
+  // 쿠폰 적용 (주문 상품 기준으로 할인 금액 미리 확인)
+  const handleApplyCoupon = async () => {
+    const code = couponCode.trim();
+    if (!code || isApplyingCoupon) return;
+
+    const items = isDirectMode
+      ? (directPurchaseData?.items ?? []).map((item) => ({
+          product_id: item.product_id,
+          variant_id: item.variant_id ?? null,
+          quantity: item.quantity,
+        }))
+      : (cartData?.items ?? []).map((item) => ({
+          product_id: item.product.id,
+          variant_id: item.variant_id,
+          quantity: item.quantity,
+        }));
+
+    console.log("🎟️ 쿠폰 적용 시도:", code);
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+
+    try {
+      const result = await previewCoupon({ code, items });
+
+      if (result.success) {
+        console.log("✅ 쿠폰 적용:", result.code, result.discountAmount);
+        setAppliedCoupon({
+          code: result.code,
+          name: result.name,
+          discountAmount: result.discountAmount,
+        });
+        setCouponCode("");
+      } else {
+        setCouponError(
+          "error" in result ? result.error : "쿠폰을 적용할 수 없습니다.",
+        );
+      }
+    } catch (error) {
+      console.error("쿠폰 적용 실패:", error);
+      setCouponError("쿠폰 적용 중 오류가 발생했습니다.");
+    } finally {
+      setIsApplyingCoupon(false);
+    }
+  };
+
+  // 적용한 쿠폰 취소
+  const handleRemoveCoupon = () => {
+    console.log("🎟️ 쿠폰 적용 취소:", appliedCoupon?.code);
+    setAppliedCoupon(null);
+    setCouponError(null);
+  };
+
+  // 변경된 가격 확인
+  const handleConfirmPriceChanges = () => {
+    if (!priceChanges) return;
+
+    console.log("💰 변경된 가격 확인:", priceChanges);
+    setConfirmedPrices((prev) => {
+      const next = { ...prev };
+      priceChanges.forEach((change) => {
+        next[getVariantKey(change.product_id, change.variant_id)] =
+          change.new_price;
+      });
+      return next;
+    });
+    setPriceChanges(null);
+    setFormError(null);
+  };
+
   // 결제 버튼 클릭 핸들러 (추가 보안)
   const handlePaymentClick = (event: React.MouseEvent<HTMLButtonElement>) => {
     // 이미 처리 중이면 클릭 무시
@@ -495,10 +692,27 @@ function CheckoutPageClient() {
         <div className="flex-grow">
           <h4 className="font-medium text-gray-900">{item.product_name}</h4>
           <div className="text-sm text-gray-600">
+            {item.variant_label && <p>{`옵션: ${item.variant_label}`}</p>}
             <p>수량: {item.quantity}개</p>
-            <p>단가: {formatPrice(item.price)}원</p>
+            <p>
+              단가:{" "}
+              {formatPrice(
+                getUnitPrice(
+                  getVariantKey(item.product_id, item.variant_id),
+                  item.price,
+                ),
+              )}
+              원
+            </p>
             <p className="font-medium text-gray-900">
-              소계: {formatPrice(item.total)}원
+              소계:{" "}
+              {formatPrice(
+                getUnitPrice(
+                  getVariantKey(item.product_id, item.variant_id),
+                  item.price,
+                ) * item.quantity,
+              )}
+              원
             </p>
           </div>
         </div>
@@ -530,10 +744,29 @@ function CheckoutPageClient() {
         <div className="flex-grow">
           <h4 className="font-medium text-gray-900">{item.product.name}</h4>
           <div className="text-sm text-gray-600">
+            {item.variant && (
+              <p>{`옵션: ${getVariantLabel(item.variant.options, item.product.option_names)}`}</p>
+            )}
             <p>수량: {item.quantity}개</p>
-            <p>단가: {formatPrice(item.product.price)}원</p>
+            <p>
+              단가:{" "}
+              {formatPrice(
+                getUnitPrice(
+                  getVariantKey(item.product.id, item.variant_id),
+                  getVariantPrice(item.product, item.variant),
+                ),
+              )}
+              원
+            </p>
             <p className="font-medium text-gray-900">
-              소계: {formatPrice(item.product.price * item.quantity)}원
+              소계:{" "}
+              {formatPrice(
+                getUnitPrice(
+                  getVariantKey(item.product.id, item.variant_id),
+                  getVariantPrice(item.product, item.variant),
+                ) * item.quantity,
+              )}
+              원
             </p>
           </div>
         </div>
@@ -541,10 +774,49 @@ function CheckoutPageClient() {
     ));
   };
 
-  // 총 금액 계산
-  const totalAmount = isDirectMode
-    ? directPurchaseData!.total_amount
-    : cartData!.totalAmount;
+  // 총 금액과 배송비 계산 (표시용, 실제 결제 금액은 서버에서 다시 계산)
+  const shipping = calculateShippingFee(
+    isDirectMode
+      ? directPurchaseData!.items.map((item) => ({
+          price: getUnitPrice(
+            getVariantKey(item.product_id, item.variant_id),
+            item.price,
+          ),
+          quantity: item.quantity,
+          shippingClass: item.shipping_class,
+        }))
+      : cartData!.items.map((item) => ({
+          price: getUnitPrice(
+            getVariantKey(item.product.id, item.variant_id),
+            getVariantPrice(item.product, item.variant),
+          ),
+          quantity: item.quantity,
+          shippingClass: item.product.shipping_class,
+        })),
+    postcode,
+  );
+  const totalAmount = shipping.subtotal;
+  const discountAmount = appliedCoupon?.discountAmount ?? 0;
+  // 입력한 적립금은 잔액과 사용 한도 안으로 맞춤 (쿠폰 적용/취소로 한도가 바뀌어도 초과하지 않음)
+  const maxPoints = pointInfo
+    ? getMaxRedeemablePoints(
+        totalAmount - discountAmount,
+        pointInfo.balance,
+        pointInfo.settings,
+      )
+    : 0;
+  const pointsToUse = Math.min(
+    Math.max(Math.floor(Number(pointsInput) || 0), 0),
+    maxPoints,
+  );
+  const finalAmount =
+    totalAmount + shipping.total - discountAmount - pointsToUse;
+  const earnablePoints = pointInfo
+    ? getEarnablePoints(
+        totalAmount - discountAmount - pointsToUse,
+        pointInfo.settings,
+      )
+    : 0;
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -580,6 +852,57 @@ function CheckoutPageClient() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* 주문자 정보 */}
               <div className="lg:col-span-2 space-y-6">
+                {/* 가격 변동 안내 */}
+                {priceChanges && (
+                  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+                    <div className="flex items-center gap-2 text-amber-800 font-medium">
+                      <AlertCircle className="h-5 w-5" />
+                      <span>
+                        주문하신 상품의 가격이 변경되었습니다. 변경된 가격을
+                        확인해주세요.
+                      </span>
+                    </div>
+                    <ul className="space-y-1 text-sm text-amber-900">
+                      {priceChanges.map((change) => (
+                        <li
+                          key={getVariantKey(
+                            change.product_id,
+                            change.variant_id,
+                          )}
+                          className="flex justify-between gap-4"
+                        >
+                          <span>
+                            {change.variant_label
+                              ? `${change.product_name} (${change.variant_label}) (${change.quantity}개)`
+                              : `${change.product_name} (${change.quantity}개)`}
+                          </span>
+                          <span>
+                            <span className="line-through text-gray-500">
+                              {formatPrice(change.old_price)}원
+                            </span>{" "}
+                            →{" "}
+                            <span className="font-semibold">
+                              {formatPrice(change.new_price)}원
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button type="button" onClick={handleConfirmPriceChanges}>
+                        변경된 가격으로 계속하기
+                      </Button>
+                      <Link href={isDirectMode ? "/" : "/cart"}>
+                        <Button type="button" variant="outline">
+                          {isDirectMode
+                            ? "상품으로 돌아가기"
+                            : "장바구니로 돌아가기"}
+                        </Button>
+                      </Link>
+                    </div>
+                  </div>
+                )}
+
                 {/* 에러 메시지 */}
                 {formError && (
                   <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -615,6 +938,30 @@ function CheckoutPageClient() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="customerPostcode">우편번호 *</Label>
+                  <Input
+                    id="customerPostcode"
+                    name="customerPostcode"
+                    type="text"
+                    inputMode="numeric"
+                    placeholder="06236"
+                    maxLength={5}
+                    pattern="\d{5}"
+                    required
+                    value={postcode}
+                    onChange={(e) =>
+                      setPostcode(e.target.value.replace(/\D/g, ""))
+                    }
+                    className="w-full sm:w-40"
+                  />
+                  {shipping.remoteArea && (
+                    <p className="text-sm text-amber-700">
+                      {`${getRemoteAreaLabel(shipping.remoteArea)} ${formatPrice(shipping.remoteAreaFee)}원이 추가됩니다.`}
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="customerAddress">배송 주소 *</Label>
                   <Textarea
@@ -646,6 +993,118 @@ function CheckoutPageClient() {
 
                     <Separator />
 
+                    {/* 쿠폰 */}
+                    <div className="space-y-2">
+                      <Label htmlFor="couponCode">쿠폰 코드</Label>
+                      {appliedCoupon ? (
+                        <div className="flex items-center justify-between gap-2 p-2 rounded-md bg-green-50 border border-green-200 text-sm">
+                          <span className="flex items-center gap-2 text-green-700">
+                            <Ticket className="h-4 w-4 shrink-0" />
+                            {`${appliedCoupon.name} (${appliedCoupon.code})`}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleRemoveCoupon}
+                            disabled={isSubmitting || isPaymentProcessing}
+                          >
+                            취소
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          <Input
+                            id="couponCode"
+                            value={couponCode}
+                            onChange={(e) => setCouponCode(e.target.value)}
+                            onKeyDown={(e) => {
+                              // 엔터 키로 주문서가 제출되지 않도록 쿠폰 적용으로 처리
+                              if (e.key === "Enter") {
+                                e.preventDefault();
+                                handleApplyCoupon();
+                              }
+                            }}
+                            placeholder="쿠폰 코드 입력"
+                            maxLength={30}
+                            className="uppercase"
+                            disabled={isApplyingCoupon}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleApplyCoupon}
+                            disabled={!couponCode.trim() || isApplyingCoupon}
+                          >
+                            {isApplyingCoupon ? "확인 중..." : "적용"}
+                          </Button>
+                        </div>
+                      )}
+                      {couponError && (
+                        <p className="text-sm text-red-600">{couponError}</p>
+                      )}
+                    </div>
+
+                    {/* 적립금 */}
+                    {pointInfo && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="pointsToUse">적립금 사용</Label>
+                          <span className="text-xs text-gray-500">
+                            {`보유 ${formatPrice(pointInfo.balance)}원`}
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          <Input
+                            id="pointsToUse"
+                            type="number"
+                            inputMode="numeric"
+                            min={0}
+                            max={maxPoints}
+                            value={pointsInput}
+                            onChange={(e) => setPointsInput(e.target.value)}
+                            onBlur={() =>
+                              setPointsInput(
+                                pointsToUse > 0 ? String(pointsToUse) : "",
+                              )
+                            }
+                            onKeyDown={(e) => {
+                              // 엔터 키로 주문서가 제출되지 않도록 막음
+                              if (e.key === "Enter") e.preventDefault();
+                            }}
+                            placeholder="0"
+                            disabled={
+                              maxPoints === 0 ||
+                              isSubmitting ||
+                              isPaymentProcessing
+                            }
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => setPointsInput(String(maxPoints))}
+                            disabled={
+                              maxPoints === 0 ||
+                              isSubmitting ||
+                              isPaymentProcessing
+                            }
+                          >
+                            최대 사용
+                          </Button>
+                        </div>
+                        <input
+                          type="hidden"
+                          name="points_to_use"
+                          value={pointsToUse}
+                        />
+                        <p className="text-xs text-gray-500">
+                          {`상품 금액(쿠폰 할인 후)의 ${pointInfo.settings.max_redeem_rate}%까지 사용할 수 있습니다. (이 주문 최대 ${formatPrice(maxPoints)}원)`}
+                        </p>
+                      </div>
+                    )}
+
+                    <Separator />
+
                     {/* 결제 정보 */}
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
@@ -654,15 +1113,58 @@ function CheckoutPageClient() {
                       </div>
                       <div className="flex justify-between text-sm">
                         <span>배송비</span>
-                        <span className="text-green-600">무료</span>
+                        {shipping.baseFee === 0 ? (
+                          <span className="text-green-600">무료</span>
+                        ) : (
+                          <span>{formatPrice(shipping.baseFee)}원</span>
+                        )}
                       </div>
+                      {shipping.bulkyFee > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span>대형 상품 추가 배송비</span>
+                          <span>{formatPrice(shipping.bulkyFee)}원</span>
+                        </div>
+                      )}
+                      {shipping.remoteArea && (
+                        <div className="flex justify-between text-sm">
+                          <span>{getRemoteAreaLabel(shipping.remoteArea)}</span>
+                          <span>{formatPrice(shipping.remoteAreaFee)}원</span>
+                        </div>
+                      )}
+                      {appliedCoupon && (
+                        <div className="flex justify-between text-sm">
+                          <span>쿠폰 할인</span>
+                          <span className="text-red-600">
+                            -{formatPrice(discountAmount)}원
+                          </span>
+                        </div>
+                      )}
+                      {pointsToUse > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span>적립금 사용</span>
+                          <span className="text-red-600">
+                            -{formatPrice(pointsToUse)}원
+                          </span>
+                        </div>
+                      )}
+                      {shipping.amountUntilFreeShipping > 0 && (
+                        <p className="text-xs text-orange-600">
+                          {`${formatPrice(shipping.amountUntilFreeShipping)}원 더 주문하면 기본 배송비가 무료입니다.`}
+                        </p>
+                      )}
                       <Separator />
                       <div className="flex justify-between text-lg font-bold">
                         <span>총 결제금액</span>
                         <span className="text-orange-600">
-                          {formatPrice(totalAmount)}원
+                          {formatPrice(finalAmount)}원
                         </span>
                       </div>
+                      {earnablePoints > 0 && (
+                        <p className="flex items-center justify-end gap-1 text-xs text-gray-500">
+                          <Coins className="h-3 w-3" />
+                          {`배송 완료 시 ${formatPrice(earnablePoints)}원 적립 예정`}
+                        </p>
+                      )}
                     </div>
 
                     {/* 주문 완료 버튼 */}
@@ -671,7 +1173,10 @@ function CheckoutPageClient() {
                       className="w-full"
                       size="lg"
                       disabled={
-                        isSubmitting || isOrderProcessing || isPaymentProcessing
+                        isSubmitting ||
+                        isOrderProcessing ||
+                        isPaymentProcessing ||
+                        !!priceChanges
                       }
                       onClick={handlePaymentClick}
                     >
@@ -688,7 +1193,7 @@ function CheckoutPageClient() {
                       ) : (
                         <div className="flex items-center gap-2">
                           <CheckCircle2 className="h-5 w-5" />
-                          {formatPrice(totalAmount)}원 결제하기
+                          {formatPrice(finalAmount)}원 결제하기
                         </div>
                       )}
                     </Button>
@@ -696,7 +1201,9 @@ function CheckoutPageClient() {
                     {/* 주문 안내 */}
                     <div className="text-xs text-gray-500 space-y-1">
                       <p>• 주문 확인 후 1-2일 내에 배송됩니다.</p>
-                      <p>• 배송비는 무료입니다.</p>
+                      <p>
+                        {`• ${formatPrice(SHIPPING_POLICY.freeShippingThreshold)}원 이상 주문 시 기본 배송비 무료 (제주/도서산간 추가 배송비 별도)`}
+                      </p>
                       <p>• 주문 취소는 배송 전까지 가능합니다.</p>
                     </div>
                   </CardContent>
@@ -6,9 +6,10 @@
  * 1. 주문 번호 및 완료 메시지 표시
  * 2. 주문 상세 정보 확인
  * 3. 주문 상품 목록 표시
- * 4. 배송 정보 안내
- * 5. 주문 내역으로 이동 링크
- * 6. SEO 최적화된 메타데이터
+ * 4. 주문 진행 타임라인 (상태 변경 시각과 다음 단계 예상일)
+ * 5. 배송 정보 안내
+ * 6. 주문 내역으로 이동 링크, 영수증 보기 및 배송 전 주문 취소
+ * 7. SEO 최적화된 메타데이터
  *
  * @dependencies
  * - @/actions/orders: 주문 서버 액션
@@ -22,18 +23,25 @@ import { getOrder } from "@/actions/orders";
 import { Navbar } from "@/components/nav/navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { OrderStatusBadge } from "@/components/order/order-status-badge";
+import { CancelOrderButton } from "@/components/order/cancel-order-button";
+import {
+  OrderStatusTimeline,
+  buildOrderTimeline,
+} from "@/components/order/order-status-timeline";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   CheckCircle2,
   Package,
-  Clock,
   Truck,
   ShoppingBag,
   CreditCard,
   Calendar,
   Home,
+  MapPin,
+  ListChecks,
+  Receipt,
 } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
@@ -64,48 +72,6 @@ export async function generateMetadata({
   };
 }
 
-// 주문 상태 배지 컴포넌트
-function OrderStatusBadge({ status }: { status: string }) {
-  const statusConfig = {
-    pending: {
-      label: "주문 접수",
-      variant: "outline" as const,
-      icon: Clock,
-    },
-    confirmed: {
-      label: "주문 확인",
-      variant: "secondary" as const,
-      icon: CheckCircle2,
-    },
-    shipping: {
-      label: "배송 중",
-      variant: "default" as const,
-      icon: Truck,
-    },
-    delivered: {
-      label: "배송 완료",
-      variant: "secondary" as const,
-      icon: Package,
-    },
-    cancelled: {
-      label: "주문 취소",
-      variant: "destructive" as const,
-      icon: Clock,
-    },
-  };
-
-  const config =
-    statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
-  const Icon = config.icon;
-
-  return (
-    <Badge variant={config.variant} className="flex items-center gap-1">
-      <Icon className="h-3 w-3" />
-      {config.label}
-    </Badge>
-  );
-}
-
 // 주문 상세 스켈레톤
 function OrderDetailSkeleton() {
   return (
@@ -164,8 +130,15 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
     const order = await getOrder(orderId);
 
     const orderDate = new Date(order.created_at);
-    const estimatedDelivery = new Date(orderDate);
-    estimatedDelivery.setDate(estimatedDelivery.getDate() + 3); // 3일 후 배송 예정
+    const statusHistory = order.status_history ?? [];
+    // 배송 완료 단계 (아직 배송 전이면 예상일, 취소된 주문이면 없음)
+    const deliveryStep = buildOrderTimeline({
+      status: order.status,
+      createdAt: order.created_at,
+      history: statusHistory,
+    }).find((step) => step.status === "delivered");
+    const deliveryDate =
+      deliveryStep?.occurredAt ?? deliveryStep?.estimatedAt ?? null;
 
     return (
       <div className="container mx-auto px-4 py-8">
@@ -235,6 +208,23 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
             </CardContent>
           </Card>
 
+          {/* 주문 진행 상황 */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                주문 진행 상황
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OrderStatusTimeline
+                status={order.status}
+                createdAt={order.created_at}
+                history={statusHistory}
+              />
+            </CardContent>
+          </Card>
+
           {/* 배송 정보 */}
           <Card>
             <CardHeader>
@@ -245,24 +235,58 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 mb-1">
-                    배송 예정일
-                  </h3>
-                  <p className="flex items-center gap-2">
-                    <Calendar className="h-4 w-4" />
-                    {estimatedDelivery.toLocaleDateString("ko-KR", {
-                      year: "numeric",
-                      month: "long",
-                      day: "numeric",
-                    })}
-                  </p>
-                </div>
+                {order.customer_name && (
+                  <>
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-500 mb-1">
+                        받는 분
+                      </h3>
+                      <p className="font-medium">{order.customer_name}</p>
+                      <p className="text-sm text-gray-600">
+                        {order.customer_phone}
+                      </p>
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-500 mb-1">
+                        배송 주소
+                      </h3>
+                      <p className="flex items-start gap-2 break-all">
+                        <MapPin className="h-4 w-4 mt-1 shrink-0" />
+                        <span>
+                          {order.customer_postcode &&
+                            `(${order.customer_postcode}) `}
+                          {order.customer_address}
+                        </span>
+                      </p>
+                    </div>
+                  </>
+                )}
+                {deliveryStep && deliveryDate && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 mb-1">
+                      {deliveryStep.occurredAt ? "배송 완료일" : "배송 예정일"}
+                    </h3>
+                    <p className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4" />
+                      {deliveryDate.toLocaleDateString("ko-KR", {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      })}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <h3 className="text-sm font-medium text-gray-500 mb-1">
                     배송비
                   </h3>
-                  <p className="text-green-600 font-medium">무료배송</p>
+                  {order.shipping_fee > 0 ? (
+                    <p className="font-medium">
+                      {formatPrice(order.shipping_fee)}원
+                    </p>
+                  ) : (
+                    <p className="text-green-600 font-medium">무료배송</p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -303,6 +327,9 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
                         {item.product.name}
                       </h4>
                       <div className="text-sm text-gray-600 space-y-1">
+                        {item.variant_label && (
+                          <p>{`옵션: ${item.variant_label}`}</p>
+                        )}
                         <p>수량: {item.quantity}개</p>
                         <p>단가: {formatPrice(item.price_at_time)}원</p>
                         <p className="font-medium text-gray-900">
@@ -317,6 +344,45 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
 
               <Separator className="my-4" />
 
+              <div className="space-y-2 mb-3 text-sm text-gray-600">
+                <div className="flex justify-between">
+                  <span>상품 금액</span>
+                  <span>
+                    {formatPrice(
+                      order.total_amount -
+                        (order.shipping_fee ?? 0) +
+                        (order.discount_amount ?? 0) +
+                        (order.points_used ?? 0),
+                    )}
+                    원
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>배송비</span>
+                  {order.shipping_fee > 0 ? (
+                    <span>{formatPrice(order.shipping_fee)}원</span>
+                  ) : (
+                    <span className="text-green-600">무료</span>
+                  )}
+                </div>
+                {order.discount_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span>{`쿠폰 할인 (${order.coupon_code})`}</span>
+                    <span className="text-red-600">
+                      -{formatPrice(order.discount_amount)}원
+                    </span>
+                  </div>
+                )}
+                {order.points_used > 0 && (
+                  <div className="flex justify-between">
+                    <span>적립금 사용</span>
+                    <span className="text-red-600">
+                      -{formatPrice(order.points_used)}원
+                    </span>
+                  </div>
+                )}
+              </div>
+
               <div className="flex justify-between items-center">
                 <span className="text-lg font-bold">총 결제금액</span>
                 <span className="text-xl font-bold text-orange-600">
@@ -342,6 +408,21 @@ async function OrderSuccessContent({ orderId }: { orderId: number }) {
 
           {/* 액션 버튼들 */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <CancelOrderButton
+              orderId={order.id}
+              status={order.status}
+              className="w-full sm:w-auto"
+            />
+            <a
+              href={`/orders/${order.id}/invoice`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Button variant="outline" className="w-full sm:w-auto">
+                <Receipt className="h-4 w-4 mr-2" />
+                영수증 보기
+              </Button>
+            </a>
             <Link href="/orders">
               <Button variant="outline" className="w-full sm:w-auto">
                 <ShoppingBag className="h-4 w-4 mr-2" />
@@ -0,0 +1,124 @@
+/**
+ * @file route.ts
+ * @description 주문 영수증(거래명세서) 라우트
+ *
+ * 주문 완료 페이지, 주문 내역, 관리자 주문 상세에서 새 창으로 엽니다.
+ * 브라우저 인쇄 기능으로 출력하거나 PDF로 저장할 수 있는 HTML을 돌려줍니다.
+ *
+ * 주요 기능:
+ * 1. 로그인 사용자 확인 (/orders 경로는 미들웨어에서도 로그인 페이지로 보냄)
+ * 2. 주문과 주문 상품 조회 (RLS: 본인 주문 또는 관리자)
+ * 3. 인쇄용 영수증 HTML 응답 (?download=1이면 파일로 다운로드)
+ *
+ * 응답:
+ * - 200: 영수증 HTML
+ * - 401: 로그인 필요
+ * - 404: 주문이 없거나 조회 권한 없음
+ * - 500: 조회 중 오류
+ *
+ * @dependencies
+ * - next/server
+ * - @/utils/supabase/server: 서버 Supabase 클라이언트
+ * - @/lib/invoice: 영수증 번호와 HTML 생성
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { createServerSupabaseClient } from "@/utils/supabase/server";
+import {
+  getInvoiceNumber,
+  renderInvoiceHtml,
+  type InvoiceOrder,
+} from "@/lib/invoice";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const orderId = Number(id);
+
+  console.log("🧾 영수증 요청:", id);
+
+  if (!Number.isInteger(orderId) || orderId <= 0) {
+    return new NextResponse("주문을 찾을 수 없습니다.", { status: 404 });
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return new NextResponse("로그인이 필요합니다.", { status: 401 });
+    }
+
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select(
+        `
+        id,
+        status,
+        created_at,
+        total_amount,
+        shipping_fee,
+        discount_amount,
+        coupon_code,
+        points_used,
+        customer_name,
+        customer_phone,
+        customer_address,
+        customer_postcode,
+        order_items(
+          id,
+          quantity,
+          price_at_time,
+          variant_label,
+          product:products(name)
+        )
+      `,
+      )
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("영수증 주문 조회 실패:", error);
+      return new NextResponse("영수증을 불러오는 중 오류가 발생했습니다.", {
+        status: 500,
+      });
+    }
+
+    if (!order) {
+      return new NextResponse("주문을 찾을 수 없습니다.", { status: 404 });
+    }
+
+    const invoiceOrder: InvoiceOrder = {
+      ...order,
+      order_items: (order.order_items ?? []).map((item) => ({
+        ...item,
+        product: Array.isArray(item.product) ? item.product[0] : item.product,
+      })),
+    };
+    const invoiceNumber = getInvoiceNumber(invoiceOrder);
+    const isDownload = request.nextUrl.searchParams.get("download") === "1";
+
+    console.log("✅ 영수증 생성:", invoiceNumber);
+
+    return new NextResponse(renderInvoiceHtml(invoiceOrder), {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "private, no-store",
+        ...(isDownload && {
+          "Content-Disposition": `attachment; filename="${invoiceNumber}.html"`,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error("❌ 영수증 생성 중 예외 발생:", error);
+    return new NextResponse("영수증을 불러오는 중 오류가 발생했습니다.", {
+      status: 500,
+    });
+  }
+}
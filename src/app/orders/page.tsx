@@ -6,9 +6,10 @@
  * 1. 사용자별 주문 목록 표시
  * 2. 주문 상태별 필터링
  * 3. 페이지네이션
- * 4. 주문 상세 보기 링크
- * 5. 주문 상태 표시
- * 6. 반응형 레이아웃
+ * 4. 주문 상세 보기/영수증 링크 및 배송 전 주문 취소
+ * 5. 배송 완료 주문 반품 신청 및 반품 진행 상태 표시
+ * 6. 주문 상태 및 진행 타임라인 표시 (다음 단계 예상일 포함)
+ * 7. 반응형 레이아웃
  *
  * @dependencies
  * - @/actions/orders: 주문 서버 액션
@@ -26,76 +27,36 @@ import { useAuth } from "@/components/auth/auth-provider";
 import { getOrders, type OrderWithItems } from "@/actions/orders";
 import { formatPrice } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Navbar } from "@/components/nav/navbar";
+import { OrderStatusBadge } from "@/components/order/order-status-badge";
+import { OrderStatusTimeline } from "@/components/order/order-status-timeline";
+import { CancelOrderButton } from "@/components/order/cancel-order-button";
+import { ReturnRequestDialog } from "@/components/order/return-request-dialog";
+import { ReturnStatusBadge } from "@/components/order/return-status-badge";
+import { ORDER_STATUSES } from "@/constants/order-status";
 import {
-  Clock,
-  CheckCircle2,
-  Truck,
   Package,
   AlertCircle,
   Eye,
   Filter,
   ShoppingBag,
   Home,
+  Receipt,
 } from "lucide-react";
 
-// 주문 상태 설정
-const ORDER_STATUSES = [
-  { value: "", label: "전체" },
-  { value: "pending", label: "주문 접수" },
-  { value: "confirmed", label: "주문 확인" },
-  { value: "shipping", label: "배송 중" },
-  { value: "delivered", label: "배송 완료" },
-  { value: "cancelled", label: "주문 취소" },
-];
-
-// 주문 상태 배지 컴포넌트
-function OrderStatusBadge({ status }: { status: string }) {
-  const statusConfig = {
-    pending: {
-      label: "주문 접수",
-      variant: "outline" as const,
-      icon: Clock,
-    },
-    confirmed: {
-      label: "주문 확인",
-      variant: "secondary" as const,
-      icon: CheckCircle2,
-    },
-    shipping: {
-      label: "배송 중",
-      variant: "default" as const,
-      icon: Truck,
-    },
-    delivered: {
-      label: "배송 완료",
-      variant: "secondary" as const,
-      icon: Package,
-    },
-    cancelled: {
-      label: "주문 취소",
-      variant: "destructive" as const,
-      icon: AlertCircle,
-    },
-  };
-
-  const config =
-    statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
-  const Icon = config.icon;
-
-  return (
-    <Badge variant={config.variant} className="flex items-center gap-1">
-      <Icon className="h-3 w-3" />
-      {config.label}
-    </Badge>
-  );
-}
+// 주문 상태 필터 옵션
+const ORDER_STATUS_FILTERS = [{ value: "", label: "전체" }, ...ORDER_STATUSES];
 
 // 주문 카드 컴포넌트
-function OrderCard({ order }: { order: OrderWithItems }) {
+function OrderCard({
+  order,
+  onChanged,
+}: {
+  order: OrderWithItems;
+  onChanged: () => void; // 주문 취소, 반품 신청 후 목록 새로고침
+}) {
   const orderDate = new Date(order.created_at);
 
   return (
@@ -170,13 +131,52 @@ function OrderCard({ order }: { order: OrderWithItems }) {
           </div>
         </div>
 
-        {/* 주문 상세 보기 버튼 */}
-        <Link href={`/order-success/${order.id}`}>
-          <Button variant="outline" className="w-full">
-            <Eye className="h-4 w-4 mr-2" />
-            주문 상세 보기
-          </Button>
-        </Link>
+        {/* 주문 진행 타임라인 */}
+        <OrderStatusTimeline
+          status={order.status}
+          createdAt={order.created_at}
+          history={order.status_history ?? []}
+          compact
+        />
+
+        {/* 반품 진행 상태 */}
+        {order.returns && order.returns.length > 0 && (
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="text-gray-500">반품</span>
+            {order.returns.map((orderReturn) => (
+              <ReturnStatusBadge
+                key={orderReturn.id}
+                status={orderReturn.status}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* 주문 상세 보기 / 주문 취소 / 반품 신청 버튼 */}
+        <div className="flex gap-2">
+          <Link href={`/order-success/${order.id}`} className="flex-1">
+            <Button variant="outline" className="w-full">
+              <Eye className="h-4 w-4 mr-2" />
+              주문 상세 보기
+            </Button>
+          </Link>
+          <a
+            href={`/orders/${order.id}/invoice`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Button variant="outline" title="영수증 보기">
+              <Receipt className="h-4 w-4" />
+              <span className="sr-only">영수증 보기</span>
+            </Button>
+          </a>
+          <CancelOrderButton
+            orderId={order.id}
+            status={order.status}
+            onCancelled={onChanged}
+          />
+          <ReturnRequestDialog order={order} onRequested={onChanged} />
+        </div>
       </CardContent>
     </Card>
   );
@@ -411,7 +411,7 @@ function OrdersPageClient() {
           <div className="max-w-4xl mx-auto space-y-6">
             {/* 상태 필터 */}
             <div className="flex flex-wrap gap-2">
-              {ORDER_STATUSES.map((status) => (
+              {ORDER_STATUS_FILTERS.map((status) => (
                 <Button
                   key={status.value}
                   variant={
@@ -436,7 +436,7 @@ function OrdersPageClient() {
                 </h2>
                 <p className="text-gray-600 mb-6">
                   {selectedStatus
-                    ? `${ORDER_STATUSES.find((s) => s.value === selectedStatus)?.label} 상태의 주문이 없습니다.`
+                    ? `${ORDER_STATUS_FILTERS.find((s) => s.value === selectedStatus)?.label} 상태의 주문이 없습니다.`
                     : "아직 주문하신 상품이 없습니다."}
                 </p>
                 <div className="space-y-3">
@@ -461,7 +461,11 @@ function OrdersPageClient() {
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {orders.map((order) => (
-                  <OrderCard key={order.id} order={order} />
+                  <OrderCard
+                    key={order.id}
+                    order={order}
+                    onChanged={fetchOrders}
+                  />
                 ))}
               </div>
             )}
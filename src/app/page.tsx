@@ -5,7 +5,7 @@
  * 주요 기능:
  * 1. 상품 목록 표시 (서버 사이드 렌더링)
  * 2. 장바구니 추가 기능
- * 3. 카테고리별 필터링
+ * 3. 카테고리별 필터링 (하위 카테고리 포함)
  * 4. 검색 및 정렬 기능
  * 5. 반응형 그리드 레이아웃
  * 6. 상품 상세 페이지로 이동 링크
@@ -16,7 +16,6 @@
  * - @/components/products: 상품 관련 컴포넌트
  * - @/components/nav/navbar: 네비게이션 바
  * - @/utils/supabase/server: 서버 컴포넌트용 Supabase 클라이언트
- * - @/constants/categories: 카테고리 상수
  */
 
 import { Suspense } from "react";
@@ -4,27 +4,38 @@
  *
  * 주요 기능:
  * 1. 상품 상세 정보 표시 (서버 사이드 렌더링)
- * 2. 상품 이미지 표시
+ * 2. 상품 이미지 표시 (여러 장이면 갤러리)
  * 3. 수량 선택 기능
  * 4. 장바구니 담기 기능
  * 5. 관련 상품 추천 (향후 추가)
  * 6. SEO 최적화된 메타데이터
+ * 7. 상품 옵션 선택 (판매 중인 옵션만)
+ * 8. 공개 전/보관 상품 미리보기 안내 (관리자만 볼 수 있음)
+ *    주문한 고객도 주문 내역을 위해 보관 상품을 조회할 수 있지만, 상세 페이지는 관리자에게만 보여줍니다.
  *
  * @dependencies
  * - @/actions/products: 상품 관련 서버 액션
+ * - @/actions/variants: 상품 옵션 조회 서버 액션
+ * - @/actions/product-images: 상품 이미지 조회 서버 액션
+ * - @/actions/profile: 관리자 여부 확인 (미리보기)
  * - @/components/products: 상품 관련 컴포넌트
+ * - @/lib/product-status: 상품 공개 상태
  * - next/image: 이미지 최적화
  */
 
 import { Suspense } from "react";
 import { notFound } from "next/navigation";
 import { getProduct, getProducts } from "@/actions/products";
+import { getProductVariants } from "@/actions/variants";
+import { getProductImages } from "@/actions/product-images";
+import { getCurrentProfile } from "@/actions/profile";
 import { ProductDetailContainer } from "@/components/products/product-detail";
 import { ProductList } from "@/components/products/product-list";
 import { Navbar } from "@/components/nav/navbar";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft } from "lucide-react";
+import { getProductVisibility, PRODUCT_VISIBILITY_LABELS } from "@/lib/product-status";
+import { ArrowLeft, EyeOff } from "lucide-react";
 import Link from "next/link";
 import type { Metadata } from "next";
 
@@ -149,7 +160,26 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
       notFound();
     }
 
-    console.log("상품 조회 성공:", product.name);
+    // 공개 중이 아닌 상품은 관리자에게만 미리보기로 표시
+    const visibility = getProductVisibility(product);
+
+    if (visibility !== "published") {
+      const { profile } = await getCurrentProfile();
+      if (!profile?.is_admin) {
+        console.error("공개 중이 아닌 상품:", productId, visibility);
+        console.groupEnd();
+        notFound();
+      }
+    }
+
+    // 옵션 상품이면 판매 중인 옵션 조회
+    const variants =
+      product.option_names?.length > 0 ? await getProductVariants(productId) : [];
+
+    // 상품 이미지 조회 (갤러리)
+    const images = await getProductImages(productId);
+
+    console.log("상품 조회 성공:", product.name, "옵션 수:", variants.length, "이미지 수:", images.length);
     console.groupEnd();
 
     return (
@@ -157,6 +187,23 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
         <Navbar />
         
         <main className="flex-grow">
+          {/* 미리보기 안내 */}
+          {visibility !== "published" && (
+            <div className="border-b border-yellow-200 bg-yellow-50">
+              <div className="container mx-auto px-4 py-3 flex items-center justify-between gap-4 text-sm text-yellow-800">
+                <div className="flex items-center gap-2">
+                  <EyeOff className="h-4 w-4 shrink-0" />
+                  <span>
+                    {`미리보기: "${PRODUCT_VISIBILITY_LABELS[visibility]}" 상태의 상품으로, 고객에게는 보이지 않습니다.`}
+                  </span>
+                </div>
+                <Link href={`/admin/products/${product.id}/edit`} className="shrink-0 font-medium hover:underline">
+                  공개 설정 변경
+                </Link>
+              </div>
+            </div>
+          )}
+
           {/* 뒤로가기 버튼 */}
           <div className="container mx-auto px-4 py-4">
             <Link href="/">
@@ -168,7 +215,7 @@ export default async function ProductDetailPage({ params }: ProductPageProps) {
           </div>
 
           {/* 상품 상세 정보 */}
-          <ProductDetailContainer product={product} />
+          <ProductDetailContainer product={product} variants={variants} images={images} />
 
           {/* 관련 상품 */}
           <Suspense fallback={<RelatedProductsSkeleton />}>
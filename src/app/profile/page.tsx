@@ -11,6 +11,7 @@
  * 3. 이름 수정 기능
  * 4. 사용자 이메일 및 계정 정보 표시
  * 5. 네비게이션 바 통합
+ * 6. 적립금 잔액, 소멸 예정 금액, 적립/사용 내역 표시
  *
  * 구현 로직:
  * - 서버 컴포넌트에서 프로필 데이터 조회
@@ -23,7 +24,9 @@
  * - next/navigation
  * - @/utils/supabase/server
  * - @/actions/profile
+ * - @/actions/points
  * - @/components/profile/profile-form
+ * - @/components/profile/points-card
  * - @/components/ui/button
  * - @/components/ui/card
  * - @/components/nav
@@ -34,7 +37,13 @@
 import { redirect } from "next/navigation";
 import { createServerSupabaseClient } from "@/utils/supabase/server";
 import { getCurrentProfile } from "@/actions/profile";
+import {
+  getMyPointSummary,
+  getMyPointTransactions,
+  getPointSettings,
+} from "@/actions/points";
 import { ProfileForm } from "@/components/profile/profile-form";
+import { PointsCard } from "@/components/profile/points-card";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -103,6 +112,22 @@ export default async function Profile() {
 
   console.log("✅ 프로필 조회 완료:", profile.name);
 
+  // 적립금 조회 (실패해도 프로필은 표시)
+  const points = await Promise.all([
+    getMyPointSummary(),
+    getPointSettings(),
+    getMyPointTransactions(),
+  ])
+    .then(([summary, settings, transactions]) => ({
+      summary,
+      settings,
+      transactions,
+    }))
+    .catch((error) => {
+      console.error("❌ 적립금 조회 실패:", error);
+      return null;
+    });
+
   return (
     <div className="min-h-screen flex flex-col">
       <Navbar />
@@ -116,6 +141,15 @@ export default async function Profile() {
           {/* 프로필 정보 및 수정 폼 */}
           <ProfileForm initialProfile={profile} />
 
+          {/* 적립금 잔액과 내역 */}
+          {points && (
+            <PointsCard
+              summary={points.summary}
+              settings={points.settings}
+              transactions={points.transactions}
+            />
+          )}
+
           {/* 계정 정보 (읽기 전용) */}
           <Card className="shadow-sm">
             <CardHeader className="pb-2 sm:pb-4">
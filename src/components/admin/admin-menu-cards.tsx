@@ -11,7 +11,15 @@
 "use client";
 
 import Link from "next/link";
-import { Shield, Package, ShoppingCart, FolderOpen, Users } from "lucide-react";
+import {
+  Shield,
+  Package,
+  ShoppingCart,
+  FolderOpen,
+  Users,
+  Ticket,
+  FolderTree,
+} from "lucide-react";
 
 interface AdminMenuCardsProps {
   onFileManagementClick?: () => void;
@@ -27,6 +35,13 @@ export function AdminMenuCards({ onFileManagementClick }: AdminMenuCardsProps) {
       icon: Package,
       color: "bg-blue-500",
     },
+    {
+      title: "카테고리 관리",
+      description: "카테고리 트리, 표시 순서, 아이콘 및 노출 관리",
+      href: "/admin/categories",
+      icon: FolderTree,
+      color: "bg-teal-500",
+    },
     {
       title: "주문 관리",
       description: "주문 내역, 배송 상태 관리",
@@ -44,11 +59,18 @@ export function AdminMenuCards({ onFileManagementClick }: AdminMenuCardsProps) {
     },
     {
       title: "사용자 관리",
-      description: "회원 목록 및 권한 관리",
+      description: "회원 목록, 권한 및 적립금 관리",
       href: "/admin/users",
       icon: Users,
       color: "bg-orange-500",
     },
+    {
+      title: "쿠폰 관리",
+      description: "쿠폰 코드 발급, 할인 조건 및 사용 현황",
+      href: "/admin/coupons",
+      icon: Ticket,
+      color: "bg-pink-500",
+    },
   ];
 
   // 파일 관리 클릭 핸들러
@@ -0,0 +1,646 @@
+/**
+ * @file category-management.tsx
+ * @description 관리자 카테고리 관리 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 카테고리 트리 조회 (하위 카테고리 들여쓰기, 아이콘, 슬러그, 상품 수)
+ * 2. 카테고리 생성/수정 (이름, 슬러그, 상위 카테고리, 아이콘, 노출 여부)
+ * 3. 같은 상위 카테고리 안에서 표시 순서 변경
+ * 4. 카테고리 노출/숨김 (숨기면 하위 카테고리도 고객 화면에서 빠짐)
+ * 5. 상품, 쿠폰, 하위 카테고리가 없는 카테고리 삭제
+ *
+ * @dependencies
+ * - @/actions/categories: 카테고리 서버 액션
+ * - @/lib/categories: 카테고리 아이콘 목록, 트리 계산
+ * - @/components/categories/category-icon: 카테고리 아이콘
+ * - @/components/admin/category-select: 상위 카테고리 선택
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getCategoriesForAdmin,
+  createCategory,
+  updateCategory,
+  setCategoryVisible,
+  reorderCategories,
+  deleteCategory,
+  type CategoryInput,
+  type CategoryWithCount,
+} from "@/actions/categories";
+import {
+  ALL_CATEGORY,
+  CATEGORY_ICONS,
+  DEFAULT_CATEGORY,
+  findCategory,
+  getCategoryOptions,
+  getCategorySubtree,
+  getChildCategories,
+  type CategoryIconName,
+} from "@/lib/categories";
+import { CategoryIcon } from "@/components/categories/category-icon";
+import { CategorySelect } from "@/components/admin/category-select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  FolderPlus,
+  FolderTree,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+// 아이콘을 고르지 않음 (Select 값은 빈 문자열을 쓸 수 없음)
+const NO_ICON = "none";
+
+// 카테고리 폼 입력값
+interface CategoryFormValues {
+  name: string;
+  slug: string;
+  parent: string; // 상위 카테고리 슬러그 (ALL_CATEGORY면 최상위)
+  icon: string; // CATEGORY_ICONS의 값 (NO_ICON이면 기본 아이콘)
+  is_visible: boolean;
+}
+
+// 카테고리 다이얼로그 대상 (category가 없으면 parentId 아래에 새 카테고리)
+interface CategoryFormTarget {
+  category: CategoryWithCount | null;
+  parentId: number | null;
+}
+
+// 폼 입력값 → 서버 액션 입력값
+function toCategoryInput(
+  values: CategoryFormValues,
+  categories: CategoryWithCount[],
+): CategoryInput {
+  return {
+    name: values.name,
+    slug: values.slug,
+    parent_id:
+      values.parent === ALL_CATEGORY
+        ? null
+        : (findCategory(categories, values.parent)?.id ?? null),
+    icon: values.icon === NO_ICON ? null : (values.icon as CategoryIconName),
+    is_visible: values.is_visible,
+  };
+}
+
+// 카테고리 생성/수정 다이얼로그
+function CategoryFormDialog({
+  target,
+  categories,
+  isSaving,
+  onSubmit,
+  onClose,
+}: {
+  target: CategoryFormTarget | null;
+  categories: CategoryWithCount[];
+  isSaving: boolean;
+  onSubmit: (values: CategoryFormValues) => void;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<CategoryFormValues>({
+    name: "",
+    slug: "",
+    parent: ALL_CATEGORY,
+    icon: NO_ICON,
+    is_visible: true,
+  });
+
+  const category = target?.category ?? null;
+
+  // 다이얼로그가 열릴 때 수정할 카테고리 값 (또는 상위 카테고리)으로 초기화
+  useEffect(() => {
+    if (!target) return;
+
+    const parentId = target.category
+      ? target.category.parent_id
+      : target.parentId;
+    const parent = categories.find((item) => item.id === parentId);
+    setValues({
+      name: target.category?.name ?? "",
+      slug: target.category?.slug ?? "",
+      parent: parent?.slug ?? ALL_CATEGORY,
+      icon: target.category?.icon ?? NO_ICON,
+      is_visible: target.category?.is_visible ?? true,
+    });
+  }, [target, categories]);
+
+  const updateValue = <K extends keyof CategoryFormValues>(
+    key: K,
+    value: CategoryFormValues[K],
+  ) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // 자기 자신과 하위 카테고리는 상위 카테고리로 고를 수 없음
+  const excludedIds = new Set(
+    category
+      ? getCategorySubtree(categories, category.id).map((item) => item.id)
+      : [],
+  );
+  const parentOptions = categories.filter((item) => !excludedIds.has(item.id));
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSubmit(values);
+  };
+
+  return (
+    <Dialog
+      open={target !== null}
+      onOpenChange={(next) => !next && !isSaving && onClose()}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {category ? "카테고리 수정" : "새 카테고리"}
+          </DialogTitle>
+          <DialogDescription>
+            {category
+              ? "슬러그를 바꾸면 이 카테고리의 상품과 쿠폰도 함께 바뀝니다."
+              : "상위 카테고리를 고르면 그 카테고리의 마지막에 추가됩니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="categoryForm" onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="categoryName">이름 *</Label>
+              <Input
+                id="categoryName"
+                value={values.name}
+                onChange={(e) => updateValue("name", e.target.value)}
+                placeholder="예: 러닝화"
+                maxLength={30}
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="categorySlug">슬러그 *</Label>
+              <Input
+                id="categorySlug"
+                value={values.slug}
+                onChange={(e) =>
+                  updateValue("slug", e.target.value.toLowerCase())
+                }
+                placeholder="예: running-shoes"
+                maxLength={50}
+                disabled={isSaving || category?.slug === DEFAULT_CATEGORY}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>상위 카테고리</Label>
+            <CategorySelect
+              categories={parentOptions}
+              value={values.parent}
+              onValueChange={(value) => updateValue("parent", value)}
+              includeAll
+              allLabel="없음 (최상위 카테고리)"
+              disabled={isSaving}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>아이콘</Label>
+            <Select
+              value={values.icon}
+              onValueChange={(value) => updateValue("icon", value)}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ICON}>
+                  <CategoryIcon icon={null} className="h-4 w-4" />
+                  기본 아이콘
+                </SelectItem>
+                {CATEGORY_ICONS.map((icon) => (
+                  <SelectItem key={icon.value} value={icon.value}>
+                    <CategoryIcon icon={icon.value} className="h-4 w-4" />
+                    {icon.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="categoryVisible"
+              checked={values.is_visible}
+              onCheckedChange={(checked) => updateValue("is_visible", checked)}
+              disabled={isSaving}
+            />
+            <Label htmlFor="categoryVisible">고객 화면에 노출</Label>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            취소
+          </Button>
+          <Button type="submit" form="categoryForm" disabled={isSaving}>
+            {isSaving ? "저장 중..." : category ? "수정" : "만들기"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CategoryManagement() {
+  const [categories, setCategories] = useState<CategoryWithCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formTarget, setFormTarget] = useState<CategoryFormTarget | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<CategoryWithCount | null>(
+    null,
+  );
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  console.log("🗂️ 관리자 카테고리 관리 렌더링");
+
+  // 카테고리 목록 조회
+  const fetchCategories = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const result = await getCategoriesForAdmin();
+
+      if (result.success) {
+        setCategories(result.categories);
+      } else {
+        setError(
+          "error" in result
+            ? result.error
+            : "카테고리 목록을 불러오는데 실패했습니다.",
+        );
+        setCategories([]);
+      }
+    } catch (error) {
+      console.error("카테고리 목록 조회 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "카테고리 목록을 조회하는 중 오류가 발생했습니다.",
+      );
+      setCategories([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  // 서버 액션 실행 후 목록 다시 조회 (실패하면 에러 메시지 표시)
+  const runAction = async (
+    action: () => Promise<unknown>,
+    fallbackMessage: string,
+  ): Promise<boolean> => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+      await action();
+      await fetchCategories();
+      return true;
+    } catch (error) {
+      console.error(fallbackMessage, error);
+      setError(error instanceof Error ? error.message : fallbackMessage);
+      return false;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 카테고리 저장 (생성 또는 수정)
+  const handleSave = async (values: CategoryFormValues) => {
+    const editingCategory = formTarget?.category ?? null;
+    const input = toCategoryInput(values, categories);
+
+    const saved = await runAction(
+      () =>
+        editingCategory
+          ? updateCategory(editingCategory.id, input)
+          : createCategory(input),
+      "카테고리 저장 중 오류가 발생했습니다.",
+    );
+
+    if (saved) {
+      setFormTarget(null);
+    }
+  };
+
+  // 같은 상위 카테고리 안에서 한 칸 위/아래로 이동
+  const handleMove = (category: CategoryWithCount, offset: -1 | 1) => {
+    const siblingIds = getChildCategories(categories, category.parent_id).map(
+      (sibling) => sibling.id,
+    );
+    const from = siblingIds.indexOf(category.id);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= siblingIds.length) return;
+
+    [siblingIds[from], siblingIds[to]] = [siblingIds[to], siblingIds[from]];
+    runAction(
+      () => reorderCategories(category.parent_id, siblingIds),
+      "카테고리 순서 변경 중 오류가 발생했습니다.",
+    );
+  };
+
+  // 카테고리 노출/숨김
+  const handleToggleVisible = (category: CategoryWithCount) => {
+    runAction(
+      () => setCategoryVisible(category.id, !category.is_visible),
+      "카테고리 노출 상태 변경 중 오류가 발생했습니다.",
+    );
+  };
+
+  // 카테고리 삭제
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    const categoryId = deleteTarget.id;
+    await runAction(
+      () => deleteCategory(categoryId),
+      "카테고리 삭제 중 오류가 발생했습니다.",
+    );
+    setDeleteTarget(null);
+  };
+
+  const options = getCategoryOptions(categories);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button
+          onClick={() => setFormTarget({ category: null, parentId: null })}
+        >
+          <Plus className="h-4 w-4 mr-2" />새 카테고리
+        </Button>
+      </div>
+
+      {/* 에러 메시지 */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-red-700">
+              <AlertCircle className="h-5 w-5" />
+              <span>{error}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 카테고리 트리 */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : categories.length === 0 ? (
+        <div className="text-center py-12">
+          <FolderTree className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">카테고리가 없습니다</h2>
+          <p className="text-gray-600">
+            새 카테고리를 만들어 상품을 분류해보세요.
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>카테고리 목록 ({categories.length}개)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>카테고리</TableHead>
+                    <TableHead>슬러그</TableHead>
+                    <TableHead>상품 수</TableHead>
+                    <TableHead>순서</TableHead>
+                    <TableHead>노출</TableHead>
+                    <TableHead>관리</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {options.map(({ category: option, depth }) => {
+                    const category = option as CategoryWithCount;
+                    const siblings = getChildCategories(
+                      categories,
+                      category.parent_id,
+                    );
+                    const index = siblings.findIndex(
+                      (sibling) => sibling.id === category.id,
+                    );
+
+                    return (
+                      <TableRow key={category.id}>
+                        <TableCell>
+                          <div
+                            className="flex items-center gap-2"
+                            style={{ paddingLeft: depth * 24 }}
+                          >
+                            <CategoryIcon
+                              icon={category.icon}
+                              className="h-4 w-4 text-gray-600"
+                            />
+                            <span
+                              className={`font-medium ${
+                                category.is_visible ? "" : "text-gray-400"
+                              }`}
+                            >
+                              {category.name}
+                            </span>
+                            {category.slug === DEFAULT_CATEGORY && (
+                              <Badge variant="secondary">기본</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {category.slug}
+                        </TableCell>
+                        <TableCell>{category.product_count}</TableCell>
+                        <TableCell>
+                          <div className="flex">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              onClick={() => handleMove(category, -1)}
+                              disabled={isProcessing || index <= 0}
+                              aria-label={`${category.name} 위로 이동`}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              onClick={() => handleMove(category, 1)}
+                              disabled={
+                                isProcessing || index === siblings.length - 1
+                              }
+                              aria-label={`${category.name} 아래로 이동`}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={category.is_visible}
+                            onCheckedChange={() =>
+                              handleToggleVisible(category)
+                            }
+                            disabled={isProcessing}
+                            aria-label={`${category.name} 노출 여부`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setFormTarget({
+                                  category: null,
+                                  parentId: category.id,
+                                })
+                              }
+                              disabled={isProcessing}
+                              aria-label={`${category.name} 하위 카테고리 추가`}
+                            >
+                              <FolderPlus className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setFormTarget({
+                                  category,
+                                  parentId: category.parent_id,
+                                })
+                              }
+                              disabled={isProcessing}
+                              aria-label={`${category.name} 수정`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeleteTarget(category)}
+                              disabled={
+                                isProcessing ||
+                                category.slug === DEFAULT_CATEGORY
+                              }
+                              className="text-red-600 hover:text-red-700"
+                              aria-label={`${category.name} 삭제`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              상품 수는 카테고리에 직접 지정된 상품만 셉니다. 고객 화면에서 상위
+              카테고리를 고르면 하위 카테고리 상품도 함께 표시됩니다.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 카테고리 생성/수정 다이얼로그 */}
+      <CategoryFormDialog
+        target={formTarget}
+        categories={categories}
+        isSaving={isProcessing}
+        onSubmit={handleSave}
+        onClose={() => setFormTarget(null)}
+      />
+
+      {/* 카테고리 삭제 확인 다이얼로그 */}
+      <AlertDialog
+        open={deleteTarget !== null}
+        onOpenChange={() => setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>카테고리를 삭제하시겠습니까?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`${deleteTarget?.name ?? ""} 카테고리가 영구적으로 삭제됩니다. 하위 카테고리가 있거나 상품 또는 쿠폰이 사용 중인 카테고리는 삭제할 수 없으니 숨김으로 변경해주세요.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isProcessing}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isProcessing ? "삭제 중..." : "삭제"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
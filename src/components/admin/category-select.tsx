@@ -0,0 +1,78 @@
+/**
+ * @file category-select.tsx
+ * @description 관리자 카테고리 선택 컴포넌트
+ *
+ * 상품 등록 폼, 상품 목록 필터, 쿠폰 적용 범위, 카테고리 상위 카테고리 선택에서 함께 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 카테고리를 트리 순서로 표시 (하위 카테고리는 들여쓰기)
+ * 2. 숨긴 카테고리 표시
+ * 3. "전체" 항목 선택적으로 추가 (목록 필터)
+ *
+ * @dependencies
+ * - @/lib/categories: 카테고리 타입, 트리 순서 계산
+ * - @/components/categories/category-icon: 카테고리 아이콘
+ * - @/components/ui/select: ShadcnUI Select 컴포넌트
+ */
+
+"use client";
+
+import {
+  ALL_CATEGORY,
+  getCategoryOptions,
+  type Category,
+} from "@/lib/categories";
+import { CategoryIcon } from "@/components/categories/category-icon";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export function CategorySelect({
+  categories,
+  value,
+  onValueChange,
+  includeAll = false,
+  allLabel = "전체",
+  placeholder = "카테고리를 선택해주세요",
+  disabled = false,
+  size = "default",
+  className,
+}: {
+  categories: Category[];
+  value: string;
+  onValueChange: (value: string) => void;
+  includeAll?: boolean; // "전체" 항목 추가 (값은 ALL_CATEGORY)
+  allLabel?: string; // "전체" 항목 이름 (상위 카테고리 선택에서는 "없음")
+  placeholder?: string;
+  disabled?: boolean;
+  size?: "sm" | "default";
+  className?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger className={className} size={size}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {includeAll && <SelectItem value={ALL_CATEGORY}>{allLabel}</SelectItem>}
+        {getCategoryOptions(categories).map(({ category, depth }) => (
+          <SelectItem
+            key={category.id}
+            value={category.slug}
+            style={{ paddingLeft: 8 + depth * 16 }}
+          >
+            <CategoryIcon icon={category.icon} className="h-4 w-4" />
+            {category.name}
+            {!category.is_visible && (
+              <span className="text-xs text-gray-400">(숨김)</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
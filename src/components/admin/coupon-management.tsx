@@ -0,0 +1,751 @@
+/**
+ * @file coupon-management.tsx
+ * @description 관리자 쿠폰 관리 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 쿠폰 목록 조회 (할인 내용, 적용 범위, 사용 기간, 사용 횟수)
+ * 2. 쿠폰 생성/수정 (할인 방식, 최소 주문 금액, 사용 한도, 적용 범위)
+ * 3. 쿠폰 사용 중지/재개
+ * 4. 사용 기록이 없는 쿠폰 삭제
+ *
+ * @dependencies
+ * - @/actions/coupons: 쿠폰 서버 액션
+ * - @/lib/coupons: 할인 방식, 적용 범위, 요약 문구
+ * - @/hooks/use-categories: 카테고리 목록 조회 훅
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  getCouponsForAdmin,
+  createCoupon,
+  updateCoupon,
+  setCouponActive,
+  deleteCoupon,
+  type Coupon,
+  type CouponInput,
+} from "@/actions/coupons";
+import {
+  COUPON_DISCOUNT_TYPES,
+  COUPON_SCOPES,
+  getCouponDiscountLabel,
+  getCouponScopeLabel,
+  type CouponDiscountType,
+  type CouponScope,
+} from "@/lib/coupons";
+import type { Category } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { CategorySelect } from "@/components/admin/category-select";
+import {
+  formatPrice,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, Pencil, Plus, Ticket, Trash2 } from "lucide-react";
+
+// 쿠폰 폼 입력값 (입력 필드는 모두 문자열로 관리)
+interface CouponFormValues {
+  code: string;
+  name: string;
+  discount_type: CouponDiscountType;
+  discount_value: string;
+  max_discount_amount: string;
+  min_order_amount: string;
+  starts_at: string; // datetime-local 형식 (YYYY-MM-DDTHH:mm)
+  expires_at: string;
+  usage_limit: string;
+  per_user_limit: string;
+  scope: CouponScope;
+  scope_category: string;
+  scope_product_ids: string; // 쉼표로 구분한 상품 ID
+  is_active: boolean;
+}
+
+const EMPTY_FORM: CouponFormValues = {
+  code: "",
+  name: "",
+  discount_type: "percentage",
+  discount_value: "",
+  max_discount_amount: "",
+  min_order_amount: "0",
+  starts_at: "",
+  expires_at: "",
+  usage_limit: "",
+  per_user_limit: "1",
+  scope: "all",
+  scope_category: "",
+  scope_product_ids: "",
+  is_active: true,
+};
+
+// 쿠폰 → 폼 입력값
+function toFormValues(coupon: Coupon): CouponFormValues {
+  return {
+    code: coupon.code,
+    name: coupon.name,
+    discount_type: coupon.discount_type as CouponDiscountType,
+    discount_value: String(coupon.discount_value),
+    max_discount_amount: coupon.max_discount_amount
+      ? String(coupon.max_discount_amount)
+      : "",
+    min_order_amount: String(coupon.min_order_amount),
+    starts_at: toDateTimeLocalValue(coupon.starts_at),
+    expires_at: toDateTimeLocalValue(coupon.expires_at),
+    usage_limit: coupon.usage_limit ? String(coupon.usage_limit) : "",
+    per_user_limit: coupon.per_user_limit ? String(coupon.per_user_limit) : "",
+    scope: coupon.scope as CouponScope,
+    scope_category: coupon.scope_category ?? "",
+    scope_product_ids: coupon.scope_product_ids.join(", "),
+    is_active: coupon.is_active,
+  };
+}
+
+// 폼 입력값 → 서버 액션 입력값
+function toCouponInput(values: CouponFormValues): CouponInput {
+  return {
+    code: values.code,
+    name: values.name,
+    discount_type: values.discount_type,
+    discount_value: Number(values.discount_value),
+    max_discount_amount: values.max_discount_amount,
+    min_order_amount: Number(values.min_order_amount || 0),
+    starts_at: fromDateTimeLocalValue(values.starts_at),
+    expires_at: fromDateTimeLocalValue(values.expires_at),
+    usage_limit: values.usage_limit,
+    per_user_limit: values.per_user_limit,
+    scope: values.scope,
+    scope_category: values.scope_category || null,
+    scope_product_ids: values.scope_product_ids
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .map(Number),
+    is_active: values.is_active,
+  };
+}
+
+// 사용 기간 표시 (예: "2025.06.01 ~ 2025.06.30", "제한 없음")
+function formatCouponPeriod(coupon: Coupon): string {
+  if (!coupon.starts_at && !coupon.expires_at) return "제한 없음";
+  const format = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString("ko-KR") : "";
+  return `${format(coupon.starts_at)} ~ ${format(coupon.expires_at)}`;
+}
+
+// 쿠폰 상태 배지 (사용 중지 / 만료 / 사용 가능)
+function CouponStatusBadge({ coupon }: { coupon: Coupon }) {
+  if (!coupon.is_active) {
+    return <Badge variant="secondary">사용 중지</Badge>;
+  }
+  if (coupon.expires_at && new Date(coupon.expires_at) < new Date()) {
+    return <Badge variant="outline">기간 만료</Badge>;
+  }
+  if (coupon.usage_limit && coupon.redemption_count >= coupon.usage_limit) {
+    return <Badge variant="outline">소진</Badge>;
+  }
+  return <Badge className="bg-green-600 hover:bg-green-600">사용 가능</Badge>;
+}
+
+// 쿠폰 생성/수정 다이얼로그
+function CouponFormDialog({
+  open,
+  coupon,
+  categories,
+  isSaving,
+  onSubmit,
+  onClose,
+}: {
+  open: boolean;
+  coupon: Coupon | null;
+  categories: Category[];
+  isSaving: boolean;
+  onSubmit: (values: CouponFormValues) => void;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<CouponFormValues>(EMPTY_FORM);
+
+  // 다이얼로그가 열릴 때 수정할 쿠폰 값으로 초기화
+  useEffect(() => {
+    if (open) {
+      setValues(coupon ? toFormValues(coupon) : EMPTY_FORM);
+    }
+  }, [open, coupon]);
+
+  const updateValue = <K extends keyof CouponFormValues>(
+    key: K,
+    value: CouponFormValues[K],
+  ) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSubmit(values);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !next && !isSaving && onClose()}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? "쿠폰 수정" : "새 쿠폰 만들기"}</DialogTitle>
+          <DialogDescription>
+            {coupon
+              ? `${coupon.code} 쿠폰의 할인 조건을 수정합니다. 이미 사용된 주문의 할인 금액은 바뀌지 않습니다.`
+              : "고객이 주문서에서 입력할 쿠폰 코드와 할인 조건을 설정합니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="couponForm" onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="couponCode">쿠폰 코드 *</Label>
+              <Input
+                id="couponCode"
+                value={values.code}
+                onChange={(e) =>
+                  updateValue("code", e.target.value.toUpperCase())
+                }
+                placeholder="예: WELCOME10"
+                maxLength={30}
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="couponName">쿠폰 이름 *</Label>
+              <Input
+                id="couponName"
+                value={values.name}
+                onChange={(e) => updateValue("name", e.target.value)}
+                placeholder="예: 신규 가입 10% 할인"
+                maxLength={50}
+                disabled={isSaving}
+                required
+              />
+            </div>
+          </div>
+
+          {/* 할인 방식 */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>할인 방식 *</Label>
+              <Select
+                value={values.discount_type}
+                onValueChange={(value) =>
+                  updateValue("discount_type", value as CouponDiscountType)
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUPON_DISCOUNT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discountValue">
+                {values.discount_type === "percentage"
+                  ? "할인율 (%) *"
+                  : "할인 금액 (원) *"}
+              </Label>
+              <Input
+                id="discountValue"
+                type="number"
+                min={1}
+                max={values.discount_type === "percentage" ? 100 : undefined}
+                value={values.discount_value}
+                onChange={(e) => updateValue("discount_value", e.target.value)}
+                disabled={isSaving}
+                required
+              />
+            </div>
+            {values.discount_type === "percentage" && (
+              <div className="space-y-2">
+                <Label htmlFor="maxDiscountAmount">최대 할인 금액 (원)</Label>
+                <Input
+                  id="maxDiscountAmount"
+                  type="number"
+                  min={1}
+                  value={values.max_discount_amount}
+                  onChange={(e) =>
+                    updateValue("max_discount_amount", e.target.value)
+                  }
+                  placeholder="제한 없음"
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* 사용 조건 */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="minOrderAmount">최소 주문 금액 (원)</Label>
+              <Input
+                id="minOrderAmount"
+                type="number"
+                min={0}
+                value={values.min_order_amount}
+                onChange={(e) =>
+                  updateValue("min_order_amount", e.target.value)
+                }
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="usageLimit">전체 사용 횟수</Label>
+              <Input
+                id="usageLimit"
+                type="number"
+                min={1}
+                value={values.usage_limit}
+                onChange={(e) => updateValue("usage_limit", e.target.value)}
+                placeholder="제한 없음"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="perUserLimit">1인당 사용 횟수</Label>
+              <Input
+                id="perUserLimit"
+                type="number"
+                min={1}
+                value={values.per_user_limit}
+                onChange={(e) => updateValue("per_user_limit", e.target.value)}
+                placeholder="제한 없음"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {/* 사용 기간 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">시작일</Label>
+              <Input
+                id="startsAt"
+                type="datetime-local"
+                value={values.starts_at}
+                onChange={(e) => updateValue("starts_at", e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expiresAt">만료일</Label>
+              <Input
+                id="expiresAt"
+                type="datetime-local"
+                value={values.expires_at}
+                onChange={(e) => updateValue("expires_at", e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {/* 적용 범위 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>적용 범위 *</Label>
+              <Select
+                value={values.scope}
+                onValueChange={(value) =>
+                  updateValue("scope", value as CouponScope)
+                }
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUPON_SCOPES.map((scope) => (
+                    <SelectItem key={scope.value} value={scope.value}>
+                      {scope.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {values.scope === "category" && (
+              <div className="space-y-2">
+                <Label>카테고리 *</Label>
+                <CategorySelect
+                  categories={categories}
+                  value={values.scope_category}
+                  onValueChange={(value) =>
+                    updateValue("scope_category", value)
+                  }
+                  disabled={isSaving}
+                />
+                <p className="text-xs text-gray-500">
+                  하위 카테고리 상품에도 적용됩니다.
+                </p>
+              </div>
+            )}
+            {values.scope === "product" && (
+              <div className="space-y-2">
+                <Label htmlFor="scopeProductIds">상품 ID *</Label>
+                <Input
+                  id="scopeProductIds"
+                  value={values.scope_product_ids}
+                  onChange={(e) =>
+                    updateValue("scope_product_ids", e.target.value)
+                  }
+                  placeholder="예: 12, 15, 21"
+                  disabled={isSaving}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="couponActive"
+              checked={values.is_active}
+              onCheckedChange={(checked) => updateValue("is_active", checked)}
+              disabled={isSaving}
+            />
+            <Label htmlFor="couponActive">바로 사용 가능</Label>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            취소
+          </Button>
+          <Button type="submit" form="couponForm" disabled={isSaving}>
+            {isSaving ? "저장 중..." : coupon ? "수정" : "만들기"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function CouponManagement() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Coupon | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const { categories } = useCategories(true);
+
+  console.log("🎟️ 관리자 쿠폰 관리 렌더링");
+
+  // 쿠폰 목록 조회
+  const fetchCoupons = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const result = await getCouponsForAdmin();
+
+      if (result.success) {
+        setCoupons(result.coupons);
+      } else {
+        setError(
+          "error" in result
+            ? result.error
+            : "쿠폰 목록을 불러오는데 실패했습니다.",
+        );
+        setCoupons([]);
+      }
+    } catch (error) {
+      console.error("쿠폰 목록 조회 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "쿠폰 목록을 조회하는 중 오류가 발생했습니다.",
+      );
+      setCoupons([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  // 쿠폰 생성/수정 다이얼로그 열기
+  const openForm = (coupon: Coupon | null) => {
+    setEditingCoupon(coupon);
+    setIsFormOpen(true);
+  };
+
+  // 쿠폰 저장 (생성 또는 수정)
+  const handleSave = async (values: CouponFormValues) => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+
+      const input = toCouponInput(values);
+      if (editingCoupon) {
+        await updateCoupon(editingCoupon.id, input);
+      } else {
+        await createCoupon(input);
+      }
+
+      setIsFormOpen(false);
+      setEditingCoupon(null);
+      await fetchCoupons();
+    } catch (error) {
+      console.error("쿠폰 저장 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "쿠폰 저장 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 쿠폰 사용 중지/재개
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      setIsProcessing(true);
+      setError(null);
+      await setCouponActive(coupon.id, !coupon.is_active);
+      await fetchCoupons();
+    } catch (error) {
+      console.error("쿠폰 상태 변경 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "쿠폰 상태 변경 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 쿠폰 삭제
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      setIsProcessing(true);
+      setError(null);
+      await deleteCoupon(deleteTarget.id);
+      await fetchCoupons();
+    } catch (error) {
+      console.error("쿠폰 삭제 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "쿠폰 삭제 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setDeleteTarget(null);
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-2" />새 쿠폰
+        </Button>
+      </div>
+
+      {/* 에러 메시지 */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-red-700">
+              <AlertCircle className="h-5 w-5" />
+              <span>{error}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 쿠폰 테이블 */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : coupons.length === 0 ? (
+        <div className="text-center py-12">
+          <Ticket className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">쿠폰이 없습니다</h2>
+          <p className="text-gray-600">새 쿠폰을 만들어 할인을 제공해보세요.</p>
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>쿠폰 목록 ({coupons.length}개)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>쿠폰</TableHead>
+                    <TableHead>할인</TableHead>
+                    <TableHead>적용 범위</TableHead>
+                    <TableHead>최소 주문</TableHead>
+                    <TableHead>사용 기간</TableHead>
+                    <TableHead>사용 횟수</TableHead>
+                    <TableHead>상태</TableHead>
+                    <TableHead>관리</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coupons.map((coupon) => (
+                    <TableRow key={coupon.id}>
+                      <TableCell>
+                        <p className="font-mono font-medium">{coupon.code}</p>
+                        <p className="text-sm text-gray-500">{coupon.name}</p>
+                      </TableCell>
+                      <TableCell>{getCouponDiscountLabel(coupon)}</TableCell>
+                      <TableCell>
+                        {getCouponScopeLabel(coupon, categories)}
+                      </TableCell>
+                      <TableCell>
+                        {coupon.min_order_amount > 0
+                          ? `${formatPrice(coupon.min_order_amount)}원`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatCouponPeriod(coupon)}
+                      </TableCell>
+                      <TableCell>
+                        {coupon.usage_limit
+                          ? `${coupon.redemption_count} / ${coupon.usage_limit}`
+                          : `${coupon.redemption_count}`}
+                      </TableCell>
+                      <TableCell>
+                        <CouponStatusBadge coupon={coupon} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            checked={coupon.is_active}
+                            onCheckedChange={() => handleToggleActive(coupon)}
+                            disabled={isProcessing}
+                            aria-label={`${coupon.code} 사용 여부`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openForm(coupon)}
+                            disabled={isProcessing}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteTarget(coupon)}
+                            disabled={isProcessing}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 쿠폰 생성/수정 다이얼로그 */}
+      <CouponFormDialog
+        open={isFormOpen}
+        coupon={editingCoupon}
+        categories={categories}
+        isSaving={isProcessing}
+        onSubmit={handleSave}
+        onClose={() => {
+          setIsFormOpen(false);
+          setEditingCoupon(null);
+        }}
+      />
+
+      {/* 쿠폰 삭제 확인 다이얼로그 */}
+      <AlertDialog
+        open={deleteTarget !== null}
+        onOpenChange={() => setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>쿠폰을 삭제하시겠습니까?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`${deleteTarget?.code ?? ""} 쿠폰이 영구적으로 삭제됩니다. 이미 주문에 사용된 쿠폰은 삭제할 수 없으니 사용 중지로 변경해주세요.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>취소</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isProcessing}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isProcessing ? "삭제 중..." : "삭제"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+/**
+ * @file point-management.tsx
+ * @description 관리자 적립금 관리 컴포넌트 (사용자 관리 페이지)
+ *
+ * 주요 기능:
+ * 1. 적립금 정책 변경 (적립률, 유효기간, 주문당 최대 사용 비율)
+ * 2. 사용자별 적립금 지급/차감 (사유 필수)
+ * 3. 사용자별 최근 적립금 내역 표시
+ *
+ * @dependencies
+ * - @/actions/points: 적립금 정책 변경, 조정, 내역 조회 서버 액션
+ * - @/lib/points: 거래 유형 라벨과 정책 타입
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import {
+  adjustPoints,
+  updatePointSettings,
+  getUserPointTransactions,
+  type PointTransaction,
+} from "@/actions/points";
+import { getPointTransactionTypeLabel, type PointSettings } from "@/lib/points";
+import { formatPrice } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, Coins, History } from "lucide-react";
+
+// 정책 폼 입력값 (입력 필드는 모두 문자열로 관리)
+interface SettingsFormValues {
+  earn_rate: string;
+  expiry_months: string;
+  max_redeem_rate: string;
+}
+
+/**
+ * 적립금 정책 카드
+ */
+export function PointSettingsCard({
+  initialSettings,
+}: {
+  initialSettings: PointSettings;
+}) {
+  const router = useRouter();
+  const [values, setValues] = useState<SettingsFormValues>({
+    earn_rate: String(initialSettings.earn_rate),
+    expiry_months: String(initialSettings.expiry_months),
+    max_redeem_rate: String(initialSettings.max_redeem_rate),
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const updateValue = (key: keyof SettingsFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    console.log("💰 적립금 정책 저장:", values);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await updatePointSettings({
+        earn_rate: Number(values.earn_rate),
+        expiry_months: Number(values.expiry_months),
+        max_redeem_rate: Number(values.max_redeem_rate),
+      });
+      setSaved(true);
+      router.refresh();
+    } catch (error) {
+      console.error("적립금 정책 저장 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "적립금 정책 저장 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          적립금 정책
+        </CardTitle>
+        <CardDescription>
+          적립률은 이후 배송 완료되는 주문부터, 유효기간은 이후 지급되는
+          적립금부터 적용됩니다.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="earnRate">적립률 (%)</Label>
+            <Input
+              id="earnRate"
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={values.earn_rate}
+              onChange={(e) => updateValue("earn_rate", e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expiryMonths">유효기간 (개월)</Label>
+            <Input
+              id="expiryMonths"
+              type="number"
+              min={1}
+              max={120}
+              value={values.expiry_months}
+              onChange={(e) => updateValue("expiry_months", e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxRedeemRate">주문당 최대 사용 비율 (%)</Label>
+            <Input
+              id="maxRedeemRate"
+              type="number"
+              min={0}
+              max={100}
+              value={values.max_redeem_rate}
+              onChange={(e) => updateValue("max_redeem_rate", e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && (
+            <span className="text-sm text-green-600">저장되었습니다</span>
+          )}
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "저장 중..." : "정책 저장"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 사용자 적립금 조정 버튼 (클릭하면 지급/차감 다이얼로그 표시)
+ */
+export function PointAdjustmentButton({
+  userId,
+  userName,
+  balance,
+}: {
+  userId: string;
+  userName: string | null;
+  balance: number;
+}) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [history, setHistory] = useState<PointTransaction[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 다이얼로그가 열릴 때 입력값을 비우고 최근 내역 조회
+  useEffect(() => {
+    if (!open) return;
+
+    setAmount("");
+    setReason("");
+    setError(null);
+
+    let cancelled = false;
+    setIsHistoryLoading(true);
+    getUserPointTransactions(userId, 10)
+      .then((transactions) => {
+        if (!cancelled) setHistory(transactions);
+      })
+      .catch((error) => {
+        console.error("적립금 내역 조회 실패:", error);
+        if (!cancelled) setHistory([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId]);
+
+  const handleAdjust = async () => {
+    console.log("💰 적립금 조정:", userId, { amount, reason });
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await adjustPoints({ userId, amount: Number(amount), reason });
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error("적립금 조정 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "적립금 조정 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        조정
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(nextOpen) => !isSaving && setOpen(nextOpen)}
+      >
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>적립금 조정 - {userName || "이름 없음"}</DialogTitle>
+            <DialogDescription>
+              {`현재 잔액 ${formatPrice(balance)}원 · 양수는 지급, 음수는 차감입니다.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pointAmount">금액 (원) *</Label>
+              <Input
+                id="pointAmount"
+                type="number"
+                step={1}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="예: 5000 또는 -3000"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pointReason">사유 *</Label>
+              <Textarea
+                id="pointReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="고객에게 내역으로 표시됩니다. (예: 배송 지연 보상)"
+                maxLength={200}
+                rows={2}
+                disabled={isSaving}
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* 최근 적립금 내역 */}
+            <div>
+              <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                최근 내역
+              </h3>
+              {isHistoryLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 3 }).map((_, index) => (
+                    <Skeleton key={index} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-gray-500">적립금 내역이 없습니다.</p>
+              ) : (
+                <div className="border rounded-lg divide-y text-sm">
+                  {history.map((transaction) => (
+                    <div
+                      key={transaction.id}
+                      className="flex justify-between gap-4 px-3 py-2"
+                    >
+                      <span className="min-w-0 truncate">
+                        {`${getPointTransactionTypeLabel(transaction.type)}${transaction.reason ? ` · ${transaction.reason}` : ""}`}
+                      </span>
+                      <span
+                        className={`shrink-0 ${transaction.amount > 0 ? "text-blue-600" : "text-red-600"}`}
+                      >
+                        {`${transaction.amount > 0 ? "+" : ""}${formatPrice(transaction.amount)}원`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isSaving}
+            >
+              취소
+            </Button>
+            <Button
+              onClick={handleAdjust}
+              disabled={isSaving || !amount || !reason.trim()}
+            >
+              {isSaving ? "처리 중..." : "조정하기"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
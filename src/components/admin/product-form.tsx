@@ -0,0 +1,889 @@
+/**
+ * @file product-form.tsx
+ * @description 관리자 상품 등록/수정 폼
+ *
+ * 새 상품 등록 페이지와 상품 수정 페이지가 함께 사용합니다. (product가 있으면 수정 모드)
+ *
+ * 주요 기능:
+ * 1. 상품 정보 입력 및 실시간 유효성 검사
+ * 2. 이미지 여러 장 업로드, 순서 변경, 대표 이미지 지정 (스토리지에 올린 뒤 저장)
+ * 3. 옵션(사이즈, 색상 등) 입력 (옵션 상품의 재고는 옵션 재고 합계)
+ * 4. 공개 설정: 상태(작성 중 / 공개 / 보관)와 공개 기간 (예약 공개)
+ * 5. 수정 모드: 저장된 값으로 채우기, 저장하지 않은 변경 사항 이탈 경고
+ * 6. 수정 모드: 불러온 뒤 다른 관리자가 저장한 경우 충돌 안내 (최신 내용 불러오기 / 덮어쓰기)
+ *
+ * @dependencies
+ * - @/actions/products: 상품 생성/수정 서버 액션
+ * - @/actions/variants: 상품 옵션 저장
+ * - @/actions/product-images: 상품 이미지 저장
+ * - @/components/admin/product-variant-editor: 옵션 편집기
+ * - @/components/admin/product-image-editor: 이미지 편집기
+ * - @/components/admin/category-select: 카테고리 선택 (하위 카테고리 포함)
+ * - @/hooks/use-unsaved-changes-warning: 페이지 이탈 경고
+ * - @/lib/shipping: 상품 배송 유형
+ * - @/lib/product-status: 상품 공개 상태
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { createProduct, updateProduct, type Product } from "@/actions/products";
+import { saveProductVariants } from "@/actions/variants";
+import { saveProductImages } from "@/actions/product-images";
+import {
+  ProductVariantEditor,
+  createVariantEditorValue,
+  getVariantEditorStock,
+  toProductVariantsInput,
+  type VariantEditorValue,
+} from "@/components/admin/product-variant-editor";
+import {
+  ProductImageEditor,
+  createImageEditorItems,
+  createImageEditorItemsFromFiles,
+  uploadImageEditorItems,
+  type ImageEditorItem,
+} from "@/components/admin/product-image-editor";
+import { CategorySelect } from "@/components/admin/category-select";
+import { useCategories } from "@/hooks/use-categories";
+import { useUnsavedChangesWarning } from "@/hooks/use-unsaved-changes-warning";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SHIPPING_CLASSES, SHIPPING_POLICY } from "@/lib/shipping";
+import { MAX_PRODUCT_IMAGES, type ProductImage } from "@/lib/product-images";
+import type { ProductVariant } from "@/lib/variants";
+import {
+  PRODUCT_STATUSES,
+  PRODUCT_VISIBILITY_LABELS,
+  getProductVisibility,
+} from "@/lib/product-status";
+import {
+  formatPrice,
+  fromDateTimeLocalValue,
+  toDateTimeLocalValue,
+} from "@/lib/utils";
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  ImagePlus,
+  RefreshCw,
+  Save,
+  Truck,
+} from "lucide-react";
+
+// 폼 에러 타입
+interface FormErrors {
+  name?: string;
+  description?: string;
+  price?: string;
+  image_url?: string;
+  stock_quantity?: string;
+  category?: string;
+  unpublish_at?: string;
+  images?: string;
+  general?: string;
+}
+
+// 수정할 상품 (상품 정보, 판매 중지 옵션을 포함한 옵션, 이미지)
+export interface ProductFormInitialData {
+  product: Product;
+  variants: ProductVariant[];
+  images: ProductImage[];
+}
+
+// URL 유효성 검사
+function isValidUrl(string: string) {
+  try {
+    new URL(string);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function ProductForm({
+  initialData,
+}: {
+  initialData?: ProductFormInitialData;
+}) {
+  const router = useRouter();
+  const product = initialData?.product ?? null;
+  const isEdit = product !== null;
+  const formRef = useRef<HTMLFormElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [success, setSuccess] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
+  // 마지막으로 불러오거나 저장한 상품 수정 시각 (수정 충돌 확인)
+  const [expectedUpdatedAt, setExpectedUpdatedAt] = useState(
+    product?.updated_at ?? "",
+  );
+  const [selectedCategory, setSelectedCategory] = useState(
+    product?.category ?? "",
+  );
+  const { categories } = useCategories(true);
+  const [selectedShippingClass, setSelectedShippingClass] = useState(
+    product?.shipping_class ?? "standard",
+  );
+  const [selectedStatus, setSelectedStatus] = useState<string>(
+    product?.status ?? "draft",
+  );
+  // 공개 기간 (datetime-local 형식, 제출할 때 ISO 문자열로 변환)
+  const [publishAt, setPublishAt] = useState(() =>
+    toDateTimeLocalValue(product?.publish_at ?? null),
+  );
+  const [unpublishAt, setUnpublishAt] = useState(() =>
+    toDateTimeLocalValue(product?.unpublish_at ?? null),
+  );
+  const [variantValue, setVariantValue] = useState<VariantEditorValue>(() =>
+    createVariantEditorValue(
+      product?.option_names ?? [],
+      initialData?.variants ?? [],
+    ),
+  );
+  const [variantsChanged, setVariantsChanged] = useState(false);
+  const [imageItems, setImageItems] = useState<ImageEditorItem[]>(() =>
+    createImageEditorItems(initialData?.images ?? []),
+  );
+  const [imagesChanged, setImagesChanged] = useState(false);
+  // 새 옵션의 기본 SKU 앞부분 (등록 화면은 상품 ID가 아직 없으므로 화면마다 새로 만듦)
+  const [skuPrefix] = useState(() =>
+    product ? `P${product.id}` : `N${Date.now().toString(36).toUpperCase()}`,
+  );
+  const hasVariants = variantValue.variants.length > 0;
+  // 지금 입력한 공개 설정으로 저장했을 때의 공개 상태
+  const visibilityPreview = getProductVisibility({
+    status: selectedStatus as Product["status"],
+    publish_at: fromDateTimeLocalValue(publishAt) || null,
+    unpublish_at: fromDateTimeLocalValue(unpublishAt) || null,
+  });
+  const isDisabled = isSubmitting || success;
+
+  useUnsavedChangesWarning(isEdit && isDirty && !success);
+
+  // 상품 저장 (등록 또는 수정)
+  const submitProduct = async (formData: FormData) => {
+    try {
+      setIsSubmitting(true);
+      setErrors({});
+      setSuccess(false);
+
+      if (!product) {
+        console.log("📦 상품 등록 시작");
+
+        // 이미지를 스토리지에 먼저 올리고 이미지 목록을 함께 전달
+        if (imageItems.length > 0) {
+          const imagesInput = await uploadImageEditorItems(imageItems);
+          formData.set("images", JSON.stringify(imagesInput));
+        }
+
+        const result = await createProduct(formData);
+
+        if (result.success) {
+          setSuccess(true);
+          console.log("✅ 상품 등록 성공:", result.productId);
+
+          // 2초 후 상품 관리 페이지로 이동
+          setTimeout(() => {
+            router.push("/admin/products");
+          }, 2000);
+        } else {
+          setErrors({ general: result.message });
+          console.error("❌ 상품 등록 실패:", result.message);
+        }
+        return;
+      }
+
+      console.group("✏️ 상품 수정 저장");
+
+      // 재고를 바꾸지 않았으면 보내지 않음 (수정하는 동안 들어온 주문의 재고 차감 보존)
+      if (
+        hasVariants ||
+        Number(formData.get("stock_quantity")) === product.stock_quantity
+      ) {
+        formData.delete("stock_quantity");
+      }
+
+      const result = await updateProduct(product.id, formData);
+
+      if (!result.success) {
+        console.error("❌ 상품 수정 실패:", result.message);
+        console.groupEnd();
+        setHasConflict(!!result.conflict);
+        setErrors({ general: result.message });
+        return;
+      }
+
+      setHasConflict(false);
+      if (result.updatedAt) {
+        setExpectedUpdatedAt(result.updatedAt);
+      }
+
+      // 옵션과 이미지는 바꾼 경우에만 저장 (목록 전체를 바꾸는 저장이므로)
+      if (variantsChanged) {
+        const variantsResult = await saveProductVariants(
+          product.id,
+          toProductVariantsInput(variantValue),
+        );
+        if (!variantsResult.success) {
+          console.groupEnd();
+          setErrors({
+            general: `상품 정보는 저장되었지만 옵션 저장에 실패했습니다: ${variantsResult.message}`,
+          });
+          return;
+        }
+        setVariantsChanged(false);
+      }
+
+      if (imagesChanged) {
+        const imagesInput = await uploadImageEditorItems(imageItems);
+        const imagesResult = await saveProductImages(product.id, imagesInput);
+        if (!imagesResult.success) {
+          console.groupEnd();
+          setErrors({
+            general: `상품 정보는 저장되었지만 이미지 저장에 실패했습니다: ${imagesResult.message}`,
+          });
+          return;
+        }
+        setImagesChanged(false);
+      }
+
+      console.log("✅ 상품 수정 성공");
+      console.groupEnd();
+
+      setIsDirty(false);
+      setSuccess(true);
+
+      // 2초 후 상품 관리 페이지로 이동
+      setTimeout(() => {
+        router.push("/admin/products");
+      }, 2000);
+    } catch (error) {
+      console.error("상품 저장 오류:", error);
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "상품 저장 중 오류가 발생했습니다.";
+      setErrors({ general: errorMessage });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 폼 제출 (폼 액션은 제출 후 입력값을 초기화하므로 직접 처리)
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submitProduct(new FormData(event.currentTarget));
+  };
+
+  // 충돌 무시하고 지금 입력한 내용으로 덮어쓰기
+  const handleOverwrite = () => {
+    if (!formRef.current) return;
+    const formData = new FormData(formRef.current);
+    formData.delete("expected_updated_at");
+    submitProduct(formData);
+  };
+
+  // 입력한 내용을 버리고 최신 상품 정보 다시 불러오기 (수정 페이지가 새 수정 시각으로 폼을 다시 만듦)
+  const handleReload = () => {
+    setIsDirty(false);
+    setHasConflict(false);
+    setErrors({});
+    router.refresh();
+  };
+
+  // 개별 필드 유효성 검사
+  const validateField = (name: string, value: string) => {
+    const newErrors = { ...errors };
+
+    switch (name) {
+      case "name":
+        if (!value.trim()) {
+          newErrors.name = "상품명은 필수입니다.";
+        } else if (value.length > 100) {
+          newErrors.name = "상품명은 100자 이내로 입력해주세요.";
+        } else {
+          delete newErrors.name;
+        }
+        break;
+
+      case "price":
+        const price = parseFloat(value);
+        if (!value || isNaN(price)) {
+          newErrors.price = "올바른 가격을 입력해주세요.";
+        } else if (price < 0) {
+          newErrors.price = "가격은 0 이상이어야 합니다.";
+        } else if (price > 10000000) {
+          newErrors.price = "가격은 1,000만원 이하로 입력해주세요.";
+        } else {
+          delete newErrors.price;
+        }
+        break;
+
+      case "stock_quantity":
+        const stock = parseInt(value);
+        if (!value || isNaN(stock)) {
+          newErrors.stock_quantity = "올바른 재고 수량을 입력해주세요.";
+        } else if (stock < 0) {
+          newErrors.stock_quantity = "재고 수량은 0 이상이어야 합니다.";
+        } else if (stock > 99999) {
+          newErrors.stock_quantity =
+            "재고 수량은 99,999개 이하로 입력해주세요.";
+        } else {
+          delete newErrors.stock_quantity;
+        }
+        break;
+
+      case "image_url":
+        if (value && !isValidUrl(value)) {
+          newErrors.image_url = "올바른 URL 형식을 입력해주세요.";
+        } else {
+          delete newErrors.image_url;
+        }
+        break;
+
+      case "description":
+        if (value.length > 1000) {
+          newErrors.description = "상품 설명은 1,000자 이내로 입력해주세요.";
+        } else {
+          delete newErrors.description;
+        }
+        break;
+
+      case "category":
+        if (!value) {
+          newErrors.category = "카테고리를 선택해주세요.";
+        } else {
+          delete newErrors.category;
+        }
+        break;
+    }
+
+    setErrors(newErrors);
+  };
+
+  // 공개 기간 검사 (종료 시각은 시작 시각 이후)
+  const validatePublishPeriod = (start: string, end: string) => {
+    const newErrors = { ...errors };
+
+    if (start && end && new Date(start) >= new Date(end)) {
+      newErrors.unpublish_at =
+        "공개 종료 시각은 공개 시작 시각 이후로 입력해주세요.";
+    } else {
+      delete newErrors.unpublish_at;
+    }
+
+    setErrors(newErrors);
+  };
+
+  // 옵션 변경 (옵션 상품은 재고를 직접 입력하지 않으므로 재고 입력 오류 제거)
+  const handleVariantChange = (value: VariantEditorValue) => {
+    setVariantValue(value);
+    setVariantsChanged(true);
+    setIsDirty(true);
+    if (value.variants.length > 0 && errors.stock_quantity) {
+      const newErrors = { ...errors };
+      delete newErrors.stock_quantity;
+      setErrors(newErrors);
+    }
+  };
+
+  // 이미지 목록 변경 (추가, 삭제, 순서 변경, 대표 이미지 지정)
+  const handleImagesChange = (items: ImageEditorItem[]) => {
+    setImageItems(items);
+    setImagesChanged(true);
+    setIsDirty(true);
+  };
+
+  // 선택한 이미지 파일 추가
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      const { items, error } = createImageEditorItemsFromFiles(
+        files,
+        imageItems.length,
+      );
+      if (items.length > 0) {
+        handleImagesChange([...imageItems, ...items]);
+      }
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        if (error) {
+          newErrors.images = error;
+        } else {
+          delete newErrors.images;
+        }
+        return newErrors;
+      });
+    }
+    // 같은 파일을 다시 고를 수 있도록 초기화
+    e.target.value = "";
+  };
+
+  return (
+    <>
+      {/* 성공 메시지 */}
+      {success && (
+        <Card className="mb-6 border-green-200 bg-green-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="h-5 w-5" />
+              <span>
+                {isEdit
+                  ? "상품이 성공적으로 수정되었습니다! 잠시 후 상품 목록으로 이동합니다."
+                  : "상품이 성공적으로 등록되었습니다! 잠시 후 상품 목록으로 이동합니다."}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 수정 충돌 안내 */}
+      {hasConflict && (
+        <Card className="mb-6 border-orange-200 bg-orange-50">
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-start gap-2 text-orange-800">
+              <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+              <span>
+                이 상품을 불러온 뒤 다른 관리자가 상품 정보를 수정했습니다. 최신
+                내용을 불러오면 지금 입력한 내용은 사라지고, 덮어쓰면 다른
+                관리자가 바꾼 내용이 지금 입력한 내용으로 바뀝니다.
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleReload}
+                disabled={isSubmitting}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                최신 내용 불러오기
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleOverwrite}
+                disabled={isSubmitting}
+              >
+                내 변경 사항으로 덮어쓰기
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 일반 에러 메시지 */}
+      {errors.general && !hasConflict && (
+        <Card className="mb-6 border-red-200 bg-red-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-red-700">
+              <AlertCircle className="h-5 w-5" />
+              <span>{errors.general}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>상품 정보</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            ref={formRef}
+            onSubmit={handleSubmit}
+            onChange={() => setIsDirty(true)}
+            className="space-y-6"
+          >
+            <input
+              type="hidden"
+              name="expected_updated_at"
+              value={expectedUpdatedAt}
+            />
+
+            {/* 상품명 */}
+            <div className="space-y-2">
+              <Label htmlFor="name">상품명 *</Label>
+              <Input
+                id="name"
+                name="name"
+                placeholder="상품명을 입력해주세요"
+                defaultValue={product?.name}
+                required
+                disabled={isDisabled}
+                onChange={(e) => validateField("name", e.target.value)}
+              />
+              {errors.name && (
+                <p className="text-sm text-red-600">{errors.name}</p>
+              )}
+            </div>
+
+            {/* 상품 설명 */}
+            <div className="space-y-2">
+              <Label htmlFor="description">상품 설명</Label>
+              <Textarea
+                id="description"
+                name="description"
+                placeholder="상품에 대한 상세한 설명을 입력해주세요"
+                rows={4}
+                defaultValue={product?.description ?? ""}
+                disabled={isDisabled}
+                onChange={(e) => validateField("description", e.target.value)}
+              />
+              {errors.description && (
+                <p className="text-sm text-red-600">{errors.description}</p>
+              )}
+            </div>
+
+            {/* 가격 */}
+            <div className="space-y-2">
+              <Label htmlFor="price">가격 (원) *</Label>
+              <Input
+                id="price"
+                name="price"
+                type="number"
+                min="0"
+                max="10000000"
+                step="1"
+                placeholder="예: 25000"
+                defaultValue={product?.price}
+                required
+                disabled={isDisabled}
+                onChange={(e) => validateField("price", e.target.value)}
+              />
+              {errors.price && (
+                <p className="text-sm text-red-600">{errors.price}</p>
+              )}
+              {isEdit && (
+                <p className="text-sm text-gray-500">
+                  세일 가격과 기간은 상품 목록의 가격 설정에서 바꿀 수 있습니다.
+                </p>
+              )}
+            </div>
+
+            {/* 재고 수량 */}
+            <div className="space-y-2">
+              <Label htmlFor="stock_quantity">재고 수량 *</Label>
+              {hasVariants ? (
+                <Input
+                  key="variant-stock"
+                  id="stock_quantity"
+                  name="stock_quantity"
+                  type="number"
+                  value={getVariantEditorStock(variantValue)}
+                  readOnly
+                  disabled={isDisabled}
+                />
+              ) : (
+                <Input
+                  id="stock_quantity"
+                  name="stock_quantity"
+                  type="number"
+                  min="0"
+                  max="99999"
+                  step="1"
+                  placeholder="예: 100"
+                  defaultValue={product?.stock_quantity}
+                  required
+                  disabled={isDisabled}
+                  onChange={(e) =>
+                    validateField("stock_quantity", e.target.value)
+                  }
+                />
+              )}
+              {hasVariants && (
+                <p className="text-sm text-gray-500">
+                  옵션 상품의 재고는 판매 중인 옵션 재고의 합계입니다.
+                </p>
+              )}
+              {errors.stock_quantity && (
+                <p className="text-sm text-red-600">{errors.stock_quantity}</p>
+              )}
+            </div>
+
+            {/* 이미지 */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>상품 이미지</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={
+                    isDisabled || imageItems.length >= MAX_PRODUCT_IMAGES
+                  }
+                >
+                  <ImagePlus className="h-4 w-4 mr-2" />
+                  이미지 추가
+                </Button>
+              </div>
+              <input
+                type="file"
+                ref={fileInputRef}
+                className="hidden"
+                accept=".jpg,.jpeg,.png,.gif,.webp"
+                multiple
+                onChange={handleFileInputChange}
+              />
+              <ProductImageEditor
+                items={imageItems}
+                onChange={handleImagesChange}
+                disabled={isDisabled}
+              />
+              {errors.images && (
+                <p className="text-sm text-red-600">{errors.images}</p>
+              )}
+              <p className="text-sm text-gray-500">
+                {`JPG, PNG, GIF, WebP 형식, 최대 5MB, ${MAX_PRODUCT_IMAGES}장까지 올릴 수 있습니다. 이미지는 저장할 때 업로드됩니다.`}
+              </p>
+            </div>
+
+            {/* 이미지 URL (이미지를 올리지 않을 때) */}
+            {imageItems.length === 0 ? (
+              <div className="space-y-2">
+                <Label htmlFor="image_url">이미지 URL</Label>
+                <Input
+                  id="image_url"
+                  name="image_url"
+                  type="url"
+                  placeholder="예: https://example.com/image.jpg"
+                  defaultValue={product?.image_url ?? ""}
+                  disabled={isDisabled}
+                  onChange={(e) => validateField("image_url", e.target.value)}
+                />
+                {errors.image_url && (
+                  <p className="text-sm text-red-600">{errors.image_url}</p>
+                )}
+                <p className="text-sm text-gray-500">
+                  이미지를 올리지 않을 때 사용할 이미지 URL입니다. 비워두면 기본
+                  이미지가 사용됩니다.
+                </p>
+              </div>
+            ) : (
+              <input type="hidden" name="image_url" value="" />
+            )}
+
+            {/* 카테고리 */}
+            <div className="space-y-2">
+              <Label htmlFor="category">카테고리 *</Label>
+              <CategorySelect
+                categories={categories}
+                value={selectedCategory}
+                onValueChange={(value) => {
+                  setSelectedCategory(value);
+                  setIsDirty(true);
+                  validateField("category", value);
+                }}
+                disabled={isDisabled}
+              />
+              <input type="hidden" name="category" value={selectedCategory} />
+              {errors.category && (
+                <p className="text-sm text-red-600">{errors.category}</p>
+              )}
+            </div>
+
+            {/* 배송 유형 */}
+            <div className="space-y-2">
+              <Label htmlFor="shipping_class">배송 유형 *</Label>
+              <Select
+                value={selectedShippingClass}
+                onValueChange={(value) => {
+                  setSelectedShippingClass(value);
+                  setIsDirty(true);
+                }}
+                disabled={isDisabled}
+              >
+                <SelectTrigger id="shipping_class">
+                  <SelectValue placeholder="배송 유형을 선택해주세요" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHIPPING_CLASSES.map((shippingClass) => (
+                    <SelectItem
+                      key={shippingClass.value}
+                      value={shippingClass.value}
+                    >
+                      <div className="flex items-center">
+                        <Truck className="h-4 w-4 mr-2" />
+                        {shippingClass.label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input
+                type="hidden"
+                name="shipping_class"
+                value={selectedShippingClass}
+              />
+              <p className="text-sm text-gray-500">
+                {`대형 상품은 개당 ${formatPrice(SHIPPING_POLICY.bulkyFeePerItem)}원의 추가 배송비가 붙고, 무료배송 상품만 주문하면 기본 배송비가 부과되지 않습니다.`}
+              </p>
+            </div>
+
+            {/* 공개 설정 */}
+            <div className="space-y-2">
+              <Label htmlFor="status">공개 상태 *</Label>
+              <Select
+                value={selectedStatus}
+                onValueChange={(value) => {
+                  setSelectedStatus(value);
+                  setIsDirty(true);
+                }}
+                disabled={isDisabled}
+              >
+                <SelectTrigger id="status">
+                  <SelectValue placeholder="공개 상태를 선택해주세요" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRODUCT_STATUSES.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <input type="hidden" name="status" value={selectedStatus} />
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="publish_at">공개 시작</Label>
+                  <Input
+                    id="publish_at"
+                    type="datetime-local"
+                    value={publishAt}
+                    onChange={(e) => {
+                      setPublishAt(e.target.value);
+                      validatePublishPeriod(e.target.value, unpublishAt);
+                    }}
+                    disabled={isDisabled}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="unpublish_at">공개 종료</Label>
+                  <Input
+                    id="unpublish_at"
+                    type="datetime-local"
+                    value={unpublishAt}
+                    onChange={(e) => {
+                      setUnpublishAt(e.target.value);
+                      validatePublishPeriod(publishAt, e.target.value);
+                    }}
+                    disabled={isDisabled}
+                  />
+                </div>
+              </div>
+              <input
+                type="hidden"
+                name="publish_at"
+                value={fromDateTimeLocalValue(publishAt)}
+              />
+              <input
+                type="hidden"
+                name="unpublish_at"
+                value={fromDateTimeLocalValue(unpublishAt)}
+              />
+              {errors.unpublish_at && (
+                <p className="text-sm text-red-600">{errors.unpublish_at}</p>
+              )}
+              <p className="text-sm text-gray-500">
+                작성 중이거나 보관된 상품은 관리자만 볼 수 있습니다. 공개
+                상태여도 공개 기간 밖에는 고객에게 보이지 않으며, 시작을 비우면
+                바로 공개되고 종료를 비우면 계속 공개됩니다.
+              </p>
+              <p className="text-sm text-gray-500">
+                {`저장하면 "${PRODUCT_VISIBILITY_LABELS[visibilityPreview]}" 상태가 됩니다.`}
+              </p>
+            </div>
+
+            {/* 옵션 */}
+            <div className="space-y-2">
+              <Label>옵션</Label>
+              <p className="text-sm text-gray-500">
+                사이즈, 색상처럼 고객이 고를 옵션이 있으면 옵션 종류를 추가하고
+                조합을 생성해주세요. 추가 금액은 판매가에 더해집니다.
+              </p>
+              {product && product.option_names.length > 0 && (
+                <p className="text-sm text-gray-500">
+                  옵션 종류를 모두 지우고 저장하면 옵션 없는 상품으로 바뀌며,
+                  상품 재고는 0이 되므로 다시 입력해야 합니다.
+                </p>
+              )}
+              <ProductVariantEditor
+                value={variantValue}
+                onChange={handleVariantChange}
+                skuPrefix={skuPrefix}
+                disabled={isDisabled}
+              />
+              {!isEdit && (
+                <input
+                  type="hidden"
+                  name="variants"
+                  value={
+                    hasVariants
+                      ? JSON.stringify(toProductVariantsInput(variantValue))
+                      : ""
+                  }
+                />
+              )}
+            </div>
+
+            {/* 제출 버튼 */}
+            <div className="flex gap-4 pt-4">
+              <Button
+                type="submit"
+                disabled={
+                  isDisabled ||
+                  Object.keys(errors).some(
+                    (key) => key !== "general" && key !== "images",
+                  )
+                }
+                className="flex-1"
+              >
+                {isSubmitting ? (
+                  <div className="flex items-center gap-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
+                    <span>{isEdit ? "저장 중..." : "등록 중..."}</span>
+                  </div>
+                ) : success ? (
+                  <div className="flex items-center gap-2">
+                    <CheckCircle2 className="h-4 w-4" />
+                    <span>{isEdit ? "저장 완료" : "등록 완료"}</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Save className="h-4 w-4" />
+                    <span>{isEdit ? "변경 사항 저장" : "상품 등록"}</span>
+                  </div>
+                )}
+              </Button>
+
+              <Link href="/admin/products">
+                <Button variant="outline" disabled={isSubmitting}>
+                  취소
+                </Button>
+              </Link>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
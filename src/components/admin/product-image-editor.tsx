@@ -0,0 +1,336 @@
+/**
+ * @file product-image-editor.tsx
+ * @description 관리자 상품 이미지 편집기 (상품 등록/수정 폼)
+ *
+ * 주요 기능:
+ * 1. 선택한 이미지 미리보기 (업로드 전 파일과 저장된 이미지 함께 표시, 형식/크기/장수 검사)
+ * 2. 드래그로 표시 순서 변경 (화살표 버튼으로도 이동 가능)
+ * 3. 대표 이미지 지정, 대체 텍스트 입력, 이미지 삭제
+ * 4. 업로드 전 파일을 스토리지에 올리고 이미지 저장 입력값으로 변환
+ *
+ * @dependencies
+ * - @/actions/upload: 파일 업로드 서버 액션
+ * - @/actions/product-images: 이미지 저장 입력값 타입
+ * - @/lib/product-images: 상품 이미지 타입과 최대 이미지 수
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { uploadFile } from "@/actions/upload";
+import type { ProductImagesInput } from "@/actions/product-images";
+import { MAX_PRODUCT_IMAGES, type ProductImage } from "@/lib/product-images";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, GripVertical, Star, X } from "lucide-react";
+
+// 이미지 편집기 항목 (file이 있으면 아직 업로드하지 않은 이미지)
+export interface ImageEditorItem {
+  key: string; // 목록 렌더링 키 (순서를 바꿔도 유지)
+  id?: number; // 저장된 이미지 ID
+  url: string; // 저장된 이미지 URL 또는 미리보기 URL
+  file?: File;
+  alt_text: string;
+  is_primary: boolean;
+}
+
+let nextItemKey = 0;
+
+/**
+ * 선택한 파일로 편집기 항목 만들기 (미리보기 URL은 삭제할 때 해제)
+ */
+export function createImageEditorItem(file: File): ImageEditorItem {
+  nextItemKey += 1;
+  return {
+    key: `file-${nextItemKey}`,
+    url: URL.createObjectURL(file),
+    file,
+    alt_text: "",
+    is_primary: false,
+  };
+}
+
+// 상품 이미지로 올릴 수 있는 파일 형식과 크기
+const ALLOWED_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * 선택한 파일 중 올릴 수 있는 파일로 편집기 항목 만들기 (이미지 형식, 크기, 최대 장수 검사)
+ * @param currentCount - 이미 편집기에 있는 이미지 수
+ * @returns 추가할 항목과 마지막으로 거부된 파일의 사유
+ */
+export function createImageEditorItemsFromFiles(
+  files: FileList,
+  currentCount: number,
+): { items: ImageEditorItem[]; error: string | null } {
+  const items: ImageEditorItem[] = [];
+  let error: string | null = null;
+
+  Array.from(files).forEach((file) => {
+    console.log(
+      "선택된 파일:",
+      file.name,
+      "크기:",
+      file.size,
+      "타입:",
+      file.type,
+    );
+
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      console.log("❌ 허용되지 않은 파일 타입:", file.type);
+      error = `${file.name}: 상품 이미지는 JPG, PNG, GIF, WebP 형식만 지원합니다.`;
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      console.log("❌ 파일 크기 초과:", file.size);
+      error = `${file.name}: 이미지 크기는 5MB 이하여야 합니다.`;
+      return;
+    }
+    if (currentCount + items.length >= MAX_PRODUCT_IMAGES) {
+      error = `상품 이미지는 ${MAX_PRODUCT_IMAGES}장까지 등록할 수 있습니다.`;
+      return;
+    }
+    items.push(createImageEditorItem(file));
+  });
+
+  return { items, error };
+}
+
+/**
+ * 저장된 이미지로 편집기 항목 만들기
+ */
+export function createImageEditorItems(
+  images: ProductImage[],
+): ImageEditorItem[] {
+  return images.map((image) => ({
+    key: `image-${image.id}`,
+    id: image.id,
+    url: image.url,
+    alt_text: image.alt_text ?? "",
+    is_primary: image.is_primary,
+  }));
+}
+
+/**
+ * 업로드 전 파일의 미리보기 URL 해제
+ */
+export function revokeImageEditorItems(items: ImageEditorItem[]) {
+  items.forEach((item) => {
+    if (item.file) URL.revokeObjectURL(item.url);
+  });
+}
+
+/**
+ * 업로드 전 파일을 스토리지에 올리고 이미지 저장 입력값으로 변환 (표시 순서 유지)
+ */
+export async function uploadImageEditorItems(
+  items: ImageEditorItem[],
+): Promise<ProductImagesInput> {
+  const input: ProductImagesInput = [];
+
+  for (const item of items) {
+    let url = item.url;
+
+    if (item.file) {
+      console.log("📤 상품 이미지 업로드:", item.file.name);
+      const formData = new FormData();
+      formData.append("file", item.file);
+
+      const result = await uploadFile(formData);
+      if (!result.success || !result.publicUrl) {
+        throw new Error(
+          `${item.file.name}: ${result.error || "이미지 업로드에 실패했습니다."}`,
+        );
+      }
+      url = result.publicUrl;
+    }
+
+    input.push({
+      ...(item.id !== undefined && { id: item.id }),
+      url,
+      alt_text: item.alt_text,
+      is_primary: item.is_primary,
+    });
+  }
+
+  return input;
+}
+
+export function ProductImageEditor({
+  items,
+  onChange,
+  disabled = false,
+}: {
+  items: ImageEditorItem[];
+  onChange: (items: ImageEditorItem[]) => void;
+  disabled?: boolean;
+}) {
+  const [dragKey, setDragKey] = useState<string | null>(null);
+
+  if (items.length === 0) return null;
+
+  // 대표 이미지를 고르지 않으면 첫 번째 이미지가 대표 이미지
+  const primaryKey = (items.find((item) => item.is_primary) ?? items[0]).key;
+
+  const moveItem = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || from === to) return;
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const updateItem = (index: number, patch: Partial<ImageEditorItem>) => {
+    onChange(
+      items.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    );
+  };
+
+  const setPrimary = (index: number) => {
+    onChange(items.map((item, i) => ({ ...item, is_primary: i === index })));
+  };
+
+  const removeItem = (index: number) => {
+    revokeImageEditorItems([items[index]]);
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  // 드래그 중인 이미지가 다른 이미지 위로 오면 그 자리로 이동
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (dragKey === null) return;
+    e.preventDefault();
+
+    const from = items.findIndex((item) => item.key === dragKey);
+    if (from !== -1 && from !== index) {
+      moveItem(from, index);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {items.map((item, index) => {
+          const isPrimary = item.key === primaryKey;
+
+          return (
+            <li
+              key={item.key}
+              draggable={!disabled}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDragKey(item.key);
+              }}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+              }}
+              onDragEnd={() => setDragKey(null)}
+              className={`border rounded-lg overflow-hidden bg-white ${
+                dragKey === item.key ? "opacity-50" : ""
+              } ${isPrimary ? "ring-2 ring-orange-500" : ""}`}
+            >
+              <div className="relative aspect-square bg-gray-100">
+                <Image
+                  src={item.url}
+                  alt={item.alt_text || `상품 이미지 ${index + 1}`}
+                  fill
+                  sizes="200px"
+                  className="object-cover"
+                  unoptimized={!!item.file}
+                  draggable={false}
+                />
+                <span className="absolute top-1 left-1 flex items-center rounded bg-white/80 px-1 text-xs text-gray-700 cursor-grab">
+                  <GripVertical className="h-3 w-3" />
+                  {index + 1}
+                </span>
+                {isPrimary && (
+                  <span className="absolute top-1 right-1 rounded bg-orange-500 px-1.5 py-0.5 text-xs font-medium text-white">
+                    대표
+                  </span>
+                )}
+              </div>
+
+              <div className="p-2 space-y-2">
+                <Input
+                  value={item.alt_text}
+                  onChange={(e) =>
+                    updateItem(index, { alt_text: e.target.value })
+                  }
+                  placeholder="대체 텍스트 (비우면 상품명)"
+                  maxLength={200}
+                  className="h-8 text-xs"
+                  aria-label={`이미지 ${index + 1} 대체 텍스트`}
+                  disabled={disabled}
+                />
+                <div className="flex items-center justify-between">
+                  <div className="flex">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => moveItem(index, index - 1)}
+                      disabled={disabled || index === 0}
+                      aria-label="앞으로 이동"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => moveItem(index, index + 1)}
+                      disabled={disabled || index === items.length - 1}
+                      aria-label="뒤로 이동"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setPrimary(index)}
+                      disabled={disabled || isPrimary}
+                      aria-label="대표 이미지로 지정"
+                    >
+                      <Star
+                        className={`h-4 w-4 ${isPrimary ? "fill-orange-500 text-orange-500" : ""}`}
+                      />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      onClick={() => removeItem(index)}
+                      disabled={disabled}
+                      aria-label="이미지 삭제"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-xs text-gray-500">
+        이미지를 드래그해서 순서를 바꿀 수 있습니다. 대표 이미지는 상품 목록과
+        장바구니에 표시됩니다.
+      </p>
+    </div>
+  );
+}
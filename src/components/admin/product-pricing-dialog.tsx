@@ -0,0 +1,285 @@
+/**
+ * @file product-pricing-dialog.tsx
+ * @description 관리자 상품 가격/세일 설정 다이얼로그 (상품 관리 페이지)
+ *
+ * 주요 기능:
+ * 1. 정가 변경
+ * 2. 세일가와 세일 기간 설정 (시작일을 미래로 지정하면 예약 세일)
+ * 3. 세일 종료 (세일가 비우기)
+ * 4. 가격 변경 이력 표시 (최신순)
+ *
+ * @dependencies
+ * - @/actions/products: 가격 설정 및 이력 조회 서버 액션
+ * - @/lib/pricing: 세일 진행 여부와 할인율 계산
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  updateProductPricing,
+  getProductPriceHistory,
+  type Product,
+  type ProductPriceHistoryEntry,
+} from "@/actions/products";
+import { getProductPricing } from "@/lib/pricing";
+import {
+  formatPrice,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, History } from "lucide-react";
+
+// 가격 폼 입력값 (입력 필드는 모두 문자열로 관리)
+interface PricingFormValues {
+  price: string;
+  sale_price: string;
+  sale_starts_at: string; // datetime-local 형식
+  sale_ends_at: string;
+}
+
+// 이력 항목의 세일 내용 요약 (예: "9,000원 (6. 1. ~ 6. 30.)")
+function formatHistorySale(entry: ProductPriceHistoryEntry): string {
+  if (entry.sale_price === null) return "-";
+  const format = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString("ko-KR") : "";
+  const period =
+    entry.sale_starts_at || entry.sale_ends_at
+      ? ` (${format(entry.sale_starts_at)} ~ ${format(entry.sale_ends_at)})`
+      : "";
+  return `${formatPrice(entry.sale_price)}원${period}`;
+}
+
+export function ProductPricingDialog({
+  product,
+  onClose,
+  onSaved,
+}: {
+  product: Product | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [values, setValues] = useState<PricingFormValues>({
+    price: "",
+    sale_price: "",
+    sale_starts_at: "",
+    sale_ends_at: "",
+  });
+  const [history, setHistory] = useState<ProductPriceHistoryEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 다이얼로그가 열릴 때 현재 가격으로 초기화하고 이력 조회
+  useEffect(() => {
+    if (!product) return;
+
+    setValues({
+      price: String(product.price),
+      sale_price: product.sale_price ? String(product.sale_price) : "",
+      sale_starts_at: toDateTimeLocalValue(product.sale_starts_at),
+      sale_ends_at: toDateTimeLocalValue(product.sale_ends_at),
+    });
+    setError(null);
+
+    let cancelled = false;
+    setIsHistoryLoading(true);
+    getProductPriceHistory(product.id)
+      .then((entries) => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch((error) => {
+        console.error("가격 이력 조회 실패:", error);
+        if (!cancelled) setHistory([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product]);
+
+  if (!product) return null;
+
+  const pricing = getProductPricing(product);
+
+  const updateValue = (key: keyof PricingFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async (endSale: boolean) => {
+    console.log("💲 상품 가격 저장:", product.id, values, { endSale });
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const result = await updateProductPricing(product.id, {
+        price: Number(values.price),
+        sale_price: endSale ? "" : values.sale_price,
+        sale_starts_at: fromDateTimeLocalValue(values.sale_starts_at),
+        sale_ends_at: fromDateTimeLocalValue(values.sale_ends_at),
+      });
+
+      if (result.success) {
+        onSaved();
+        onClose();
+      } else {
+        setError(result.message);
+      }
+    } catch (error) {
+      console.error("상품 가격 저장 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "상품 가격 저장 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!product}
+      onOpenChange={(open) => !open && !isSaving && onClose()}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>가격/세일 설정 - {product.name}</DialogTitle>
+          <DialogDescription>
+            {pricing.isOnSale
+              ? `현재 ${pricing.discountRate}% 세일 중 (${formatPrice(pricing.currentPrice)}원)`
+              : `현재 정가 ${formatPrice(pricing.listPrice)}원에 판매 중`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="listPrice">정가 (원) *</Label>
+              <Input
+                id="listPrice"
+                type="number"
+                min={1}
+                value={values.price}
+                onChange={(e) => updateValue("price", e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="salePrice">세일가 (원)</Label>
+              <Input
+                id="salePrice"
+                type="number"
+                min={1}
+                value={values.sale_price}
+                onChange={(e) => updateValue("sale_price", e.target.value)}
+                placeholder="세일 없음"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saleStartsAt">세일 시작</Label>
+              <Input
+                id="saleStartsAt"
+                type="datetime-local"
+                value={values.sale_starts_at}
+                onChange={(e) => updateValue("sale_starts_at", e.target.value)}
+                disabled={isSaving || !values.sale_price}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="saleEndsAt">세일 종료</Label>
+              <Input
+                id="saleEndsAt"
+                type="datetime-local"
+                value={values.sale_ends_at}
+                onChange={(e) => updateValue("sale_ends_at", e.target.value)}
+                disabled={isSaving || !values.sale_price}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            세일 시작을 비우면 바로 적용되고, 종료를 비우면 직접 종료할 때까지
+            세일이 계속됩니다. 시작을 미래로 지정하면 해당 시각에 자동으로
+            세일가가 적용됩니다.
+          </p>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* 가격 변경 이력 */}
+          <div>
+            <h3 className="font-semibold mb-2 flex items-center gap-2">
+              <History className="h-4 w-4" />
+              가격 변경 이력
+            </h3>
+            {isHistoryLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <Skeleton key={index} className="h-8 w-full" />
+                ))}
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500">변경 이력이 없습니다.</p>
+            ) : (
+              <div className="border rounded-lg divide-y text-sm">
+                {history.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex justify-between gap-4 px-3 py-2"
+                  >
+                    <span className="text-gray-500">
+                      {new Date(entry.created_at).toLocaleString("ko-KR")}
+                    </span>
+                    <span>
+                      {`정가 ${formatPrice(entry.price)}원 · 세일 ${formatHistorySale(entry)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {product.sale_price !== null && (
+            <Button
+              variant="outline"
+              onClick={() => handleSave(true)}
+              disabled={isSaving}
+              className="text-red-600 hover:text-red-700"
+            >
+              세일 종료
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            취소
+          </Button>
+          <Button onClick={() => handleSave(false)} disabled={isSaving}>
+            {isSaving ? "저장 중..." : "저장"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
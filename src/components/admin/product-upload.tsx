@@ -3,10 +3,11 @@
  * @description 관리자용 상품 생성 및 파일 업로드 컴포넌트
  *
  * 주요 기능:
- * 1. 드래그앤드롭 파일 업로드 UI
- * 2. 상품 정보 입력 (이름, 가격, 카테고리, 설명, 재고)
- * 3. 파일 업로드 및 상품 생성 통합 처리
- * 4. 업로드 성공/실패 메시지 표시
+ * 1. 드래그앤드롭 파일 업로드 UI (이미지 여러 장)
+ * 2. 이미지 순서 변경(드래그), 대표 이미지 지정, 대체 텍스트 입력
+ * 3. 상품 정보 입력 (이름, 가격, 카테고리, 설명, 재고)
+ * 4. 파일 업로드 및 상품 생성 통합 처리
+ * 5. 업로드 성공/실패 메시지 표시
  *
  * 핵심 구현 로직:
  * - React Hook Form을 사용한 폼 관리
@@ -16,10 +17,13 @@
  *
  * @dependencies
  * - react-hook-form: 폼 관리
- * - @/actions/upload: 파일 업로드 서버 액션
  * - @/actions/products: 상품 생성 서버 액션
+ * - @/components/admin/product-image-editor: 이미지 편집기 및 업로드
+ * - @/lib/product-images: 최대 이미지 수
  * - @/components/ui: ShadCN UI 컴포넌트들
- * - @/constants/categories: 카테고리 상수
+ * - @/lib/categories: 기본 카테고리
+ * - @/hooks/use-categories: 카테고리 목록 조회 훅
+ * - @/components/admin/category-select: 카테고리 선택 (하위 카테고리 포함)
  * - lucide-react: 아이콘
  */
 
@@ -27,8 +31,15 @@
 
 import { useState, useRef, useCallback } from "react";
 import { useForm } from "react-hook-form";
-import { uploadFile } from "@/actions/upload";
 import { createProduct } from "@/actions/products";
+import {
+  ProductImageEditor,
+  createImageEditorItemsFromFiles,
+  revokeImageEditorItems,
+  uploadImageEditorItems,
+  type ImageEditorItem,
+} from "@/components/admin/product-image-editor";
+import { MAX_PRODUCT_IMAGES } from "@/lib/product-images";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -44,7 +55,11 @@ import {
   DollarSign,
   FileText,
   Hash,
+  Grid3X3,
 } from "lucide-react";
+import { DEFAULT_CATEGORY } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { CategorySelect } from "@/components/admin/category-select";
 
 type ProductUploadProps = {
   onProductCreated?: (productId: number) => void;
@@ -55,14 +70,13 @@ type UploadState = {
   isDragActive: boolean;
   message: string;
   isSuccess: boolean;
-  fileName?: string;
   productId?: number;
 };
 
-// 폼 데이터 타입
+// 폼 데이터 타입 (이미지는 이미지 편집기 상태로 관리)
 type ProductFormData = {
-  file: FileList;
   name: string;
+  category: string;
   description: string;
   price: number;
   stock_quantity: number;
@@ -78,6 +92,9 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
     isSuccess: false,
   });
 
+  const [images, setImages] = useState<ImageEditorItem[]>([]);
+  const [imageError, setImageError] = useState<string | null>(null);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const {
     register,
@@ -89,13 +106,30 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
   } = useForm<ProductFormData>({
     defaultValues: {
       name: "",
+      category: DEFAULT_CATEGORY,
       description: "",
       price: 0,
       stock_quantity: 1,
     },
   });
 
-  const selectedFile = watch("file");
+  const selectedCategory = watch("category");
+  const { categories } = useCategories(true);
+
+  // 선택한 파일을 이미지 목록에 추가 (이미지 형식, 크기, 최대 장수 검사)
+  const addFiles = useCallback(
+    (files: FileList) => {
+      const { items, error } = createImageEditorItemsFromFiles(
+        files,
+        images.length,
+      );
+
+      setImages([...images, ...items]);
+      setImageError(error);
+      console.log("✅ 이미지 추가됨:", items.length, "장");
+    },
+    [images],
+  );
 
   // 드래그앤드롭 이벤트 핸들러
   const handleDragEnter = useCallback((e: React.DragEvent) => {
@@ -134,24 +168,10 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
 
       const files = e.dataTransfer.files;
       if (files.length > 0) {
-        const file = files[0];
-        console.log(
-          "선택된 파일:",
-          file.name,
-          "크기:",
-          file.size,
-          "타입:",
-          file.type,
-        );
-
-        const dataTransfer = new DataTransfer();
-        dataTransfer.items.add(file);
-        setValue("file", dataTransfer.files);
-
-        console.log("✅ 파일이 폼에 설정됨");
+        addFiles(files);
       }
     },
-    [setValue],
+    [addFiles],
   );
 
   // 파일 선택 버튼 클릭
@@ -164,20 +184,13 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        const file = files[0];
-        console.log(
-          "파일 선택 버튼으로 선택된 파일:",
-          file.name,
-          "크기:",
-          file.size,
-          "타입:",
-          file.type,
-        );
-        setValue("file", files);
-        console.log("✅ 파일이 폼에 설정됨 (버튼 선택)");
+        console.log("파일 선택 버튼으로 선택된 파일:", files.length, "개");
+        addFiles(files);
       }
+      // 같은 파일을 다시 선택할 수 있도록 초기화
+      e.target.value = "";
     },
-    [setValue],
+    [addFiles],
   );
 
   // 상품 생성 및 파일 업로드 처리
@@ -187,54 +200,9 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
       console.log("폼 데이터:", data);
 
       try {
-        const fileList = data.file as FileList;
-        if (!fileList || fileList.length === 0) {
-          console.log("❌ 선택된 파일 없음");
-          setUploadState((prev) => ({
-            ...prev,
-            message: "상품 이미지를 선택해주세요.",
-            isSuccess: false,
-          }));
-          console.groupEnd();
-          return;
-        }
-
-        const file = fileList[0];
-        console.log("업로드할 파일:", {
-          name: file.name,
-          size: file.size,
-          type: file.type,
-          lastModified: file.lastModified,
-        });
-
-        // 파일 타입 검증 (이미지만 허용)
-        const allowedTypes = [
-          "image/jpeg",
-          "image/png",
-          "image/gif",
-          "image/webp",
-        ];
-
-        if (!allowedTypes.includes(file.type)) {
-          console.log("❌ 허용되지 않은 파일 타입:", file.type);
-          setUploadState((prev) => ({
-            ...prev,
-            message: "상품 이미지는 JPG, PNG, GIF, WebP 형식만 지원합니다.",
-            isSuccess: false,
-          }));
-          console.groupEnd();
-          return;
-        }
-
-        // 파일 크기 검증 (5MB)
-        const maxSize = 5 * 1024 * 1024; // 5MB
-        if (file.size > maxSize) {
-          console.log("❌ 파일 크기 초과:", file.size);
-          setUploadState((prev) => ({
-            ...prev,
-            message: "이미지 크기는 5MB 이하여야 합니다.",
-            isSuccess: false,
-          }));
+        if (images.length === 0) {
+          console.log("❌ 선택된 이미지 없음");
+          setImageError("상품 이미지를 한 장 이상 선택해주세요.");
           console.groupEnd();
           return;
         }
@@ -246,46 +214,45 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
           isSuccess: false,
         }));
 
-        // 1단계: 파일 업로드
-        console.log("1️⃣ 파일 업로드 단계 시작...");
-        const formData = new FormData();
-        formData.append("file", file);
-
-        let uploadResult;
+        // 1단계: 이미지 업로드 (표시 순서대로)
+        console.log("1️⃣ 이미지 업로드 단계 시작...", images.length, "장");
+        let imagesInput;
         try {
-          uploadResult = await uploadFile(formData);
-          console.log("파일 업로드 결과:", uploadResult);
+          imagesInput = await uploadImageEditorItems(images);
+          console.log("이미지 업로드 결과:", imagesInput);
         } catch (uploadError) {
-          console.error("❌ 파일 업로드 단계에서 오류:", uploadError);
+          console.error("❌ 이미지 업로드 단계에서 오류:", uploadError);
           throw new Error(
             `파일 업로드 실패: ${uploadError instanceof Error ? uploadError.message : "알 수 없는 오류"}`,
           );
         }
 
-        if (!uploadResult.success) {
-          console.error("❌ 파일 업로드 실패:", uploadResult.error);
-          throw new Error(uploadResult.error || "파일 업로드에 실패했습니다.");
-        }
+        const primaryImage =
+          imagesInput.find((image) => image.is_primary) ?? imagesInput[0];
 
         // 2단계: 상품 생성
         console.log("2️⃣ 상품 생성 단계 시작...");
         console.log("상품 데이터:", {
           name: data.name,
+          category: data.category,
           description: data.description,
           price: data.price,
           stock_quantity: data.stock_quantity,
-          image_url: uploadResult.publicUrl,
+          image_url: primaryImage.url,
+          images: imagesInput.length,
         });
 
         const productFormData = new FormData();
         productFormData.append("name", data.name);
+        productFormData.append("category", data.category);
         productFormData.append("description", data.description || "");
         productFormData.append("price", data.price.toString());
         productFormData.append(
           "stock_quantity",
           data.stock_quantity.toString(),
         );
-        productFormData.append("image_url", uploadResult.publicUrl || "");
+        productFormData.append("image_url", primaryImage.url);
+        productFormData.append("images", JSON.stringify(imagesInput));
 
         let productResult;
         try {
@@ -305,12 +272,14 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
             isUploading: false,
             message: `상품 "${data.name}"이 성공적으로 등록되었습니다!`,
             isSuccess: true,
-            fileName: uploadResult.fileName,
             productId: productResult.productId,
           }));
 
           // 폼 리셋
           reset();
+          revokeImageEditorItems(images);
+          setImages([]);
+          setImageError(null);
 
           // 성공 콜백 호출
           if (onProductCreated && productResult.productId) {
@@ -347,7 +316,7 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
         console.groupEnd();
       }
     },
-    [reset, onProductCreated],
+    [images, reset, onProductCreated],
   );
 
   // 메시지 닫기
@@ -396,8 +365,8 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
                     : "이미지를 드래그하여 업로드"}
                 </p>
                 <p className="text-xs text-gray-600 mt-1">
-                  또는 클릭하여 파일을 선택하세요 (JPG, PNG, GIF, WebP / 최대
-                  5MB)
+                  또는 클릭하여 파일을 선택하세요 (JPG, PNG, GIF, WebP / 장당
+                  최대 5MB, {MAX_PRODUCT_IMAGES}장까지)
                 </p>
               </div>
 
@@ -407,38 +376,37 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
                 variant="outline"
                 size="sm"
                 onClick={handleFileSelect}
-                disabled={uploadState.isUploading}
+                disabled={
+                  uploadState.isUploading || images.length >= MAX_PRODUCT_IMAGES
+                }
               >
                 <Upload className="w-4 h-4 mr-2" />
                 이미지 선택
               </Button>
 
-              {/* 선택된 파일 표시 */}
-              {selectedFile && selectedFile.length > 0 && (
-                <div className="mt-3 p-3 bg-gray-50 rounded-md">
-                  <p className="text-sm font-medium text-gray-900">
-                    선택된 이미지: {selectedFile[0].name}
-                  </p>
-                  <p className="text-xs text-gray-600">
-                    크기: {(selectedFile[0].size / 1024 / 1024).toFixed(2)} MB
-                  </p>
-                </div>
-              )}
-
               {/* 숨겨진 파일 input */}
               <input
-                {...register("file", { required: "상품 이미지는 필수입니다" })}
                 type="file"
                 ref={fileInputRef}
                 className="hidden"
                 accept=".jpg,.jpeg,.png,.gif,.webp"
+                multiple
                 onChange={handleFileInputChange}
               />
             </div>
           </div>
-          {errors.file && (
-            <p className="text-sm text-red-600 mt-1">{errors.file.message}</p>
+          {imageError && (
+            <p className="text-sm text-red-600 mt-1">{imageError}</p>
           )}
+
+          {/* 선택된 이미지 (순서 변경, 대표 이미지 지정) */}
+          <div className="mt-3">
+            <ProductImageEditor
+              items={images}
+              onChange={setImages}
+              disabled={uploadState.isUploading}
+            />
+          </div>
         </div>
 
         {/* 상품 정보 입력 영역 */}
@@ -463,6 +431,24 @@ export function ProductUpload({ onProductCreated }: ProductUploadProps) {
             )}
           </div>
 
+          {/* 카테고리 */}
+          <div className="md:col-span-2">
+            <Label
+              htmlFor="category"
+              className="flex items-center text-sm font-medium text-gray-900 mb-2"
+            >
+              <Grid3X3 className="w-4 h-4 mr-1" />
+              카테고리 *
+            </Label>
+            <CategorySelect
+              categories={categories}
+              value={selectedCategory}
+              onValueChange={(value) => setValue("category", value)}
+              disabled={uploadState.isUploading}
+              className="w-full"
+            />
+          </div>
+
           {/* 가격 */}
           <div>
             <Label
@@ -0,0 +1,433 @@
+/**
+ * @file product-variant-editor.tsx
+ * @description 관리자 상품 옵션 편집기 (새 상품 등록 페이지, 상품 옵션 관리 다이얼로그)
+ *
+ * 주요 기능:
+ * 1. 옵션 종류 입력 (예: 사이즈 - S, M, L / 색상 - 블랙, 화이트, 최대 3종류)
+ * 2. 옵션 값 조합 생성 (이미 입력한 조합의 SKU, 추가 금액, 재고는 유지)
+ * 3. 옵션별 SKU, 추가 금액, 재고, 판매 여부 수정 및 삭제
+ * 4. 편집기 입력값을 옵션 저장 입력값으로 변환
+ *
+ * @dependencies
+ * - @/actions/variants: 옵션 저장 입력값 타입
+ * - @/lib/variants: 옵션 타입, 옵션 라벨, 최대 옵션 종류 수
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import type { ProductVariantsInput } from "@/actions/variants";
+import {
+  getVariantLabel,
+  MAX_OPTION_NAMES,
+  type ProductVariant,
+  type VariantOptions,
+} from "@/lib/variants";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash2, Wand2 } from "lucide-react";
+
+// 옵션 종류 입력값 (값은 쉼표로 구분한 문자열)
+interface OptionTypeValue {
+  name: string;
+  values: string;
+}
+
+// 옵션 행 입력값 (id가 없으면 새 옵션, 숫자 입력 필드는 문자열로 관리)
+interface VariantRowValue {
+  id?: number;
+  options: VariantOptions;
+  sku: string;
+  price_delta: string;
+  stock_quantity: string;
+  is_active: boolean;
+}
+
+// 옵션 편집기 입력값
+export interface VariantEditorValue {
+  optionTypes: OptionTypeValue[];
+  variants: VariantRowValue[];
+}
+
+// 쉼표로 구분한 옵션 값 목록 (공백 제거, 중복 제거)
+function parseOptionValues(values: string): string[] {
+  return Array.from(
+    new Set(
+      values
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean),
+    ),
+  );
+}
+
+// 이름이 입력된 옵션 종류 이름 목록
+function getOptionNames(value: VariantEditorValue): string[] {
+  return value.optionTypes
+    .map((optionType) => optionType.name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 저장된 옵션으로 편집기 입력값 만들기 (옵션 없는 상품은 빈 편집기)
+ */
+export function createVariantEditorValue(
+  optionNames: string[] = [],
+  variants: ProductVariant[] = [],
+): VariantEditorValue {
+  return {
+    optionTypes: optionNames.map((name) => ({
+      name,
+      values: Array.from(
+        new Set(variants.map((variant) => variant.options[name])),
+      )
+        .filter(Boolean)
+        .join(", "),
+    })),
+    variants: variants.map((variant) => ({
+      id: variant.id,
+      options: variant.options,
+      sku: variant.sku,
+      price_delta: String(variant.price_delta),
+      stock_quantity: String(variant.stock_quantity),
+      is_active: variant.is_active,
+    })),
+  };
+}
+
+/**
+ * 편집기 입력값을 옵션 저장 입력값으로 변환 (유효성 검사는 서버에서)
+ */
+export function toProductVariantsInput(
+  value: VariantEditorValue,
+): ProductVariantsInput {
+  const optionNames = getOptionNames(value);
+
+  return {
+    option_names: optionNames,
+    variants:
+      optionNames.length === 0
+        ? []
+        : value.variants.map((variant) => ({
+            ...(variant.id !== undefined && { id: variant.id }),
+            sku: variant.sku,
+            options: variant.options,
+            price_delta: Number(variant.price_delta || 0),
+            stock_quantity: Number(variant.stock_quantity || 0),
+            is_active: variant.is_active,
+          })),
+  };
+}
+
+/**
+ * 판매 중인 옵션의 재고 합계 (옵션 상품의 상품 재고)
+ */
+export function getVariantEditorStock(value: VariantEditorValue): number {
+  return value.variants
+    .filter((variant) => variant.is_active)
+    .reduce((sum, variant) => sum + Number(variant.stock_quantity || 0), 0);
+}
+
+export function ProductVariantEditor({
+  value,
+  onChange,
+  skuPrefix,
+  disabled = false,
+}: {
+  value: VariantEditorValue;
+  onChange: (value: VariantEditorValue) => void;
+  skuPrefix: string; // 새 조합의 기본 SKU 앞부분 (예: "P12")
+  disabled?: boolean;
+}) {
+  const optionNames = getOptionNames(value);
+
+  const updateOptionType = (
+    index: number,
+    key: keyof OptionTypeValue,
+    nextValue: string,
+  ) => {
+    onChange({
+      ...value,
+      optionTypes: value.optionTypes.map((optionType, i) =>
+        i === index ? { ...optionType, [key]: nextValue } : optionType,
+      ),
+    });
+  };
+
+  const addOptionType = () => {
+    onChange({
+      ...value,
+      optionTypes: [...value.optionTypes, { name: "", values: "" }],
+    });
+  };
+
+  const removeOptionType = (index: number) => {
+    const optionTypes = value.optionTypes.filter((_, i) => i !== index);
+    onChange({
+      optionTypes,
+      // 옵션 종류를 모두 지우면 옵션 조합도 비움
+      variants: optionTypes.length === 0 ? [] : value.variants,
+    });
+  };
+
+  // 옵션 값 조합 생성 (같은 조합의 기존 행은 그대로 유지)
+  const generateVariants = () => {
+    const optionTypes = value.optionTypes
+      .map((optionType) => ({
+        name: optionType.name.trim(),
+        values: parseOptionValues(optionType.values),
+      }))
+      .filter((optionType) => optionType.name && optionType.values.length > 0);
+
+    if (optionTypes.length === 0) return;
+
+    const combinations = optionTypes.reduce<VariantOptions[]>(
+      (acc, optionType) =>
+        acc.flatMap((options) =>
+          optionType.values.map((optionValue) => ({
+            ...options,
+            [optionType.name]: optionValue,
+          })),
+        ),
+      [{}],
+    );
+
+    const usedSkus = new Set(value.variants.map((variant) => variant.sku));
+    let nextNumber = 1;
+    const nextSku = () => {
+      let sku = `${skuPrefix}-${nextNumber}`;
+      while (usedSkus.has(sku)) {
+        nextNumber += 1;
+        sku = `${skuPrefix}-${nextNumber}`;
+      }
+      usedSkus.add(sku);
+      return sku;
+    };
+
+    const variants = combinations.map((options) => {
+      const existing = value.variants.find(
+        (variant) =>
+          Object.keys(variant.options).length === optionTypes.length &&
+          optionTypes.every(
+            (optionType) =>
+              variant.options[optionType.name] === options[optionType.name],
+          ),
+      );
+      return (
+        existing ?? {
+          options,
+          sku: nextSku(),
+          price_delta: "0",
+          stock_quantity: "0",
+          is_active: true,
+        }
+      );
+    });
+
+    console.log("🎨 옵션 조합 생성:", variants.length, "개");
+    onChange({ ...value, variants });
+  };
+
+  const updateVariant = (
+    index: number,
+    patch: Partial<Omit<VariantRowValue, "id" | "options">>,
+  ) => {
+    onChange({
+      ...value,
+      variants: value.variants.map((variant, i) =>
+        i === index ? { ...variant, ...patch } : variant,
+      ),
+    });
+  };
+
+  const removeVariant = (index: number) => {
+    onChange({
+      ...value,
+      variants: value.variants.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 옵션 종류 */}
+      <div className="space-y-3">
+        {value.optionTypes.map((optionType, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-[8rem_1fr_auto] gap-2 items-end"
+          >
+            <div className="space-y-1">
+              <Label htmlFor={`optionName-${index}`}>옵션 이름</Label>
+              <Input
+                id={`optionName-${index}`}
+                value={optionType.name}
+                onChange={(e) =>
+                  updateOptionType(index, "name", e.target.value)
+                }
+                placeholder="예: 사이즈"
+                maxLength={20}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`optionValues-${index}`}>
+                옵션 값 (쉼표로 구분)
+              </Label>
+              <Input
+                id={`optionValues-${index}`}
+                value={optionType.values}
+                onChange={(e) =>
+                  updateOptionType(index, "values", e.target.value)
+                }
+                placeholder="예: S, M, L"
+                disabled={disabled}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeOptionType(index)}
+              disabled={disabled}
+              aria-label="옵션 종류 삭제"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addOptionType}
+            disabled={disabled || value.optionTypes.length >= MAX_OPTION_NAMES}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            옵션 종류 추가
+          </Button>
+          {value.optionTypes.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={generateVariants}
+              disabled={disabled}
+            >
+              <Wand2 className="h-4 w-4 mr-1" />
+              조합 생성
+            </Button>
+          )}
+        </div>
+        {value.optionTypes.length > 0 && (
+          <p className="text-xs text-gray-500">
+            옵션 종류나 값을 바꾼 뒤에는 조합 생성을 다시 눌러주세요. 이미
+            입력한 조합의 SKU, 추가 금액, 재고는 유지됩니다.
+          </p>
+        )}
+      </div>
+
+      {/* 옵션 조합 */}
+      {value.variants.length > 0 && (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>옵션</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>추가 금액 (원)</TableHead>
+                <TableHead>재고</TableHead>
+                <TableHead>판매</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.variants.map((variant, index) => (
+                <TableRow key={variant.id ?? `new-${index}`}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {getVariantLabel(variant.options, optionNames) || "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku}
+                      onChange={(e) =>
+                        updateVariant(index, { sku: e.target.value })
+                      }
+                      className="w-32"
+                      maxLength={50}
+                      aria-label="SKU"
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step={1}
+                      value={variant.price_delta}
+                      onChange={(e) =>
+                        updateVariant(index, { price_delta: e.target.value })
+                      }
+                      className="w-28"
+                      aria-label="추가 금액"
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={variant.stock_quantity}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          stock_quantity: e.target.value,
+                        })
+                      }
+                      className="w-24"
+                      aria-label="재고"
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={variant.is_active}
+                      onCheckedChange={(checked) =>
+                        updateVariant(index, { is_active: checked })
+                      }
+                      aria-label="판매 여부"
+                      disabled={disabled}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeVariant(index)}
+                      disabled={disabled}
+                      className="text-red-600 hover:text-red-700"
+                      aria-label="옵션 삭제"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * @file product-variants-dialog.tsx
+ * @description 관리자 상품 옵션 관리 다이얼로그 (상품 관리 페이지)
+ *
+ * 주요 기능:
+ * 1. 상품의 옵션 종류와 옵션 목록 조회 (판매 중지된 옵션 포함)
+ * 2. 옵션 추가/수정/삭제 후 한 번에 저장
+ * 3. 판매 중인 옵션 재고 합계 표시 (저장하면 상품 재고가 이 값으로 바뀜)
+ *
+ * @dependencies
+ * - @/actions/variants: 옵션 조회/저장 서버 액션
+ * - @/components/admin/product-variant-editor: 옵션 편집기
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { getProductVariants, saveProductVariants } from "@/actions/variants";
+import type { Product } from "@/actions/products";
+import {
+  ProductVariantEditor,
+  createVariantEditorValue,
+  getVariantEditorStock,
+  toProductVariantsInput,
+  type VariantEditorValue,
+} from "@/components/admin/product-variant-editor";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle } from "lucide-react";
+
+export function ProductVariantsDialog({
+  product,
+  onClose,
+  onSaved,
+}: {
+  product: Product | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [value, setValue] = useState<VariantEditorValue>(
+    createVariantEditorValue(),
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 다이얼로그가 열릴 때 저장된 옵션 조회
+  useEffect(() => {
+    if (!product) return;
+
+    setValue(createVariantEditorValue());
+    setError(null);
+
+    let cancelled = false;
+    setIsLoading(true);
+    getProductVariants(product.id, true)
+      .then((variants) => {
+        if (!cancelled) {
+          setValue(createVariantEditorValue(product.option_names, variants));
+        }
+      })
+      .catch((error) => {
+        console.error("상품 옵션 조회 실패:", error);
+        if (!cancelled) setError("상품 옵션을 불러오지 못했습니다.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [product]);
+
+  if (!product) return null;
+
+  const hasOptions = value.optionTypes.length > 0;
+
+  const handleSave = async () => {
+    const input = toProductVariantsInput(value);
+    console.log("🎨 상품 옵션 저장:", product.id, input);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const result = await saveProductVariants(product.id, input);
+
+      if (result.success) {
+        onSaved();
+        onClose();
+      } else {
+        setError(result.message);
+      }
+    } catch (error) {
+      console.error("상품 옵션 저장 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "상품 옵션 저장 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!product}
+      onOpenChange={(open) => !open && !isSaving && onClose()}
+    >
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>옵션 관리 - {product.name}</DialogTitle>
+          <DialogDescription>
+            {hasOptions
+              ? `판매 중인 옵션 재고 합계 ${getVariantEditorStock(value)}개 · 저장하면 상품 재고가 이 값으로 바뀝니다.`
+              : "사이즈, 색상처럼 고객이 고를 옵션이 있으면 옵션 종류를 추가해주세요."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : (
+          <ProductVariantEditor
+            value={value}
+            onChange={setValue}
+            skuPrefix={`P${product.id}`}
+            disabled={isSaving}
+          />
+        )}
+
+        {!hasOptions && product.option_names.length > 0 && (
+          <p className="text-sm text-amber-700">
+            옵션을 모두 지우고 저장하면 옵션 없는 상품이 되며, 상품 재고가 0개가
+            되므로 재고를 다시 입력해야 합니다.
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            취소
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? "저장 중..." : "저장"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,711 @@
+/**
+ * @file return-management.tsx
+ * @description 관리자 반품 관리 컴포넌트 (주문 관리 페이지의 반품 탭)
+ *
+ * 주요 기능:
+ * 1. 반품 목록 조회 및 상태별 필터링
+ * 2. 반품 상세 정보 (사유, 첨부 사진, 상품별 수량/환불 금액)
+ * 3. 반품 승인/거절/회수 완료 처리 (관리자 메모 기록)
+ * 4. 상품별 부분 환불 및 재고 복구 여부 선택
+ *
+ * @dependencies
+ * - @/actions/returns: 반품 서버 액션
+ * - @/constants/return-status: 반품 상태 목록과 전이 규칙
+ * - @/utils/supabase/storage: 첨부 사진 공개 URL
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import {
+  getReturnsForAdmin,
+  updateReturnStatus,
+  refundReturn,
+  type OrderReturnWithOrder,
+} from "@/actions/returns";
+import {
+  RETURN_STATUSES,
+  RETURN_STATUS_TRANSITIONS,
+  getReturnStatusLabel,
+  isValidReturnStatus,
+} from "@/constants/return-status";
+import { ReturnStatusBadge } from "@/components/order/return-status-badge";
+import { getPublicUrl } from "@/utils/supabase/storage";
+import { formatPrice } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, Eye, Undo2 } from "lucide-react";
+
+// 반품 상태 필터 옵션
+const RETURN_STATUS_FILTERS = [
+  { value: "", label: "전체" },
+  ...RETURN_STATUSES,
+];
+
+// 반품 상품 요약 (예: "상품A 외 1건")
+function getReturnItemsSummary(orderReturn: OrderReturnWithOrder): string {
+  const [first, ...rest] = orderReturn.return_items;
+  if (!first) return "-";
+  return rest.length > 0
+    ? `${first.order_item.product.name} 외 ${rest.length}건`
+    : first.order_item.product.name;
+}
+
+// 반품 상세 다이얼로그
+function ReturnDetailDialog({
+  orderReturn,
+  onClose,
+}: {
+  orderReturn: OrderReturnWithOrder | null;
+  onClose: () => void;
+}) {
+  if (!orderReturn) return null;
+
+  return (
+    <Dialog open={!!orderReturn} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            반품 상세 정보 - #{orderReturn.id}
+            <ReturnStatusBadge status={orderReturn.status} />
+          </DialogTitle>
+          <DialogDescription>
+            주문 #{orderReturn.order_id} ·{" "}
+            {orderReturn.order?.customer_name || "이름 없음"} ·{" "}
+            {new Date(orderReturn.created_at).toLocaleString("ko-KR")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* 반품 사유 */}
+          <div>
+            <h3 className="font-semibold mb-2">반품 사유</h3>
+            <p className="text-sm whitespace-pre-wrap">{orderReturn.reason}</p>
+          </div>
+
+          {/* 첨부 사진 */}
+          {orderReturn.photo_paths.length > 0 && (
+            <div>
+              <h3 className="font-semibold mb-2">첨부 사진</h3>
+              <div className="flex gap-2 flex-wrap">
+                {orderReturn.photo_paths.map((path) => (
+                  <a
+                    key={path}
+                    href={getPublicUrl(path)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="relative h-24 w-24 bg-gray-100 rounded overflow-hidden"
+                  >
+                    <Image
+                      src={getPublicUrl(path)}
+                      alt="반품 사진"
+                      fill
+                      className="object-cover"
+                      sizes="96px"
+                    />
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 반품 상품 */}
+          <div>
+            <h3 className="font-semibold mb-2">
+              반품 상품 ({orderReturn.return_items.length}개)
+            </h3>
+            <div className="space-y-2">
+              {orderReturn.return_items.map((item) => (
+                <div
+                  key={item.id}
+                  className="flex justify-between gap-4 p-3 border rounded-lg text-sm"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {item.order_item.product.name}
+                    </p>
+                    {item.order_item.variant_label && (
+                      <p className="text-gray-500">
+                        {`옵션: ${item.order_item.variant_label}`}
+                      </p>
+                    )}
+                    <p className="text-gray-600">
+                      반품 {item.quantity}개 / 주문 {item.order_item.quantity}개
+                      · 단가 {formatPrice(item.order_item.price_at_time)}원
+                    </p>
+                  </div>
+                  {orderReturn.status === "refunded" && (
+                    <div className="text-right shrink-0">
+                      <p className="font-medium">
+                        {formatPrice(item.refund_amount)}원 환불
+                      </p>
+                      <p className="text-gray-500">
+                        {item.restocked ? "재고 복구" : "재고 미복구"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {orderReturn.status === "refunded" && (
+            <div className="flex justify-between font-semibold">
+              <span>총 환불 금액</span>
+              <span className="text-orange-600">
+                {formatPrice(orderReturn.refund_amount)}원
+              </span>
+            </div>
+          )}
+
+          {orderReturn.admin_note && (
+            <div>
+              <h3 className="font-semibold mb-2">관리자 메모</h3>
+              <p className="text-sm text-gray-600 whitespace-pre-wrap">
+                {orderReturn.admin_note}
+              </p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// 반품 상태 변경 다이얼로그 (승인, 거절, 회수 완료 + 관리자 메모)
+function ReturnStatusDialog({
+  change,
+  isUpdating,
+  onConfirm,
+  onClose,
+}: {
+  change: { orderReturn: OrderReturnWithOrder; status: string } | null;
+  isUpdating: boolean;
+  onConfirm: (note: string) => void;
+  onClose: () => void;
+}) {
+  const [note, setNote] = useState("");
+
+  if (!change) return null;
+
+  return (
+    <Dialog
+      open={!!change}
+      onOpenChange={(open) => {
+        if (!open && !isUpdating) {
+          setNote("");
+          onClose();
+        }
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>반품 상태 변경</DialogTitle>
+          <DialogDescription>
+            반품 #{change.orderReturn.id}을 &apos;
+            {getReturnStatusLabel(change.orderReturn.status)}&apos;에서 &apos;
+            {getReturnStatusLabel(change.status)}&apos;(으)로 변경합니다.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="returnNote">
+            {change.status === "rejected" ? "거절 사유" : "메모 (선택)"}
+          </Label>
+          <Textarea
+            id="returnNote"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={
+              change.status === "rejected"
+                ? "예: 사용 흔적이 있어 반품이 불가합니다"
+                : "예: 회수 기사 배정 완료"
+            }
+            maxLength={200}
+            rows={3}
+            disabled={isUpdating}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isUpdating}>
+            취소
+          </Button>
+          <Button
+            onClick={() => onConfirm(note)}
+            disabled={
+              isUpdating || (change.status === "rejected" && !note.trim())
+            }
+            variant={change.status === "rejected" ? "destructive" : "default"}
+          >
+            {isUpdating ? "변경 중..." : "변경"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// 반품 환불 다이얼로그 (상품별 환불 금액 + 재고 복구 여부)
+function ReturnRefundDialog({
+  orderReturn,
+  isRefunding,
+  onConfirm,
+  onClose,
+}: {
+  orderReturn: OrderReturnWithOrder | null;
+  isRefunding: boolean;
+  onConfirm: (
+    lines: Array<{
+      returnItemId: number;
+      refundAmount: number;
+      restock: boolean;
+    }>,
+    note: string,
+  ) => void;
+  onClose: () => void;
+}) {
+  // 반품 상품 ID → 환불 금액 / 재고 복구 여부 (기본값: 전액 환불, 재고 복구)
+  const [refundAmounts, setRefundAmounts] = useState<Record<number, number>>(
+    {},
+  );
+  const [restocks, setRestocks] = useState<Record<number, boolean>>({});
+  const [note, setNote] = useState("");
+
+  if (!orderReturn) return null;
+
+  const lines = orderReturn.return_items.map((item) => {
+    const maxRefund = item.order_item.price_at_time * item.quantity;
+    return {
+      item,
+      maxRefund,
+      refundAmount: refundAmounts[item.id] ?? maxRefund,
+      restock: restocks[item.id] ?? true,
+    };
+  });
+  const totalRefund = lines.reduce((sum, line) => sum + line.refundAmount, 0);
+
+  const handleClose = () => {
+    if (isRefunding) return;
+    setRefundAmounts({});
+    setRestocks({});
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={!!orderReturn}
+      onOpenChange={(open) => !open && handleClose()}
+    >
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>반품 환불 - #{orderReturn.id}</DialogTitle>
+          <DialogDescription>
+            상품별 환불 금액과 재고 복구 여부를 확인해주세요. 환불 금액을 줄이면
+            부분 환불됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {lines.map(({ item, maxRefund, refundAmount, restock }) => (
+            <div key={item.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">
+                  {item.order_item.product.name} × {item.quantity}
+                </span>
+                <span className="text-gray-500">
+                  최대 {formatPrice(maxRefund)}원
+                </span>
+              </div>
+              <div className="flex items-center gap-4">
+                <Input
+                  type="number"
+                  min={0}
+                  max={maxRefund}
+                  step={100}
+                  value={refundAmount}
+                  onChange={(e) =>
+                    setRefundAmounts((prev) => ({
+                      ...prev,
+                      [item.id]: Math.min(
+                        maxRefund,
+                        Math.max(0, Number(e.target.value) || 0),
+                      ),
+                    }))
+                  }
+                  disabled={isRefunding}
+                  className="w-40"
+                  aria-label={`${item.order_item.product.name} 환불 금액`}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`restock-${item.id}`}
+                    checked={restock}
+                    onCheckedChange={(checked) =>
+                      setRestocks((prev) => ({
+                        ...prev,
+                        [item.id]: checked === true,
+                      }))
+                    }
+                    disabled={isRefunding}
+                  />
+                  <Label htmlFor={`restock-${item.id}`} className="text-sm">
+                    재고 복구 ({item.quantity}개)
+                  </Label>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between font-semibold pt-2">
+            <span>총 환불 금액</span>
+            <span className="text-orange-600">
+              {formatPrice(totalRefund)}원
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refundNote">메모 (선택)</Label>
+            <Textarea
+              id="refundNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="예: 포장 훼손으로 일부 금액 차감"
+              maxLength={200}
+              rows={2}
+              disabled={isRefunding}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleClose}
+            disabled={isRefunding}
+          >
+            취소
+          </Button>
+          <Button
+            onClick={() =>
+              onConfirm(
+                lines.map((line) => ({
+                  returnItemId: line.item.id,
+                  refundAmount: line.refundAmount,
+                  restock: line.restock,
+                })),
+                note,
+              )
+            }
+            disabled={isRefunding}
+          >
+            {isRefunding
+              ? "환불 처리 중..."
+              : `${formatPrice(totalRefund)}원 환불`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ReturnManagement() {
+  const [returns, setReturns] = useState<OrderReturnWithOrder[]>([]);
+  const [filterStatus, setFilterStatus] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedReturn, setSelectedReturn] =
+    useState<OrderReturnWithOrder | null>(null);
+  const [pendingStatusChange, setPendingStatusChange] = useState<{
+    orderReturn: OrderReturnWithOrder;
+    status: string;
+  } | null>(null);
+  const [refundTarget, setRefundTarget] = useState<OrderReturnWithOrder | null>(
+    null,
+  );
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  console.log("↩️ 관리자 반품 관리 렌더링");
+
+  // 반품 목록 조회
+  const fetchReturns = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await getReturnsForAdmin(filterStatus);
+
+      if (result.success) {
+        setReturns(result.returns);
+      } else {
+        setError(
+          "error" in result
+            ? result.error
+            : "반품 목록을 불러오는데 실패했습니다.",
+        );
+        setReturns([]);
+      }
+    } catch (error) {
+      console.error("반품 목록 조회 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "반품 목록을 조회하는 중 오류가 발생했습니다.",
+      );
+      setReturns([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filterStatus]);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  // 반품 상태 변경 처리
+  const handleStatusUpdate = async (note: string) => {
+    if (!pendingStatusChange) return;
+
+    try {
+      setIsProcessing(true);
+      await updateReturnStatus(
+        pendingStatusChange.orderReturn.id,
+        pendingStatusChange.status,
+        note,
+      );
+      setPendingStatusChange(null);
+      await fetchReturns();
+    } catch (error) {
+      console.error("반품 상태 변경 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "반품 상태 변경 중 오류가 발생했습니다.",
+      );
+      setPendingStatusChange(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 반품 환불 처리
+  const handleRefund = async (
+    lines: Array<{
+      returnItemId: number;
+      refundAmount: number;
+      restock: boolean;
+    }>,
+    note: string,
+  ) => {
+    if (!refundTarget) return;
+
+    try {
+      setIsProcessing(true);
+      await refundReturn(refundTarget.id, lines, note);
+      setRefundTarget(null);
+      await fetchReturns();
+    } catch (error) {
+      console.error("반품 환불 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "반품 환불 중 오류가 발생했습니다.",
+      );
+      setRefundTarget(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* 상태 필터 */}
+      <div className="flex gap-2 flex-wrap">
+        {RETURN_STATUS_FILTERS.map((status) => (
+          <Button
+            key={status.value}
+            variant={filterStatus === status.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => setFilterStatus(status.value)}
+          >
+            {status.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* 에러 메시지 */}
+      {error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 text-red-700">
+              <AlertCircle className="h-5 w-5" />
+              <span>{error}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 반품 테이블 */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : returns.length === 0 ? (
+        <div className="text-center py-12">
+          <Undo2 className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">반품 요청이 없습니다</h2>
+          <p className="text-gray-600">
+            {filterStatus
+              ? `${getReturnStatusLabel(filterStatus)} 상태의 반품이 없습니다.`
+              : "접수된 반품이 없습니다."}
+          </p>
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>반품 목록 ({returns.length}건)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>반품번호</TableHead>
+                    <TableHead>주문번호</TableHead>
+                    <TableHead>고객</TableHead>
+                    <TableHead>반품 상품</TableHead>
+                    <TableHead>상태</TableHead>
+                    <TableHead>신청일</TableHead>
+                    <TableHead>처리</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {returns.map((orderReturn) => {
+                    const nextStatuses = isValidReturnStatus(orderReturn.status)
+                      ? RETURN_STATUS_TRANSITIONS[orderReturn.status].filter(
+                          (status) =>
+                            status !== "refunding" && status !== "refunded",
+                        )
+                      : [];
+
+                    return (
+                      <TableRow key={orderReturn.id}>
+                        <TableCell className="font-mono">
+                          #{orderReturn.id}
+                        </TableCell>
+                        <TableCell className="font-mono">
+                          #{orderReturn.order_id}
+                        </TableCell>
+                        <TableCell>
+                          {orderReturn.order?.customer_name || "-"}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {getReturnItemsSummary(orderReturn)}
+                        </TableCell>
+                        <TableCell>
+                          <ReturnStatusBadge status={orderReturn.status} />
+                        </TableCell>
+                        <TableCell>
+                          {new Date(orderReturn.created_at).toLocaleDateString(
+                            "ko-KR",
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 flex-wrap">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedReturn(orderReturn)}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {nextStatuses.map((status) => (
+                              <Button
+                                key={status}
+                                variant={
+                                  status === "rejected"
+                                    ? "outline"
+                                    : "secondary"
+                                }
+                                size="sm"
+                                disabled={isProcessing}
+                                onClick={() =>
+                                  setPendingStatusChange({
+                                    orderReturn,
+                                    status,
+                                  })
+                                }
+                              >
+                                {status === "approved"
+                                  ? "승인"
+                                  : status === "received"
+                                    ? "회수 완료"
+                                    : "거절"}
+                              </Button>
+                            ))}
+                            {orderReturn.status === "received" && (
+                              <Button
+                                size="sm"
+                                disabled={isProcessing}
+                                onClick={() => setRefundTarget(orderReturn)}
+                              >
+                                환불
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ReturnDetailDialog
+        orderReturn={selectedReturn}
+        onClose={() => setSelectedReturn(null)}
+      />
+
+      <ReturnStatusDialog
+        change={pendingStatusChange}
+        isUpdating={isProcessing}
+        onConfirm={handleStatusUpdate}
+        onClose={() => setPendingStatusChange(null)}
+      />
+
+      <ReturnRefundDialog
+        orderReturn={refundTarget}
+        isRefunding={isProcessing}
+        onConfirm={handleRefund}
+        onClose={() => setRefundTarget(null)}
+      />
+    </div>
+  );
+}
@@ -103,6 +103,7 @@ export function CartContainer({ cartSummary }: CartContainerProps) {
         {/* 주문 요약 */}
         <div className="lg:col-span-1">
           <CartSummary 
+            items={items}
             totalItems={totalItems}
             totalAmount={totalAmount}
           />
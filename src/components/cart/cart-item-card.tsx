@@ -17,6 +17,8 @@
  * - next/image: 이미지 최적화
  * - @/components/ui: ShadcnUI 컴포넌트
  * - @/hooks/use-cart: 최적화된 장바구니 hooks
+ * - @/lib/pricing: 현재 판매가 (세일가 반영)
+ * - @/lib/variants: 옵션 라벨
  * - lucide-react: 아이콘
  */
 
@@ -36,6 +38,8 @@ import {
 } from "lucide-react";
 import type { CartItem } from "@/actions/cart";
 import { formatPrice } from "@/lib/utils";
+import { getProductPricing } from "@/lib/pricing";
+import { getVariantLabel } from "@/lib/variants";
 import { useUpdateCartQuantity, useRemoveFromCart } from "@/hooks/use-cart";
 
 interface CartItemCardProps {
@@ -43,10 +47,18 @@ interface CartItemCardProps {
 }
 
 export function CartItemCard({ item }: CartItemCardProps) {
-  const { product, quantity } = item;
-  const totalPrice = product.price * quantity;
-  const isLowStock = product.stock_quantity <= 5 && product.stock_quantity > 0;
-  const isOutOfStock = product.stock_quantity <= 0;
+  const { product, variant, quantity } = item;
+  const pricing = getProductPricing(product);
+  // 옵션 상품은 옵션 추가 금액과 옵션 재고 사용 (판매 중지된 옵션은 품절로 표시)
+  const priceDelta = variant?.price_delta ?? 0;
+  const unitPrice = pricing.currentPrice + priceDelta;
+  const totalPrice = unitPrice * quantity;
+  const stockQuantity = variant
+    ? (variant.is_active ? variant.stock_quantity : 0)
+    : product.stock_quantity;
+  const variantLabel = variant ? getVariantLabel(variant.options, product.option_names) : null;
+  const isLowStock = stockQuantity <= 5 && stockQuantity > 0;
+  const isOutOfStock = stockQuantity <= 0;
 
   // TanStack Query mutations
   const updateQuantityMutation = useUpdateCartQuantity();
@@ -56,8 +68,8 @@ export function CartItemCard({ item }: CartItemCardProps) {
 
   // 수량 증가
   const increaseQuantity = () => {
-    if (quantity >= product.stock_quantity) {
-      console.warn(`재고가 부족합니다. (최대 ${product.stock_quantity}개)`);
+    if (quantity >= stockQuantity) {
+      console.warn(`재고가 부족합니다. (최대 ${stockQuantity}개)`);
       return;
     }
 
@@ -149,8 +161,16 @@ export function CartItemCard({ item }: CartItemCardProps) {
                 <h3 className="font-semibold text-gray-900 truncate">
                   {product.name}
                 </h3>
+                {variantLabel && (
+                  <p className="text-sm text-gray-500 truncate">{variantLabel}</p>
+                )}
                 <p className="text-sm text-gray-600">
-                  개당 {formatPrice(product.price)}원
+                  개당 {formatPrice(unitPrice)}원
+                  {pricing.isOnSale && (
+                    <span className="ml-2 text-gray-400 line-through">
+                      {formatPrice(pricing.listPrice + priceDelta)}원
+                    </span>
+                  )}
                 </p>
                 
                 {/* 재고 상태 */}
@@ -164,7 +184,7 @@ export function CartItemCard({ item }: CartItemCardProps) {
                   {isLowStock && !isOutOfStock && (
                     <Badge variant="outline" className="text-xs bg-yellow-100 text-yellow-800 border-yellow-200">
                       <AlertTriangle className="h-3 w-3 mr-1" />
-                      재고 부족 ({product.stock_quantity}개 남음)
+                      재고 부족 ({stockQuantity}개 남음)
                     </Badge>
                   )}
                 </div>
@@ -177,7 +197,7 @@ export function CartItemCard({ item }: CartItemCardProps) {
                 </div>
                 {quantity > 1 && (
                   <div className="text-sm text-gray-500">
-                    {formatPrice(product.price)} × {quantity}
+                    {formatPrice(unitPrice)} × {quantity}
                   </div>
                 )}
               </div>
@@ -209,7 +229,7 @@ export function CartItemCard({ item }: CartItemCardProps) {
                   variant="outline"
                   size="sm"
                   onClick={increaseQuantity}
-                  disabled={quantity >= product.stock_quantity || isProcessing || isOutOfStock}
+                  disabled={quantity >= stockQuantity || isProcessing || isOutOfStock}
                   className="h-8 w-8 p-0"
                 >
                   {isUpdating ? (
@@ -240,7 +260,9 @@ export function CartItemCard({ item }: CartItemCardProps) {
             {/* 재고 부족 경고 */}
             {isOutOfStock && (
               <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-800">
-                이 상품은 현재 품절 상태입니다. 주문 시 제외됩니다.
+                {variant && !variant.is_active
+                  ? "판매가 중지된 옵션입니다. 주문 시 제외됩니다."
+                  : "이 상품은 현재 품절 상태입니다. 주문 시 제외됩니다."}
               </div>
             )}
           </div>
@@ -7,15 +7,17 @@
  * 주요 기능:
  * 1. 총 아이템 수 표시
  * 2. 상품 총액 계산 및 표시
- * 3. 배송비 정보 (무료배송)
+ * 3. 배송비 계산 및 무료배송까지 남은 금액 안내
  * 4. 최종 결제 금액 계산
  * 5. 주문하기 버튼
- * 6. 할인 혜택 정보 (향후 확장)
+ * 6. 할인 혜택 안내 (쿠폰은 주문서에서 적용)
  *
  * @dependencies
  * - @/components/ui: ShadcnUI 컴포넌트
  * - lucide-react: 아이콘
  * - next/link: 페이지 네비게이션
+ * - @/lib/shipping: 배송비 계산
+ * - @/lib/variants: 옵션 판매가 (세일가 + 옵션 추가 금액)
  */
 
 "use client";
@@ -23,17 +25,25 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CreditCard, Package, CheckCircle } from "lucide-react";
+import { CreditCard, Package, CheckCircle, Truck } from "lucide-react";
 import Link from "next/link";
 import { formatPrice } from "@/lib/utils";
+import { calculateShippingFee, SHIPPING_POLICY } from "@/lib/shipping";
 import { useState } from "react";
+import type { CartItem } from "@/actions/cart";
+import { getVariantPrice } from "@/lib/variants";
 
 interface CartSummaryProps {
+  items: CartItem[];
   totalItems: number;
   totalAmount: number;
 }
 
-export function CartSummary({ totalItems, totalAmount }: CartSummaryProps) {
+export function CartSummary({
+  items,
+  totalItems,
+  totalAmount,
+}: CartSummaryProps) {
   const [isNavigating, setIsNavigating] = useState(false);
 
   console.log("💰 CartSummary 렌더링:", {
@@ -42,10 +52,15 @@ export function CartSummary({ totalItems, totalAmount }: CartSummaryProps) {
     isNavigating,
   });
 
-  // 배송비 계산 (50,000원 이상 무료배송)
-  const shippingThreshold = 50000;
-  const shippingFee = totalAmount >= shippingThreshold ? 0 : 3000;
-  const finalAmount = totalAmount + shippingFee;
+  // 배송비 계산 (배송지를 모르므로 제주/도서산간 추가 배송비는 주문서에서 계산)
+  const shipping = calculateShippingFee(
+    items.map((item) => ({
+      price: getVariantPrice(item.product, item.variant),
+      quantity: item.quantity,
+      shippingClass: item.product.shipping_class,
+    })),
+  );
+  const finalAmount = totalAmount + shipping.total;
 
   // 주문하기 버튼 클릭 핸들러
   const handleCheckoutClick = () => {
@@ -77,9 +92,24 @@ export function CartSummary({ totalItems, totalAmount }: CartSummaryProps) {
 
           <div className="flex justify-between">
             <span className="text-gray-600">배송비</span>
-            <span className="text-green-600 font-medium">무료</span>
+            {shipping.total === 0 ? (
+              <span className="text-green-600 font-medium">무료</span>
+            ) : (
+              <span className="font-medium">
+                {formatPrice(shipping.total)}원
+              </span>
+            )}
           </div>
 
+          {shipping.bulkyFee > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">└ 대형 상품 추가 배송비</span>
+              <span className="text-gray-500">
+                {formatPrice(shipping.bulkyFee)}원
+              </span>
+            </div>
+          )}
+
           <div className="border-t border-gray-200 my-3"></div>
 
           <div className="flex justify-between text-lg">
@@ -90,14 +120,29 @@ export function CartSummary({ totalItems, totalAmount }: CartSummaryProps) {
           </div>
         </div>
 
-        {/* 혜택 정보 */}
-        <div className="mb-6 p-3 bg-green-50 rounded-lg border border-green-200">
-          <div className="flex items-center gap-2 text-green-700">
-            <CheckCircle className="h-4 w-4" />
-            <span className="text-sm font-medium">무료배송 혜택</span>
+        {/* 무료배송 안내 */}
+        {shipping.amountUntilFreeShipping > 0 ? (
+          <div className="mb-6 p-3 bg-orange-50 rounded-lg border border-orange-200">
+            <div className="flex items-center gap-2 text-orange-700">
+              <Truck className="h-4 w-4" />
+              <span className="text-sm font-medium">
+                {`${formatPrice(shipping.amountUntilFreeShipping)}원 더 담으면 무료배송`}
+              </span>
+            </div>
           </div>
-          <p className="text-xs text-green-600 mt-1">전 상품 배송비 무료!</p>
-        </div>
+        ) : (
+          shipping.baseFee === 0 && (
+            <div className="mb-6 p-3 bg-green-50 rounded-lg border border-green-200">
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="h-4 w-4" />
+                <span className="text-sm font-medium">무료배송 혜택</span>
+              </div>
+              <p className="text-xs text-green-600 mt-1">
+                기본 배송비가 무료로 적용됩니다.
+              </p>
+            </div>
+          )
+        )}
 
         {/* 액션 버튼들 */}
         <div className="space-y-3">
@@ -131,25 +176,29 @@ export function CartSummary({ totalItems, totalAmount }: CartSummaryProps) {
           <CardContent className="p-4">
             <h4 className="font-medium mb-3 text-gray-900">이용 안내</h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>• 50,000원 이상 주문 시 무료배송</li>
+              <li>
+                {`• ${formatPrice(SHIPPING_POLICY.freeShippingThreshold)}원 이상 주문 시 무료배송`}
+              </li>
               <li>• 평일 오후 2시 이전 주문 시 당일 발송</li>
               <li>• 배송기간: 1-2일 (공휴일 제외)</li>
-              <li>• 제주도/도서산간 지역 추가 배송비 발생</li>
+              <li>
+                {`• 제주 ${formatPrice(SHIPPING_POLICY.jejuSurcharge)}원, 도서산간 ${formatPrice(SHIPPING_POLICY.islandSurcharge)}원 추가 배송비 발생`}
+              </li>
             </ul>
           </CardContent>
         </Card>
 
-        {/* 추가 혜택 (향후 확장용) */}
+        {/* 할인 혜택 안내 */}
         <Card className="border-dashed border-2 border-gray-200">
           <CardContent className="p-4 text-center">
             <div className="text-gray-500 mb-2">
               <Package className="h-6 w-6 mx-auto mb-1" />
             </div>
             <p className="text-sm text-gray-600 mb-2">
-              회원가입하고 추가 혜택을 받아보세요!
+              할인 쿠폰이 있으신가요?
             </p>
             <Badge variant="outline" className="text-xs">
-              첫 주문 시 5% 할인 (준비 중)
+              주문서에서 쿠폰 코드를 입력하세요
             </Badge>
           </CardContent>
         </Card>
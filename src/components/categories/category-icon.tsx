@@ -0,0 +1,61 @@
+/**
+ * @file category-icon.tsx
+ * @description 카테고리 아이콘 (categories.icon 값을 lucide 아이콘으로 표시)
+ *
+ * @dependencies
+ * - @/lib/categories: 카테고리 아이콘 값 타입
+ * - lucide-react: 아이콘
+ */
+
+import type { CategoryIconName } from "@/lib/categories";
+import {
+  Baby,
+  BookOpen,
+  Camera,
+  Dumbbell,
+  Gamepad2,
+  Gift,
+  Grid3X3,
+  HeartPulse,
+  Laptop,
+  Package,
+  PawPrint,
+  Shirt,
+  Smartphone,
+  Sofa,
+  Sparkles,
+  Utensils,
+  Watch,
+  type LucideIcon,
+} from "lucide-react";
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  smartphone: Smartphone,
+  laptop: Laptop,
+  camera: Camera,
+  shirt: Shirt,
+  watch: Watch,
+  sparkles: Sparkles,
+  sofa: Sofa,
+  dumbbell: Dumbbell,
+  "book-open": BookOpen,
+  utensils: Utensils,
+  "heart-pulse": HeartPulse,
+  baby: Baby,
+  "paw-print": PawPrint,
+  gamepad: Gamepad2,
+  gift: Gift,
+  package: Package,
+};
+
+// 아이콘이 없거나 알 수 없는 값이면 기본 아이콘 표시
+export function CategoryIcon({
+  icon,
+  className,
+}: {
+  icon: string | null;
+  className?: string;
+}) {
+  const Icon = (icon && ICONS[icon as CategoryIconName]) || Grid3X3;
+  return <Icon className={className} aria-hidden="true" />;
+}
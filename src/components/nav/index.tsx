@@ -9,3 +9,4 @@ export { Navbar } from "./navbar";
 export { MobileMenu } from "./mobile-menu";
 export { default as DesktopMenu } from "./desktop-menu";
 export { default as UserNav } from "./user-nav";
+export { SearchPalette } from "./search-palette";
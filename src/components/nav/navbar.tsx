@@ -5,6 +5,7 @@
  * 이 컴포넌트는 반응형 디자인에 맞게 데스크탑과 모바일 뷰를 통합합니다.
  * - 모바일: 햄버거 메뉴와 로고만 표시
  * - 데스크탑: 전체 네비게이션 메뉴와 사용자 정보 표시
+ * - 공통: 검색 팔레트 버튼 (⌘K)
  */
 
 "use client";
@@ -12,6 +13,7 @@
 import Link from "next/link";
 import { MobileMenu } from "./mobile-menu";
 import DesktopMenu from "./desktop-menu";
+import { SearchPalette } from "./search-palette";
 
 export function Navbar() {
   return (
@@ -27,8 +29,13 @@ export function Navbar() {
           </Link>
         </div>
 
-        {/* 데스크탑 메뉴 */}
-        <DesktopMenu />
+        <div className="flex items-center gap-2 md:gap-4">
+          {/* 검색 팔레트 */}
+          <SearchPalette />
+
+          {/* 데스크탑 메뉴 */}
+          <DesktopMenu />
+        </div>
       </div>
     </header>
   );
@@ -0,0 +1,337 @@
+/**
+ * @file search-palette.tsx
+ * @description 쇼핑몰 전체에서 쓰는 검색 팔레트 컴포넌트
+ *
+ * 네비게이션 바의 검색 버튼이나 ⌘K(Windows는 Ctrl+K)로 열고,
+ * 입력하는 동안 상품과 카테고리를 바로 보여줍니다.
+ *
+ * 주요 기능:
+ * 1. 입력 중 상품 제안(썸네일, 판매가)과 카테고리 바로가기
+ * 2. 검색어가 없을 때 최근 검색어, 인기 검색어, 카테고리 바로가기 표시
+ * 3. 검색어로 상품 목록 보기 (홈 화면 검색 결과로 이동)
+ * 4. 최근 검색어 삭제
+ *
+ * 구현 로직:
+ * - 검색 제안은 서버 액션 결과를 그대로 보여주므로 cmdk 자체 필터링은 끔
+ * - 디바운싱과 결과 캐시는 useSearchSuggestions 훅(TanStack Query)에서 처리
+ * - 홈 화면에 있을 때는 페이지 이동 없이 이벤트로 상품 목록 상태만 바꿈
+ *
+ * @dependencies
+ * - @/components/ui/command: cmdk 기반 명령 팔레트 UI
+ * - @/hooks/use-search-suggestions: 검색 제안, 인기 검색어 조회
+ * - @/hooks/use-recent-searches: 최근 검색어 (localStorage)
+ * - @/actions/search: 검색어 기록 서버 액션
+ * - @/lib/product-filters: 상품 목록 주소와 이동 이벤트
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { usePathname, useRouter } from "next/navigation";
+import {
+  ArrowRight,
+  Clock,
+  Loader2,
+  Package,
+  Search,
+  TrendingUp,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { CategoryIcon } from "@/components/categories/category-icon";
+import { HighlightedText } from "@/components/products/highlighted-text";
+import {
+  usePopularSearches,
+  useSearchSuggestions,
+} from "@/hooks/use-search-suggestions";
+import { useRecentSearches } from "@/hooks/use-recent-searches";
+import { recordSearchQuery } from "@/actions/search";
+import {
+  getProductListHref,
+  PRODUCT_LIST_NAVIGATE_EVENT,
+  type ProductListParams,
+} from "@/lib/product-filters";
+import { getProductPricing } from "@/lib/pricing";
+
+export function SearchPalette() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const trimmedQuery = query.trim();
+
+  const {
+    data: suggestions,
+    isPending,
+    isError,
+  } = useSearchSuggestions(query, open);
+  const { data: popularSearches = [] } = usePopularSearches(open);
+  const { recentSearches, addSearch, removeSearch, clearSearches } =
+    useRecentSearches();
+
+  // ⌘K / Ctrl+K로 열고 닫기
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // 닫을 때 입력값 초기화
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setQuery("");
+  };
+
+  // 상품 목록(홈 화면)으로 이동 (이미 홈 화면이면 목록 상태만 변경)
+  const navigateToProductList = (params: Partial<ProductListParams>) => {
+    handleOpenChange(false);
+
+    if (pathname === "/") {
+      window.dispatchEvent(
+        new CustomEvent(PRODUCT_LIST_NAVIGATE_EVENT, { detail: params }),
+      );
+      return;
+    }
+
+    router.push(getProductListHref(params));
+  };
+
+  // 검색어 기록 (최근 검색어 + 인기 검색어 집계)
+  const rememberSearch = (term: string) => {
+    addSearch(term);
+    recordSearchQuery(term).catch((error) =>
+      console.error("검색어 기록 실패:", error),
+    );
+  };
+
+  const handleSearch = (term: string) => {
+    console.log("🔍 검색 팔레트 검색:", term);
+    rememberSearch(term);
+    navigateToProductList({ category: "all", search: term });
+  };
+
+  const handleProductSelect = (productId: number) => {
+    console.log("🔍 검색 팔레트 상품 선택:", productId);
+    if (trimmedQuery) rememberSearch(trimmedQuery);
+    handleOpenChange(false);
+    router.push(`/products/${productId}`);
+  };
+
+  const handleCategorySelect = (slug: string) => {
+    console.log("🔍 검색 팔레트 카테고리 선택:", slug);
+    navigateToProductList({ category: slug, search: "" });
+  };
+
+  const products = trimmedQuery ? (suggestions?.products ?? []) : [];
+  const categories = suggestions?.categories ?? [];
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-gray-500 border-gray-200 gap-2 md:w-56 md:justify-start"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">상품 검색</span>
+        <kbd className="hidden md:inline-flex ml-auto items-center rounded border bg-gray-50 px-1.5 font-mono text-[10px] text-gray-500">
+          ⌘K
+        </kbd>
+        <span className="sr-only md:hidden">상품 검색 열기</span>
+      </Button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title="상품 검색"
+        description="상품명, 카테고리로 검색하세요"
+        shouldFilter={false}
+      >
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="상품명 또는 카테고리로 검색..."
+        />
+        <CommandList className="max-h-[420px]">
+          <CommandEmpty>검색어를 입력해주세요</CommandEmpty>
+
+          {trimmedQuery ? (
+            <>
+              {/* 검색어로 상품 목록 보기 */}
+              <CommandGroup>
+                <CommandItem
+                  value={`search:${trimmedQuery}`}
+                  onSelect={() => handleSearch(trimmedQuery)}
+                >
+                  <Search />
+                  <span>
+                    <span className="font-medium">{trimmedQuery}</span> 검색
+                    결과 보기
+                  </span>
+                  {isPending ? (
+                    <Loader2 className="ml-auto animate-spin" />
+                  ) : (
+                    <ArrowRight className="ml-auto" />
+                  )}
+                </CommandItem>
+              </CommandGroup>
+
+              {/* 상품 제안 */}
+              {products.length > 0 && (
+                <CommandGroup heading="상품">
+                  {products.map((product) => {
+                    const pricing = getProductPricing(product);
+
+                    return (
+                      <CommandItem
+                        key={product.id}
+                        value={`product:${product.id}`}
+                        onSelect={() => handleProductSelect(product.id)}
+                      >
+                        <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded bg-gray-100">
+                          {product.image_url ? (
+                            <Image
+                              src={product.image_url}
+                              alt={product.name}
+                              fill
+                              className="object-cover"
+                              sizes="40px"
+                            />
+                          ) : (
+                            <div className="flex h-full w-full items-center justify-center">
+                              <Package className="text-gray-400" />
+                            </div>
+                          )}
+                        </div>
+                        <HighlightedText
+                          text={product.name}
+                          query={trimmedQuery}
+                          className="flex-1 truncate"
+                        />
+                        <span className="ml-auto shrink-0 text-right">
+                          {pricing.isOnSale && (
+                            <span className="mr-1 text-xs text-gray-400 line-through">
+                              {pricing.listPrice.toLocaleString()}원
+                            </span>
+                          )}
+                          <span className="font-medium">
+                            {pricing.currentPrice.toLocaleString()}원
+                          </span>
+                        </span>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              )}
+
+              {!isPending && !isError && products.length === 0 && (
+                <p className="px-4 py-3 text-sm text-gray-500">
+                  일치하는 상품이 없습니다.
+                </p>
+              )}
+              {isError && (
+                <p className="px-4 py-3 text-sm text-red-500">
+                  검색 제안을 불러오지 못했습니다. 검색 결과 보기로 찾아보세요.
+                </p>
+              )}
+            </>
+          ) : (
+            <>
+              {/* 최근 검색어 */}
+              {recentSearches.length > 0 && (
+                <CommandGroup heading="최근 검색어">
+                  {recentSearches.map((term) => (
+                    <CommandItem
+                      key={term}
+                      value={`recent:${term}`}
+                      onSelect={() => handleSearch(term)}
+                    >
+                      <Clock />
+                      <span className="flex-1 truncate">{term}</span>
+                      <button
+                        type="button"
+                        className="ml-auto rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-gray-700"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          removeSearch(term);
+                        }}
+                        aria-label={`${term} 삭제`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </CommandItem>
+                  ))}
+                  <CommandItem
+                    value="recent:clear"
+                    onSelect={clearSearches}
+                    className="text-xs text-gray-500"
+                  >
+                    최근 검색어 전체 삭제
+                  </CommandItem>
+                </CommandGroup>
+              )}
+
+              {/* 인기 검색어 */}
+              {popularSearches.length > 0 && (
+                <CommandGroup heading="인기 검색어">
+                  {popularSearches.map((term, index) => (
+                    <CommandItem
+                      key={term}
+                      value={`popular:${term}`}
+                      onSelect={() => handleSearch(term)}
+                    >
+                      <TrendingUp />
+                      <span className="flex-1 truncate">{term}</span>
+                      <CommandShortcut>{index + 1}</CommandShortcut>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </>
+          )}
+
+          {/* 카테고리 바로가기 */}
+          {categories.length > 0 && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="카테고리">
+                {categories.map((category) => (
+                  <CommandItem
+                    key={category.slug}
+                    value={`category:${category.slug}`}
+                    onSelect={() => handleCategorySelect(category.slug)}
+                  >
+                    <CategoryIcon icon={category.icon} />
+                    <HighlightedText
+                      text={category.label}
+                      query={trimmedQuery}
+                      className="flex-1 truncate"
+                    />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
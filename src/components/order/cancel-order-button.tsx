@@ -0,0 +1,153 @@
+/**
+ * @file cancel-order-button.tsx
+ * @description 주문 취소 버튼 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 배송 전(주문 접수/주문 확인) 주문에만 취소 버튼 표시
+ * 2. 취소 확인 다이얼로그 및 취소 사유 입력
+ * 3. 취소 완료 후 목록 새로고침 또는 페이지 갱신
+ *
+ * @dependencies
+ * - @/actions/orders: 주문 취소 서버 액션
+ * - @/constants/order-status: 취소 가능 상태 확인
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { cancelOrder } from "@/actions/orders";
+import { isOrderCancellable } from "@/constants/order-status";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { XCircle } from "lucide-react";
+
+interface CancelOrderButtonProps {
+  orderId: number;
+  status: string;
+  onCancelled?: () => void;
+  className?: string;
+}
+
+export function CancelOrderButton({
+  orderId,
+  status,
+  onCancelled,
+  className,
+}: CancelOrderButtonProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOrderCancellable(status)) return null;
+
+  const handleCancel = async (event: React.MouseEvent) => {
+    // 처리 중에는 다이얼로그가 닫히지 않도록 기본 동작 막기
+    event.preventDefault();
+
+    console.group("🚫 주문 취소 요청");
+    console.log("주문 ID:", orderId);
+
+    try {
+      setIsCancelling(true);
+      setError(null);
+
+      await cancelOrder(orderId, reason);
+
+      console.log("✅ 주문 취소 완료");
+      setIsOpen(false);
+      setReason("");
+
+      if (onCancelled) {
+        onCancelled();
+      } else {
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("주문 취소 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "주문 취소 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsCancelling(false);
+      console.groupEnd();
+    }
+  };
+
+  return (
+    <AlertDialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (isCancelling) return;
+        setIsOpen(open);
+        if (!open) setError(null);
+      }}
+    >
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            "text-red-600 hover:text-red-700 hover:bg-red-50",
+            className,
+          )}
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          주문 취소
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>주문 취소 확인</AlertDialogTitle>
+          <AlertDialogDescription>
+            주문 #{orderId}을 취소하시겠습니까?
+            <br />
+            취소된 주문은 다시 되돌릴 수 없습니다.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor={`cancelReason-${orderId}`}>취소 사유 (선택)</Label>
+          <Textarea
+            id={`cancelReason-${orderId}`}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="예: 단순 변심, 주소 변경 등"
+            maxLength={200}
+            rows={3}
+            disabled={isCancelling}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isCancelling}>닫기</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            {isCancelling ? "취소 중..." : "주문 취소"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * @file order-status-badge.tsx
+ * @description 주문 상태 배지 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 주문 상태별 라벨, 색상, 아이콘 표시
+ *
+ * @dependencies
+ * - @/constants/order-status: 주문 상태 목록
+ * - @/components/ui/badge: ShadcnUI 배지
+ */
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Clock,
+  CheckCircle2,
+  Truck,
+  Package,
+  AlertCircle,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  getOrderStatusLabel,
+  isValidOrderStatus,
+  type OrderStatus,
+} from "@/constants/order-status";
+
+// 상태별 배지 스타일
+const STATUS_STYLES: Record<
+  OrderStatus,
+  {
+    variant: "default" | "secondary" | "destructive" | "outline";
+    icon: LucideIcon;
+  }
+> = {
+  pending: { variant: "outline", icon: Clock },
+  confirmed: { variant: "secondary", icon: CheckCircle2 },
+  shipping: { variant: "default", icon: Truck },
+  delivered: { variant: "secondary", icon: Package },
+  cancelled: { variant: "destructive", icon: AlertCircle },
+};
+
+// 상태별 아이콘 (상태 변경 메뉴 등에서 사용)
+export function getOrderStatusIcon(status: string): LucideIcon {
+  return isValidOrderStatus(status) ? STATUS_STYLES[status].icon : Clock;
+}
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  const style = isValidOrderStatus(status)
+    ? STATUS_STYLES[status]
+    : STATUS_STYLES.pending;
+  const Icon = style.icon;
+
+  return (
+    <Badge variant={style.variant} className="flex items-center gap-1">
+      <Icon className="h-3 w-3" />
+      {getOrderStatusLabel(status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,298 @@
+/**
+ * @file order-status-timeline.tsx
+ * @description 주문 진행 타임라인 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 주문 상태 변경 이력(order_status_history)으로 단계별 진행 시각 표시
+ * 2. 아직 진행되지 않은 단계의 예상일과 안내 문구 표시
+ * 3. 취소된 주문은 취소 시각과 사유 표시
+ * 4. 주문 목록용 간단한 가로형 표시 (compact)
+ *
+ * @dependencies
+ * - @/constants/order-status: 주문 진행 순서와 단계별 예상 일수
+ * - @/components/order/order-status-badge: 상태별 아이콘
+ * - @/actions/orders: 주문 상태 변경 이력 타입
+ */
+
+import { cn } from "@/lib/utils";
+import type { OrderStatusEvent } from "@/actions/orders";
+import { getOrderStatusIcon } from "@/components/order/order-status-badge";
+import {
+  ORDER_PROGRESS_STEPS,
+  ORDER_STATUS_ESTIMATED_DAYS,
+  getOrderStatusLabel,
+  type OrderStatus,
+} from "@/constants/order-status";
+
+// 단계별 안내 문구 (완료 전 / 완료 후)
+const STEP_DESCRIPTIONS: Record<
+  OrderStatus,
+  { upcoming: string; done: string }
+> = {
+  pending: {
+    upcoming: "주문이 접수되면 판매자에게 전달됩니다",
+    done: "주문이 접수되었습니다",
+  },
+  confirmed: {
+    upcoming: "판매자가 주문을 확인하고 상품을 준비합니다",
+    done: "판매자가 주문을 확인했습니다",
+  },
+  shipping: {
+    upcoming: "상품이 택배사에 전달되면 배송이 시작됩니다",
+    done: "상품이 배송 중입니다",
+  },
+  delivered: {
+    upcoming: "상품이 배송지에 도착하면 배송이 완료됩니다",
+    done: "상품이 배송지에 도착했습니다",
+  },
+  cancelled: {
+    upcoming: "",
+    done: "주문이 취소되었습니다",
+  },
+};
+
+// 타임라인 단계
+export interface OrderTimelineStep {
+  status: OrderStatus;
+  state: "done" | "current" | "upcoming" | "cancelled";
+  occurredAt: Date | null; // 실제로 해당 상태가 된 시각
+  estimatedAt: Date | null; // 아직 진행되지 않은 단계의 예상일
+  description: string;
+  reason: string | null; // 취소 사유
+}
+
+/**
+ * 주문 상태와 상태 변경 이력으로 타임라인 단계 목록 생성
+ *
+ * - 이력이 없는 단계는 직전 단계 시각(또는 오늘)에 예상 일수를 더해 예상일을 계산합니다.
+ * - 예상일이 이미 지났으면 오늘로 표시합니다.
+ * - 취소된 주문은 취소 전까지 진행된 단계와 취소 단계만 표시합니다.
+ */
+export function buildOrderTimeline({
+  status,
+  createdAt,
+  history,
+}: {
+  status: string;
+  createdAt: string;
+  history: OrderStatusEvent[];
+}): OrderTimelineStep[] {
+  // 상태별 마지막 변경 시각 (주문 접수 이력이 없으면 주문일시 사용)
+  const eventsByStatus = new Map<string, OrderStatusEvent>();
+  history.forEach((event) => eventsByStatus.set(event.to_status, event));
+
+  const getOccurredAt = (step: string): Date | null => {
+    const event = eventsByStatus.get(step);
+    if (event) return new Date(event.created_at);
+    return step === "pending" ? new Date(createdAt) : null;
+  };
+
+  const isCancelled = status === "cancelled";
+  const currentIndex = isCancelled
+    ? -1
+    : ORDER_PROGRESS_STEPS.findIndex((step) => step === status);
+
+  const today = new Date();
+  let lastDate = new Date(createdAt);
+  const steps: OrderTimelineStep[] = [];
+
+  for (const [index, step] of ORDER_PROGRESS_STEPS.entries()) {
+    const stepAt = getOccurredAt(step);
+    const isReached = isCancelled ? !!stepAt : index <= currentIndex;
+
+    if (isReached) {
+      if (stepAt) lastDate = stepAt;
+      steps.push({
+        status: step,
+        state: !isCancelled && index === currentIndex ? "current" : "done",
+        occurredAt: stepAt,
+        estimatedAt: null,
+        description: STEP_DESCRIPTIONS[step].done,
+        reason: null,
+      });
+      continue;
+    }
+
+    // 취소된 주문은 이후 단계를 표시하지 않음
+    if (isCancelled) break;
+
+    const estimatedAt = new Date(lastDate);
+    estimatedAt.setDate(
+      estimatedAt.getDate() + (ORDER_STATUS_ESTIMATED_DAYS[step] ?? 1),
+    );
+    lastDate = estimatedAt < today ? today : estimatedAt;
+
+    steps.push({
+      status: step,
+      state: "upcoming",
+      occurredAt: null,
+      estimatedAt: lastDate,
+      description: STEP_DESCRIPTIONS[step].upcoming,
+      reason: null,
+    });
+  }
+
+  if (isCancelled) {
+    const cancelEvent = eventsByStatus.get("cancelled");
+    steps.push({
+      status: "cancelled",
+      state: "cancelled",
+      occurredAt: cancelEvent ? new Date(cancelEvent.created_at) : null,
+      estimatedAt: null,
+      description: STEP_DESCRIPTIONS.cancelled.done,
+      reason: cancelEvent?.reason ?? null,
+    });
+  }
+
+  return steps;
+}
+
+// 날짜 표시 (예: 6월 12일 오후 03:20)
+function formatStepDate(date: Date, withTime: boolean): string {
+  return date.toLocaleDateString("ko-KR", {
+    month: "long",
+    day: "numeric",
+    ...(withTime && { hour: "2-digit", minute: "2-digit" }),
+  });
+}
+
+// 단계 상태별 아이콘 색상
+const STEP_STATE_STYLES: Record<OrderTimelineStep["state"], string> = {
+  done: "bg-green-100 text-green-700 border-green-200",
+  current: "bg-orange-500 text-white border-orange-500",
+  upcoming: "bg-white text-gray-400 border-dashed border-gray-300",
+  cancelled: "bg-red-100 text-red-700 border-red-200",
+};
+
+export function OrderStatusTimeline({
+  status,
+  createdAt,
+  history,
+  compact = false,
+  className,
+}: {
+  status: string;
+  createdAt: string;
+  history: OrderStatusEvent[];
+  compact?: boolean; // 주문 목록용 가로형 표시
+  className?: string;
+}) {
+  const steps = buildOrderTimeline({ status, createdAt, history });
+
+  // 주문 목록용: 단계 이름과 날짜만 가로로 표시
+  if (compact) {
+    return (
+      <ol className={cn("flex items-start", className)}>
+        {steps.map((step, index) => {
+          const Icon = getOrderStatusIcon(step.status);
+          const date = step.occurredAt ?? step.estimatedAt;
+
+          return (
+            <li
+              key={step.status}
+              className="flex-1 flex flex-col items-center text-center relative"
+            >
+              {index > 0 && (
+                <span
+                  className={cn(
+                    "absolute top-3 right-1/2 w-full border-t",
+                    step.state === "upcoming"
+                      ? "border-dashed border-gray-300"
+                      : "border-gray-300",
+                  )}
+                  aria-hidden
+                />
+              )}
+              <span
+                className={cn(
+                  "relative z-10 flex h-6 w-6 items-center justify-center rounded-full border",
+                  STEP_STATE_STYLES[step.state],
+                )}
+              >
+                <Icon className="h-3 w-3" />
+              </span>
+              <span
+                className={cn(
+                  "mt-1 text-xs",
+                  step.state === "upcoming" ? "text-gray-400" : "font-medium",
+                )}
+              >
+                {getOrderStatusLabel(step.status)}
+              </span>
+              {date && (
+                <span className="text-[11px] text-gray-500">
+                  {step.state === "upcoming"
+                    ? `${formatStepDate(date, false)} 예정`
+                    : formatStepDate(date, false)}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  }
+
+  return (
+    <ol className={cn("space-y-0", className)}>
+      {steps.map((step, index) => {
+        const Icon = getOrderStatusIcon(step.status);
+        const isLast = index === steps.length - 1;
+
+        return (
+          <li key={step.status} className="flex gap-4">
+            {/* 아이콘과 연결선 */}
+            <div className="flex flex-col items-center">
+              <span
+                className={cn(
+                  "flex h-8 w-8 shrink-0 items-center justify-center rounded-full border",
+                  STEP_STATE_STYLES[step.state],
+                )}
+              >
+                <Icon className="h-4 w-4" />
+              </span>
+              {!isLast && (
+                <span
+                  className={cn(
+                    "w-px flex-grow min-h-6 border-l",
+                    steps[index + 1].state === "upcoming"
+                      ? "border-dashed border-gray-300"
+                      : "border-gray-300",
+                  )}
+                  aria-hidden
+                />
+              )}
+            </div>
+
+            {/* 단계 정보 */}
+            <div className={cn("pb-6", isLast && "pb-0")}>
+              <p
+                className={cn(
+                  "font-medium",
+                  step.state === "upcoming" && "text-gray-400",
+                  step.state === "cancelled" && "text-red-700",
+                )}
+              >
+                {getOrderStatusLabel(step.status)}
+              </p>
+              <p className="text-sm text-gray-600">{step.description}</p>
+              {step.reason && (
+                <p className="text-sm text-gray-600">사유: {step.reason}</p>
+              )}
+              {step.occurredAt && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatStepDate(step.occurredAt, true)}
+                </p>
+              )}
+              {step.estimatedAt && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {`${formatStepDate(step.estimatedAt, false)}까지 예정`}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
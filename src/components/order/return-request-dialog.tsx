@@ -0,0 +1,427 @@
+/**
+ * @file return-request-dialog.tsx
+ * @description 반품 신청 다이얼로그 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 배송 완료된 주문에만 반품 신청 버튼 표시
+ * 2. 주문 상품별 반품 수량 선택 (이미 신청한 수량 제외)
+ * 3. 반품 사유 입력 및 사진 첨부 (Storage 업로드)
+ * 4. 이 주문의 기존 반품 신청 내역과 진행 상태 표시
+ *
+ * @dependencies
+ * - @/actions/returns: 반품 서버 액션
+ * - @/actions/storage: 사진 업로드 서버 액션
+ * - @/utils/supabase/storage: 업로드한 사진의 공개 URL
+ * - @/constants/return-status: 반품 가능 여부, 사진 수 제한
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import {
+  getOrderReturns,
+  requestReturn,
+  uploadReturnPhoto,
+  type OrderReturn,
+} from "@/actions/returns";
+import type { OrderWithItems } from "@/actions/orders";
+import { getPublicUrl } from "@/utils/supabase/storage";
+import {
+  MAX_RETURN_PHOTOS,
+  isOrderReturnable,
+} from "@/constants/return-status";
+import { ReturnStatusBadge } from "@/components/order/return-status-badge";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ImagePlus, Undo2, X } from "lucide-react";
+
+// 사진 한 장 최대 크기 (서버 액션 요청 크기 제한 2MB, next.config.ts의 bodySizeLimit)
+const MAX_PHOTO_SIZE = 2 * 1024 * 1024;
+
+interface ReturnRequestDialogProps {
+  order: OrderWithItems;
+  onRequested?: () => void;
+  className?: string;
+}
+
+export function ReturnRequestDialog({
+  order,
+  onRequested,
+  className,
+}: ReturnRequestDialogProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [existingReturns, setExistingReturns] = useState<OrderReturn[]>([]);
+  // 주문 상품 ID → 반품할 수량 (선택하지 않은 상품은 없음)
+  const [selectedQuantities, setSelectedQuantities] = useState<
+    Record<number, number>
+  >({});
+  const [reason, setReason] = useState("");
+  const [photoPaths, setPhotoPaths] = useState<string[]>([]);
+  const [isLoadingReturns, setIsLoadingReturns] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOrderReturnable(order.status)) return null;
+
+  // 주문 상품별로 아직 반품 신청할 수 있는 수량 (거절된 반품은 제외하고 계산)
+  const getReturnableQuantity = (
+    orderItemId: number,
+    orderedQuantity: number,
+  ) => {
+    const alreadyRequested = existingReturns
+      .filter((orderReturn) => orderReturn.status !== "rejected")
+      .flatMap((orderReturn) => orderReturn.return_items)
+      .filter((item) => item.order_item_id === orderItemId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+    return Math.max(0, orderedQuantity - alreadyRequested);
+  };
+
+  const resetForm = () => {
+    setSelectedQuantities({});
+    setReason("");
+    setPhotoPaths([]);
+    setError(null);
+  };
+
+  // 다이얼로그를 열 때 기존 반품 내역 조회
+  const handleOpenChange = async (open: boolean) => {
+    if (isSubmitting || isUploading) return;
+    setIsOpen(open);
+
+    if (!open) {
+      resetForm();
+      return;
+    }
+
+    try {
+      setIsLoadingReturns(true);
+      setExistingReturns(await getOrderReturns(order.id));
+    } catch (error) {
+      console.error("반품 내역 조회 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "반품 내역을 불러오지 못했습니다.",
+      );
+    } finally {
+      setIsLoadingReturns(false);
+    }
+  };
+
+  const toggleItem = (orderItemId: number, checked: boolean) => {
+    setSelectedQuantities((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[orderItemId] = 1;
+      } else {
+        delete next[orderItemId];
+      }
+      return next;
+    });
+  };
+
+  // 사진 업로드 (선택 즉시 Storage에 올리고 경로만 보관)
+  const handlePhotoChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    if (photoPaths.length + files.length > MAX_RETURN_PHOTOS) {
+      setError(`사진은 최대 ${MAX_RETURN_PHOTOS}장까지 첨부할 수 있습니다.`);
+      return;
+    }
+
+    if (files.some((file) => file.size > MAX_PHOTO_SIZE)) {
+      setError("사진은 한 장당 2MB 이하만 첨부할 수 있습니다.");
+      return;
+    }
+
+    console.group("📷 반품 사진 업로드");
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const result = await uploadReturnPhoto(formData);
+        if ("error" in result) {
+          throw new Error(result.error);
+        }
+
+        console.log("업로드 완료:", result.path);
+        setPhotoPaths((prev) => [...prev, result.path]);
+      }
+    } catch (error) {
+      console.error("사진 업로드 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "사진 업로드 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsUploading(false);
+      console.groupEnd();
+    }
+  };
+
+  const handleSubmit = async () => {
+    console.group("↩️ 반품 신청 요청");
+    console.log("주문 ID:", order.id, "선택 상품:", selectedQuantities);
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await requestReturn({
+        orderId: order.id,
+        items: Object.entries(selectedQuantities).map(
+          ([orderItemId, quantity]) => ({
+            orderItemId: Number(orderItemId),
+            quantity,
+          }),
+        ),
+        reason,
+        photoPaths,
+      });
+
+      console.log("✅ 반품 신청 완료");
+      setIsOpen(false);
+      resetForm();
+
+      if (onRequested) {
+        onRequested();
+      } else {
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("반품 신청 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "반품 신청 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsSubmitting(false);
+      console.groupEnd();
+    }
+  };
+
+  const hasSelection = Object.keys(selectedQuantities).length > 0;
+  const isBusy = isSubmitting || isUploading || isLoadingReturns;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={cn(className)}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          반품 신청
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>반품 신청</DialogTitle>
+          <DialogDescription>
+            주문 #{order.id}에서 반품할 상품과 수량을 선택해주세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* 기존 반품 내역 */}
+          {existingReturns.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">신청한 반품</p>
+              {existingReturns.map((orderReturn) => (
+                <div
+                  key={orderReturn.id}
+                  className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded"
+                >
+                  <span className="text-gray-600">
+                    #{orderReturn.id} ·{" "}
+                    {new Date(orderReturn.created_at).toLocaleDateString(
+                      "ko-KR",
+                    )}
+                  </span>
+                  <ReturnStatusBadge status={orderReturn.status} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* 반품할 상품 선택 */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium">반품할 상품</p>
+            {order.order_items.map((item) => {
+              const returnable = getReturnableQuantity(item.id, item.quantity);
+              const isSelected = item.id in selectedQuantities;
+
+              return (
+                <div
+                  key={item.id}
+                  className="flex items-center gap-3 p-2 border rounded"
+                >
+                  <Checkbox
+                    id={`return-item-${item.id}`}
+                    checked={isSelected}
+                    disabled={returnable === 0 || isBusy}
+                    onCheckedChange={(checked) =>
+                      toggleItem(item.id, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`return-item-${item.id}`}
+                    className="flex-grow font-normal"
+                  >
+                    <span className="block">{item.product.name}</span>
+                    {item.variant_label && (
+                      <span className="block text-xs text-gray-500">
+                        {item.variant_label}
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      {returnable > 0
+                        ? `반품 가능 ${returnable}개 (주문 ${item.quantity}개)`
+                        : "반품 신청 완료"}
+                    </span>
+                  </Label>
+                  {isSelected && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={returnable}
+                      value={selectedQuantities[item.id]}
+                      onChange={(e) =>
+                        setSelectedQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(
+                            returnable,
+                            Math.max(1, Number(e.target.value) || 1),
+                          ),
+                        }))
+                      }
+                      disabled={isBusy}
+                      className="w-20"
+                      aria-label={`${item.product.name} 반품 수량`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* 반품 사유 */}
+          <div className="space-y-2">
+            <Label htmlFor={`returnReason-${order.id}`}>반품 사유 *</Label>
+            <Textarea
+              id={`returnReason-${order.id}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="예: 상품 파손, 주문과 다른 상품 배송 등"
+              maxLength={500}
+              rows={3}
+              disabled={isBusy}
+            />
+          </div>
+
+          {/* 사진 첨부 */}
+          <div className="space-y-2">
+            <Label htmlFor={`returnPhotos-${order.id}`}>
+              {`사진 첨부 (선택, 최대 ${MAX_RETURN_PHOTOS}장)`}
+            </Label>
+            <div className="flex gap-2 flex-wrap">
+              {photoPaths.map((path) => (
+                <div
+                  key={path}
+                  className="relative h-20 w-20 bg-gray-100 rounded overflow-hidden"
+                >
+                  <Image
+                    src={getPublicUrl(path)}
+                    alt="반품 사진"
+                    fill
+                    className="object-cover"
+                    sizes="80px"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhotoPaths((prev) => prev.filter((p) => p !== path))
+                    }
+                    disabled={isBusy}
+                    className="absolute top-1 right-1 bg-black/60 text-white rounded-full p-0.5"
+                    aria-label="사진 삭제"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photoPaths.length < MAX_RETURN_PHOTOS && (
+                <label
+                  htmlFor={`returnPhotos-${order.id}`}
+                  className="h-20 w-20 border-2 border-dashed rounded flex flex-col items-center justify-center text-xs text-gray-500 cursor-pointer hover:bg-gray-50"
+                >
+                  {isUploading ? (
+                    <div className="w-4 h-4 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
+                  ) : (
+                    <>
+                      <ImagePlus className="h-5 w-5 mb-1" />
+                      사진 추가
+                    </>
+                  )}
+                </label>
+              )}
+            </div>
+            <input
+              id={`returnPhotos-${order.id}`}
+              type="file"
+              accept="image/jpeg,image/png,image/gif,image/webp"
+              multiple
+              className="hidden"
+              onChange={handlePhotoChange}
+              disabled={isBusy}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isSubmitting || isUploading}
+          >
+            닫기
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!hasSelection || !reason.trim() || isBusy}
+          >
+            {isSubmitting ? "신청 중..." : "반품 신청"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
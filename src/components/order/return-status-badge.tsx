@@ -0,0 +1,57 @@
+/**
+ * @file return-status-badge.tsx
+ * @description 반품 상태 배지 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 반품 상태별 라벨, 색상, 아이콘 표시
+ *
+ * @dependencies
+ * - @/constants/return-status: 반품 상태 목록
+ * - @/components/ui/badge: ShadcnUI 배지
+ */
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Clock,
+  CheckCircle2,
+  Hourglass,
+  PackageCheck,
+  Undo2,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  getReturnStatusLabel,
+  isValidReturnStatus,
+  type ReturnStatus,
+} from "@/constants/return-status";
+
+// 상태별 배지 스타일
+const STATUS_STYLES: Record<
+  ReturnStatus,
+  {
+    variant: "default" | "secondary" | "destructive" | "outline";
+    icon: LucideIcon;
+  }
+> = {
+  requested: { variant: "outline", icon: Clock },
+  approved: { variant: "secondary", icon: CheckCircle2 },
+  received: { variant: "default", icon: PackageCheck },
+  refunding: { variant: "default", icon: Hourglass },
+  refunded: { variant: "secondary", icon: Undo2 },
+  rejected: { variant: "destructive", icon: XCircle },
+};
+
+export function ReturnStatusBadge({ status }: { status: string }) {
+  const style = isValidReturnStatus(status)
+    ? STATUS_STYLES[status]
+    : STATUS_STYLES.requested;
+  const Icon = style.icon;
+
+  return (
+    <Badge variant={style.variant} className="flex items-center gap-1">
+      <Icon className="h-3 w-3" />
+      {getReturnStatusLabel(status)}
+    </Badge>
+  );
+}
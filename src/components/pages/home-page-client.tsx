@@ -3,31 +3,78 @@
  * @description 홈페이지 클라이언트 컴포넌트 (카테고리 필터링 포함)
  *
  * 주요 기능:
- * 1. 카테고리별 상품 필터링
- * 2. 상품 목록 표시
- * 3. 검색 및 정렬 기능
- * 4. 관리자 링크 (권한 확인)
- * 5. 헤로 섹션
+ * 1. 카테고리별 상품 필터링 (상위 카테고리를 고르면 하위 카테고리 상품 포함)
+ * 2. 상품 목록 표시 (무한 스크롤, ?page=N이면 페이지 번호 목록)
+ * 3. 검색 및 정렬 기능 (관련도, 최신, 가격, 판매량순)
+ * 4. 가격대, 재고 있는 상품만 보기 필터와 필터 항목별 상품 수
+ *    (카테고리, 검색어, 정렬, 필터는 모두 URL 검색 파라미터에 유지)
+ * 5. 관리자 링크 (권한 확인)
+ * 6. 헤로 섹션
  *
  * @dependencies
  * - @/actions/products: 상품 관련 서버 액션
  * - @/components/products: 상품 관련 컴포넌트
- * - @/constants/categories: 카테고리 상수
+ * - @/hooks/use-product-feed: 상품 목록 조회 (무한 스크롤 / 페이지 번호)
+ * - @/hooks/use-categories: 노출 중인 카테고리 목록 조회 훅
+ * - @/lib/categories: 카테고리 경로, 하위 카테고리 계산
+ * - @/lib/product-filters: 정렬 옵션, URL 검색 파라미터 변환, 카테고리별 상품 수 합산
  */
 
 "use client";
 
-import { useState, useEffect, Suspense, useCallback } from "react";
+import { useState, useEffect, Suspense, useCallback, useMemo } from "react";
 import Link from "next/link";
-import { useSearchParams } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { getProducts } from "@/actions/products";
 import { ProductList } from "@/components/products/product-list";
+import { InfiniteProductGrid } from "@/components/products/infinite-product-grid";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+import { Switch } from "@/components/ui/switch";
 import { useAddToCart } from "@/hooks/use-cart";
-import { PRODUCT_CATEGORIES, getCategoryLabel } from "@/constants/categories";
+import { useCategories } from "@/hooks/use-categories";
+import {
+  useProductFeed,
+  useProductPage,
+  type ProductFeedParams,
+} from "@/hooks/use-product-feed";
+import {
+  ALL_CATEGORY,
+  getCategoryLabel,
+  getCategoryPath,
+  getChildCategories,
+  type Category,
+} from "@/lib/categories";
+import {
+  applyProductListParams,
+  getCategoryFacetCount,
+  getProductListHref,
+  getProductSortOptions,
+  parseProductListParams,
+  PRODUCT_LIST_NAVIGATE_EVENT,
+  resolveProductSort,
+  type ProductFacets,
+  type ProductListParams,
+  type ProductSort,
+} from "@/lib/product-filters";
+import { CategoryIcon } from "@/components/categories/category-icon";
 import {
   AlertCircle,
   Store,
@@ -36,10 +83,14 @@ import {
   Settings,
   Grid3X3,
   ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  SlidersHorizontal,
   X,
 } from "lucide-react";
 import { createBrowserSupabaseClient } from "@/utils/supabase/client";
 import type { Product } from "@/actions/products";
+import { getCurrentPrice } from "@/lib/pricing";
 import { useAuth } from "@/components/auth/auth-provider";
 
 // 홈페이지 헤로 섹션
@@ -228,7 +279,7 @@ function HeroSection() {
                           </p>
                           <div className="flex items-center justify-between">
                             <span className="text-3xl font-bold">
-                              {product.price.toLocaleString()}원
+                              {getCurrentPrice(product).toLocaleString()}원
                             </span>
                             <Link href={`/products/${product.id}`}>
                               <Button
@@ -424,57 +475,319 @@ function SearchSection({
   );
 }
 
-// 카테고리 필터 컴포넌트
+// 카테고리 칩 (선택된 카테고리와 그 상위 카테고리는 강조)
+function CategoryChip({
+  isActive,
+  onClick,
+  count,
+  children,
+}: {
+  isActive: boolean;
+  onClick: () => void;
+  count?: number; // 이 카테고리를 골랐을 때의 상품 수
+  children: React.ReactNode;
+}) {
+  return (
+    <Badge
+      variant={isActive ? "default" : "outline"}
+      className={`cursor-pointer transition-colors px-4 py-2 text-sm ${
+        isActive
+          ? "bg-gray-900 text-white hover:bg-gray-800"
+          : "border-gray-300 text-gray-700 hover:bg-gray-100"
+      }`}
+      onClick={onClick}
+    >
+      {children}
+      {count !== undefined && (
+        <span
+          className={`ml-1 text-xs ${isActive ? "text-gray-300" : "text-gray-400"}`}
+        >
+          {count}
+        </span>
+      )}
+    </Badge>
+  );
+}
+
+// 카테고리 필터 컴포넌트 (최상위 카테고리 칩, 선택한 카테고리의 하위 카테고리는 아래 줄에 표시)
 interface CategoryFilterProps {
+  categories: Category[];
   selectedCategory: string;
+  categoryCounts?: Record<string, number>; // 카테고리별 상품 수 (불러오기 전엔 없음)
   onCategoryChange: (category: string) => void;
 }
 
 function CategoryFilter({
+  categories,
   selectedCategory,
+  categoryCounts,
   onCategoryChange,
 }: CategoryFilterProps) {
+  const path = getCategoryPath(categories, selectedCategory);
+  const getCount = (slug: string) =>
+    categoryCounts
+      ? getCategoryFacetCount(categories, categoryCounts, slug)
+      : undefined;
+
   return (
     <div className="mb-12">
       <h3 className="text-xl font-semibold text-gray-900 mb-6">카테고리</h3>
       <div className="flex flex-wrap gap-3">
-        {PRODUCT_CATEGORIES.map((category) => (
-          <Badge
-            key={category.value}
-            variant={
-              selectedCategory === category.value ? "default" : "outline"
-            }
-            className={`cursor-pointer transition-colors px-4 py-2 text-sm ${
-              selectedCategory === category.value
-                ? "bg-gray-900 text-white hover:bg-gray-800"
-                : "border-gray-300 text-gray-700 hover:bg-gray-100"
-            }`}
-            onClick={() => onCategoryChange(category.value)}
+        <CategoryChip
+          isActive={selectedCategory === ALL_CATEGORY}
+          onClick={() => onCategoryChange(ALL_CATEGORY)}
+          count={getCount(ALL_CATEGORY)}
+        >
+          <Grid3X3 className="h-3 w-3 mr-1" />
+          전체
+        </CategoryChip>
+        {getChildCategories(categories, null).map((category) => (
+          <CategoryChip
+            key={category.id}
+            isActive={path[0]?.id === category.id}
+            onClick={() => onCategoryChange(category.slug)}
+            count={getCount(category.slug)}
           >
-            <Grid3X3 className="h-3 w-3 mr-1" />
-            {category.label}
-          </Badge>
+            <CategoryIcon icon={category.icon} className="h-3 w-3 mr-1" />
+            {category.name}
+          </CategoryChip>
         ))}
       </div>
+
+      {/* 선택한 카테고리 경로의 하위 카테고리 */}
+      {path.map((parent, depth) => {
+        const children = getChildCategories(categories, parent.id);
+        if (children.length === 0) return null;
+
+        return (
+          <div
+            key={parent.id}
+            className="flex flex-wrap items-center gap-2 mt-4 pl-4 border-l-2 border-gray-200"
+          >
+            <ChevronRight className="h-4 w-4 text-gray-400" />
+            <CategoryChip
+              isActive={selectedCategory === parent.slug}
+              onClick={() => onCategoryChange(parent.slug)}
+              count={getCount(parent.slug)}
+            >
+              {parent.name} 전체
+            </CategoryChip>
+            {children.map((category) => (
+              <CategoryChip
+                key={category.id}
+                isActive={path[depth + 1]?.id === category.id}
+                onClick={() => onCategoryChange(category.slug)}
+                count={getCount(category.slug)}
+              >
+                {category.name}
+              </CategoryChip>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// 가격 슬라이더 단위 (원)
+const PRICE_STEP = 1000;
+
+// 가격대, 재고 필터 컴포넌트
+interface ProductFilterBarProps {
+  facets: ProductFacets | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStockOnly: boolean;
+  onPriceChange: (minPrice: number | null, maxPrice: number | null) => void;
+  onInStockOnlyChange: (inStockOnly: boolean) => void;
+  onReset: () => void;
+}
+
+function ProductFilterBar({
+  facets,
+  minPrice,
+  maxPrice,
+  inStockOnly,
+  onPriceChange,
+  onInStockOnlyChange,
+  onReset,
+}: ProductFilterBarProps) {
+  // 슬라이더 범위는 가격대 필터를 뺀 상품들의 가격 범위
+  const rangeMin = facets?.priceRange
+    ? Math.floor(facets.priceRange.min / PRICE_STEP) * PRICE_STEP
+    : 0;
+  const rangeMax = facets?.priceRange
+    ? Math.ceil(facets.priceRange.max / PRICE_STEP) * PRICE_STEP
+    : 0;
+
+  // 드래그 중에는 화면의 값만 바꾸고, 손을 뗄 때 목록을 다시 불러옴
+  const [priceValue, setPriceValue] = useState<[number, number]>([
+    minPrice ?? rangeMin,
+    maxPrice ?? rangeMax,
+  ]);
+
+  useEffect(() => {
+    setPriceValue([minPrice ?? rangeMin, maxPrice ?? rangeMax]);
+  }, [minPrice, maxPrice, rangeMin, rangeMax]);
+
+  const handlePriceCommit = ([min, max]: number[]) => {
+    // 범위 끝까지 끌어두면 해당 쪽 필터는 해제
+    onPriceChange(min <= rangeMin ? null : min, max >= rangeMax ? null : max);
+  };
+
+  const hasFilters = minPrice !== null || maxPrice !== null || inStockOnly;
+
+  return (
+    <div className="flex flex-col gap-6 md:flex-row md:items-end mb-8 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex-1 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center font-medium text-gray-900">
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            가격대
+          </span>
+          <span className="text-gray-600">
+            {facets?.priceRange
+              ? `${priceValue[0].toLocaleString()}원 ~ ${priceValue[1].toLocaleString()}원`
+              : "-"}
+          </span>
+        </div>
+        <Slider
+          min={rangeMin}
+          max={rangeMax}
+          step={PRICE_STEP}
+          value={priceValue}
+          onValueChange={(value) => setPriceValue([value[0], value[1]])}
+          onValueCommit={handlePriceCommit}
+          disabled={!facets?.priceRange || rangeMin === rangeMax}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="inStockOnly"
+          checked={inStockOnly}
+          onCheckedChange={onInStockOnlyChange}
+        />
+        <Label htmlFor="inStockOnly" className="text-sm text-gray-700">
+          재고 있는 상품만
+          {facets && (
+            <span className="text-gray-400">({facets.inStockCount})</span>
+          )}
+        </Label>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-gray-600"
+        onClick={onReset}
+        disabled={!hasFilters}
+      >
+        <X className="h-4 w-4 mr-1" />
+        필터 초기화
+      </Button>
     </div>
   );
 }
 
+// 페이지 번호 목록 이동 (링크는 검색 엔진 수집용, 화면에서는 페이지 이동 없이 목록만 변경)
+interface ProductPageNavigationProps {
+  currentPage: number;
+  totalPages: number;
+  getPageHref: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+function ProductPageNavigation({
+  currentPage,
+  totalPages,
+  getPageHref,
+  onPageChange,
+}: ProductPageNavigationProps) {
+  if (totalPages <= 1) return null;
+
+  // 현재 페이지 앞뒤로 최대 5개 표시
+  const startPage = Math.max(1, Math.min(currentPage - 2, totalPages - 4));
+  const pages = Array.from(
+    { length: Math.min(5, totalPages) },
+    (_, index) => startPage + index,
+  );
+
+  const linkProps = (page: number) => ({
+    href: getPageHref(page),
+    onClick: (event: React.MouseEvent) => {
+      event.preventDefault();
+      onPageChange(page);
+    },
+  });
+
+  return (
+    <Pagination className="mt-12">
+      <PaginationContent>
+        {currentPage > 1 && (
+          <PaginationItem>
+            <PaginationLink
+              {...linkProps(currentPage - 1)}
+              rel="prev"
+              size="default"
+              className="gap-1 px-2.5"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              이전
+            </PaginationLink>
+          </PaginationItem>
+        )}
+        {pages.map((page) => (
+          <PaginationItem key={page}>
+            <PaginationLink
+              {...linkProps(page)}
+              isActive={page === currentPage}
+            >
+              {page}
+            </PaginationLink>
+          </PaginationItem>
+        ))}
+        {currentPage < totalPages && (
+          <PaginationItem>
+            <PaginationLink
+              {...linkProps(currentPage + 1)}
+              rel="next"
+              size="default"
+              className="gap-1 px-2.5"
+            >
+              다음
+              <ChevronRight className="h-4 w-4" />
+            </PaginationLink>
+          </PaginationItem>
+        )}
+      </PaginationContent>
+    </Pagination>
+  );
+}
+
 // 상품 섹션 헤더
 interface ProductSectionHeaderProps {
+  categories: Category[];
   selectedCategory: string;
   searchTerm: string;
   totalCount: number;
-  onSortChange: () => void;
+  sort: ProductSort;
+  onSortChange: (sort: ProductSort) => void;
 }
 
 function ProductSectionHeader({
+  categories,
   selectedCategory,
   searchTerm,
   totalCount,
+  sort,
   onSortChange,
 }: ProductSectionHeaderProps) {
-  const categoryLabel = getCategoryLabel(selectedCategory);
+  // 하위 카테고리는 상위 카테고리부터 표시 (예: 패션/의류 > 신발)
+  const categoryLabel =
+    getCategoryPath(categories, selectedCategory)
+      .map((category) => category.name)
+      .join(" > ") || getCategoryLabel(categories, selectedCategory);
 
   // 제목 생성
   const getTitle = () => {
@@ -506,15 +819,26 @@ function ProductSectionHeader({
       </div>
 
       <div className="flex gap-2 mt-4 sm:mt-0">
-        <Button
-          variant="outline"
-          size="sm"
-          className="border-gray-300 text-gray-700"
-          onClick={onSortChange}
+        <Select
+          value={sort}
+          onValueChange={(value) => onSortChange(value as ProductSort)}
         >
-          <ArrowUpDown className="h-4 w-4 mr-2" />
-          정렬
-        </Button>
+          <SelectTrigger
+            size="sm"
+            className="w-36 border-gray-300 text-gray-700"
+            aria-label="정렬"
+          >
+            <ArrowUpDown className="h-4 w-4" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getProductSortOptions(!!searchTerm.trim()).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
     </div>
   );
@@ -522,20 +846,23 @@ function ProductSectionHeader({
 
 // 메인 홈페이지 클라이언트 컴포넌트
 export function HomePageClient() {
+  const router = useRouter();
   const searchParams = useSearchParams();
-  const [products, setProducts] = useState<Product[]>([]);
-  const [totalCount, setTotalCount] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // URL 검색 파라미터에서 목록 상태 복원 (처음 한 번만)
+  const [initialParams] = useState(() => parseProductListParams(searchParams));
   const [selectedCategory, setSelectedCategory] = useState(
-    searchParams?.get("category") || "all",
-  );
-  const [searchTerm, setSearchTerm] = useState(
-    searchParams?.get("search") || "",
+    initialParams.category,
   );
+  const [searchTerm, setSearchTerm] = useState(initialParams.search);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(
-    searchParams?.get("search") || "",
+    initialParams.search,
   );
+  const [sort, setSort] = useState<ProductSort | undefined>(initialParams.sort);
+  const [minPrice, setMinPrice] = useState(initialParams.minPrice ?? null);
+  const [maxPrice, setMaxPrice] = useState(initialParams.maxPrice ?? null);
+  const [inStockOnly, setInStockOnly] = useState(!!initialParams.inStockOnly);
+  const [page, setPage] = useState(initialParams.page ?? null);
+  const { categories } = useCategories();
 
   // TanStack Query 장바구니 추가 mutation
   const addToCartMutation = useAddToCart();
@@ -549,86 +876,164 @@ export function HomePageClient() {
     return () => clearTimeout(timeoutId);
   }, [searchTerm]);
 
-  // 상품 데이터 로드
-  const loadProducts = useCallback(
-    async (category: string, search: string = "") => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        console.group("🏷️ 상품 로드");
-        console.log("선택된 카테고리:", category);
-        console.log("검색어:", search || "없음");
+  // 목록 조건 (검색어는 디바운싱된 값으로 조회)
+  const listParams = useMemo<ProductFeedParams>(
+    () => ({
+      category: selectedCategory,
+      search: debouncedSearchTerm.trim(),
+      sort,
+      minPrice,
+      maxPrice,
+      inStockOnly,
+    }),
+    [
+      selectedCategory,
+      debouncedSearchTerm,
+      sort,
+      minPrice,
+      maxPrice,
+      inStockOnly,
+    ],
+  );
 
-        const { products: data, totalCount: count } = await getProducts(
-          1,
-          12,
-          category === "all" ? undefined : category,
-          search || undefined,
-        );
+  // 기본은 무한 스크롤, ?page=N으로 들어오면 페이지 번호 목록 (검색 엔진 수집용)
+  const isPageMode = page !== null;
+  const feedQuery = useProductFeed(listParams, !isPageMode);
+  const pageQuery = useProductPage(listParams, page ?? 1, isPageMode);
+  const activeQuery = isPageMode ? pageQuery : feedQuery;
+
+  const products = useMemo(
+    () =>
+      (isPageMode
+        ? pageQuery.data?.products
+        : feedQuery.data?.pages.flatMap((feedPage) => feedPage.products)) ?? [],
+    [isPageMode, pageQuery.data, feedQuery.data],
+  );
+  const totalCount =
+    (isPageMode
+      ? pageQuery.data?.totalCount
+      : feedQuery.data?.pages[0]?.totalCount) ?? 0;
+  // 조건을 바꾸는 동안 필터 항목 수는 이전 목록의 값을 유지
+  const facets: ProductFacets | null =
+    (isPageMode ? pageQuery.data?.facets : feedQuery.data?.pages[0]?.facets) ??
+    null;
+  // 조건을 바꾼 직후에는 이전 목록 대신 스켈레톤 표시
+  const loading = activeQuery.isLoading || activeQuery.isPlaceholderData;
+  const error = activeQuery.isError
+    ? "상품을 불러오는 중 오류가 발생했습니다."
+    : null;
+
+  const { fetchNextPage } = feedQuery;
+  const handleLoadMore = useCallback(() => {
+    fetchNextPage();
+  }, [fetchNextPage]);
+
+  // 페이지 번호 목록 주소 (현재 목록 조건 유지)
+  const getPageHref = (targetPage: number) =>
+    getProductListHref({ ...listParams, page: targetPage });
+
+  // URL 업데이트 (새로고침, 링크 공유 시 같은 목록이 보이도록)
+  // 페이지 번호를 지정하지 않으면 무한 스크롤 목록으로 돌아감
+  const updateListParams = useCallback((params: Partial<ProductListParams>) => {
+    setPage(params.page ?? null);
+    const url = new URL(window.location.href);
+    applyProductListParams(url.searchParams, { page: null, ...params });
+    window.history.replaceState({}, "", url.toString());
+  }, []);
 
-        console.log("로드된 상품 수:", data.length);
-        console.log("전체 상품 수:", count);
-        console.groupEnd();
+  // 검색 팔레트에서 검색/카테고리를 고른 경우 (홈 화면에서는 페이지 이동 없이 목록 상태만 변경)
+  useEffect(() => {
+    const handleNavigate = (event: Event) => {
+      const params = (event as CustomEvent<Partial<ProductListParams>>).detail;
+      console.log("🔄 상품 목록 이동 이벤트 감지:", params);
 
-        setProducts(data);
-        setTotalCount(count);
-      } catch (err) {
-        console.error("상품 로드 실패:", err);
-        setError("상품을 불러오는 중 오류가 발생했습니다.");
-      } finally {
-        setLoading(false);
+      if (params.category !== undefined) {
+        setSelectedCategory(params.category);
       }
-    },
-    [],
-  );
+      if (params.search !== undefined) {
+        setSearchTerm(params.search);
+        setDebouncedSearchTerm(params.search);
+      }
+      updateListParams(params);
 
-  // 카테고리 또는 디바운싱된 검색어 변경 시 상품 재로드
-  useEffect(() => {
-    loadProducts(selectedCategory, debouncedSearchTerm);
-  }, [selectedCategory, debouncedSearchTerm, loadProducts]);
+      document.getElementById("products-section")?.scrollIntoView({
+        behavior: "smooth",
+      });
+    };
+
+    window.addEventListener(PRODUCT_LIST_NAVIGATE_EVENT, handleNavigate);
+
+    return () => {
+      window.removeEventListener(PRODUCT_LIST_NAVIGATE_EVENT, handleNavigate);
+    };
+  }, [updateListParams]);
 
   // 카테고리 변경 핸들러
   const handleCategoryChange = (category: string) => {
     setSelectedCategory(category);
-    // URL 업데이트
-    const url = new URL(window.location.href);
-    if (category === "all") {
-      url.searchParams.delete("category");
-    } else {
-      url.searchParams.set("category", category);
-    }
-    window.history.replaceState({}, "", url.toString());
+    updateListParams({ category });
   };
 
   // 검색 핸들러 (즉시 상태 업데이트, 디바운싱으로 API 호출)
-  const handleSearchChange = useCallback((term: string) => {
-    setSearchTerm(term);
-    // URL 업데이트
-    const url = new URL(window.location.href);
-    if (term.trim()) {
-      url.searchParams.set("search", term);
-    } else {
-      url.searchParams.delete("search");
-    }
-    window.history.replaceState({}, "", url.toString());
-  }, []);
+  const handleSearchChange = useCallback(
+    (term: string) => {
+      setSearchTerm(term);
+      updateListParams({ search: term });
+    },
+    [updateListParams],
+  );
 
   // 검색 초기화 핸들러
   const handleSearchClear = () => {
     setSearchTerm("");
     setDebouncedSearchTerm("");
-    // URL 업데이트
-    const url = new URL(window.location.href);
-    url.searchParams.delete("search");
-    window.history.replaceState({}, "", url.toString());
+    updateListParams({ search: "" });
+  };
+
+  // 정렬 변경 핸들러 (기본 정렬이면 URL에서 제거)
+  const handleSortChange = (value: ProductSort) => {
+    const nextSort =
+      value === resolveProductSort(undefined, !!searchTerm.trim())
+        ? undefined
+        : value;
+    setSort(nextSort);
+    updateListParams({ sort: nextSort });
+  };
+
+  // 가격대 변경 핸들러
+  const handlePriceChange = (
+    nextMinPrice: number | null,
+    nextMaxPrice: number | null,
+  ) => {
+    setMinPrice(nextMinPrice);
+    setMaxPrice(nextMaxPrice);
+    updateListParams({ minPrice: nextMinPrice, maxPrice: nextMaxPrice });
+  };
+
+  // 재고 있는 상품만 보기 변경 핸들러
+  const handleInStockOnlyChange = (checked: boolean) => {
+    setInStockOnly(checked);
+    updateListParams({ inStockOnly: checked });
   };
 
-  // 정렬 변경 핸들러 (추후 구현)
-  const handleSortChange = () => {
-    console.log("정렬 기능 - 추후 구현 예정");
+  // 가격대, 재고 필터 초기화 핸들러
+  const handleFilterReset = () => {
+    setMinPrice(null);
+    setMaxPrice(null);
+    setInStockOnly(false);
+    updateListParams({ minPrice: null, maxPrice: null, inStockOnly: false });
   };
 
+  // 페이지 번호 변경 핸들러
+  const handlePageChange = (nextPage: number) => {
+    updateListParams({ page: nextPage });
+    document.getElementById("products-section")?.scrollIntoView({
+      behavior: "smooth",
+    });
+  };
+
+  const hasFilters = minPrice !== null || maxPrice !== null || inStockOnly;
+
   // 장바구니 담기 핸들러
   const handleAddToCart = async (productId: number) => {
     console.log("🛒 장바구니 담기 시도:", productId);
@@ -646,6 +1051,13 @@ export function HomePageClient() {
       return;
     }
 
+    // 옵션 상품은 상세 페이지에서 옵션을 선택한 뒤 담기
+    if (product.option_names?.length > 0) {
+      console.log("옵션 선택 필요, 상세 페이지로 이동:", product.name);
+      router.push(`/products/${product.id}`);
+      return;
+    }
+
     addToCartMutation.mutate(
       { productId, quantity: 1 },
       {
@@ -691,18 +1103,33 @@ export function HomePageClient() {
         <div className="container mx-auto px-4">
           {/* 카테고리 필터 */}
           <CategoryFilter
+            categories={categories}
             selectedCategory={selectedCategory}
+            categoryCounts={facets?.categoryCounts}
             onCategoryChange={handleCategoryChange}
           />
 
           {/* 상품 섹션 헤더 */}
           <ProductSectionHeader
+            categories={categories}
             selectedCategory={selectedCategory}
             searchTerm={searchTerm}
             totalCount={totalCount}
+            sort={resolveProductSort(sort, !!debouncedSearchTerm.trim())}
             onSortChange={handleSortChange}
           />
 
+          {/* 가격대, 재고 필터 */}
+          <ProductFilterBar
+            facets={facets}
+            minPrice={minPrice}
+            maxPrice={maxPrice}
+            inStockOnly={inStockOnly}
+            onPriceChange={handlePriceChange}
+            onInStockOnlyChange={handleInStockOnlyChange}
+            onReset={handleFilterReset}
+          />
+
           {/* 에러 표시 */}
           {error && (
             <Alert variant="destructive" className="mb-8">
@@ -716,19 +1143,41 @@ export function HomePageClient() {
             <ProductList products={[]} isLoading={true} />
           ) : products.length > 0 ? (
             <>
-              <ProductList products={products} onAddToCart={handleAddToCart} />
+              {isPageMode ? (
+                <>
+                  <ProductList
+                    products={products}
+                    onAddToCart={handleAddToCart}
+                    highlight={debouncedSearchTerm}
+                  />
+                  <ProductPageNavigation
+                    currentPage={page}
+                    totalPages={pageQuery.data?.totalPages ?? 1}
+                    getPageHref={getPageHref}
+                    onPageChange={handlePageChange}
+                  />
+                </>
+              ) : (
+                <InfiniteProductGrid
+                  products={products}
+                  scrollKey={JSON.stringify(listParams)}
+                  hasNextPage={feedQuery.hasNextPage}
+                  isFetchingNextPage={feedQuery.isFetchingNextPage}
+                  onLoadMore={handleLoadMore}
+                  nextPageHref={getPageHref(
+                    (feedQuery.data?.pages.length ?? 0) + 1,
+                  )}
+                  onAddToCart={handleAddToCart}
+                  highlight={debouncedSearchTerm}
+                />
+              )}
 
               {/* 전체 상품 수 표시 */}
               <div className="text-center mt-12">
                 <p className="text-gray-600 mb-4">
                   총 {totalCount}개의 상품이 있습니다
                 </p>
-                <Button
-                  variant="outline"
-                  onClick={() =>
-                    loadProducts(selectedCategory, debouncedSearchTerm)
-                  }
-                >
+                <Button variant="outline" onClick={() => activeQuery.refetch()}>
                   새로고침
                 </Button>
               </div>
@@ -739,17 +1188,27 @@ export function HomePageClient() {
               <h3 className="text-lg font-medium text-gray-900 mb-2">
                 {searchTerm
                   ? `"${searchTerm}" 검색 결과가 없습니다`
-                  : selectedCategory === "all"
-                    ? "상품 준비 중입니다"
-                    : `${getCategoryLabel(selectedCategory)} 상품이 없습니다`}
+                  : hasFilters
+                    ? "조건에 맞는 상품이 없습니다"
+                    : selectedCategory === "all"
+                      ? "상품 준비 중입니다"
+                      : `${getCategoryLabel(categories, selectedCategory)} 상품이 없습니다`}
               </h3>
               <p className="text-gray-600 mb-6">
                 {searchTerm
                   ? "다른 검색어를 시도해보거나 카테고리를 변경해보세요."
-                  : selectedCategory === "all"
-                    ? "곧 멋진 상품들을 만나보실 수 있습니다!"
-                    : "다른 카테고리를 선택해보세요."}
+                  : hasFilters
+                    ? "가격대나 재고 필터를 바꿔보세요."
+                    : selectedCategory === "all"
+                      ? "곧 멋진 상품들을 만나보실 수 있습니다!"
+                      : "다른 카테고리를 선택해보세요."}
               </p>
+              {!searchTerm && hasFilters && (
+                <Button variant="outline" onClick={handleFilterReset}>
+                  <X className="h-4 w-4 mr-2" />
+                  필터 초기화
+                </Button>
+              )}
               {searchTerm && (
                 <div className="flex flex-col sm:flex-row gap-2 justify-center">
                   <Button variant="outline" onClick={handleSearchClear}>
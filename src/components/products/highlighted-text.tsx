@@ -0,0 +1,45 @@
+/**
+ * @file highlighted-text.tsx
+ * @description 검색어 강조 표시 텍스트
+ *
+ * 검색 결과에서 상품명/설명 중 검색어와 일치하는 부분을 <mark>로 감싸서 보여줍니다.
+ *
+ * @dependencies
+ * - @/lib/search: 검색어 일치 구간 계산
+ */
+
+import { splitHighlightSegments } from "@/lib/search";
+import { cn } from "@/lib/utils";
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string | null;
+  className?: string;
+}
+
+export function HighlightedText({
+  text,
+  query,
+  className,
+}: HighlightedTextProps) {
+  if (!query) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {splitHighlightSegments(text, query).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className={cn("rounded-sm bg-yellow-200 text-inherit", className)}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        ),
+      )}
+    </>
+  );
+}
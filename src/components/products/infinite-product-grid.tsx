@@ -0,0 +1,142 @@
+/**
+ * @file infinite-product-grid.tsx
+ * @description 무한 스크롤 상품 그리드 컴포넌트
+ *
+ * 주요 기능:
+ * 1. 목록 끝에 가까워지면 다음 페이지 자동 로드 (IntersectionObserver)
+ * 2. "상품 더 보기" 링크 (자동 로드가 안 될 때, 검색 엔진은 ?page=N 링크를 따라감)
+ * 3. 상품 상세에서 돌아왔을 때 스크롤 위치 복원
+ *
+ * 구현 로직:
+ * - 상품 카드 링크를 누를 때 목록 조건(scrollKey)과 스크롤 위치를 sessionStorage에 저장
+ * - 같은 조건의 목록이 다시 그려지면(TanStack Query 캐시) 저장한 위치로 한 번 스크롤
+ *
+ * @dependencies
+ * - ./product-list: 상품 그리드
+ * - @/components/ui/button: ShadcnUI 버튼 컴포넌트
+ * - lucide-react: 아이콘
+ */
+
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ProductList } from "./product-list";
+import type { Product } from "@/actions/products";
+
+// 상세 페이지로 이동하기 전 목록 스크롤 위치 (sessionStorage)
+const SCROLL_STORAGE_KEY = "product-list-scroll";
+
+interface InfiniteProductGridProps {
+  products: Product[];
+  scrollKey: string; // 목록 조건 (같은 조건으로 돌아왔을 때만 스크롤 복원)
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+  nextPageHref: string; // 다음 페이지의 페이지 번호 목록 주소
+  onAddToCart?: (productId: number) => void;
+  highlight?: string; // 강조할 검색어
+}
+
+export function InfiniteProductGrid({
+  products,
+  scrollKey,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  nextPageHref,
+  onAddToCart,
+  highlight,
+}: InfiniteProductGridProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const restoredRef = useRef(false);
+
+  // 목록 끝 근처(화면 아래 400px)에 오면 다음 페이지 로드
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          console.log("📜 다음 상품 페이지 로드");
+          onLoadMore();
+        }
+      },
+      { rootMargin: "400px 0px" },
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  // 상세 페이지에서 돌아왔을 때 스크롤 위치 복원 (처음 그릴 때 한 번만)
+  useEffect(() => {
+    if (restoredRef.current || products.length === 0) return;
+    restoredRef.current = true;
+
+    try {
+      const saved = JSON.parse(
+        window.sessionStorage.getItem(SCROLL_STORAGE_KEY) || "null",
+      );
+      window.sessionStorage.removeItem(SCROLL_STORAGE_KEY);
+
+      if (saved?.key === scrollKey && typeof saved.y === "number") {
+        console.log("📜 상품 목록 스크롤 위치 복원:", saved.y);
+        requestAnimationFrame(() => window.scrollTo(0, saved.y));
+      }
+    } catch {
+      // 저장된 값이 없거나 잘못된 경우 무시
+    }
+  }, [products.length, scrollKey]);
+
+  // 상품 상세로 이동할 때 스크롤 위치 저장
+  const handleClickCapture = (event: React.MouseEvent) => {
+    const link = (event.target as Element).closest?.('a[href^="/products/"]');
+    if (!link) return;
+
+    try {
+      window.sessionStorage.setItem(
+        SCROLL_STORAGE_KEY,
+        JSON.stringify({ key: scrollKey, y: window.scrollY }),
+      );
+    } catch {
+      // 저장소를 쓸 수 없어도 이동은 계속
+    }
+  };
+
+  return (
+    <div onClickCapture={handleClickCapture}>
+      <ProductList
+        products={products}
+        onAddToCart={onAddToCart}
+        highlight={highlight}
+      />
+
+      <div ref={sentinelRef} className="flex justify-center mt-8">
+        {isFetchingNextPage ? (
+          <div className="flex items-center text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            상품을 더 불러오는 중...
+          </div>
+        ) : (
+          hasNextPage && (
+            <Button variant="outline" asChild>
+              <a
+                href={nextPageHref}
+                rel="next"
+                onClick={(event) => {
+                  event.preventDefault();
+                  onLoadMore();
+                }}
+              >
+                상품 더 보기
+              </a>
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
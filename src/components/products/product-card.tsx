@@ -7,15 +7,19 @@
  * 주요 기능:
  * 1. 상품 이미지 표시 (Next.js Image 최적화)
  * 2. 상품 정보 표시 (이름, 가격, 재고)
+ *    - 세일 중이면 정가에 취소선과 할인율 표시
  * 3. 상품 상세 페이지로 이동 링크
  * 4. 재고 부족 시 시각적 표시
  * 5. 반응형 디자인 지원
+ * 6. 검색 결과에서 상품명/설명의 검색어 일치 부분 강조
  *
  * @dependencies
  * - next/image: 이미지 최적화
  * - next/link: 클라이언트 사이드 라우팅
  * - @/components/ui: ShadcnUI 컴포넌트
  * - lucide-react: 아이콘
+ * - @/lib/pricing: 정가/세일가 계산
+ * - @/lib/search: 검색어 주변 설명 미리보기
  */
 
 "use client";
@@ -28,20 +32,30 @@ import { Button } from "@/components/ui/button";
 import { ShoppingCart, Package } from "lucide-react";
 import type { Product } from "@/actions/products";
 import { formatPrice } from "@/lib/utils";
+import { getProductPricing } from "@/lib/pricing";
+import { getHighlightSnippet } from "@/lib/search";
+import { HighlightedText } from "./highlighted-text";
 
 interface ProductCardProps {
   product: Product;
   showAddToCart?: boolean;
   onAddToCart?: (productId: number) => void;
+  highlight?: string; // 강조할 검색어
 }
 
 export function ProductCard({ 
   product, 
   showAddToCart = true,
-  onAddToCart 
+  onAddToCart,
+  highlight
 }: ProductCardProps) {
   const isOutOfStock = product.stock_quantity <= 0;
   const isLowStock = product.stock_quantity <= 5 && product.stock_quantity > 0;
+  const pricing = getProductPricing(product);
+  // 검색 중이면 설명에서 검색어가 나온 부분 미리보기
+  const descriptionSnippet = highlight
+    ? getHighlightSnippet(product.description, highlight)
+    : null;
 
   console.log("🃏 ProductCard 렌더링:", product.name);
 
@@ -91,20 +105,44 @@ export function ProductCard({
                 재고 부족
               </Badge>
             )}
+
+            {/* 세일 배지 */}
+            {pricing.isOnSale && (
+              <Badge className="absolute top-2 right-2 bg-red-600 hover:bg-red-600 text-white text-xs">
+                {pricing.discountRate}% 할인
+              </Badge>
+            )}
           </div>
 
           {/* 상품 정보 */}
           <div className="p-3 space-y-2">
             {/* 상품명 */}
             <h3 className="text-product-name text-gray-900 group-hover:text-gray-700 transition-colors text-sm line-clamp-2 leading-tight min-h-[2.5rem]">
-              {product.name}
+              <HighlightedText text={product.name} query={highlight} />
             </h3>
 
+            {/* 설명 중 검색어 일치 부분 */}
+            {descriptionSnippet && (
+              <p className="text-xs text-gray-500 line-clamp-2">
+                <HighlightedText text={descriptionSnippet} query={highlight} />
+              </p>
+            )}
+
             {/* 가격 정보 */}
             <div className="space-y-1">
+              {pricing.isOnSale && (
+                <div className="flex items-center gap-1 text-xs">
+                  <span className="font-semibold text-red-600">
+                    {pricing.discountRate}%
+                  </span>
+                  <span className="text-gray-400 line-through">
+                    {formatPrice(pricing.listPrice)}원
+                  </span>
+                </div>
+              )}
               <div className="flex items-center justify-between">
                 <span className="text-price text-base text-gray-900">
-                  {formatPrice(product.price)}원
+                  {formatPrice(pricing.currentPrice)}원
                 </span>
                 <span className="text-xs text-gray-500">
                   재고 {product.stock_quantity}
@@ -121,7 +159,7 @@ export function ProductCard({
                 size="sm"
               >
                 <ShoppingCart className="h-3 w-3 mr-1" />
-                {isOutOfStock ? "품절" : "담기"}
+                {isOutOfStock ? "품절" : product.option_names?.length > 0 ? "옵션 선택" : "담기"}
               </Button>
             )}
           </div>
@@ -5,31 +5,45 @@
  * 이 컴포넌트는 상품의 상세 정보를 표시하고 장바구니 담기, 바로 구매하기 기능을 제공합니다.
  *
  * 주요 기능:
- * 1. 상품 이미지 표시 (Next.js Image 최적화)
+ * 1. 상품 이미지 표시 (Next.js Image 최적화, 여러 장이면 캐러셀과 썸네일)
  * 2. 상품 정보 표시 (이름, 설명, 가격, 재고)
+ *    - 세일 중이면 정가에 취소선과 할인율, 세일 종료일 표시
  * 3. 수량 선택 기능
  * 4. 장바구니 담기 기능
  * 5. 바로 구매하기 기능 (장바구니 거치지 않고 즉시 결제)
  * 6. 재고 상태 표시
  * 7. 반응형 레이아웃
+ * 8. 옵션 선택 (옵션 종류별 값 버튼, 옵션별 판매가와 재고 표시, 품절 옵션 비활성화)
  *
  * @dependencies
  * - next/image: 이미지 최적화
  * - next/navigation: 라우터 기능
- * - @/components/ui: ShadcnUI 컴포넌트
+ * - @/components/ui: ShadcnUI 컴포넌트 (Carousel 포함)
  * - lucide-react: 아이콘
  * - @/actions/products: 상품 타입
+ * - @/lib/shipping: 배송비 정책
+ * - @/lib/pricing: 정가/세일가 계산
+ * - @/lib/variants: 옵션 찾기, 옵션 값 목록, 옵션 라벨
+ * - @/lib/product-images: 상품 이미지 타입
  */
 
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
 import {
   ShoppingCart,
   Package,
@@ -43,28 +57,193 @@ import {
 } from "lucide-react";
 import type { Product } from "@/actions/products";
 import { formatPrice } from "@/lib/utils";
+import { SHIPPING_POLICY } from "@/lib/shipping";
+import { getProductPricing } from "@/lib/pricing";
+import {
+  findVariant,
+  getOptionValues,
+  getVariantLabel,
+  type ProductVariant,
+  type VariantOptions,
+} from "@/lib/variants";
+import type { ProductImage } from "@/lib/product-images";
 import { triggerCartUpdate } from "@/hooks/use-cart-count";
 
 interface ProductDetailContainerProps {
   product: Product;
+  variants?: ProductVariant[]; // 판매 중인 옵션 (옵션 없는 상품은 빈 배열)
+  images?: ProductImage[]; // 상품 이미지 (표시 순서대로, 없으면 image_url 사용)
+}
+
+type GalleryImage = Pick<ProductImage, "url" | "alt_text">;
+
+// 상품 이미지 갤러리 (여러 장이면 캐러셀과 썸네일, 배지는 children으로 이미지 위에 표시)
+function ProductImageGallery({
+  images,
+  productName,
+  children,
+}: {
+  images: GalleryImage[];
+  productName: string;
+  children?: React.ReactNode;
+}) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // 캐러셀에서 넘긴 이미지를 썸네일에 표시
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setSelectedIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const getAlt = (image: GalleryImage, index: number) =>
+    image.alt_text ||
+    (images.length > 1 ? `${productName} 이미지 ${index + 1}` : productName);
+
+  return (
+    <div className="space-y-3">
+      <Card className="overflow-hidden">
+        <CardContent className="p-0">
+          <div className="relative bg-gray-100">
+            {images.length === 0 ? (
+              <div className="aspect-square w-full flex items-center justify-center">
+                <Package className="h-24 w-24 text-gray-400" />
+              </div>
+            ) : images.length === 1 ? (
+              <div className="relative aspect-square">
+                <Image
+                  src={images[0].url}
+                  alt={getAlt(images[0], 0)}
+                  fill
+                  className="object-cover"
+                  sizes="(max-width: 1024px) 100vw, 50vw"
+                  priority
+                />
+              </div>
+            ) : (
+              <Carousel setApi={setApi} opts={{ loop: true }}>
+                <CarouselContent className="ml-0">
+                  {images.map((image, index) => (
+                    <CarouselItem key={index} className="pl-0">
+                      <div className="relative aspect-square">
+                        <Image
+                          src={image.url}
+                          alt={getAlt(image, index)}
+                          fill
+                          className="object-cover"
+                          sizes="(max-width: 1024px) 100vw, 50vw"
+                          priority={index === 0}
+                        />
+                      </div>
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                <CarouselPrevious className="left-3" />
+                <CarouselNext className="right-3" />
+              </Carousel>
+            )}
+
+            {children}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 썸네일 (누르면 해당 이미지로 이동) */}
+      {images.length > 1 && (
+        <div className="grid grid-cols-5 gap-2">
+          {images.map((image, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={`relative aspect-square overflow-hidden rounded-md border-2 bg-gray-100 transition-colors ${
+                index === selectedIndex
+                  ? "border-orange-500"
+                  : "border-transparent hover:border-gray-300"
+              }`}
+              aria-label={`이미지 ${index + 1} 보기`}
+              aria-current={index === selectedIndex}
+            >
+              <Image
+                src={image.url}
+                alt=""
+                fill
+                className="object-cover"
+                sizes="120px"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export function ProductDetailContainer({
   product,
+  variants = [],
+  images = [],
 }: ProductDetailContainerProps) {
   const [quantity, setQuantity] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [isBuyingNow, setIsBuyingNow] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<VariantOptions>({});
   const router = useRouter();
 
-  const isOutOfStock = product.stock_quantity <= 0;
-  const isLowStock = product.stock_quantity <= 5 && product.stock_quantity > 0;
+  // 옵션 상품은 모든 옵션을 선택해야 가격과 재고가 정해짐
+  const optionNames = product.option_names ?? [];
+  const hasOptions = optionNames.length > 0;
+  const selectedVariant = hasOptions
+    ? findVariant(variants, optionNames, selectedOptions)
+    : null;
+  const needsOption = hasOptions && !selectedVariant;
+  const stockQuantity = selectedVariant
+    ? selectedVariant.stock_quantity
+    : product.stock_quantity;
+
+  const isOutOfStock = stockQuantity <= 0;
+  const isLowStock = stockQuantity <= 5 && stockQuantity > 0;
+  const pricing = getProductPricing(product);
+  // 옵션 추가 금액을 반영한 정가와 판매가
+  const priceDelta = selectedVariant?.price_delta ?? 0;
+  const listPrice = pricing.listPrice + priceDelta;
+  const currentPrice = pricing.currentPrice + priceDelta;
+  const discountRate = pricing.isOnSale
+    ? Math.floor(((listPrice - currentPrice) / listPrice) * 100)
+    : 0;
 
   console.log("🛍️ ProductDetail 렌더링:", product.name);
 
+  // 옵션 값 선택 (옵션이 바뀌면 수량 초기화)
+  const selectOption = (optionName: string, value: string) => {
+    setSelectedOptions((prev) => ({ ...prev, [optionName]: value }));
+    setQuantity(1);
+  };
+
+  // 다른 옵션 선택과 함께 골랐을 때 재고가 있는 옵션이 하나도 없는 값은 품절로 표시
+  const isOptionValueSoldOut = (optionName: string, value: string) =>
+    !variants.some(
+      (variant) =>
+        variant.stock_quantity > 0 &&
+        variant.options[optionName] === value &&
+        optionNames.every(
+          (name) =>
+            name === optionName ||
+            !selectedOptions[name] ||
+            variant.options[name] === selectedOptions[name],
+        ),
+    );
+
   // 수량 증가
   const increaseQuantity = () => {
-    if (quantity < product.stock_quantity) {
+    if (quantity < stockQuantity) {
       setQuantity((prev) => prev + 1);
     }
   };
@@ -78,14 +257,25 @@ export function ProductDetailContainer({
 
   // 장바구니 담기
   const handleAddToCart = async () => {
-    if (!quantity || isLoading) return;
+    if (!quantity || isLoading || needsOption) return;
 
-    console.log("🛒 장바구니 추가", product.name, "수량:", quantity);
+    console.log(
+      "🛒 장바구니 추가",
+      product.name,
+      "옵션:",
+      selectedVariant?.sku,
+      "수량:",
+      quantity,
+    );
     setIsLoading(true);
 
     try {
       const { addToCart } = await import("@/actions/cart");
-      const result = await addToCart(product.id, quantity);
+      const result = await addToCart(
+        product.id,
+        quantity,
+        selectedVariant?.id ?? null,
+      );
 
       if (result.success) {
         alert(result.message);
@@ -110,16 +300,18 @@ export function ProductDetailContainer({
 
   // 바로 구매하기
   const handleBuyNow = async () => {
-    if (!quantity || isBuyingNow) return;
+    if (!quantity || isBuyingNow || needsOption) return;
 
     console.group("💳 바로 구매하기");
     console.log(
       "상품:",
       product.name,
+      "옵션:",
+      selectedVariant?.sku,
       "수량:",
       quantity,
       "가격:",
-      product.price,
+      currentPrice,
     );
 
     setIsBuyingNow(true);
@@ -131,13 +323,18 @@ export function ProductDetailContainer({
           {
             product_id: product.id,
             product_name: product.name,
+            variant_id: selectedVariant?.id ?? null,
+            variant_label: selectedVariant
+              ? getVariantLabel(selectedVariant.options, optionNames)
+              : null,
             product_image: product.image_url,
             quantity: quantity,
-            price: product.price,
-            total: product.price * quantity,
+            price: currentPrice,
+            total: currentPrice * quantity,
+            shipping_class: product.shipping_class,
           },
         ],
-        total_amount: product.price * quantity,
+        total_amount: currentPrice * quantity,
         is_direct_purchase: true, // 바로 구매 플래그
         timestamp: Date.now(),
       };
@@ -172,50 +369,43 @@ export function ProductDetailContainer({
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
         {/* 상품 이미지 */}
         <div className="space-y-4">
-          <Card className="overflow-hidden">
-            <CardContent className="p-0">
-              <div className="relative aspect-square bg-gray-100">
-                {product.image_url ? (
-                  <Image
-                    src={product.image_url}
-                    alt={product.name}
-                    fill
-                    className="object-cover"
-                    sizes="(max-width: 1024px) 100vw, 50vw"
-                    priority
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center">
-                    <Package className="h-24 w-24 text-gray-400" />
-                  </div>
-                )}
-
-                {/* 재고 상태 배지 */}
-                {isOutOfStock && (
-                  <Badge
-                    variant="destructive"
-                    className="absolute top-4 left-4"
-                  >
-                    품절
-                  </Badge>
-                )}
-                {isLowStock && (
-                  <Badge
-                    variant="outline"
-                    className="absolute top-4 left-4 bg-yellow-100 text-yellow-800 border-yellow-200"
-                  >
-                    재고 부족
-                  </Badge>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          <ProductImageGallery
+            images={
+              images.length > 0
+                ? images
+                : product.image_url
+                  ? [{ url: product.image_url, alt_text: null }]
+                  : []
+            }
+            productName={product.name}
+          >
+            {/* 재고 상태 배지 */}
+            {isOutOfStock && (
+              <Badge variant="destructive" className="absolute top-4 left-4">
+                품절
+              </Badge>
+            )}
+            {isLowStock && (
+              <Badge
+                variant="outline"
+                className="absolute top-4 left-4 bg-yellow-100 text-yellow-800 border-yellow-200"
+              >
+                재고 부족
+              </Badge>
+            )}
+          </ProductImageGallery>
 
           {/* 상품 특징 */}
           <div className="grid grid-cols-3 gap-4">
             <div className="text-center p-4 bg-gray-50 rounded-lg">
               <Truck className="h-6 w-6 mx-auto mb-2 text-gray-600" />
-              <p className="text-sm text-gray-600">무료배송</p>
+              <p className="text-sm text-gray-600">
+                {product.shipping_class === "free"
+                  ? "무료배송"
+                  : product.shipping_class === "bulky"
+                    ? "대형 상품 배송"
+                    : `${formatPrice(SHIPPING_POLICY.freeShippingThreshold)}원 이상 무료배송`}
+              </p>
             </div>
             <div className="text-center p-4 bg-gray-50 rounded-lg">
               <Shield className="h-6 w-6 mx-auto mb-2 text-gray-600" />
@@ -252,13 +442,35 @@ export function ProductDetailContainer({
 
           {/* 가격 정보 */}
           <div className="space-y-2">
+            {pricing.isOnSale && (
+              <div className="flex items-center gap-2">
+                <Badge className="bg-red-600 hover:bg-red-600 text-white">
+                  {discountRate}% 할인
+                </Badge>
+                <span className="text-lg text-gray-400 line-through">
+                  {formatPrice(listPrice)}원
+                </span>
+              </div>
+            )}
             <div className="flex items-center gap-3">
               <span className="text-3xl font-bold text-gray-900">
-                {formatPrice(product.price)}원
+                {formatPrice(currentPrice)}원
               </span>
             </div>
+            {pricing.saleEndsAt && (
+              <p className="text-sm text-red-600">
+                {`${new Date(pricing.saleEndsAt).toLocaleString("ko-KR", {
+                  month: "long",
+                  day: "numeric",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}까지 세일`}
+              </p>
+            )}
             <p className="text-sm text-gray-600">
-              재고: {product.stock_quantity}개 남음
+              {needsOption
+                ? "옵션을 선택하면 재고를 확인할 수 있습니다"
+                : `재고: ${stockQuantity}개 남음`}
             </p>
           </div>
 
@@ -276,8 +488,43 @@ export function ProductDetailContainer({
 
           <Separator />
 
+          {/* 옵션 선택 */}
+          {hasOptions && (
+            <div className="space-y-4">
+              {optionNames.map((optionName) => (
+                <div key={optionName} className="space-y-2">
+                  <h3 className="text-lg font-semibold">{optionName}</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {getOptionValues(variants, optionName).map((value) => {
+                      const isSelected = selectedOptions[optionName] === value;
+                      const isSoldOut = isOptionValueSoldOut(optionName, value);
+                      return (
+                        <Button
+                          key={value}
+                          type="button"
+                          variant={isSelected ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => selectOption(optionName, value)}
+                          disabled={isSoldOut && !isSelected}
+                          className={isSoldOut ? "line-through" : undefined}
+                        >
+                          {value}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {variants.length === 0 && (
+                <p className="text-sm text-gray-600">
+                  현재 판매 중인 옵션이 없습니다.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* 수량 선택 */}
-          {!isOutOfStock && (
+          {!isOutOfStock && !needsOption && (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">수량 선택</h3>
 
@@ -301,7 +548,7 @@ export function ProductDetailContainer({
                     variant="ghost"
                     size="sm"
                     onClick={increaseQuantity}
-                    disabled={quantity >= product.stock_quantity}
+                    disabled={quantity >= stockQuantity}
                     className="px-3"
                   >
                     <Plus className="h-4 w-4" />
@@ -309,7 +556,7 @@ export function ProductDetailContainer({
                 </div>
 
                 <span className="text-sm text-gray-600">
-                  최대 {product.stock_quantity}개까지 선택 가능
+                  최대 {stockQuantity}개까지 선택 가능
                 </span>
               </div>
 
@@ -318,7 +565,7 @@ export function ProductDetailContainer({
                 <div className="flex justify-between items-center">
                   <span className="font-medium">총 가격</span>
                   <span className="text-xl font-bold text-orange-600">
-                    {formatPrice(product.price * quantity)}원
+                    {formatPrice(currentPrice * quantity)}원
                   </span>
                 </div>
               </div>
@@ -329,7 +576,7 @@ export function ProductDetailContainer({
           <div className="space-y-3">
             <Button
               onClick={handleAddToCart}
-              disabled={isOutOfStock || isLoading}
+              disabled={isOutOfStock || needsOption || isLoading}
               className="w-full bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 h-12 text-lg"
               size="lg"
             >
@@ -338,12 +585,14 @@ export function ProductDetailContainer({
                 ? "장바구니에 추가 중..."
                 : isOutOfStock
                   ? "품절"
-                  : "장바구니 담기"}
+                  : needsOption
+                    ? "옵션을 선택해주세요"
+                    : "장바구니 담기"}
             </Button>
 
             <Button
               onClick={handleBuyNow}
-              disabled={isOutOfStock || isBuyingNow}
+              disabled={isOutOfStock || needsOption || isBuyingNow}
               variant="outline"
               className="w-full h-12 text-lg border-orange-500 text-orange-600 hover:bg-orange-50"
               size="lg"
@@ -353,7 +602,9 @@ export function ProductDetailContainer({
                 ? "주문 처리 중..."
                 : isOutOfStock
                   ? "품절"
-                  : "바로 구매하기"}
+                  : needsOption
+                    ? "옵션을 선택해주세요"
+                    : "바로 구매하기"}
             </Button>
           </div>
 
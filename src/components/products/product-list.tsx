@@ -10,6 +10,7 @@
  * 3. 빈 상태 처리
  * 4. 에러 상태 처리
  * 5. 장바구니 추가 기능 연동
+ * 6. 검색 결과의 검색어 강조 (ProductCard에 전달)
  *
  * @dependencies
  * - @/components/products/product-card: 상품 카드 컴포넌트
@@ -29,13 +30,15 @@ interface ProductListProps {
   isLoading?: boolean;
   error?: string;
   onAddToCart?: (productId: number) => void;
+  highlight?: string; // 강조할 검색어
 }
 
 export function ProductList({ 
   products, 
   isLoading = false, 
   error,
-  onAddToCart 
+  onAddToCart,
+  highlight
 }: ProductListProps) {
   console.group("📋 상품 목록 렌더링");
   console.log("상품 수:", products.length);
@@ -87,6 +90,7 @@ export function ProductList({
           key={product.id}
           product={product}
           onAddToCart={onAddToCart}
+          highlight={highlight}
         />
       ))}
     </div>
@@ -0,0 +1,111 @@
+/**
+ * @file points-card.tsx
+ * @description 프로필 페이지의 적립금 카드
+ *
+ * 주요 기능:
+ * 1. 적립금 잔액과 30일 안에 소멸 예정인 금액 표시
+ * 2. 적립률, 유효기간 등 적립금 정책 안내
+ * 3. 최근 적립/사용 내역 표시 (주문 내역 링크 포함)
+ *
+ * @dependencies
+ * - @/actions/points: 적립금 요약과 거래 내역 타입
+ * - @/lib/points: 거래 유형 라벨과 정책 타입
+ * - @/components/ui: ShadcnUI 컴포넌트들
+ */
+
+import Link from "next/link";
+import type { PointSummary, PointTransaction } from "@/actions/points";
+import { getPointTransactionTypeLabel, type PointSettings } from "@/lib/points";
+import { formatPrice } from "@/lib/utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Coins, Clock } from "lucide-react";
+
+export function PointsCard({
+  summary,
+  settings,
+  transactions,
+}: {
+  summary: PointSummary;
+  settings: PointSettings;
+  transactions: PointTransaction[];
+}) {
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="text-xl sm:text-2xl">적립금</CardTitle>
+        <CardDescription className="text-sm">
+          {`배송 완료된 주문 결제 금액(배송비 제외)의 ${settings.earn_rate}%가 적립되며, 적립일로부터 ${settings.expiry_months}개월 동안 사용할 수 있습니다.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-2">
+        <div className="bg-muted/20 p-3 sm:p-4 rounded-md">
+          <div className="flex items-center gap-2 mb-1">
+            <Coins className="h-4 w-4 text-muted-foreground" />
+            <p className="text-xs sm:text-sm font-medium text-muted-foreground">
+              사용 가능 적립금
+            </p>
+          </div>
+          <p className="text-2xl font-bold text-orange-600">
+            {formatPrice(summary.balance)}원
+          </p>
+          {summary.expiringAmount > 0 && (
+            <p className="mt-1 flex items-center gap-1 text-xs text-red-600">
+              <Clock className="h-3 w-3" />
+              {`30일 안에 ${formatPrice(summary.expiringAmount)}원이 소멸됩니다.`}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">적립금 내역</h3>
+          {transactions.length === 0 ? (
+            <p className="text-sm text-gray-500">적립금 내역이 없습니다.</p>
+          ) : (
+            <div className="border rounded-lg divide-y text-sm">
+              {transactions.map((transaction) => (
+                <div
+                  key={transaction.id}
+                  className="flex justify-between gap-4 px-3 py-2"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {getPointTransactionTypeLabel(transaction.type)}
+                      {transaction.order_id && (
+                        <Link
+                          href="/orders"
+                          className="ml-2 text-xs font-normal text-blue-600 hover:underline"
+                        >
+                          {`주문 #${transaction.order_id}`}
+                        </Link>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {new Date(transaction.created_at).toLocaleDateString(
+                        "ko-KR",
+                      )}
+                      {transaction.reason && ` · ${transaction.reason}`}
+                      {transaction.amount > 0 &&
+                        transaction.expires_at &&
+                        ` · ${new Date(transaction.expires_at).toLocaleDateString("ko-KR")} 소멸`}
+                    </p>
+                  </div>
+                  <span
+                    className={`shrink-0 font-medium ${transaction.amount > 0 ? "text-blue-600" : "text-red-600"}`}
+                  >
+                    {`${transaction.amount > 0 ? "+" : ""}${formatPrice(transaction.amount)}원`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * @file order-status.ts
+ * @description 주문 상태 관련 상수와 유틸리티
+ *
+ * 주문 상태 값과 허용되는 상태 전이 규칙을 한 곳에서 관리합니다.
+ * DB의 orders.status 체크 제약과 order_status_transition_allowed 함수
+ * (supabase/migrations/20250605100000_order_status_history.sql)도 같은 규칙을 따릅니다.
+ */
+
+// 주문 상태 목록 (진행 순서대로)
+export const ORDER_STATUSES = [
+  { value: "pending", label: "주문 접수" },
+  { value: "confirmed", label: "주문 확인" },
+  { value: "shipping", label: "배송 중" },
+  { value: "delivered", label: "배송 완료" },
+  { value: "cancelled", label: "주문 취소" },
+] as const;
+
+// 주문 상태 값 타입
+export type OrderStatus = (typeof ORDER_STATUSES)[number]["value"];
+
+// zod enum 등에 사용할 주문 상태 값 목록
+export const ORDER_STATUS_VALUES = ORDER_STATUSES.map(
+  (status) => status.value,
+) as [OrderStatus, ...OrderStatus[]];
+
+// 상태별로 다음에 올 수 있는 상태 (배송 완료/주문 취소는 최종 상태)
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["shipping", "cancelled"],
+  shipping: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+// 정상 진행 순서 (주문 취소 제외, 주문 진행 타임라인에 표시)
+export const ORDER_PROGRESS_STEPS: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "shipping",
+  "delivered",
+];
+
+// 이전 단계에서 해당 단계까지 걸리는 예상 일수 (아직 진행되지 않은 단계의 예상일 계산에 사용)
+export const ORDER_STATUS_ESTIMATED_DAYS: Partial<Record<OrderStatus, number>> =
+  {
+    confirmed: 1, // 주문 접수 후 1일 내 주문 확인
+    shipping: 2, // 주문 확인 후 1-2일 내 배송 시작
+    delivered: 2, // 배송 시작 후 1-2일 내 배송 완료
+  };
+
+// 고객이 직접 취소할 수 있는 상태 (배송 시작 전)
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = [
+  "pending",
+  "confirmed",
+];
+
+/**
+ * 주문 상태 값으로 라벨 찾기
+ */
+export function getOrderStatusLabel(value: string): string {
+  const status = ORDER_STATUSES.find((s) => s.value === value);
+  return status?.label || "알 수 없음";
+}
+
+/**
+ * 주문 상태 값이 유효한지 확인
+ */
+export function isValidOrderStatus(value: string): value is OrderStatus {
+  return ORDER_STATUSES.some((s) => s.value === value);
+}
+
+/**
+ * 현재 상태에서 다음 상태로 변경할 수 있는지 확인
+ */
+export function canTransitionOrderStatus(from: string, to: string): boolean {
+  if (!isValidOrderStatus(from) || !isValidOrderStatus(to)) {
+    return false;
+  }
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 고객이 직접 취소할 수 있는 주문인지 확인
+ */
+export function isOrderCancellable(status: string): boolean {
+  return CUSTOMER_CANCELLABLE_STATUSES.some((s) => s === status);
+}
@@ -0,0 +1,76 @@
+/**
+ * @file return-status.ts
+ * @description 반품(RMA) 상태 관련 상수와 유틸리티
+ *
+ * 반품 상태 값과 허용되는 상태 전이 규칙을 한 곳에서 관리합니다.
+ * DB의 returns.status 체크 제약과 change_return_status / start_return_refund / complete_return_refund 함수
+ * (supabase/migrations/20250611100000_create_returns.sql, 20250629100000_return_refund_claim.sql)도 같은 규칙을 따릅니다.
+ */
+
+// 반품 상태 목록 (진행 순서대로)
+export const RETURN_STATUSES = [
+  { value: "requested", label: "반품 요청" },
+  { value: "approved", label: "반품 승인" },
+  { value: "received", label: "반품 회수 완료" },
+  { value: "refunding", label: "환불 처리 중" },
+  { value: "refunded", label: "환불 완료" },
+  { value: "rejected", label: "반품 거절" },
+] as const;
+
+// 반품 상태 값 타입
+export type ReturnStatus = (typeof RETURN_STATUSES)[number]["value"];
+
+// zod enum 등에 사용할 반품 상태 값 목록
+export const RETURN_STATUS_VALUES = RETURN_STATUSES.map(
+  (status) => status.value,
+) as [ReturnStatus, ...ReturnStatus[]];
+
+// 상태별로 다음에 올 수 있는 상태 (환불 완료/반품 거절은 최종 상태)
+// received → refunding → refunded는 환불 처리(refundReturn)로만 변경됩니다.
+// (결제 대행사 환불에 실패하면 refundReturn이 refunding → received로 되돌림)
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received", "rejected"],
+  received: ["refunding"],
+  refunding: ["refunded"],
+  refunded: [],
+  rejected: [],
+};
+
+// 고객이 반품을 신청할 수 있는 주문 상태
+export const RETURNABLE_ORDER_STATUSES = ["delivered"];
+
+// 반품 신청 시 첨부할 수 있는 사진 수
+export const MAX_RETURN_PHOTOS = 3;
+
+/**
+ * 반품 상태 값으로 라벨 찾기
+ */
+export function getReturnStatusLabel(value: string): string {
+  const status = RETURN_STATUSES.find((s) => s.value === value);
+  return status?.label || "알 수 없음";
+}
+
+/**
+ * 반품 상태 값이 유효한지 확인
+ */
+export function isValidReturnStatus(value: string): value is ReturnStatus {
+  return RETURN_STATUSES.some((s) => s.value === value);
+}
+
+/**
+ * 현재 상태에서 다음 상태로 변경할 수 있는지 확인
+ */
+export function canTransitionReturnStatus(from: string, to: string): boolean {
+  if (!isValidReturnStatus(from) || !isValidReturnStatus(to)) {
+    return false;
+  }
+  return RETURN_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * 반품을 신청할 수 있는 주문인지 확인
+ */
+export function isOrderReturnable(status: string): boolean {
+  return RETURNABLE_ORDER_STATUSES.includes(status);
+}
@@ -24,6 +24,7 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/components/auth/auth-provider";
 import type { CartItem } from "@/actions/cart";
+import { getVariantPrice } from "@/lib/variants";
 
 // Query Keys 상수 정의
 export const CART_QUERY_KEYS = {
@@ -101,9 +102,9 @@ export function useAddToCart() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ productId, quantity }: { productId: number; quantity: number }) => {
+    mutationFn: async ({ productId, quantity, variantId = null }: { productId: number; quantity: number; variantId?: number | null }) => {
       const { addToCart } = await import("@/actions/cart");
-      const result = await addToCart(productId, quantity);
+      const result = await addToCart(productId, quantity, variantId);
       
       if (!result.success) {
         throw new Error(result.message || '장바구니 추가에 실패했습니다.');
@@ -176,7 +177,7 @@ export function useUpdateCartQuantity() {
 
         const updatedItem = updatedItems.find(item => item.id === itemId);
         const quantityDiff = updatedItem ? newQuantity - (previousData.items.find(item => item.id === itemId)?.quantity || 0) : 0;
-        const priceDiff = updatedItem ? quantityDiff * updatedItem.product.price : 0;
+        const priceDiff = updatedItem ? quantityDiff * getVariantPrice(updatedItem.product, updatedItem.variant) : 0;
 
         const optimisticData = {
           items: updatedItems,
@@ -241,7 +242,7 @@ export function useRemoveFromCart() {
           // Optimistic update
           const optimisticData = {
             items: previousData.items.filter(item => item.id !== itemId),
-            totalAmount: previousData.totalAmount - (itemToRemove.quantity * itemToRemove.product.price),
+            totalAmount: previousData.totalAmount - (itemToRemove.quantity * getVariantPrice(itemToRemove.product, itemToRemove.variant)),
             totalItems: previousData.totalItems - itemToRemove.quantity,
           };
 
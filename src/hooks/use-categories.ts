@@ -0,0 +1,53 @@
+/**
+ * @file use-categories.ts
+ * @description 카테고리 목록 조회 훅
+ *
+ * 카테고리 필터, 상품 등록 폼, 쿠폰 관리처럼 클라이언트 컴포넌트에서 카테고리 목록이 필요할 때 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 카테고리 목록 조회 (고객 화면은 노출 중인 카테고리만)
+ * 2. 로딩/에러 상태 관리
+ * 3. 카테고리 변경 후 다시 조회
+ *
+ * @dependencies
+ * - @/actions/categories: 카테고리 조회 서버 액션
+ * - @/lib/categories: 카테고리 타입
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { getCategories } from "@/actions/categories";
+import type { Category } from "@/lib/categories";
+
+/**
+ * @param includeHidden - 숨긴 카테고리도 포함 (관리자 화면)
+ */
+export function useCategories(includeHidden: boolean = false) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCategories(await getCategories(includeHidden));
+    } catch (error) {
+      console.error("카테고리 조회 실패:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "카테고리를 불러오는 중 오류가 발생했습니다.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [includeHidden]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { categories, isLoading, error, refresh };
+}
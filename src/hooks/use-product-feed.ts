@@ -0,0 +1,112 @@
+/**
+ * @file use-product-feed.ts
+ * @description TanStack Query를 사용한 쇼핑몰 상품 목록 hooks
+ *
+ * 주요 기능:
+ * 1. 무한 스크롤 상품 목록 (useProductFeed, 커서 페이지네이션)
+ * 2. 페이지 번호 상품 목록 (useProductPage, ?page=N)
+ * 3. 조건을 바꾸는 동안 이전 목록의 필터 항목 수 유지
+ * 4. 상품 상세에서 돌아왔을 때 이미 불러온 페이지를 캐시에서 바로 표시
+ *
+ * @dependencies
+ * - @tanstack/react-query: 데이터 fetching 및 캐싱
+ * - @/actions/products: 상품 목록 서버 액션
+ * - @/lib/product-filters: 상품 목록 조건 타입
+ */
+
+"use client";
+
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+} from "@tanstack/react-query";
+import { getProductFeed, getProducts } from "@/actions/products";
+import { ALL_CATEGORY } from "@/lib/categories";
+import type { ProductListParams } from "@/lib/product-filters";
+
+// 목록 한 페이지 상품 수
+export const PRODUCT_FEED_PAGE_SIZE = 12;
+
+// 목록 조건 (페이지 번호 제외, 검색어는 디바운싱된 값)
+export type ProductFeedParams = Omit<ProductListParams, "page">;
+
+// Query Keys 상수 정의
+export const PRODUCT_QUERY_KEYS = {
+  all: ["products"] as const,
+  feed: (params: ProductFeedParams) =>
+    [...PRODUCT_QUERY_KEYS.all, "feed", params] as const,
+  page: (params: ProductFeedParams, page: number) =>
+    [...PRODUCT_QUERY_KEYS.all, "page", params, page] as const,
+} as const;
+
+/**
+ * 무한 스크롤 상품 목록 hook
+ * 전체 상품 수와 필터 항목 수는 첫 페이지 결과에 들어 있습니다.
+ */
+export function useProductFeed(params: ProductFeedParams, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: PRODUCT_QUERY_KEYS.feed(params),
+    queryFn: ({ pageParam }) => {
+      console.log(
+        "🔄 useProductFeed 쿼리 실행 - 커서:",
+        pageParam || "첫 페이지",
+      );
+
+      return getProductFeed({
+        cursor: pageParam,
+        limit: PRODUCT_FEED_PAGE_SIZE,
+        category:
+          params.category === ALL_CATEGORY ? undefined : params.category,
+        searchTerm: params.search || undefined,
+        filters: {
+          sort: params.sort,
+          minPrice: params.minPrice,
+          maxPrice: params.maxPrice,
+          inStockOnly: params.inStockOnly,
+        },
+        withFacets: !pageParam,
+      });
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // 1분간 fresh
+    gcTime: 30 * 60 * 1000, // 30분간 캐시 유지 (상세 페이지에서 돌아올 때 사용)
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * 페이지 번호 상품 목록 hook (?page=N)
+ */
+export function useProductPage(
+  params: ProductFeedParams,
+  page: number,
+  enabled = true,
+) {
+  return useQuery({
+    queryKey: PRODUCT_QUERY_KEYS.page(params, page),
+    queryFn: () =>
+      getProducts(
+        page,
+        PRODUCT_FEED_PAGE_SIZE,
+        params.category === ALL_CATEGORY ? undefined : params.category,
+        params.search || undefined,
+        false,
+        undefined,
+        {
+          sort: params.sort,
+          minPrice: params.minPrice,
+          maxPrice: params.maxPrice,
+          inStockOnly: params.inStockOnly,
+          withFacets: true,
+        },
+      ),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * @file use-recent-searches.ts
+ * @description 최근 검색어 훅
+ *
+ * 최근 검색어는 로그인 여부와 관계없이 브라우저 localStorage에 저장합니다.
+ *
+ * 주요 기능:
+ * 1. 최근 검색어 목록 불러오기 (최근 검색한 순서, 최대 8개)
+ * 2. 검색어 추가 (같은 검색어는 맨 앞으로 이동)
+ * 3. 검색어 하나 삭제 / 전체 삭제
+ *
+ * @dependencies
+ * - @/lib/search: 최근 검색어 목록 규칙
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  addRecentSearch,
+  MAX_RECENT_SEARCHES,
+  RECENT_SEARCHES_STORAGE_KEY,
+} from "@/lib/search";
+
+function readRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(RECENT_SEARCHES_STORAGE_KEY) || "[]",
+    );
+    return Array.isArray(stored)
+      ? stored
+          .filter((search): search is string => typeof search === "string")
+          .slice(0, MAX_RECENT_SEARCHES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRecentSearches(searches: string[]) {
+  try {
+    window.localStorage.setItem(
+      RECENT_SEARCHES_STORAGE_KEY,
+      JSON.stringify(searches),
+    );
+  } catch (error) {
+    // 시크릿 모드 등 저장소를 쓸 수 없어도 검색은 계속 가능
+    console.warn("최근 검색어 저장 실패:", error);
+  }
+}
+
+export function useRecentSearches() {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+
+  // 서버 렌더링과 결과가 같도록 마운트 후에 불러옴
+  useEffect(() => {
+    setRecentSearches(readRecentSearches());
+  }, []);
+
+  const updateRecentSearches = useCallback(
+    (update: (searches: string[]) => string[]) => {
+      setRecentSearches((searches) => {
+        const next = update(searches);
+        writeRecentSearches(next);
+        return next;
+      });
+    },
+    [],
+  );
+
+  const addSearch = useCallback(
+    (query: string) => {
+      updateRecentSearches((searches) => addRecentSearch(searches, query));
+    },
+    [updateRecentSearches],
+  );
+
+  const removeSearch = useCallback(
+    (query: string) => {
+      updateRecentSearches((searches) =>
+        searches.filter((search) => search !== query),
+      );
+    },
+    [updateRecentSearches],
+  );
+
+  const clearSearches = useCallback(() => {
+    updateRecentSearches(() => []);
+  }, [updateRecentSearches]);
+
+  return { recentSearches, addSearch, removeSearch, clearSearches };
+}
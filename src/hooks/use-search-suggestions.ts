@@ -0,0 +1,90 @@
+/**
+ * @file use-search-suggestions.ts
+ * @description TanStack Query를 사용한 검색 팔레트 검색 제안 hooks
+ *
+ * 주요 기능:
+ * 1. 입력 중인 검색어 디바운싱 (200ms) 후 검색 제안 조회 (useSearchSuggestions)
+ * 2. 같은 검색어(정리한 값 기준)는 캐시된 결과를 바로 표시
+ * 3. 새 결과를 불러오는 동안 이전 결과 유지
+ * 4. 인기 검색어 조회 (usePopularSearches)
+ *
+ * @dependencies
+ * - @tanstack/react-query: 데이터 fetching 및 캐싱
+ * - @/actions/search: 검색 제안 서버 액션
+ * - @/lib/search: 검색어 정리
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  getPopularSearchQueries,
+  getSearchSuggestions,
+} from "@/actions/search";
+import { normalizeSearchQuery } from "@/lib/search";
+
+// Query Keys 상수 정의
+export const SEARCH_QUERY_KEYS = {
+  all: ["search"] as const,
+  suggestions: (query: string) =>
+    [...SEARCH_QUERY_KEYS.all, "suggestions", query] as const,
+  popular: () => [...SEARCH_QUERY_KEYS.all, "popular"] as const,
+} as const;
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+/**
+ * 검색 제안 조회 hook
+ * @param enabled - 검색 팔레트가 열려 있을 때만 조회
+ */
+export function useSearchSuggestions(query: string, enabled: boolean = true) {
+  const normalizedQuery = normalizeSearchQuery(query);
+  const [debouncedQuery, setDebouncedQuery] = useState(normalizedQuery);
+
+  // 검색어 디바운싱 (지운 경우는 바로 반영)
+  useEffect(() => {
+    if (!normalizedQuery) {
+      setDebouncedQuery("");
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      setDebouncedQuery(normalizedQuery);
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeoutId);
+  }, [normalizedQuery]);
+
+  const result = useQuery({
+    queryKey: SEARCH_QUERY_KEYS.suggestions(debouncedQuery),
+    queryFn: () => getSearchSuggestions(debouncedQuery),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000, // 1분간 fresh (재고/공개 상태 변경 반영)
+    gcTime: 10 * 60 * 1000, // 10분간 캐시 유지
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    ...result,
+    // 디바운싱 대기 중이거나 이전 검색어의 결과를 보여주는 중
+    isPending:
+      debouncedQuery !== normalizedQuery ||
+      result.isPlaceholderData ||
+      result.isLoading,
+  };
+}
+
+/**
+ * 인기 검색어 조회 hook
+ */
+export function usePopularSearches(enabled: boolean = true) {
+  return useQuery({
+    queryKey: SEARCH_QUERY_KEYS.popular(),
+    queryFn: () => getPopularSearchQueries(),
+    enabled,
+    staleTime: 10 * 60 * 1000, // 10분간 fresh
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * @file use-unsaved-changes-warning.ts
+ * @description 저장하지 않은 변경 사항이 있을 때 페이지 이탈 경고 훅
+ *
+ * 관리자 상품 수정 폼처럼 입력 중인 내용을 잃으면 안 되는 화면에서 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 새로고침, 탭 닫기, 주소 입력으로 떠날 때 브라우저 확인 창 표시
+ * 2. 페이지 안의 링크(Next.js Link 포함)로 이동할 때 확인 후 이동
+ */
+
+"use client";
+
+import { useEffect } from "react";
+
+const DEFAULT_MESSAGE =
+  "저장하지 않은 변경 사항이 있습니다. 페이지를 떠나시겠습니까?";
+
+/**
+ * @param isDirty - 저장하지 않은 변경 사항이 있는지
+ */
+export function useUnsavedChangesWarning(
+  isDirty: boolean,
+  message: string = DEFAULT_MESSAGE,
+) {
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = message;
+      return message;
+    };
+
+    // Next.js Link 이동은 beforeunload가 발생하지 않으므로 링크 클릭을 먼저 확인
+    const handleLinkClick = (event: MouseEvent) => {
+      if (
+        event.button !== 0 ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.shiftKey ||
+        event.altKey
+      ) {
+        return;
+      }
+
+      const anchor = (event.target as Element | null)?.closest?.("a[href]");
+      if (!anchor || anchor.getAttribute("target") === "_blank") return;
+
+      if (!confirm(message)) {
+        event.preventDefault();
+        event.stopPropagation();
+      }
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    document.addEventListener("click", handleLinkClick, true);
+
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      document.removeEventListener("click", handleLinkClick, true);
+    };
+  }, [isDirty, message]);
+}
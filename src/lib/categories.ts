@@ -0,0 +1,227 @@
+/**
+ * @file categories.ts
+ * @description 상품 카테고리 트리 구성, 라벨, 하위 카테고리 계산
+ *
+ * 카테고리는 관리자가 categories 테이블에서 관리하며, 이 파일은 조회한 카테고리 목록으로 계산만 합니다.
+ * 하위 카테고리 계산은 DB 함수(category_subtree_slugs)와 동일하게 유지해야 합니다.
+ * (supabase/migrations/20250619100000_category_tree.sql)
+ *
+ * 주요 기능:
+ * 1. 카테고리 트리 구성 (표시 순서대로)
+ * 2. 슬러그로 카테고리 이름, 경로(상위 카테고리부터), 하위 카테고리 찾기
+ * 3. 고객 화면에 노출할 카테고리 (숨긴 카테고리와 그 하위 카테고리 제외)
+ * 4. 선택 목록용 카테고리 (트리 순서, 깊이 포함)
+ */
+
+// 카테고리 (categories)
+export interface Category {
+  id: number;
+  parent_id: number | null; // 상위 카테고리 ID (null이면 최상위)
+  slug: string; // URL과 products.category에 쓰는 값
+  name: string;
+  icon: string | null; // CATEGORY_ICONS의 값 (null이면 기본 아이콘)
+  sort_order: number;
+  is_visible: boolean; // 고객 화면 노출 여부
+}
+
+// 하위 카테고리를 포함한 카테고리
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+// 전체 카테고리 (필터에서 카테고리를 고르지 않음)
+export const ALL_CATEGORY = "all";
+
+// 카테고리를 고르지 않은 상품의 카테고리 (products.category 기본값, 삭제할 수 없음)
+export const DEFAULT_CATEGORY = "general";
+
+// 카테고리 아이콘 (관리자가 고를 수 있는 아이콘, 컴포넌트는 @/components/categories/category-icon)
+export const CATEGORY_ICONS = [
+  { value: "smartphone", label: "스마트폰" },
+  { value: "laptop", label: "노트북" },
+  { value: "camera", label: "카메라" },
+  { value: "shirt", label: "의류" },
+  { value: "watch", label: "시계" },
+  { value: "sparkles", label: "뷰티" },
+  { value: "sofa", label: "가구" },
+  { value: "dumbbell", label: "운동" },
+  { value: "book-open", label: "도서" },
+  { value: "utensils", label: "식품" },
+  { value: "heart-pulse", label: "건강" },
+  { value: "baby", label: "유아" },
+  { value: "paw-print", label: "반려동물" },
+  { value: "gamepad", label: "게임" },
+  { value: "gift", label: "선물" },
+  { value: "package", label: "기타" },
+] as const;
+
+// 카테고리 아이콘 값 타입
+export type CategoryIconName = (typeof CATEGORY_ICONS)[number]["value"];
+
+// zod enum 등에서 사용할 카테고리 아이콘 값 목록
+export const CATEGORY_ICON_VALUES = CATEGORY_ICONS.map(
+  (icon) => icon.value,
+) as [CategoryIconName, ...CategoryIconName[]];
+
+// 표시 순서 비교 (순서가 같으면 먼저 만든 카테고리가 앞)
+function compareCategories(a: Category, b: Category): number {
+  return a.sort_order - b.sort_order || a.id - b.id;
+}
+
+/**
+ * 카테고리 트리 (최상위 카테고리 목록, 하위 카테고리는 children에 표시 순서대로)
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>(
+    categories.map((category) => [category.id, { ...category, children: [] }]),
+  );
+  const roots: CategoryNode[] = [];
+
+  [...categories].sort(compareCategories).forEach((category) => {
+    const node = nodes.get(category.id)!;
+    const parent =
+      category.parent_id !== null ? nodes.get(category.parent_id) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * 고객 화면에 노출할 카테고리 (숨긴 카테고리와 그 하위 카테고리 제외)
+ */
+export function getVisibleCategories(categories: Category[]): Category[] {
+  const visible: Category[] = [];
+
+  const collect = (nodes: CategoryNode[]) => {
+    nodes.forEach((node) => {
+      if (!node.is_visible) return;
+      const { children, ...category } = node;
+      visible.push(category);
+      collect(children);
+    });
+  };
+  collect(buildCategoryTree(categories));
+
+  return visible;
+}
+
+/**
+ * 선택 목록용 카테고리 (트리 순서, depth는 최상위가 0)
+ */
+export function getCategoryOptions(
+  categories: Category[],
+): { category: Category; depth: number }[] {
+  const options: { category: Category; depth: number }[] = [];
+
+  const collect = (nodes: CategoryNode[], depth: number) => {
+    nodes.forEach(({ children, ...category }) => {
+      options.push({ category, depth });
+      collect(children, depth + 1);
+    });
+  };
+  collect(buildCategoryTree(categories), 0);
+
+  return options;
+}
+
+/**
+ * 슬러그로 카테고리 찾기
+ */
+export function findCategory(
+  categories: Category[],
+  slug: string,
+): Category | null {
+  return categories.find((category) => category.slug === slug) ?? null;
+}
+
+/**
+ * 카테고리 이름 (전체는 "전체", 없는 카테고리는 "알 수 없음")
+ */
+export function getCategoryLabel(categories: Category[], slug: string): string {
+  if (slug === ALL_CATEGORY) return "전체";
+  return findCategory(categories, slug)?.name || "알 수 없음";
+}
+
+/**
+ * 상품에 지정할 수 있는 카테고리인지 확인
+ */
+export function isValidCategory(categories: Category[], slug: string): boolean {
+  return !!findCategory(categories, slug);
+}
+
+/**
+ * 최상위 카테고리부터 해당 카테고리까지의 경로 (예: 패션/의류 > 신발)
+ */
+export function getCategoryPath(
+  categories: Category[],
+  slug: string,
+): Category[] {
+  const path: Category[] = [];
+  let current = findCategory(categories, slug);
+
+  // 잘못된 데이터로 순환이 생겨도 멈추도록 카테고리 수만큼만 올라감
+  while (current && path.length < categories.length) {
+    path.unshift(current);
+    const parentId = current.parent_id;
+    current =
+      parentId !== null
+        ? (categories.find((category) => category.id === parentId) ?? null)
+        : null;
+  }
+
+  return path;
+}
+
+/**
+ * 카테고리와 모든 하위 카테고리 (자기 자신 포함)
+ */
+export function getCategorySubtree(
+  categories: Category[],
+  categoryId: number,
+): Category[] {
+  const subtree = categories.filter((category) => category.id === categoryId);
+
+  for (let i = 0; i < subtree.length; i++) {
+    const parentId = subtree[i].id;
+    categories.forEach((category) => {
+      if (category.parent_id === parentId && !subtree.includes(category)) {
+        subtree.push(category);
+      }
+    });
+  }
+
+  return subtree;
+}
+
+/**
+ * 카테고리와 모든 하위 카테고리의 슬러그 (상위 카테고리로 상품을 찾을 때 사용)
+ */
+export function getCategorySubtreeSlugs(
+  categories: Category[],
+  slug: string,
+): string[] {
+  const category = findCategory(categories, slug);
+  if (!category) return [slug];
+
+  return getCategorySubtree(categories, category.id).map(
+    (subCategory) => subCategory.slug,
+  );
+}
+
+/**
+ * 하위 카테고리 목록 (표시 순서대로, parentId가 null이면 최상위 카테고리)
+ */
+export function getChildCategories(
+  categories: Category[],
+  parentId: number | null,
+): Category[] {
+  return categories
+    .filter((category) => category.parent_id === parentId)
+    .sort(compareCategories);
+}
@@ -0,0 +1,132 @@
+/**
+ * @file coupons.ts
+ * @description 쿠폰 할인 방식, 적용 범위와 표시/에러 메시지
+ *
+ * 할인 금액 계산과 사용 한도 확인은 DB 함수(evaluate_coupon)에서만 처리합니다.
+ * (supabase/migrations/20250612100000_create_coupons.sql)
+ * 이 파일은 관리자 쿠폰 폼, 주문서, 주문 생성 서버 액션이 함께 쓰는 값과 문구를 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 할인 방식 (정률 / 정액)
+ * 2. 적용 범위 (전체 / 카테고리 / 상품)
+ * 3. 쿠폰 할인 내용 요약 문구
+ * 4. 쿠폰 적용 실패 사유를 고객용 에러 메시지로 변환
+ */
+
+import { formatPrice } from "@/lib/utils";
+import { getCategoryLabel, type Category } from "@/lib/categories";
+
+// 할인 방식 (coupons.discount_type 체크 제약과 동일)
+export const COUPON_DISCOUNT_TYPES = [
+  { value: "percentage", label: "정률 할인 (%)" },
+  { value: "fixed", label: "정액 할인 (원)" },
+] as const;
+
+export type CouponDiscountType =
+  (typeof COUPON_DISCOUNT_TYPES)[number]["value"];
+
+export const COUPON_DISCOUNT_TYPE_VALUES = COUPON_DISCOUNT_TYPES.map(
+  (type) => type.value,
+) as [CouponDiscountType, ...CouponDiscountType[]];
+
+// 적용 범위 (coupons.scope 체크 제약과 동일)
+export const COUPON_SCOPES = [
+  { value: "all", label: "전체 상품" },
+  { value: "category", label: "특정 카테고리" },
+  { value: "product", label: "특정 상품" },
+] as const;
+
+export type CouponScope = (typeof COUPON_SCOPES)[number]["value"];
+
+export const COUPON_SCOPE_VALUES = COUPON_SCOPES.map(
+  (scope) => scope.value,
+) as [CouponScope, ...CouponScope[]];
+
+// 할인 내용 요약에 필요한 쿠폰 정보
+export interface CouponSummary {
+  discount_type: string;
+  discount_value: number;
+  max_discount_amount: number | null;
+  min_order_amount: number;
+  scope: string;
+  scope_category: string | null;
+  scope_product_ids: number[];
+}
+
+// 쿠폰 적용 실패 결과 (preview_coupon / create_order의 coupon_* 에러)
+export interface CouponRpcFailure {
+  success: false;
+  error_code: string;
+  starts_at?: string;
+  per_user_limit?: number;
+  min_order_amount?: number;
+}
+
+/**
+ * 쿠폰 할인 내용 요약 (예: "10% 할인 (최대 5,000원)", "3,000원 할인")
+ */
+export function getCouponDiscountLabel(coupon: CouponSummary): string {
+  if (coupon.discount_type === "percentage") {
+    return coupon.max_discount_amount
+      ? `${coupon.discount_value}% 할인 (최대 ${formatPrice(coupon.max_discount_amount)}원)`
+      : `${coupon.discount_value}% 할인`;
+  }
+  return `${formatPrice(coupon.discount_value)}원 할인`;
+}
+
+/**
+ * 쿠폰 적용 범위 요약 (예: "전체 상품", "카테고리: 전자제품", "상품 3개")
+ * @param categories - 카테고리 이름을 찾을 카테고리 목록 (하위 카테고리 상품에도 적용)
+ */
+export function getCouponScopeLabel(
+  coupon: CouponSummary,
+  categories: Category[],
+): string {
+  switch (coupon.scope) {
+    case "category":
+      return `카테고리: ${getCategoryLabel(categories, coupon.scope_category ?? "")}`;
+    case "product":
+      return `상품 ${coupon.scope_product_ids.length}개`;
+    default:
+      return "전체 상품";
+  }
+}
+
+/**
+ * 쿠폰 적용 실패 사유인지 확인 (create_order 실패 결과에서 쿠폰 에러 구분)
+ */
+export function isCouponErrorCode(errorCode: string): boolean {
+  return errorCode.startsWith("coupon_");
+}
+
+/**
+ * 쿠폰 적용 실패 결과를 고객에게 보여줄 에러 메시지로 변환
+ */
+export function getCouponErrorMessage(result: CouponRpcFailure): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "coupon_not_found":
+      return "존재하지 않는 쿠폰 코드입니다";
+    case "coupon_inactive":
+      return "사용할 수 없는 쿠폰입니다";
+    case "coupon_not_started":
+      return result.starts_at
+        ? `${new Date(result.starts_at).toLocaleDateString("ko-KR")}부터 사용할 수 있는 쿠폰입니다`
+        : "아직 사용할 수 없는 쿠폰입니다";
+    case "coupon_expired":
+      return "사용 기간이 지난 쿠폰입니다";
+    case "coupon_usage_limit_reached":
+      return "선착순 사용 수량이 모두 소진된 쿠폰입니다";
+    case "coupon_already_used":
+      return result.per_user_limit && result.per_user_limit > 1
+        ? `이 쿠폰은 ${result.per_user_limit}번까지만 사용할 수 있습니다`
+        : "이미 사용한 쿠폰입니다";
+    case "coupon_min_order_not_met":
+      return `${formatPrice(result.min_order_amount ?? 0)}원 이상 주문 시 사용할 수 있는 쿠폰입니다`;
+    case "coupon_not_applicable":
+      return "쿠폰을 적용할 수 있는 상품이 없습니다";
+    default:
+      return "쿠폰 적용 중 오류가 발생했습니다";
+  }
+}
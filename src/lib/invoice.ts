@@ -0,0 +1,244 @@
+/**
+ * @file invoice.ts
+ * @description 주문 영수증(거래명세서) 번호, 부가세 계산과 인쇄용 HTML 생성
+ *
+ * 영수증 라우트(/orders/[id]/invoice)에서 사용합니다.
+ * 브라우저의 인쇄 기능으로 종이 출력 또는 PDF 저장을 할 수 있도록 A4 인쇄용 스타일을 포함합니다.
+ *
+ * 주요 기능:
+ * 1. 영수증 번호 생성 (주문일 + 주문 번호)
+ * 2. 결제 금액의 공급가액/부가세 계산 (부가세 포함 금액 기준)
+ * 3. 주문 상품(주문 당시 가격), 배송비, 쿠폰 할인, 적립금 사용, 사업자 정보를 담은 HTML 생성
+ *
+ * @dependencies
+ * - @/utils/seo/constants: 사이트 이름과 사업자 정보
+ * - @/constants/order-status: 주문 상태 라벨
+ */
+
+import { siteConfig } from "@/utils/seo/constants";
+import { getOrderStatusLabel } from "@/constants/order-status";
+import { formatPrice } from "@/lib/utils";
+
+// 부가세율 (모든 상품 과세 기준)
+const VAT_RATE = 0.1;
+
+// 영수증에 필요한 주문 정보
+export interface InvoiceOrder {
+  id: number;
+  status: string;
+  created_at: string | null;
+  total_amount: number;
+  shipping_fee: number | null;
+  discount_amount: number | null;
+  coupon_code: string | null;
+  points_used: number | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_address: string | null;
+  customer_postcode: string | null;
+  order_items: Array<{
+    id: number;
+    quantity: number;
+    price_at_time: number;
+    variant_label: string | null; // 주문 당시 옵션 라벨
+    product: { name: string } | null;
+  }>;
+}
+
+// 한국 시간 기준 날짜 (YYYY-MM-DD)
+function toKoreanDateString(value: string | Date): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Seoul",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(value));
+}
+
+// HTML 특수문자 이스케이프 (고객 입력값, 상품명)
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * 영수증 번호 (예: INV-20250612-000123)
+ * 주문일(한국 시간)과 주문 번호로 만들어 같은 주문은 항상 같은 번호가 됩니다.
+ */
+export function getInvoiceNumber(order: {
+  id: number;
+  created_at: string | null;
+}): string {
+  const date = order.created_at
+    ? toKoreanDateString(order.created_at).replace(/-/g, "")
+    : "00000000";
+  return `INV-${date}-${String(order.id).padStart(6, "0")}`;
+}
+
+/**
+ * 부가세 포함 금액을 공급가액과 부가세로 나눔 (원 단위 반올림)
+ */
+export function calculateVatBreakdown(totalAmount: number): {
+  supplyAmount: number;
+  vatAmount: number;
+} {
+  const supplyAmount = Math.round(totalAmount / (1 + VAT_RATE));
+  return { supplyAmount, vatAmount: totalAmount - supplyAmount };
+}
+
+/**
+ * 인쇄용 영수증 HTML 생성
+ */
+export function renderInvoiceHtml(
+  order: InvoiceOrder,
+  issuedAt: Date = new Date(),
+): string {
+  const invoiceNumber = getInvoiceNumber(order);
+  const shippingFee = order.shipping_fee ?? 0;
+  const discountAmount = order.discount_amount ?? 0;
+  const pointsUsed = order.points_used ?? 0;
+  const itemsAmount = order.order_items.reduce(
+    (sum, item) => sum + item.price_at_time * item.quantity,
+    0,
+  );
+  const { supplyAmount, vatAmount } = calculateVatBreakdown(order.total_amount);
+  const business = siteConfig.business;
+  const isCancelled = order.status === "cancelled";
+
+  const itemRows = order.order_items
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(item.product?.name ?? "삭제된 상품")}${item.variant_label ? `<div class="meta">${escapeHtml(item.variant_label)}</div>` : ""}</td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${formatPrice(item.price_at_time)}원</td>
+          <td class="num">${formatPrice(item.price_at_time * item.quantity)}원</td>
+        </tr>`,
+    )
+    .join("");
+
+  const discountRow =
+    discountAmount > 0
+      ? `
+        <tr>
+          <th>쿠폰 할인${order.coupon_code ? ` (${escapeHtml(order.coupon_code)})` : ""}</th>
+          <td class="num">-${formatPrice(discountAmount)}원</td>
+        </tr>`
+      : "";
+
+  const pointsRow =
+    pointsUsed > 0
+      ? `
+        <tr>
+          <th>적립금 사용</th>
+          <td class="num">-${formatPrice(pointsUsed)}원</td>
+        </tr>`
+      : "";
+
+  const address = [order.customer_postcode, order.customer_address]
+    .filter(Boolean)
+    .map((value) => escapeHtml(value as string))
+    .join(" ");
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>영수증 ${invoiceNumber} - ${escapeHtml(siteConfig.name)}</title>
+  <style>
+    @page { size: A4; margin: 16mm; }
+    * { box-sizing: border-box; }
+    body { margin: 0; padding: 24px; font-family: -apple-system, "Apple SD Gothic Neo", "Malgun Gothic", sans-serif; font-size: 13px; color: #111827; background: #f3f4f6; }
+    .page { max-width: 780px; margin: 0 auto; padding: 32px; background: #fff; border: 1px solid #e5e7eb; }
+    .toolbar { max-width: 780px; margin: 0 auto 12px; text-align: right; }
+    .toolbar button { padding: 8px 16px; font-size: 13px; border: 1px solid #111827; border-radius: 6px; background: #111827; color: #fff; cursor: pointer; }
+    h1 { margin: 0 0 4px; font-size: 22px; }
+    h2 { margin: 24px 0 8px; font-size: 14px; }
+    .meta { color: #4b5563; }
+    .cancelled { margin-top: 12px; padding: 8px 12px; border: 1px solid #fca5a5; background: #fef2f2; color: #b91c1c; }
+    .parties { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; vertical-align: top; }
+    thead th { background: #f9fafb; border-top: 1px solid #111827; }
+    .num { text-align: right; white-space: nowrap; }
+    .summary { width: 320px; margin-left: auto; }
+    .summary th { font-weight: normal; color: #4b5563; }
+    .total th, .total td { font-weight: bold; border-top: 1px solid #111827; }
+    .note { margin-top: 24px; color: #6b7280; font-size: 11px; }
+    @media print {
+      body { padding: 0; background: #fff; }
+      .page { border: none; padding: 0; }
+      .toolbar { display: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button type="button" onclick="window.print()">인쇄 / PDF 저장</button>
+  </div>
+  <div class="page">
+    <h1>영수증 (거래명세서)</h1>
+    <div class="meta">
+      영수증 번호 ${invoiceNumber} · 주문 번호 #${order.id} · 주문일 ${order.created_at ? toKoreanDateString(order.created_at) : "-"} · 발행일 ${toKoreanDateString(issuedAt)}
+    </div>
+    ${isCancelled ? `<div class="cancelled">이 주문은 ${getOrderStatusLabel(order.status)} 상태입니다. 결제 금액은 환불 처리되었거나 처리 예정입니다.</div>` : ""}
+
+    <div class="parties">
+      <div>
+        <h2>공급자</h2>
+        <table>
+          <tr><th>상호</th><td>${escapeHtml(business.companyName)}</td></tr>
+          <tr><th>대표자</th><td>${escapeHtml(business.representative)}</td></tr>
+          <tr><th>사업자등록번호</th><td>${escapeHtml(business.registrationNumber)}</td></tr>
+          <tr><th>통신판매업 신고</th><td>${escapeHtml(business.mailOrderNumber)}</td></tr>
+          <tr><th>주소</th><td>${escapeHtml(business.address)}</td></tr>
+          <tr><th>연락처</th><td>${escapeHtml(business.phone)} · ${escapeHtml(business.email)}</td></tr>
+        </table>
+      </div>
+      <div>
+        <h2>공급받는 자</h2>
+        <table>
+          <tr><th>주문자</th><td>${escapeHtml(order.customer_name || "-")}</td></tr>
+          <tr><th>연락처</th><td>${escapeHtml(order.customer_phone || "-")}</td></tr>
+          <tr><th>배송지</th><td>${address || "-"}</td></tr>
+        </table>
+      </div>
+    </div>
+
+    <h2>주문 상품</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>상품명</th>
+          <th class="num">수량</th>
+          <th class="num">단가</th>
+          <th class="num">금액</th>
+        </tr>
+      </thead>
+      <tbody>${itemRows}
+      </tbody>
+    </table>
+
+    <h2>결제 금액</h2>
+    <table class="summary">
+      <tr><th>상품 금액</th><td class="num">${formatPrice(itemsAmount)}원</td></tr>
+      <tr><th>배송비</th><td class="num">${shippingFee > 0 ? `${formatPrice(shippingFee)}원` : "무료"}</td></tr>${discountRow}${pointsRow}
+      <tr class="total"><th>결제 금액 (부가세 포함)</th><td class="num">${formatPrice(order.total_amount)}원</td></tr>
+      <tr><th>공급가액</th><td class="num">${formatPrice(supplyAmount)}원</td></tr>
+      <tr><th>부가세</th><td class="num">${formatPrice(vatAmount)}원</td></tr>
+    </table>
+
+    <p class="note">
+      이 영수증은 구매 증빙용이며 세금계산서를 대체하지 않습니다. 단가는 주문 당시 가격입니다.<br />
+      문의: ${escapeHtml(business.phone)} · ${escapeHtml(business.email)} · ${escapeHtml(siteConfig.url)}
+    </p>
+  </div>
+</body>
+</html>`;
+}
@@ -0,0 +1,50 @@
+/**
+ * @file index.ts
+ * @description 결제 대행사 선택
+ *
+ * PAYMENT_PROVIDER 환경 변수로 사용할 결제 대행사를 고릅니다. (개발 환경 기본값: mock)
+ * 토스페이먼츠, KG이니시스 등을 추가할 때는 PaymentProvider 구현체를 providers에 등록합니다.
+ *
+ * 모의 결제는 누구나 결제를 매입/환불 처리할 수 있으므로 운영 환경에서는 등록하지 않고,
+ * 운영 환경에서는 PAYMENT_PROVIDER를 반드시 지정해야 합니다.
+ */
+
+import { mockPaymentProvider } from "./mock-provider";
+import type { PaymentProvider } from "./types";
+
+export type * from "./types";
+
+const isProduction = process.env.NODE_ENV === "production";
+
+// 사용 가능한 결제 대행사 목록
+const providers: Record<string, PaymentProvider> = isProduction
+  ? {}
+  : { [mockPaymentProvider.name]: mockPaymentProvider };
+
+/**
+ * 이름으로 결제 대행사 찾기 (웹훅 처리, 기존 결제 환불 등)
+ */
+export function getPaymentProviderByName(name: string): PaymentProvider | null {
+  return providers[name] ?? null;
+}
+
+/**
+ * 새 결제에 사용할 결제 대행사
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const name =
+    process.env.PAYMENT_PROVIDER ||
+    (isProduction ? null : mockPaymentProvider.name);
+
+  if (!name) {
+    throw new Error("PAYMENT_PROVIDER 환경 변수가 설정되지 않았습니다.");
+  }
+
+  const provider = getPaymentProviderByName(name);
+
+  if (!provider) {
+    throw new Error(`지원하지 않는 결제 대행사입니다: ${name}`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,112 @@
+/**
+ * @file mock-provider.ts
+ * @description 로컬 개발/테스트용 모의 결제 대행사
+ *
+ * 실제 결제 대행사 없이 결제 흐름 전체(승인 → 매입 → 환불, 웹훅)를 오프라인에서 확인할 수 있습니다.
+ * 운영 환경(NODE_ENV=production)에서는 등록되지 않습니다. (@/lib/payments)
+ *
+ * 주요 기능:
+ * 1. 항상 즉시 처리되는 승인/매입/승인 취소/환불
+ * 2. 결제 실패 재현: 결제 금액이 MOCK_FAILURE_AMOUNT 이상이면 한도 초과로 승인 거절
+ * 3. HMAC-SHA256 서명 웹훅 검증 (x-mock-signature 헤더, PAYMENT_WEBHOOK_SECRET 필수)
+ * 4. 테스트용 웹훅 요청 본문/서명 생성 (createMockWebhookRequest)
+ *
+ * @dependencies
+ * - node:crypto: 거래 ID 생성 및 웹훅 서명
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { PaymentProvider, PaymentWebhookEvent } from "./types";
+
+// 이 금액 이상이면 승인을 거절합니다. (결제 실패 흐름 테스트용)
+export const MOCK_FAILURE_AMOUNT = 10_000_000;
+
+// 웹훅 서명 헤더 이름
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+// 웹훅 서명 키 (기본값을 두면 누구나 서명을 만들 수 있으므로 환경 변수 필수)
+function getWebhookSecret(): string {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("PAYMENT_WEBHOOK_SECRET 환경 변수가 설정되지 않았습니다.");
+  }
+  return secret;
+}
+
+function sign(rawBody: string): string {
+  return createHmac("sha256", getWebhookSecret()).update(rawBody).digest("hex");
+}
+
+/**
+ * 테스트용 웹훅 요청 본문과 서명 생성
+ *
+ * 예: curl -X POST /api/payments/webhook?provider=mock -H "x-mock-signature: <signature>" -d '<body>'
+ */
+export function createMockWebhookRequest(
+  event: Omit<PaymentWebhookEvent, "raw">,
+): { body: string; signature: string } {
+  const body = JSON.stringify(event);
+  return { body, signature: sign(body) };
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async authorize({ orderId, amount }) {
+    console.log("💳 [mock] 결제 승인 요청:", { orderId, amount });
+
+    if (amount >= MOCK_FAILURE_AMOUNT) {
+      return {
+        success: false,
+        failureReason: "카드 한도를 초과했습니다",
+      };
+    }
+
+    return {
+      success: true,
+      providerPaymentId: `mock_${randomUUID()}`,
+    };
+  },
+
+  async capture(providerPaymentId, amount) {
+    console.log("💳 [mock] 결제 매입:", { providerPaymentId, amount });
+    return { success: true };
+  },
+
+  async void(providerPaymentId) {
+    console.log("💳 [mock] 승인 취소:", providerPaymentId);
+    return { success: true };
+  },
+
+  async refund(providerPaymentId, amount, reason) {
+    console.log("💳 [mock] 환불:", { providerPaymentId, amount, reason });
+    return { success: true };
+  },
+
+  async verifyWebhook(headers, rawBody) {
+    const signature = headers.get(MOCK_SIGNATURE_HEADER);
+    if (!signature) return null;
+
+    const expected = Buffer.from(sign(rawBody));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(rawBody);
+      return {
+        type: payload.type,
+        providerPaymentId: payload.providerPaymentId,
+        amount: payload.amount,
+        reason: payload.reason,
+        raw: payload,
+      };
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,367 @@
+/**
+ * @file service.ts
+ * @description 결제 처리 서비스 (서버 전용)
+ *
+ * 결제 대행사 호출과 payments 테이블 기록을 함께 처리합니다.
+ * payments 테이블은 일반 사용자가 쓸 수 없으므로 서비스 롤 클라이언트를 사용하며,
+ * 클라이언트에서 직접 호출되지 않도록 서버 액션("use server")이 아닌 일반 모듈로 둡니다.
+ *
+ * 주요 기능:
+ * 1. 주문 결제 (승인 → 매입)
+ * 2. 주문 취소 시 결제 취소/환불
+ * 3. 결제 부분/전액 환불
+ * 4. 웹훅 이벤트 반영
+ *
+ * @dependencies
+ * - @/lib/payments: 결제 대행사 선택
+ * - @/utils/supabase/server: 서비스 롤 Supabase 클라이언트
+ */
+
+import { createServerSupabaseAdminClient } from "@/utils/supabase/server";
+import { getPaymentProvider, getPaymentProviderByName } from "./index";
+import type {
+  AuthorizePaymentParams,
+  PaymentStatus,
+  PaymentWebhookEvent,
+} from "./types";
+
+// payments 테이블 행
+export type Payment = {
+  id: number;
+  order_id: number;
+  provider: string;
+  provider_payment_id: string | null;
+  status: PaymentStatus;
+  amount: number;
+  refunded_amount: number;
+  failure_reason: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type PaymentResult =
+  | { success: true; payment: Payment }
+  | { success: false; error: string };
+
+/**
+ * 주문 결제 (승인 후 바로 매입)
+ */
+export async function payForOrder(
+  params: AuthorizePaymentParams,
+): Promise<PaymentResult> {
+  console.group("💳 주문 결제");
+  console.log("주문 ID:", params.orderId, "금액:", params.amount);
+
+  try {
+    // 결제 대행사를 찾지 못해도 실패 결과로 돌려줘서 주문을 취소할 수 있게 함
+    const provider = getPaymentProvider();
+    const supabase = await createServerSupabaseAdminClient();
+
+    // 1. 승인
+    const authorization = await provider.authorize(params);
+
+    if (!authorization.success) {
+      console.warn("결제 승인 실패:", authorization.failureReason);
+      const { error: failedInsertError } = await supabase
+        .from("payments")
+        .insert({
+          order_id: params.orderId,
+          provider: provider.name,
+          status: "failed",
+          amount: params.amount,
+          failure_reason: authorization.failureReason,
+          raw: authorization.raw ?? null,
+        });
+
+      if (failedInsertError) {
+        // 승인이 거절된 결제라 돈은 움직이지 않았으므로 기록 실패만 남기고 실패 사유를 그대로 반환
+        console.error("결제 실패 기록 실패:", failedInsertError);
+      }
+
+      console.groupEnd();
+      return { success: false, error: authorization.failureReason };
+    }
+
+    const { data: payment, error: insertError } = await supabase
+      .from("payments")
+      .insert({
+        order_id: params.orderId,
+        provider: provider.name,
+        provider_payment_id: authorization.providerPaymentId,
+        status: "authorized",
+        amount: params.amount,
+        raw: authorization.raw ?? null,
+      })
+      .select()
+      .single();
+
+    if (insertError || !payment) {
+      // 기록에 실패하면 승인을 취소해 돈이 묶이지 않도록 함
+      console.error("결제 기록 실패:", insertError);
+      await provider.void(authorization.providerPaymentId);
+      console.groupEnd();
+      return { success: false, error: "결제 정보 저장 중 오류가 발생했습니다" };
+    }
+
+    // 2. 매입
+    const capture = await provider.capture(
+      authorization.providerPaymentId,
+      params.amount,
+    );
+
+    if (!capture.success) {
+      console.warn("결제 매입 실패:", capture.failureReason);
+      await provider.void(authorization.providerPaymentId);
+      await supabase
+        .from("payments")
+        .update({
+          status: "failed",
+          failure_reason: capture.failureReason,
+          raw: capture.raw ?? null,
+        })
+        .eq("id", payment.id);
+      console.groupEnd();
+      return { success: false, error: capture.failureReason };
+    }
+
+    const { data: captured } = await supabase
+      .from("payments")
+      .update({ status: "captured", raw: capture.raw ?? null })
+      .eq("id", payment.id)
+      .select()
+      .single();
+
+    console.log("결제 완료:", payment.id, authorization.providerPaymentId);
+    console.groupEnd();
+    return { success: true, payment: captured ?? payment };
+  } catch (error) {
+    console.error("결제 처리 오류:", error);
+    console.groupEnd();
+    return { success: false, error: "결제 처리 중 오류가 발생했습니다" };
+  }
+}
+
+/**
+ * 결제 환불 (amount를 생략하면 남은 금액 전액 환불)
+ */
+export async function refundPayment(
+  paymentId: number,
+  amount?: number,
+  reason?: string,
+): Promise<PaymentResult> {
+  console.group("💸 결제 환불");
+  console.log("결제 ID:", paymentId, "금액:", amount, "사유:", reason);
+
+  const supabase = await createServerSupabaseAdminClient();
+
+  try {
+    const { data: payment, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("id", paymentId)
+      .single();
+
+    if (error || !payment) {
+      console.error("결제 조회 실패:", error);
+      console.groupEnd();
+      return { success: false, error: "결제 정보를 찾을 수 없습니다" };
+    }
+
+    if (
+      payment.status !== "captured" &&
+      payment.status !== "partially_refunded"
+    ) {
+      console.warn("환불할 수 없는 결제 상태:", payment.status);
+      console.groupEnd();
+      return { success: false, error: "환불할 수 있는 결제가 아닙니다" };
+    }
+
+    const refundable = payment.amount - payment.refunded_amount;
+    const refundAmount = amount ?? refundable;
+
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      console.warn("환불 금액 오류:", { refundAmount, refundable });
+      console.groupEnd();
+      return {
+        success: false,
+        error: `환불 가능 금액은 최대 ${refundable}원입니다`,
+      };
+    }
+
+    const provider = getPaymentProviderByName(payment.provider);
+    if (!provider) {
+      console.error("결제 대행사 없음:", payment.provider);
+      console.groupEnd();
+      return { success: false, error: "지원하지 않는 결제 대행사입니다" };
+    }
+
+    const result = await provider.refund(
+      payment.provider_payment_id,
+      refundAmount,
+      reason,
+    );
+
+    if (!result.success) {
+      console.warn("환불 실패:", result.failureReason);
+      console.groupEnd();
+      return { success: false, error: result.failureReason };
+    }
+
+    const refundedAmount = payment.refunded_amount + refundAmount;
+    const { data: updated, error: updateError } = await supabase
+      .from("payments")
+      .update({
+        status:
+          refundedAmount >= payment.amount ? "refunded" : "partially_refunded",
+        refunded_amount: refundedAmount,
+        raw: result.raw ?? null,
+      })
+      .eq("id", payment.id)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error("환불 기록 실패:", updateError);
+      console.groupEnd();
+      return { success: false, error: "환불 정보 저장 중 오류가 발생했습니다" };
+    }
+
+    console.log("환불 완료:", payment.id, refundAmount, "원");
+    console.groupEnd();
+    return { success: true, payment: updated };
+  } catch (error) {
+    console.error("환불 처리 오류:", error);
+    console.groupEnd();
+    return { success: false, error: "환불 처리 중 오류가 발생했습니다" };
+  }
+}
+
+/**
+ * 주문 취소에 따른 결제 취소 (매입 전이면 승인 취소, 매입 후면 남은 금액 환불)
+ */
+export async function cancelOrderPayments(
+  orderId: number,
+  reason?: string,
+): Promise<{ success: boolean; errors: string[] }> {
+  console.group("🚫 주문 결제 취소");
+  console.log("주문 ID:", orderId);
+
+  const supabase = await createServerSupabaseAdminClient();
+  const errors: string[] = [];
+
+  const { data: payments, error } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("order_id", orderId)
+    .in("status", ["authorized", "captured", "partially_refunded"]);
+
+  if (error) {
+    console.error("결제 조회 실패:", error);
+    console.groupEnd();
+    return { success: false, errors: ["결제 정보를 조회할 수 없습니다"] };
+  }
+
+  for (const payment of (payments ?? []) as Payment[]) {
+    if (payment.status === "authorized") {
+      const provider = getPaymentProviderByName(payment.provider);
+      const result = provider
+        ? await provider.void(payment.provider_payment_id!)
+        : { success: false, failureReason: "알 수 없는 결제 대행사" };
+
+      if (result.success) {
+        await supabase
+          .from("payments")
+          .update({ status: "voided" })
+          .eq("id", payment.id);
+      } else {
+        errors.push(result.failureReason);
+      }
+    } else {
+      const result = await refundPayment(payment.id, undefined, reason);
+      if (!result.success) {
+        errors.push((result as { error: string }).error);
+      }
+    }
+  }
+
+  console.log("결제 취소 결과:", { 대상: payments?.length ?? 0, errors });
+  console.groupEnd();
+  return { success: errors.length === 0, errors };
+}
+
+/**
+ * 결제 대행사 웹훅 이벤트를 payments 테이블에 반영
+ */
+export async function applyPaymentWebhookEvent(
+  providerName: string,
+  event: PaymentWebhookEvent,
+): Promise<{ success: boolean; error?: string }> {
+  console.group("🔔 결제 웹훅 반영");
+  console.log("이벤트:", providerName, event.type, event.providerPaymentId);
+
+  const supabase = await createServerSupabaseAdminClient();
+
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("provider", providerName)
+    .eq("provider_payment_id", event.providerPaymentId)
+    .maybeSingle();
+
+  if (error || !payment) {
+    console.warn("웹훅 대상 결제 없음:", error);
+    console.groupEnd();
+    return { success: false, error: "payment_not_found" };
+  }
+
+  let update: Partial<Payment> & { raw: unknown };
+
+  switch (event.type) {
+    case "payment.captured":
+      update = { status: "captured", raw: event.raw };
+      break;
+    case "payment.failed":
+      update = {
+        status: "failed",
+        failure_reason: event.reason ?? null,
+        raw: event.raw,
+      };
+      break;
+    case "payment.voided":
+      update = { status: "voided", raw: event.raw };
+      break;
+    case "payment.refunded": {
+      // 결제 대행사 관리자 화면 등에서 직접 환불한 경우 (금액이 없으면 전액 환불)
+      const refundedAmount = Math.min(
+        payment.amount,
+        Math.max(payment.refunded_amount, event.amount ?? payment.amount),
+      );
+      update = {
+        status:
+          refundedAmount >= payment.amount ? "refunded" : "partially_refunded",
+        refunded_amount: refundedAmount,
+        raw: event.raw,
+      };
+      break;
+    }
+    default:
+      console.warn("처리하지 않는 이벤트:", event.type);
+      console.groupEnd();
+      return { success: true };
+  }
+
+  const { error: updateError } = await supabase
+    .from("payments")
+    .update(update)
+    .eq("id", payment.id);
+
+  if (updateError) {
+    console.error("웹훅 반영 실패:", updateError);
+    console.groupEnd();
+    return { success: false, error: "update_failed" };
+  }
+
+  console.log("웹훅 반영 완료:", payment.id, update.status);
+  console.groupEnd();
+  return { success: true };
+}
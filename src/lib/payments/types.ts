@@ -0,0 +1,83 @@
+/**
+ * @file types.ts
+ * @description 결제 대행사(PG) 연동 인터페이스와 공통 타입
+ *
+ * 새 결제 대행사(토스페이먼츠, KG이니시스 등)를 붙일 때는 PaymentProvider를 구현하고
+ * src/lib/payments/index.ts의 providers 목록에 등록하면 됩니다.
+ */
+
+// 결제 상태 (payments.status 체크 제약과 동일)
+export type PaymentStatus =
+  | "authorized" // 승인됨 (아직 매입 전)
+  | "captured" // 매입 완료 (실제 결제 완료)
+  | "failed" // 승인 실패
+  | "voided" // 매입 전 승인 취소
+  | "partially_refunded" // 부분 환불
+  | "refunded"; // 전액 환불
+
+// 결제 승인 요청
+export interface AuthorizePaymentParams {
+  orderId: number;
+  amount: number;
+  customerName: string;
+  orderName: string; // 결제창/영수증에 표시할 주문명 (예: "상품A 외 2건")
+}
+
+// 결제 승인 결과
+export interface AuthorizePaymentResult {
+  success: boolean;
+  providerPaymentId?: string; // 성공 시 결제 대행사의 거래 ID
+  failureReason?: string; // 실패 시 사유
+  raw?: unknown; // 결제 대행사 응답 원문
+}
+
+// 매입/환불/승인 취소 결과
+export interface PaymentOperationResult {
+  success: boolean;
+  failureReason?: string; // 실패 시 사유
+  raw?: unknown; // 결제 대행사 응답 원문
+}
+
+// 웹훅으로 전달되는 결제 이벤트
+export interface PaymentWebhookEvent {
+  type:
+    | "payment.captured"
+    | "payment.failed"
+    | "payment.voided"
+    | "payment.refunded";
+  providerPaymentId: string;
+  amount?: number; // 환불 이벤트: 누적 환불 금액 (같은 웹훅을 여러 번 받아도 결과가 같도록)
+  reason?: string;
+  raw: unknown;
+}
+
+// 결제 대행사 연동 인터페이스
+export interface PaymentProvider {
+  // payments.provider에 저장되는 이름 (예: "mock", "toss", "inicis")
+  name: string;
+
+  // 결제 승인 (카드 한도 확인 등, 아직 돈이 빠져나가지 않음)
+  authorize(params: AuthorizePaymentParams): Promise<AuthorizePaymentResult>;
+
+  // 승인된 결제 매입 (실제 결제 확정)
+  capture(
+    providerPaymentId: string,
+    amount: number,
+  ): Promise<PaymentOperationResult>;
+
+  // 매입 전 승인 취소
+  void(providerPaymentId: string): Promise<PaymentOperationResult>;
+
+  // 매입된 결제 환불 (amount가 결제 금액보다 작으면 부분 환불)
+  refund(
+    providerPaymentId: string,
+    amount: number,
+    reason?: string,
+  ): Promise<PaymentOperationResult>;
+
+  // 웹훅 서명 검증 및 이벤트 변환 (서명이 올바르지 않으면 null)
+  verifyWebhook(
+    headers: Headers,
+    rawBody: string,
+  ): Promise<PaymentWebhookEvent | null>;
+}
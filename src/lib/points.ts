@@ -0,0 +1,111 @@
+/**
+ * @file points.ts
+ * @description 적립금 거래 유형, 적립/사용 금액 계산과 에러 메시지
+ *
+ * 실제 적립, 사용, 회수, 소멸은 DB 함수와 트리거에서만 처리합니다.
+ * (supabase/migrations/20250615100000_loyalty_points.sql)
+ * 이 파일은 주문서, 프로필, 관리자 화면과 서버 액션이 함께 쓰는 값과 문구를 관리합니다.
+ *
+ * 주요 기능:
+ * 1. 거래 유형 (구매 적립 / 주문 사용 / 사용 취소 / 적립 취소 / 유효기간 만료 / 관리자 조정)
+ * 2. 주문당 최대 사용 가능 금액 계산 (잔액, 최대 사용 비율)
+ * 3. 적립 예정 금액 계산 (배송 완료 시 적립)
+ * 4. 적립금 사용/조정 실패 사유를 에러 메시지로 변환
+ */
+
+import { formatPrice } from "@/lib/utils";
+
+// 거래 유형 (point_transactions.type 체크 제약과 동일)
+export const POINT_TRANSACTION_TYPES = [
+  { value: "earn", label: "구매 적립" },
+  { value: "redeem", label: "주문 사용" },
+  { value: "redeem_cancel", label: "사용 취소" },
+  { value: "earn_cancel", label: "적립 취소" },
+  { value: "expire", label: "유효기간 만료" },
+  { value: "adjust", label: "관리자 조정" },
+] as const;
+
+export type PointTransactionType =
+  (typeof POINT_TRANSACTION_TYPES)[number]["value"];
+
+// 적립금 정책 (point_settings)
+export interface PointSettings {
+  earn_rate: number; // 적립률 (결제 금액 대비 %, 배송비 제외)
+  expiry_months: number; // 유효기간 (개월)
+  max_redeem_rate: number; // 주문당 최대 사용 비율 (쿠폰 할인 후 상품 금액 대비 %)
+}
+
+// 적립금 사용/조정 실패 결과 (create_order / adjust_points의 points_* 에러)
+export interface PointRpcFailure {
+  success: false;
+  error_code: string;
+  balance?: number;
+  max_points?: number;
+}
+
+/**
+ * 거래 유형 라벨 (알 수 없는 유형은 그대로 표시)
+ */
+export function getPointTransactionTypeLabel(type: string): string {
+  return (
+    POINT_TRANSACTION_TYPES.find((item) => item.value === type)?.label ?? type
+  );
+}
+
+/**
+ * 주문에 사용할 수 있는 최대 적립금 (create_order의 사용 한도와 동일한 계산)
+ * @param itemsAmount - 쿠폰 할인 후 상품 금액 (배송비 제외)
+ * @param balance - 현재 적립금 잔액
+ */
+export function getMaxRedeemablePoints(
+  itemsAmount: number,
+  balance: number,
+  settings: PointSettings,
+): number {
+  const limit = Math.floor(
+    (Math.max(itemsAmount, 0) * settings.max_redeem_rate) / 100,
+  );
+  return Math.max(Math.min(balance, limit), 0);
+}
+
+/**
+ * 배송 완료 시 적립될 금액 (apply_order_points 트리거와 동일한 계산)
+ * @param paidAmount - 결제 금액에서 배송비를 뺀 금액
+ */
+export function getEarnablePoints(
+  paidAmount: number,
+  settings: PointSettings,
+): number {
+  return Math.floor((Math.max(paidAmount, 0) * settings.earn_rate) / 100);
+}
+
+/**
+ * 적립금 사용/조정 실패 사유인지 확인 (create_order 실패 결과에서 적립금 에러 구분)
+ */
+export function isPointErrorCode(errorCode: string): boolean {
+  return errorCode.startsWith("points_");
+}
+
+/**
+ * 적립금 사용/조정 실패 결과를 에러 메시지로 변환
+ */
+export function getPointErrorMessage(result: PointRpcFailure): string {
+  switch (result.error_code) {
+    case "unauthenticated":
+      return "로그인이 필요합니다";
+    case "forbidden":
+      return "관리자 권한이 필요합니다";
+    case "user_not_found":
+      return "사용자를 찾을 수 없습니다";
+    case "points_invalid_amount":
+      return "적립금 금액이 올바르지 않습니다";
+    case "points_reason_required":
+      return "조정 사유를 입력해주세요";
+    case "points_insufficient":
+      return `적립금 잔액이 부족합니다 (잔액: ${formatPrice(result.balance ?? 0)}원)`;
+    case "points_limit_exceeded":
+      return `이 주문에는 적립금을 ${formatPrice(result.max_points ?? 0)}원까지 사용할 수 있습니다`;
+    default:
+      return "적립금 처리 중 오류가 발생했습니다";
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * @file pricing.ts
+ * @description 상품 판매가(정가/세일가) 계산
+ *
+ * 세일 기간 판단 규칙은 DB 함수(product_current_price)와 동일하게 유지해야 합니다.
+ * (supabase/migrations/20250613100000_product_sale_prices.sql)
+ * 주문 금액은 DB에서 다시 계산하며, 이 파일은 상품 목록/상세, 장바구니, 주문서의 표시 금액에 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 세일 진행 여부 확인 (세일가 + 시작/종료 시각)
+ * 2. 현재 판매가 계산 (세일 중이면 세일가, 아니면 정가)
+ * 3. 할인율 계산 (정가 대비, 소수점 버림)
+ */
+
+// 판매가 계산에 필요한 상품 정보
+export interface ProductPriceFields {
+  price: number; // 정가
+  sale_price?: number | null;
+  sale_starts_at?: string | null;
+  sale_ends_at?: string | null;
+}
+
+// 화면 표시용 가격 정보
+export interface ProductPricing {
+  listPrice: number; // 정가
+  currentPrice: number; // 현재 판매가
+  isOnSale: boolean;
+  discountRate: number; // 정가 대비 할인율 (%), 세일이 아니면 0
+  saleEndsAt: string | null; // 세일 종료 시각 (세일 중이고 종료일이 있을 때만)
+}
+
+/**
+ * 세일 진행 여부 확인
+ */
+export function isSaleActive(
+  product: ProductPriceFields,
+  now: Date = new Date(),
+): boolean {
+  if (product.sale_price === null || product.sale_price === undefined) {
+    return false;
+  }
+  if (product.sale_starts_at && new Date(product.sale_starts_at) > now) {
+    return false;
+  }
+  if (product.sale_ends_at && new Date(product.sale_ends_at) <= now) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 현재 판매가 (세일 중이면 세일가, 아니면 정가)
+ */
+export function getCurrentPrice(
+  product: ProductPriceFields,
+  now: Date = new Date(),
+): number {
+  return isSaleActive(product, now)
+    ? (product.sale_price as number)
+    : product.price;
+}
+
+/**
+ * 정가, 판매가, 할인율을 함께 계산 (상품 카드/상세 표시용)
+ */
+export function getProductPricing(
+  product: ProductPriceFields,
+  now: Date = new Date(),
+): ProductPricing {
+  const isOnSale = isSaleActive(product, now);
+  const currentPrice = isOnSale
+    ? (product.sale_price as number)
+    : product.price;
+
+  return {
+    listPrice: product.price,
+    currentPrice,
+    isOnSale,
+    discountRate: isOnSale
+      ? Math.floor(((product.price - currentPrice) / product.price) * 100)
+      : 0,
+    saleEndsAt: isOnSale ? (product.sale_ends_at ?? null) : null,
+  };
+}
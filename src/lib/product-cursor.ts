@@ -0,0 +1,66 @@
+/**
+ * @file product-cursor.ts
+ * @description 쇼핑몰 상품 목록(무한 스크롤)의 다음 페이지 커서
+ *
+ * 최신순 목록은 마지막으로 받은 상품의 (created_at, id)를 커서로 사용해서
+ * 앞 페이지를 보는 동안 상품이 새로 등록되어도 중복이나 누락 없이 이어서 조회합니다.
+ * 가격, 판매량, 관련도순은 정렬 값이 계산 컬럼이거나 검색 함수의 순서라서
+ * 지금까지 받은 상품 수(offset)를 커서로 사용합니다.
+ *
+ * 커서는 화면에 그대로 넘겨주는 문자열이며, 서버 액션에서 다시 읽을 때 형식을 확인합니다.
+ *
+ * 주요 기능:
+ * 1. 커서 만들기 (마지막 상품 기준 / 받은 상품 수 기준)
+ * 2. 커서 문자열 인코딩/디코딩 (잘못된 값은 null)
+ */
+
+export type ProductCursor =
+  | { type: "key"; createdAt: string; id: number } // 최신순: 마지막 상품의 등록 시각과 ID
+  | { type: "offset"; offset: number }; // 그 밖의 정렬: 지금까지 받은 상품 수
+
+/**
+ * 커서를 문자열로 인코딩합니다.
+ */
+export function encodeProductCursor(cursor: ProductCursor): string {
+  return btoa(JSON.stringify(cursor))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * 커서 문자열을 읽습니다. (형식이 맞지 않으면 null → 첫 페이지부터 조회)
+ */
+export function decodeProductCursor(
+  value: string | null | undefined,
+): ProductCursor | null {
+  if (!value) return null;
+
+  try {
+    const cursor = JSON.parse(
+      atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+    );
+
+    if (
+      cursor?.type === "key" &&
+      typeof cursor.createdAt === "string" &&
+      !Number.isNaN(Date.parse(cursor.createdAt)) &&
+      Number.isInteger(cursor.id) &&
+      cursor.id > 0
+    ) {
+      return { type: "key", createdAt: cursor.createdAt, id: cursor.id };
+    }
+
+    if (
+      cursor?.type === "offset" &&
+      Number.isInteger(cursor.offset) &&
+      cursor.offset >= 0
+    ) {
+      return { type: "offset", offset: cursor.offset };
+    }
+  } catch {
+    // 잘못된 커서는 무시
+  }
+
+  return null;
+}
@@ -0,0 +1,203 @@
+/**
+ * @file product-filters.ts
+ * @description 쇼핑몰 상품 목록의 정렬과 필터(facet) 규칙
+ *
+ * 상품 목록의 카테고리, 검색어, 정렬, 가격대, 재고 필터는 모두 URL 검색 파라미터에 담아
+ * 새로고침하거나 링크를 공유해도 같은 목록이 보이도록 합니다.
+ * 목록은 기본적으로 무한 스크롤이며, page 파라미터가 있으면 페이지 번호 목록으로 보여줍니다.
+ * (검색 엔진이 링크를 따라 모든 상품을 수집할 수 있도록)
+ *
+ * 주요 기능:
+ * 1. 정렬 옵션 (관련도, 최신, 가격, 판매량)
+ * 2. URL 검색 파라미터 ↔ 목록 필터 변환
+ * 3. 필터 항목별 상품 수(facet) 타입과 카테고리별 상품 수 합산
+ * 4. 다른 화면(검색 팔레트)에서 상품 목록으로 이동할 주소와 이벤트
+ */
+
+import {
+  ALL_CATEGORY,
+  getCategorySubtreeSlugs,
+  type Category,
+} from "@/lib/categories";
+
+// 정렬 옵션 (관련도순은 검색할 때만 사용)
+export const PRODUCT_SORTS = [
+  { value: "relevance", label: "관련도순" },
+  { value: "newest", label: "최신순" },
+  { value: "price_asc", label: "낮은 가격순" },
+  { value: "price_desc", label: "높은 가격순" },
+  { value: "best_selling", label: "판매량순" },
+] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number]["value"];
+
+// z.enum 등에서 사용할 정렬 값 목록
+export const PRODUCT_SORT_VALUES = PRODUCT_SORTS.map((sort) => sort.value) as [
+  ProductSort,
+  ...ProductSort[],
+];
+
+/**
+ * 검색어 유무에 따라 사용할 수 있는 정렬 옵션
+ */
+export function getProductSortOptions(isSearching: boolean) {
+  return PRODUCT_SORTS.filter(
+    (sort) => isSearching || sort.value !== "relevance",
+  );
+}
+
+/**
+ * 실제로 적용할 정렬 (지정하지 않으면 검색 중엔 관련도순, 아니면 최신순)
+ */
+export function resolveProductSort(
+  sort: ProductSort | null | undefined,
+  isSearching: boolean,
+): ProductSort {
+  if (!sort || (sort === "relevance" && !isSearching)) {
+    return isSearching ? "relevance" : "newest";
+  }
+  return sort;
+}
+
+// 상품 목록 필터 (getProducts 옵션)
+export interface ProductListFilters {
+  sort?: ProductSort;
+  minPrice?: number | null; // 판매가(세일가 반영) 하한
+  maxPrice?: number | null; // 판매가(세일가 반영) 상한
+  inStockOnly?: boolean; // 재고 있는 상품만
+}
+
+// 필터 항목별 상품 수 (각 항목은 자기 자신을 뺀 나머지 필터를 적용해서 계산)
+export interface ProductFacets {
+  categoryCounts: Record<string, number>; // 카테고리 슬러그별 상품 수 (하위 카테고리 미포함)
+  priceRange: { min: number; max: number } | null; // 상품이 없으면 null
+  inStockCount: number;
+}
+
+// URL에 담는 상품 목록 상태
+export interface ProductListParams extends ProductListFilters {
+  category: string;
+  search: string;
+  page?: number | null; // 페이지 번호 목록 (없으면 무한 스크롤)
+}
+
+// URL 검색 파라미터 이름
+const PARAM_KEYS = {
+  category: "category",
+  search: "search",
+  sort: "sort",
+  minPrice: "min_price",
+  maxPrice: "max_price",
+  inStockOnly: "in_stock",
+  page: "page",
+} as const;
+
+function parsePrice(value: string | null): number | null {
+  if (!value) return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+function parsePage(value: string | null): number | null {
+  if (!value) return null;
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 1 ? page : null;
+}
+
+/**
+ * URL 검색 파라미터에서 상품 목록 상태를 읽습니다. (잘못된 값은 무시)
+ */
+export function parseProductListParams(
+  searchParams: Pick<URLSearchParams, "get"> | null | undefined,
+): ProductListParams {
+  const sort = searchParams?.get(PARAM_KEYS.sort) ?? null;
+
+  return {
+    category: searchParams?.get(PARAM_KEYS.category) || ALL_CATEGORY,
+    search: searchParams?.get(PARAM_KEYS.search) || "",
+    sort: PRODUCT_SORT_VALUES.includes(sort as ProductSort)
+      ? (sort as ProductSort)
+      : undefined,
+    minPrice: parsePrice(searchParams?.get(PARAM_KEYS.minPrice) ?? null),
+    maxPrice: parsePrice(searchParams?.get(PARAM_KEYS.maxPrice) ?? null),
+    inStockOnly: searchParams?.get(PARAM_KEYS.inStockOnly) === "1",
+    page: parsePage(searchParams?.get(PARAM_KEYS.page) ?? null),
+  };
+}
+
+/**
+ * 상품 목록 상태를 URL 검색 파라미터에 반영합니다. (기본값은 파라미터에서 제거)
+ */
+export function applyProductListParams(
+  searchParams: URLSearchParams,
+  params: Partial<ProductListParams>,
+): URLSearchParams {
+  const setParam = (key: string, value: string | null) => {
+    if (value) {
+      searchParams.set(key, value);
+    } else {
+      searchParams.delete(key);
+    }
+  };
+
+  if ("category" in params) {
+    setParam(
+      PARAM_KEYS.category,
+      params.category && params.category !== ALL_CATEGORY
+        ? params.category
+        : null,
+    );
+  }
+  if ("search" in params) {
+    setParam(PARAM_KEYS.search, params.search?.trim() ? params.search : null);
+  }
+  if ("sort" in params) {
+    setParam(PARAM_KEYS.sort, params.sort ?? null);
+  }
+  if ("minPrice" in params) {
+    setParam(PARAM_KEYS.minPrice, params.minPrice?.toString() ?? null);
+  }
+  if ("maxPrice" in params) {
+    setParam(PARAM_KEYS.maxPrice, params.maxPrice?.toString() ?? null);
+  }
+  if ("inStockOnly" in params) {
+    setParam(PARAM_KEYS.inStockOnly, params.inStockOnly ? "1" : null);
+  }
+  if ("page" in params) {
+    setParam(PARAM_KEYS.page, params.page?.toString() ?? null);
+  }
+
+  return searchParams;
+}
+
+/**
+ * 카테고리의 상품 수 (하위 카테고리 상품 포함)
+ */
+export function getCategoryFacetCount(
+  categories: Category[],
+  categoryCounts: Record<string, number>,
+  slug: string,
+): number {
+  if (slug === ALL_CATEGORY) {
+    return Object.values(categoryCounts).reduce((sum, count) => sum + count, 0);
+  }
+
+  return getCategorySubtreeSlugs(categories, slug).reduce(
+    (sum, subSlug) => sum + (categoryCounts[subSlug] ?? 0),
+    0,
+  );
+}
+
+/**
+ * 상품 목록(홈 화면) 주소 (상품 목록 위치로 스크롤)
+ */
+export function getProductListHref(params: Partial<ProductListParams>): string {
+  const query = applyProductListParams(
+    new URLSearchParams(),
+    params,
+  ).toString();
+  return `/${query ? `?${query}` : ""}#products-section`;
+}
+
+// 홈 화면에 이미 있을 때 페이지 이동 없이 목록 상태를 바꾸는 이벤트 (detail: Partial<ProductListParams>)
+export const PRODUCT_LIST_NAVIGATE_EVENT = "productListNavigate";
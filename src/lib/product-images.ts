@@ -0,0 +1,21 @@
+/**
+ * @file product-images.ts
+ * @description 상품 이미지(상품 상세 갤러리) 타입과 등록 제한
+ *
+ * 상품 이미지 저장은 서버 액션(@/actions/product-images)에서, 대표 이미지 URL 동기화는 DB 트리거에서 처리합니다.
+ * (supabase/migrations/20250617100000_product_images.sql)
+ * 이 파일은 상품 상세 갤러리와 관리자 이미지 편집기가 함께 씁니다.
+ */
+
+// 상품 이미지 (product_images)
+export interface ProductImage {
+  id: number;
+  product_id: number;
+  url: string;
+  alt_text: string | null; // 비어 있으면 상품명을 대체 텍스트로 사용
+  sort_order: number;
+  is_primary: boolean; // 대표 이미지 (상품 카드, 장바구니에 표시)
+}
+
+// 상품 한 개에 등록할 수 있는 최대 이미지 수
+export const MAX_PRODUCT_IMAGES = 10;
@@ -0,0 +1,85 @@
+/**
+ * @file product-status.ts
+ * @description 상품 공개 상태와 예약 공개 규칙
+ *
+ * 상품은 작성 중(draft), 공개(published), 보관(archived) 중 하나의 상태를 가지며,
+ * 공개 상태여도 공개 기간(publish_at ~ unpublish_at) 밖이면 고객에게 보이지 않습니다.
+ * 실제 노출 여부는 products 테이블의 RLS(product_is_visible)가 결정하고,
+ * 이 모듈은 관리자 화면의 표시와 입력 검증에 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 상품 상태 목록과 라벨
+ * 2. 지금 고객에게 공개 중인지 판별 (DB의 product_is_visible과 같은 규칙)
+ * 3. 관리자 목록에 표시할 공개 상태 (공개 예약, 공개 종료 포함)
+ */
+
+// 상품 상태 (products.status 체크 제약과 동일)
+export const PRODUCT_STATUSES = [
+  { value: "draft", label: "작성 중" },
+  { value: "published", label: "공개" },
+  { value: "archived", label: "보관" },
+] as const;
+
+export type ProductStatus = (typeof PRODUCT_STATUSES)[number]["value"];
+
+// z.enum 등에서 사용할 상품 상태 값 목록
+export const PRODUCT_STATUS_VALUES = PRODUCT_STATUSES.map(
+  (status) => status.value,
+) as [ProductStatus, ...ProductStatus[]];
+
+type ProductVisibilityFields = {
+  status: ProductStatus;
+  publish_at: string | null;
+  unpublish_at: string | null;
+};
+
+// 관리자 목록에 표시할 공개 상태 (상태 + 공개 기간)
+export type ProductVisibility =
+  | ProductStatus
+  | "scheduled" // 공개 상태지만 공개 시작 전
+  | "expired"; // 공개 상태지만 공개 종료 후
+
+export const PRODUCT_VISIBILITY_LABELS: Record<ProductVisibility, string> = {
+  draft: "작성 중",
+  published: "공개 중",
+  archived: "보관",
+  scheduled: "공개 예약",
+  expired: "공개 종료",
+};
+
+export function getProductStatusLabel(status: string): string {
+  return (
+    PRODUCT_STATUSES.find((productStatus) => productStatus.value === status)
+      ?.label ?? status
+  );
+}
+
+/**
+ * 상품의 현재 공개 상태를 계산합니다.
+ */
+export function getProductVisibility(
+  product: ProductVisibilityFields,
+  now: Date = new Date(),
+): ProductVisibility {
+  if (product.status !== "published") return product.status;
+
+  if (product.publish_at && new Date(product.publish_at) > now) {
+    return "scheduled";
+  }
+
+  if (product.unpublish_at && new Date(product.unpublish_at) <= now) {
+    return "expired";
+  }
+
+  return "published";
+}
+
+/**
+ * 지금 고객에게 보이는 상품인지 확인합니다.
+ */
+export function isProductVisible(
+  product: ProductVisibilityFields,
+  now: Date = new Date(),
+): boolean {
+  return getProductVisibility(product, now) === "published";
+}
@@ -0,0 +1,122 @@
+/**
+ * @file search.ts
+ * @description 상품 검색어 처리와 검색 결과 하이라이트
+ *
+ * 상품 검색은 DB의 search_products 함수가 처리하고(단어별 부분 일치 + 오타 허용 유사도),
+ * 이 모듈은 화면에서 검색어와 일치하는 부분을 강조 표시하는 데 사용합니다.
+ * 검색 함수와 같이 검색어를 공백으로 나눈 단어마다 대소문자 구분 없이 부분 일치로 찾습니다.
+ * (오타 허용으로 찾은 상품은 일치하는 부분이 없어 강조 표시 없이 보입니다)
+ *
+ * 주요 기능:
+ * 1. 검색어를 단어 목록으로 정리
+ * 2. 문자열을 검색어 일치 구간과 나머지 구간으로 분리
+ * 3. 긴 설명에서 검색어 주변만 잘라낸 미리보기
+ * 4. 검색어 정리와 최근 검색어 목록 (검색 팔레트)
+ */
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * 검색어를 공백 기준 단어 목록으로 나눕니다. (소문자, 중복 제거, 긴 단어 우선)
+ */
+export function getSearchWords(query: string | null | undefined): string[] {
+  if (!query) return [];
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  // 긴 단어를 먼저 찾아야 "티셔츠"와 "티"가 함께 있을 때 "티셔츠" 전체가 강조됨
+  return Array.from(new Set(words)).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * 문자열에서 검색어 단어와 일치하는 구간을 나눕니다.
+ * @example splitHighlightSegments("오버핏 티셔츠", "티셔") // [{ "오버핏 ", false }, { "티셔", true }, { "츠", false }]
+ */
+export function splitHighlightSegments(
+  text: string,
+  query: string | null | undefined,
+): HighlightSegment[] {
+  const words = getSearchWords(query);
+  if (!text || words.length === 0) {
+    return text ? [{ text, highlighted: false }] : [];
+  }
+
+  // 각 글자가 검색어 단어에 포함되는지 표시
+  const lowerText = text.toLowerCase();
+  const marks = new Array<boolean>(text.length).fill(false);
+  for (const word of words) {
+    let index = lowerText.indexOf(word);
+    while (index !== -1) {
+      marks.fill(true, index, index + word.length);
+      index = lowerText.indexOf(word, index + word.length);
+    }
+  }
+
+  // 같은 표시가 이어지는 글자끼리 묶기
+  const segments: HighlightSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i === text.length || marks[i] !== marks[start]) {
+      segments.push({
+        text: text.slice(start, i),
+        highlighted: marks[start],
+      });
+      start = i;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * 긴 문자열에서 처음 일치하는 검색어 주변만 잘라냅니다. (일치하는 부분이 없으면 null)
+ * @param radius - 일치 구간 앞뒤로 남길 글자 수
+ */
+export function getHighlightSnippet(
+  text: string | null | undefined,
+  query: string | null | undefined,
+  radius: number = 20,
+): string | null {
+  if (!text) return null;
+
+  const lowerText = text.toLowerCase();
+  const matchIndex = getSearchWords(query)
+    .map((word) => lowerText.indexOf(word))
+    .filter((index) => index !== -1)
+    .sort((a, b) => a - b)[0];
+
+  if (matchIndex === undefined) return null;
+
+  const start = Math.max(0, matchIndex - radius);
+  const end = Math.min(text.length, matchIndex + radius * 2);
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * 검색어를 정리합니다. (앞뒤 공백 제거, 연속 공백은 하나로, 소문자)
+ * 인기 검색어 집계와 검색 제안 캐시 키에 사용하며, DB 함수(record_search_query)와 같은 규칙입니다.
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string {
+  return (query ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// 최근 검색어 (브라우저 localStorage에 저장)
+export const RECENT_SEARCHES_STORAGE_KEY = "recent-searches";
+export const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * 최근 검색어 목록 맨 앞에 검색어를 추가합니다. (같은 검색어는 앞으로 이동, 최대 개수 유지)
+ */
+export function addRecentSearch(searches: string[], query: string): string[] {
+  const term = query.trim().replace(/\s+/g, " ");
+  if (!term) return searches;
+
+  const normalized = normalizeSearchQuery(term);
+  return [
+    term,
+    ...searches.filter((search) => normalizeSearchQuery(search) !== normalized),
+  ].slice(0, MAX_RECENT_SEARCHES);
+}
@@ -0,0 +1,171 @@
+/**
+ * @file shipping.ts
+ * @description 배송비 계산 규칙
+ *
+ * 장바구니 요약, 주문서, 주문 생성(서버 액션)이 모두 이 모듈로 배송비를 계산합니다.
+ * 화면에 보이는 배송비와 실제 결제 금액이 어긋나지 않도록 배송비 규칙은 이 파일에서만 관리합니다.
+ * 주문에 저장되는 배송비는 create_order DB 함수(order_shipping_fee, shipping_remote_area)가 계산하므로
+ * 정책 금액이나 지역 우편번호 범위를 바꿀 때는 DB 함수도 함께 수정해야 합니다.
+ *
+ * 주요 기능:
+ * 1. 기본 배송비와 무료배송 기준 금액
+ * 2. 상품별 배송 유형 (일반 / 대형 / 무료배송 상품)
+ * 3. 우편번호로 제주/도서산간 지역 판별 및 추가 배송비
+ * 4. 주문 항목 기준 배송비 계산 (항목별 내역 포함)
+ */
+
+// 배송비 정책 (원)
+export const SHIPPING_POLICY = {
+  baseFee: 3000, // 기본 배송비
+  freeShippingThreshold: 50000, // 이 금액 이상 주문 시 기본 배송비 무료
+  bulkyFeePerItem: 5000, // 대형 상품 개당 추가 배송비 (무료배송 기준과 무관)
+  jejuSurcharge: 3000, // 제주 지역 추가 배송비
+  islandSurcharge: 5000, // 도서산간 지역 추가 배송비
+} as const;
+
+// 상품별 배송 유형 (products.shipping_class 체크 제약과 동일)
+export const SHIPPING_CLASSES = [
+  { value: "standard", label: "일반 배송" },
+  { value: "bulky", label: "대형 상품" },
+  { value: "free", label: "무료배송 상품" },
+] as const;
+
+export type ShippingClass = (typeof SHIPPING_CLASSES)[number]["value"];
+
+// z.enum 등에서 사용할 배송 유형 값 목록
+export const SHIPPING_CLASS_VALUES = SHIPPING_CLASSES.map(
+  (shippingClass) => shippingClass.value,
+) as [ShippingClass, ...ShippingClass[]];
+
+export type RemoteArea = "jeju" | "island";
+
+// 추가 배송비가 붙는 지역의 우편번호 범위 (5자리 국가기초구역번호)
+const REMOTE_AREA_POSTCODE_RANGES: Array<{
+  from: number;
+  to: number;
+  area: RemoteArea;
+}> = [
+  { from: 63000, to: 63644, area: "jeju" }, // 제주특별자치도
+  { from: 22386, to: 22388, area: "island" }, // 인천 중구 섬 지역
+  { from: 23004, to: 23010, area: "island" }, // 인천 강화군 섬 지역
+  { from: 23100, to: 23116, area: "island" }, // 인천 옹진군
+  { from: 23124, to: 23136, area: "island" }, // 인천 옹진군
+  { from: 32133, to: 32133, area: "island" }, // 충남 태안군 섬 지역
+  { from: 33411, to: 33411, area: "island" }, // 충남 보령시 섬 지역
+  { from: 40200, to: 40240, area: "island" }, // 경북 울릉군
+  { from: 46768, to: 46771, area: "island" }, // 부산 강서구 섬 지역
+  { from: 52570, to: 52571, area: "island" }, // 경남 사천시 섬 지역
+  { from: 53031, to: 53033, area: "island" }, // 경남 통영시 섬 지역
+  { from: 53089, to: 53104, area: "island" }, // 경남 통영시 섬 지역
+  { from: 54000, to: 54000, area: "island" }, // 전북 군산시 섬 지역
+  { from: 56347, to: 56349, area: "island" }, // 전북 부안군 섬 지역
+  { from: 57068, to: 57069, area: "island" }, // 전남 영광군 섬 지역
+  { from: 58760, to: 58762, area: "island" }, // 전남 목포시 섬 지역
+  { from: 58800, to: 58866, area: "island" }, // 전남 신안군
+  { from: 58953, to: 58958, area: "island" }, // 전남 진도군 섬 지역
+  { from: 59102, to: 59103, area: "island" }, // 전남 완도군 섬 지역
+  { from: 59137, to: 59166, area: "island" }, // 전남 완도군 섬 지역
+  { from: 59650, to: 59650, area: "island" }, // 전남 여수시 섬 지역
+  { from: 59766, to: 59766, area: "island" }, // 전남 여수시 섬 지역
+  { from: 59781, to: 59790, area: "island" }, // 전남 여수시 섬 지역
+];
+
+// 배송비 계산에 필요한 주문 항목 정보
+export interface ShippingItem {
+  price: number; // 단가
+  quantity: number;
+  shippingClass?: string | null; // 배송 유형 (없으면 일반 배송)
+}
+
+// 배송비 계산 결과
+export interface ShippingFeeBreakdown {
+  subtotal: number; // 상품 총액
+  baseFee: number; // 기본 배송비 (무료배송 기준 이상이면 0)
+  bulkyFee: number; // 대형 상품 추가 배송비
+  remoteAreaFee: number; // 제주/도서산간 추가 배송비
+  remoteArea: RemoteArea | null; // 추가 배송비가 붙는 지역 (해당 없으면 null)
+  total: number; // 총 배송비
+  amountUntilFreeShipping: number; // 기본 배송비가 무료가 되기까지 남은 금액 (해당 없으면 0)
+}
+
+/**
+ * 배송 유형 라벨 조회
+ */
+export function getShippingClassLabel(shippingClass: string): string {
+  return (
+    SHIPPING_CLASSES.find((item) => item.value === shippingClass)?.label ??
+    shippingClass
+  );
+}
+
+/**
+ * 우편번호로 제주/도서산간 지역 판별 (해당 없거나 우편번호가 올바르지 않으면 null)
+ */
+export function getRemoteArea(postcode?: string | null): RemoteArea | null {
+  const normalized = postcode?.replace(/\D/g, "") ?? "";
+  if (normalized.length !== 5) return null;
+
+  const code = Number(normalized);
+  const range = REMOTE_AREA_POSTCODE_RANGES.find(
+    (item) => code >= item.from && code <= item.to,
+  );
+
+  return range?.area ?? null;
+}
+
+/**
+ * 지역별 추가 배송비 라벨 (예: "제주 추가 배송비")
+ */
+export function getRemoteAreaLabel(area: RemoteArea): string {
+  return area === "jeju" ? "제주 추가 배송비" : "도서산간 추가 배송비";
+}
+
+/**
+ * 주문 항목과 배송지 우편번호로 배송비 계산
+ *
+ * - 기본 배송비: 일반/대형 상품이 하나라도 있고 상품 총액이 무료배송 기준 미만일 때 부과
+ *   (무료배송 상품만 주문하면 부과하지 않음, 무료배송 상품 금액도 기준 금액에 포함)
+ * - 대형 상품 추가 배송비: 대형 상품 개수만큼 부과 (무료배송 기준과 무관)
+ * - 제주/도서산간 추가 배송비: 우편번호가 해당 지역이면 주문당 한 번 부과
+ *   (우편번호를 모르면 0으로 계산하므로, 장바구니에서는 기본 배송비만 안내)
+ */
+export function calculateShippingFee(
+  items: ShippingItem[],
+  postcode?: string | null,
+): ShippingFeeBreakdown {
+  const subtotal = items.reduce(
+    (sum, item) => sum + item.price * item.quantity,
+    0,
+  );
+
+  const hasChargeableItem = items.some(
+    (item) => (item.shippingClass ?? "standard") !== "free",
+  );
+  const isOverThreshold = subtotal >= SHIPPING_POLICY.freeShippingThreshold;
+  const baseFee =
+    hasChargeableItem && !isOverThreshold ? SHIPPING_POLICY.baseFee : 0;
+
+  const bulkyQuantity = items
+    .filter((item) => item.shippingClass === "bulky")
+    .reduce((sum, item) => sum + item.quantity, 0);
+  const bulkyFee = bulkyQuantity * SHIPPING_POLICY.bulkyFeePerItem;
+
+  const remoteArea = items.length > 0 ? getRemoteArea(postcode) : null;
+  const remoteAreaFee =
+    remoteArea === "jeju"
+      ? SHIPPING_POLICY.jejuSurcharge
+      : remoteArea === "island"
+        ? SHIPPING_POLICY.islandSurcharge
+        : 0;
+
+  return {
+    subtotal,
+    baseFee,
+    bulkyFee,
+    remoteAreaFee,
+    remoteArea,
+    total: baseFee + bulkyFee + remoteAreaFee,
+    amountUntilFreeShipping:
+      baseFee > 0 ? SHIPPING_POLICY.freeShippingThreshold - subtotal : 0,
+  };
+}
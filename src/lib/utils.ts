@@ -14,3 +14,25 @@ export function cn(...inputs: ClassValue[]) {
 export function formatPrice(price: number): string {
   return new Intl.NumberFormat('ko-KR').format(price);
 }
+
+/**
+ * ISO 날짜를 datetime-local 입력값으로 변환합니다. (브라우저 로컬 시간 기준)
+ * @param iso - 변환할 ISO 날짜 문자열 (null이면 빈 문자열)
+ * @returns YYYY-MM-DDTHH:mm 형식 문자열
+ * @example toDateTimeLocalValue("2025-06-01T00:00:00Z") // "2025-06-01T09:00" (한국 시간)
+ */
+export function toDateTimeLocalValue(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * datetime-local 입력값을 ISO 날짜 문자열로 변환합니다.
+ * @param value - datetime-local 입력값 (빈 값이면 빈 문자열 그대로)
+ * @returns ISO 날짜 문자열
+ */
+export function fromDateTimeLocalValue(value: string): string {
+  return value ? new Date(value).toISOString() : '';
+}
@@ -0,0 +1,101 @@
+/**
+ * @file variants.ts
+ * @description 상품 옵션(사이즈, 색상 등) 라벨, 가격, 선택 처리
+ *
+ * 옵션 라벨과 옵션 판매가 계산은 DB 함수(product_variant_label, create_order)와 동일하게 유지해야 합니다.
+ * (supabase/migrations/20250616100000_product_variants.sql)
+ * 주문 금액과 재고 차감은 DB에서 처리하며, 이 파일은 상품 상세, 장바구니, 주문서, 관리자 화면이 함께 씁니다.
+ *
+ * 주요 기능:
+ * 1. 옵션 라벨 (예: "사이즈: M / 색상: 블랙")
+ * 2. 옵션 판매가 계산 (상품 현재 판매가 + 옵션 추가 금액)
+ * 3. 선택한 옵션 값으로 옵션 찾기, 옵션 종류별 선택 가능한 값 목록
+ * 4. 상품/옵션 구분 키 (주문서에서 확인한 가격 관리)
+ */
+
+import { getCurrentPrice, type ProductPriceFields } from "@/lib/pricing";
+
+// 옵션 종류별 값 (예: { 사이즈: "M", 색상: "블랙" })
+export type VariantOptions = Record<string, string>;
+
+// 상품 옵션 (product_variants)
+export interface ProductVariant {
+  id: number;
+  product_id: number;
+  sku: string;
+  options: VariantOptions;
+  price_delta: number; // 상품 판매가 대비 추가 금액 (음수면 할인)
+  stock_quantity: number;
+  is_active: boolean; // 판매 여부 (중지된 옵션은 선택 불가)
+  sort_order: number;
+}
+
+// 한 상품에 설정할 수 있는 최대 옵션 종류 수
+export const MAX_OPTION_NAMES = 3;
+
+/**
+ * 옵션 라벨 (옵션 종류 순서대로, 값이 없는 종류는 생략)
+ */
+export function getVariantLabel(
+  options: VariantOptions,
+  optionNames: string[],
+): string {
+  return optionNames
+    .filter((name) => options[name] !== undefined)
+    .map((name) => `${name}: ${options[name]}`)
+    .join(" / ");
+}
+
+/**
+ * 옵션 판매가 (상품 현재 판매가 + 옵션 추가 금액, 옵션 없는 상품은 상품 판매가)
+ */
+export function getVariantPrice(
+  product: ProductPriceFields,
+  variant?: Pick<ProductVariant, "price_delta"> | null,
+  now: Date = new Date(),
+): number {
+  return getCurrentPrice(product, now) + Number(variant?.price_delta ?? 0);
+}
+
+/**
+ * 선택한 옵션 값과 정확히 일치하는 옵션 찾기 (모든 옵션 종류를 선택해야 찾음)
+ */
+export function findVariant(
+  variants: ProductVariant[],
+  optionNames: string[],
+  selected: VariantOptions,
+): ProductVariant | null {
+  if (optionNames.some((name) => !selected[name])) return null;
+
+  return (
+    variants.find((variant) =>
+      optionNames.every((name) => variant.options[name] === selected[name]),
+    ) ?? null
+  );
+}
+
+/**
+ * 옵션 종류별 값 목록 (옵션 표시 순서대로, 중복 제거)
+ */
+export function getOptionValues(
+  variants: ProductVariant[],
+  optionName: string,
+): string[] {
+  return Array.from(
+    new Set(
+      variants
+        .map((variant) => variant.options[optionName])
+        .filter((value): value is string => !!value),
+    ),
+  );
+}
+
+/**
+ * 상품/옵션 구분 키 (같은 상품의 다른 옵션을 구분, 옵션 없는 상품은 상품 ID만 사용)
+ */
+export function getVariantKey(
+  productId: number,
+  variantId?: number | null,
+): string {
+  return variantId ? `${productId}:${variantId}` : String(productId);
+}
@@ -10,6 +10,7 @@
  * 2. SEO 관련 메타 데이터 설정 (키워드, 로케일)
  * 3. 소셜 미디어 공유용 설정 (OG 이미지, 트위터 핸들)
  * 4. 경로 유틸리티 함수 제공
+ * 5. 사업자 정보 (영수증/거래명세서 하단 표시, 전자상거래법 표시 사항)
  *
  * 구현 로직:
  * - 환경 변수를 통한 사이트 URL 설정 (개발/프로덕션 환경 구분)
@@ -36,6 +37,16 @@ export const siteConfig = {
     "보일러플레이트",
   ],
   twitterHandle: "@demodev",
+  // 사업자 정보 (실제 운영 시 사업자등록증/통신판매업 신고 내용으로 변경)
+  business: {
+    companyName: "대모산개발단",
+    representative: "홍길동",
+    registrationNumber: "000-00-00000", // 사업자등록번호
+    mailOrderNumber: "제0000-서울강남-0000호", // 통신판매업 신고번호
+    address: "서울특별시 강남구 테헤란로 000",
+    phone: "02-000-0000",
+    email: "support@demodev.io",
+  },
 };
 
 export const getAbsoluteUrl = (path: string): string => {
@@ -14,16 +14,18 @@
  * - Next.js의 cookies API를 사용하여 쿠키 관리
  * - createServerClient 함수를 사용하여 서버 환경에 최적화된 Supabase 클라이언트 생성
  * - 일반 사용자용 클라이언트는 익명 키 사용
- * - 관리자용 클라이언트는 서비스 롤 키 사용
+ * - 관리자용 클라이언트는 서비스 롤 키 사용 (쿠키를 쓰지 않아 항상 서비스 롤로 요청)
  *
  * @dependencies
  * - @supabase/ssr
+ * - @supabase/supabase-js
  * - next/headers
  */
 
 "use server";
 
 import { createServerClient } from "@supabase/ssr";
+import { createClient } from "@supabase/supabase-js";
 import { cookies } from "next/headers";
 
 export async function createServerSupabaseClient() {
@@ -48,23 +50,21 @@ export async function createServerSupabaseClient() {
   );
 }
 
+/**
+ * 관리자 권한(service role) 클라이언트
+ * 요청 쿠키를 넘기면 로그인한 사용자의 세션 JWT로 요청이 나가 RLS가 그대로 적용되므로,
+ * 쿠키 없이 서비스 롤 키만으로 만듭니다. (서버 전용 모듈에서만 사용)
+ */
 export async function createServerSupabaseAdminClient() {
-  const cookieStore = await cookies();
-
-  return createServerClient(
+  return createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_SUPABASE_SERVICE_ROLE!,
+    // .env.example의 SUPABASE_SERVICE_ROLE을 사용하고, 기존 이름도 계속 지원
+    (process.env.SUPABASE_SERVICE_ROLE ??
+      process.env.NEXT_SUPABASE_SERVICE_ROLE)!,
     {
-      cookies: {
-        get(name: string) {
-          return cookieStore.get(name)?.value;
-        },
-        set(name: string, value: string, options: any) {
-          cookieStore.set({ name, value, ...options });
-        },
-        remove(name: string, options: any) {
-          cookieStore.set({ name, value: "", ...options, maxAge: 0 });
-        },
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
       },
     },
   );
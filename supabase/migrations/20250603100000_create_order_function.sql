@@ -0,0 +1,118 @@
+-- 주문 생성 함수: 재고 확인, 조건부 재고 차감, 주문/주문 상품 저장, 장바구니 비우기를 하나의 트랜잭션으로 처리합니다.
+-- 서버 액션(createOrder)에서 supabase.rpc('create_order', ...)로 호출합니다.
+-- 중간에 하나라도 실패하면 함수 안에서 변경된 모든 내용이 롤백되므로, 주문만 남거나 재고만 차감되는 일이 없습니다.
+--
+-- 입력값
+--   p_items: 주문할 상품 목록 (jsonb 배열, 예: [{"product_id": 1, "quantity": 2}])
+--   p_clear_cart: 주문 완료 후 장바구니를 비울지 여부 (장바구니 주문이면 true, 바로 구매면 false)
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "order_id": 12, "total_amount": 45000}
+--   실패: {"success": false, "error_code": "insufficient_stock", "product_id": 1, "product_name": "...", "available": 0}
+--   error_code 종류: unauthenticated, empty_items, invalid_quantity, product_not_found, insufficient_stock
+create or replace function public.create_order(
+  p_items jsonb,
+  p_clear_cart boolean default false
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 주문 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product record; -- 재고 차감 후의 상품 정보
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount)
+    values (v_user_id, 'pending', 0)
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning id, name, price into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select id, name, stock_quantity into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 가격을 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_product.price);
+
+      v_total := v_total + v_product.price * v_item.quantity;
+    end loop;
+
+    update public.orders
+    set total_amount = v_total
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+-- 대신 함수 안에서 auth.uid()로 호출자를 확인하고, 호출자 본인의 주문과 장바구니만 다룹니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, boolean) from public, anon;
+grant execute on function public.create_order(jsonb, boolean) to authenticated;
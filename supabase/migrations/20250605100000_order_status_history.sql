@@ -0,0 +1,193 @@
+-- 주문 상태 모델 정리 및 상태 변경 이력 테이블
+-- 주문 상태 값과 전이 규칙은 src/constants/order-status.ts와 동일하게 유지해야 합니다.
+--
+--   pending(주문 접수)   → confirmed, cancelled
+--   confirmed(주문 확인) → shipping, cancelled
+--   shipping(배송 중)    → delivered
+--   delivered(배송 완료), cancelled(주문 취소) → 최종 상태 (변경 불가)
+
+-- 1. 주문 상태 체크 제약 교체
+-- 기존 'completed' 상태는 새 모델의 'delivered'(배송 완료)로 옮깁니다.
+alter table orders drop constraint if exists orders_status_check;
+
+update orders set status = 'delivered' where status = 'completed';
+
+alter table orders
+  add constraint orders_status_check
+  check (status in ('pending', 'confirmed', 'shipping', 'delivered', 'cancelled'));
+
+-- 2. 주문 상태 변경 이력 테이블
+create table order_status_history (
+  id bigint generated by default as identity primary key, -- 이력 ID
+  order_id bigint references orders(id) on delete cascade not null, -- 대상 주문 ID (주문 삭제 시 이력도 함께 삭제)
+  from_status text, -- 변경 전 상태 (주문 생성 시에는 null)
+  to_status text not null, -- 변경 후 상태
+  changed_by uuid references auth.users(id) on delete set null, -- 상태를 변경한 사용자 (탈퇴 시 null)
+  reason text, -- 변경 사유 (선택)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null -- 변경 시각
+);
+
+create index order_status_history_order_id_idx
+  on order_status_history (order_id, created_at); -- 주문별 이력을 시간순으로 조회
+
+alter table order_status_history enable row level security; -- 이력 테이블에 RLS 활성화
+
+-- 이력은 트리거로만 기록되므로 insert/update/delete 정책은 만들지 않습니다.
+create policy "Users can view their own order status history" -- 사용자는 자신의 주문 이력만 조회 가능
+  on order_status_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from orders
+      where orders.id = order_status_history.order_id
+      and orders.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins can view all order status history" -- 관리자는 모든 주문 이력 조회 가능
+  on order_status_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 3. 상태 전이 규칙 함수
+create or replace function public.order_status_transition_allowed(p_from text, p_to text)
+returns boolean as $$
+  select case p_from
+    when 'pending' then p_to in ('confirmed', 'cancelled')
+    when 'confirmed' then p_to in ('shipping', 'cancelled')
+    when 'shipping' then p_to = 'delivered'
+    else false -- delivered, cancelled는 최종 상태
+  end;
+$$ language sql immutable;
+
+-- 4. 허용되지 않은 상태 변경을 막는 트리거
+-- 서버 액션뿐 아니라 어떤 경로로 orders.status를 바꾸더라도 같은 규칙이 적용됩니다.
+create or replace function public.guard_order_status_transition()
+returns trigger as $$
+begin
+  if new.status is distinct from old.status
+    and not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'invalid_status_transition'
+      using detail = jsonb_build_object('from', old.status, 'to', new.status)::text;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger orders_status_transition_guard
+  before update of status on orders
+  for each row
+  execute procedure public.guard_order_status_transition();
+
+-- 5. 상태 변경 이력을 자동으로 기록하는 트리거
+-- 변경 사유는 change_order_status 함수가 트랜잭션 로컬 설정(app.order_status_reason)으로 전달합니다.
+create or replace function public.record_order_status_history()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.order_status_history (order_id, from_status, to_status, changed_by, reason)
+    values (
+      new.id,
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      auth.uid(),
+      nullif(current_setting('app.order_status_reason', true), '')
+    );
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 이력 테이블에는 insert 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+create trigger orders_status_history_insert
+  after insert on orders
+  for each row
+  execute procedure public.record_order_status_history();
+
+create trigger orders_status_history_update
+  after update of status on orders
+  for each row
+  execute procedure public.record_order_status_history();
+
+-- 기존 주문은 현재 상태를 첫 이력으로 남겨 둡니다.
+insert into order_status_history (order_id, from_status, to_status, reason, created_at)
+select id, null, status, '상태 이력 도입 이전 주문', created_at
+from orders;
+
+-- 6. 주문 상태 변경 함수 (관리자 전용)
+-- 서버 액션(updateOrderStatus)에서 supabase.rpc('change_order_status', ...)로 호출합니다.
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "order_id": 12, "from_status": "pending", "to_status": "confirmed"}
+--   실패: {"success": false, "error_code": "invalid_status_transition", "from": "delivered", "to": "pending"}
+--   error_code 종류: unauthenticated, forbidden, order_not_found, invalid_status, invalid_status_transition
+create or replace function public.change_order_status(
+  p_order_id bigint,
+  p_status text,
+  p_reason text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_current_status text; -- 변경 전 상태
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  if p_status not in ('pending', 'confirmed', 'shipping', 'delivered', 'cancelled') then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_status');
+  end if;
+
+  -- 동시에 같은 주문 상태를 바꾸지 못하도록 행 잠금
+  select status into v_current_status
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'order_not_found');
+  end if;
+
+  if not public.order_status_transition_allowed(v_current_status, p_status) then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'invalid_status_transition',
+      'from', v_current_status,
+      'to', p_status
+    );
+  end if;
+
+  -- 이력 트리거가 읽을 변경 사유 (이 트랜잭션 안에서만 유효)
+  perform set_config('app.order_status_reason', coalesce(trim(p_reason), ''), true);
+
+  update public.orders
+  set status = p_status
+  where id = p_order_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'from_status', v_current_status,
+    'to_status', p_status
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다. (관리자 여부는 함수 안에서 확인)
+revoke execute on function public.change_order_status(bigint, text, text) from public, anon;
+grant execute on function public.change_order_status(bigint, text, text) to authenticated;
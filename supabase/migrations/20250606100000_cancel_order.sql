@@ -0,0 +1,97 @@
+-- 주문 취소 및 재고 복구
+-- 주문이 어떤 경로로든 'cancelled' 상태가 되면, 같은 트랜잭션 안에서 주문 상품 수량만큼 재고를 되돌립니다.
+-- (고객 취소: cancel_order 함수, 관리자 취소: change_order_status 함수)
+
+-- 1. 취소 시 재고를 복구하는 트리거
+create or replace function public.restock_cancelled_order()
+returns trigger as $$
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    -- 상품 ID 순서로 갱신해 create_order와 같은 순서로 잠금을 잡습니다. (교착 상태 방지)
+    update public.products p
+    set stock_quantity = p.stock_quantity + items.quantity
+    from (
+      select product_id, sum(quantity) as quantity
+      from public.order_items
+      where order_id = new.id
+      group by product_id
+      order by product_id
+    ) as items
+    where p.id = items.product_id;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+create trigger orders_restock_on_cancel
+  after update of status on orders
+  for each row
+  execute procedure public.restock_cancelled_order();
+
+-- 2. 고객 주문 취소 함수
+-- 서버 액션(cancelOrder)에서 supabase.rpc('cancel_order', ...)로 호출합니다.
+-- 주문자 본인은 배송 전(pending, confirmed) 주문만 취소할 수 있고, 관리자는 모든 주문에 대해 호출할 수 있습니다.
+-- 상태 전이 규칙(order_status_transition_allowed)과 이력 기록은 20250605100000_order_status_history.sql의 트리거가 그대로 적용됩니다.
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "order_id": 12, "from_status": "pending"}
+--   실패: {"success": false, "error_code": "not_cancellable", "status": "shipping"}
+--   error_code 종류: unauthenticated, order_not_found, not_cancellable
+create or replace function public.cancel_order(
+  p_order_id bigint,
+  p_reason text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_is_admin boolean; -- 관리자 여부
+  v_order record; -- 취소할 주문
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  select coalesce(is_admin, false) into v_is_admin
+  from public.profiles
+  where id = v_user_id;
+
+  -- 동시에 같은 주문을 처리하지 못하도록 행 잠금
+  select id, user_id, status into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  -- 다른 사람의 주문은 존재 여부도 알려주지 않습니다.
+  if not found or (v_order.user_id <> v_user_id and not coalesce(v_is_admin, false)) then
+    return jsonb_build_object('success', false, 'error_code', 'order_not_found');
+  end if;
+
+  if v_order.status not in ('pending', 'confirmed')
+    or not public.order_status_transition_allowed(v_order.status, 'cancelled') then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'not_cancellable',
+      'status', v_order.status
+    );
+  end if;
+
+  -- 이력 트리거가 읽을 취소 사유 (이 트랜잭션 안에서만 유효)
+  perform set_config('app.order_status_reason', coalesce(trim(p_reason), ''), true);
+
+  -- 상태 변경과 함께 orders_restock_on_cancel 트리거가 재고를 복구합니다.
+  update public.orders
+  set status = 'cancelled'
+  where id = p_order_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', p_order_id,
+    'from_status', v_order.status
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.cancel_order(bigint, text) from public, anon;
+grant execute on function public.cancel_order(bigint, text) to authenticated;
@@ -0,0 +1,144 @@
+-- 주문 생성 함수: 고객이 확인한 단가 검증 추가
+-- p_items의 각 항목에 unit_price(고객이 주문서에서 본 단가)를 함께 받을 수 있습니다.
+-- 재고를 차감하는 시점의 products.price와 다르면 주문 전체를 롤백하고 price_changed를 반환합니다.
+-- 주문 금액은 여전히 products.price만으로 계산하며, 클라이언트가 보낸 총액은 사용하지 않습니다.
+--
+-- 입력값
+--   p_items: [{"product_id": 1, "quantity": 2, "unit_price": 15000}]
+--
+-- 추가된 error_code: price_changed
+--   {"success": false, "error_code": "price_changed", "product_id": 1, "product_name": "...", "old_price": 15000, "new_price": 17000}
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 주문 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product record; -- 재고 차감 후의 상품 정보
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address))
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning id, name, price into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select id, name, stock_quantity into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      -- 고객이 확인한 단가와 현재 가격이 다르면 주문을 거부하고 다시 확인받습니다.
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_product.price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'old_price', v_expected_price,
+            'new_price', v_product.price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 가격을 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_product.price);
+
+      v_total := v_total + v_product.price * v_item.quantity;
+    end loop;
+
+    update public.orders
+    set total_amount = v_total
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean) to authenticated;
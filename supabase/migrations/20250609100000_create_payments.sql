@@ -0,0 +1,56 @@
+-- 결제 테이블: 주문별 결제 대행사(PG) 거래 내역을 저장합니다.
+-- 결제 기록은 서버(서비스 롤)에서만 생성/수정하므로, 일반 사용자에게는 조회 정책만 제공합니다.
+create table payments (
+  id bigint generated by default as identity primary key, -- 결제 ID
+  order_id bigint references orders(id) on delete restrict not null, -- 결제 대상 주문 (결제 기록이 있는 주문은 삭제 불가)
+  provider text not null, -- 결제 대행사 이름 (예: mock, toss, inicis)
+  provider_payment_id text, -- 결제 대행사의 거래 ID (승인 실패 시 null)
+  status text not null check (status in ('authorized', 'captured', 'failed', 'voided', 'partially_refunded', 'refunded')), -- 결제 상태
+  amount numeric not null check (amount >= 0), -- 결제 금액
+  refunded_amount numeric default 0 not null check (refunded_amount >= 0 and refunded_amount <= amount), -- 누적 환불 금액
+  failure_reason text, -- 승인/매입 실패 사유
+  raw jsonb, -- 결제 대행사의 마지막 응답/웹훅 원문 (디버깅용)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 결제 요청 시각
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 마지막 상태 변경 시각
+  unique (provider, provider_payment_id) -- 같은 거래가 두 번 기록되지 않도록 (웹훅 중복 수신 대비)
+);
+
+create index payments_order_id_idx on payments (order_id); -- 주문별 결제 조회
+
+-- updated_at 자동 갱신
+create or replace function public.set_payments_updated_at()
+returns trigger as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger payments_set_updated_at
+  before update on payments
+  for each row
+  execute procedure public.set_payments_updated_at();
+
+alter table payments enable row level security; -- 결제 테이블에 RLS 활성화
+
+create policy "Users can view their own payments" -- 사용자는 자신의 주문 결제만 조회 가능
+  on payments for select
+  to authenticated
+  using (
+    exists (
+      select 1 from orders
+      where orders.id = payments.order_id
+      and orders.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins can view all payments" -- 관리자는 모든 결제 조회 가능
+  on payments for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
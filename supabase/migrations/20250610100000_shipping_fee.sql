@@ -0,0 +1,193 @@
+-- 배송비: 상품별 배송 유형과 주문별 배송비/우편번호를 저장합니다.
+-- 배송비 규칙(무료배송 기준, 제주/도서산간 추가 배송비 등)은 src/lib/shipping.ts에서 계산합니다.
+alter table products
+  add column shipping_class text default 'standard' not null
+    check (shipping_class in ('standard', 'bulky', 'free')); -- 배송 유형 (일반 / 대형 상품 / 무료배송 상품)
+
+alter table orders
+  add column customer_postcode text, -- 배송지 우편번호 (기존 주문은 null)
+  add column shipping_fee numeric default 0 not null check (shipping_fee >= 0); -- 주문 당시 배송비 (total_amount에 포함)
+
+-- 주문 생성 함수가 배송지 우편번호와 배송비를 받도록 시그니처를 변경합니다.
+-- 추가된 입력값: p_customer_postcode (선택), p_shipping_fee (선택, 기본 0)
+-- total_amount = 상품 총액 + 배송비
+-- 배송비는 서버 액션이 상품 배송 유형과 우편번호로 계산해 전달합니다. (음수면 invalid_shipping_fee)
+drop function if exists public.create_order(jsonb, text, text, text, boolean, uuid);
+
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product record; -- 재고 차감 후의 상품 정보
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning id, name, price into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select id, name, stock_quantity into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      -- 고객이 확인한 단가와 현재 가격이 다르면 주문을 거부하고 다시 확인받습니다.
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_product.price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'old_price', v_expected_price,
+            'new_price', v_product.price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 가격을 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_product.price);
+
+      v_total := v_total + v_product.price * v_item.quantity;
+    end loop;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee,
+    'shipping_fee', p_shipping_fee
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric) to authenticated;
@@ -0,0 +1,433 @@
+-- 반품(RMA) 테이블과 처리 함수
+-- 반품 상태 값과 전이 규칙은 src/constants/return-status.ts와 동일하게 유지해야 합니다.
+--
+--   requested(반품 요청)      → approved, rejected
+--   approved(반품 승인)       → received, rejected
+--   received(반품 회수 완료)  → refunded (환불 처리 함수로만 변경)
+--   refunded(환불 완료), rejected(반품 거절) → 최종 상태 (변경 불가)
+
+-- 1. 반품 테이블
+create table returns (
+  id bigint generated by default as identity primary key, -- 반품 ID
+  order_id bigint references orders(id) on delete cascade not null, -- 반품 대상 주문
+  user_id uuid references profiles(id) on delete cascade not null, -- 반품을 신청한 사용자 (주문자)
+  status text default 'requested' not null
+    check (status in ('requested', 'approved', 'received', 'refunded', 'rejected')), -- 반품 상태
+  reason text not null, -- 반품 사유
+  photo_paths text[] default '{}' not null, -- 첨부 사진 경로 (Storage 버킷 내 경로)
+  admin_note text, -- 관리자 메모 (거절 사유 등)
+  refund_amount numeric default 0 not null check (refund_amount >= 0), -- 환불한 총액 (상품별 환불 금액 합계)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 반품 신청 시각
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null -- 마지막 상태 변경 시각
+);
+
+create index returns_order_id_idx on returns (order_id); -- 주문별 반품 조회
+create index returns_status_idx on returns (status, created_at); -- 관리자 상태별 반품 목록
+
+-- 2. 반품 상품 테이블 (주문 상품별 반품 수량과 환불 금액)
+create table return_items (
+  id bigint generated by default as identity primary key, -- 반품 상품 ID
+  return_id bigint references returns(id) on delete cascade not null, -- 소속 반품
+  order_item_id bigint references order_items(id) on delete cascade not null, -- 반품할 주문 상품
+  quantity integer not null check (quantity > 0), -- 반품 수량
+  refund_amount numeric default 0 not null check (refund_amount >= 0), -- 이 상품에 대해 환불한 금액 (부분 환불 가능)
+  restocked boolean default false not null, -- 회수한 상품을 재고로 되돌렸는지 여부
+  unique (return_id, order_item_id) -- 한 반품에 같은 주문 상품은 한 번만
+);
+
+create index return_items_order_item_id_idx on return_items (order_item_id); -- 주문 상품별 반품 수량 합계 조회
+
+-- updated_at 자동 갱신
+create or replace function public.set_returns_updated_at()
+returns trigger as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger returns_set_updated_at
+  before update on returns
+  for each row
+  execute procedure public.set_returns_updated_at();
+
+-- 3. RLS: 반품은 아래 함수로만 생성/변경하므로 조회 정책만 제공합니다.
+alter table returns enable row level security;
+alter table return_items enable row level security;
+
+create policy "Users can view their own returns" -- 사용자는 자신의 반품만 조회 가능
+  on returns for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Admins can view all returns" -- 관리자는 모든 반품 조회 가능
+  on returns for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Users can view their own return items" -- 사용자는 자신의 반품 상품만 조회 가능
+  on return_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from returns
+      where returns.id = return_items.return_id
+      and returns.user_id = auth.uid()
+    )
+  );
+
+create policy "Admins can view all return items" -- 관리자는 모든 반품 상품 조회 가능
+  on return_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 4. 반품 상태 전이 규칙 함수
+create or replace function public.return_status_transition_allowed(p_from text, p_to text)
+returns boolean as $$
+  select case p_from
+    when 'requested' then p_to in ('approved', 'rejected')
+    when 'approved' then p_to in ('received', 'rejected')
+    when 'received' then p_to = 'refunded'
+    else false -- refunded, rejected는 최종 상태
+  end;
+$$ language sql immutable;
+
+-- 5. 반품 신청 함수 (주문자 본인)
+-- 서버 액션(requestReturn)에서 supabase.rpc('request_return', ...)로 호출합니다.
+-- 배송 완료된 주문의 상품만, 주문 수량에서 이미 신청한 반품 수량(거절된 반품 제외)을 뺀 만큼 반품할 수 있습니다.
+--
+-- 입력값
+--   p_items: [{"order_item_id": 1, "quantity": 1}, ...]
+--   p_photo_paths: Storage 버킷에 업로드한 사진 경로 (최대 3장)
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "return_id": 7}
+--   실패: {"success": false, "error_code": "quantity_exceeded", "order_item_id": 3, "product_name": "...", "available": 1}
+--   error_code 종류: unauthenticated, order_not_found, not_returnable, invalid_reason, too_many_photos,
+--                    empty_items, invalid_item, invalid_quantity, quantity_exceeded
+create or replace function public.request_return(
+  p_order_id bigint,
+  p_items jsonb,
+  p_reason text,
+  p_photo_paths text[] default '{}'
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order record; -- 반품할 주문
+  v_return_id bigint; -- 새로 생성된 반품 ID
+  v_item record; -- 주문 상품별로 합산된 반품 항목
+  v_order_item record; -- 반품할 주문 상품
+  v_returned integer; -- 이미 반품 신청된 수량
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  -- 같은 주문의 반품 신청이 동시에 처리되지 않도록 주문 행 잠금
+  select id, user_id, status into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  -- 다른 사람의 주문은 존재 여부도 알려주지 않습니다.
+  if not found or v_order.user_id <> v_user_id then
+    return jsonb_build_object('success', false, 'error_code', 'order_not_found');
+  end if;
+
+  if v_order.status <> 'delivered' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'not_returnable',
+      'status', v_order.status
+    );
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_reason');
+  end if;
+
+  if coalesce(array_length(p_photo_paths, 1), 0) > 3 then
+    return jsonb_build_object('success', false, 'error_code', 'too_many_photos');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 반품과 반품 상품이 모두 롤백됩니다.
+  begin
+    insert into public.returns (order_id, user_id, reason, photo_paths)
+    values (p_order_id, v_user_id, trim(p_reason), coalesce(p_photo_paths, '{}'))
+    returning id into v_return_id;
+
+    for v_item in
+      select
+        (elem->>'order_item_id')::bigint as order_item_id,
+        sum((elem->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      select oi.id, oi.quantity, p.name as product_name into v_order_item
+      from public.order_items oi
+      join public.products p on p.id = oi.product_id
+      where oi.id = v_item.order_item_id
+        and oi.order_id = p_order_id;
+
+      if not found then
+        raise exception 'invalid_item'
+          using detail = jsonb_build_object('order_item_id', v_item.order_item_id)::text;
+      end if;
+
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('order_item_id', v_item.order_item_id)::text;
+      end if;
+
+      -- 거절되지 않은 기존 반품 수량 (방금 만든 반품은 아직 상품이 없으므로 포함되지 않음)
+      select coalesce(sum(ri.quantity), 0) into v_returned
+      from public.return_items ri
+      join public.returns r on r.id = ri.return_id
+      where ri.order_item_id = v_item.order_item_id
+        and r.status <> 'rejected';
+
+      if v_returned + v_item.quantity > v_order_item.quantity then
+        raise exception 'quantity_exceeded'
+          using detail = jsonb_build_object(
+            'order_item_id', v_item.order_item_id,
+            'product_name', v_order_item.product_name,
+            'available', v_order_item.quantity - v_returned
+          )::text;
+      end if;
+
+      insert into public.return_items (return_id, order_item_id, quantity)
+      values (v_return_id, v_item.order_item_id, v_item.quantity);
+    end loop;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object('success', true, 'return_id', v_return_id);
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: returns 테이블에는 insert 정책이 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 6. 반품 상태 변경 함수 (관리자 전용: 승인, 거절, 회수 완료)
+-- 서버 액션(updateReturnStatus)에서 supabase.rpc('change_return_status', ...)로 호출합니다.
+-- 환불 완료(refunded)는 환불 금액을 함께 기록해야 하므로 complete_return_refund 함수로만 변경합니다.
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "return_id": 7, "from_status": "requested", "to_status": "approved"}
+--   실패: {"success": false, "error_code": "invalid_status_transition", "from": "refunded", "to": "approved"}
+--   error_code 종류: unauthenticated, forbidden, return_not_found, invalid_status, invalid_status_transition
+create or replace function public.change_return_status(
+  p_return_id bigint,
+  p_status text,
+  p_note text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_current_status text; -- 변경 전 상태
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  if p_status not in ('approved', 'received', 'rejected') then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_status');
+  end if;
+
+  -- 동시에 같은 반품 상태를 바꾸지 못하도록 행 잠금
+  select status into v_current_status
+  from public.returns
+  where id = p_return_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'return_not_found');
+  end if;
+
+  if not public.return_status_transition_allowed(v_current_status, p_status) then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'invalid_status_transition',
+      'from', v_current_status,
+      'to', p_status
+    );
+  end if;
+
+  update public.returns
+  set status = p_status,
+      admin_note = coalesce(nullif(trim(p_note), ''), admin_note)
+  where id = p_return_id;
+
+  return jsonb_build_object(
+    'success', true,
+    'return_id', p_return_id,
+    'from_status', v_current_status,
+    'to_status', p_status
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 7. 반품 환불 완료 함수 (관리자 전용)
+-- 서버 액션(refundReturn)이 결제 대행사 환불에 성공한 뒤 호출해 상품별 환불 금액과 재고 복구 여부를 기록합니다.
+-- 상품별 환불 금액은 0원 ~ (주문 당시 단가 × 반품 수량) 사이에서 정할 수 있습니다. (부분 환불)
+-- restock이 true인 상품은 반품 수량만큼 재고를 되돌립니다.
+--
+-- 입력값
+--   p_items: [{"return_item_id": 1, "refund_amount": 10000, "restock": true}, ...] (빠진 상품은 0원, 재고 복구 안 함)
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "return_id": 7, "refund_amount": 25000}
+--   실패: {"success": false, "error_code": "invalid_refund_amount", "return_item_id": 3, "max": 20000}
+--   error_code 종류: unauthenticated, forbidden, return_not_found, invalid_status_transition,
+--                    invalid_item, invalid_refund_amount
+create or replace function public.complete_return_refund(
+  p_return_id bigint,
+  p_items jsonb,
+  p_note text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_return record; -- 환불할 반품
+  v_elem jsonb; -- 입력된 상품별 환불 정보
+  v_return_item record; -- 환불할 반품 상품
+  v_refund numeric; -- 상품별 환불 금액
+  v_max numeric; -- 상품별 최대 환불 금액
+  v_total numeric := 0; -- 총 환불 금액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  select id, status into v_return
+  from public.returns
+  where id = p_return_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'return_not_found');
+  end if;
+
+  if not public.return_status_transition_allowed(v_return.status, 'refunded') then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'invalid_status_transition',
+      'from', v_return.status,
+      'to', 'refunded'
+    );
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 환불 기록과 재고 복구가 모두 롤백됩니다.
+  begin
+    for v_elem in
+      select elem from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as elem
+    loop
+      select ri.id, ri.quantity, oi.product_id, oi.price_at_time into v_return_item
+      from public.return_items ri
+      join public.order_items oi on oi.id = ri.order_item_id
+      where ri.id = (v_elem->>'return_item_id')::bigint
+        and ri.return_id = p_return_id;
+
+      if not found then
+        raise exception 'invalid_item'
+          using detail = jsonb_build_object('return_item_id', v_elem->'return_item_id')::text;
+      end if;
+
+      v_refund := coalesce((v_elem->>'refund_amount')::numeric, 0);
+      v_max := v_return_item.price_at_time * v_return_item.quantity;
+
+      if v_refund < 0 or v_refund > v_max then
+        raise exception 'invalid_refund_amount'
+          using detail = jsonb_build_object('return_item_id', v_return_item.id, 'max', v_max)::text;
+      end if;
+
+      update public.return_items
+      set refund_amount = v_refund,
+          restocked = coalesce((v_elem->>'restock')::boolean, false)
+      where id = v_return_item.id;
+
+      if coalesce((v_elem->>'restock')::boolean, false) then
+        update public.products
+        set stock_quantity = stock_quantity + v_return_item.quantity
+        where id = v_return_item.product_id;
+      end if;
+
+      v_total := v_total + v_refund;
+    end loop;
+
+    update public.returns
+    set status = 'refunded',
+        refund_amount = v_total,
+        admin_note = coalesce(nullif(trim(p_note), ''), admin_note)
+    where id = p_return_id;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'return_id', p_return_id,
+    'refund_amount', v_total
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.request_return(bigint, jsonb, text, text[]) from public, anon;
+grant execute on function public.request_return(bigint, jsonb, text, text[]) to authenticated;
+
+revoke execute on function public.change_return_status(bigint, text, text) from public, anon;
+grant execute on function public.change_return_status(bigint, text, text) to authenticated;
+
+revoke execute on function public.complete_return_refund(bigint, jsonb, text) from public, anon;
+grant execute on function public.complete_return_refund(bigint, jsonb, text) to authenticated;
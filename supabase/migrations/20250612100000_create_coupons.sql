@@ -0,0 +1,518 @@
+-- 쿠폰(프로모션 코드) 테이블과 주문 할인
+-- 할인 방식, 적용 범위 값과 에러 메시지는 src/lib/coupons.ts와 동일하게 유지해야 합니다.
+--
+--   할인 방식: percentage(정률, 최대 할인 금액 선택) / fixed(정액)
+--   적용 범위: all(전체 상품) / category(특정 카테고리) / product(특정 상품)
+--   할인 금액은 적용 대상 상품 금액에만 계산하며, 배송비는 할인하지 않습니다.
+
+-- 0. 카테고리 쿠폰의 적용 대상을 판단할 상품 카테고리 컬럼
+-- 값 목록, 기본값, 제약은 상품 카테고리 마이그레이션(20250618100000_product_categories.sql)에서 정합니다.
+alter table products
+  add column if not exists category text;
+
+-- 1. 쿠폰 테이블
+create table coupons (
+  id bigint generated by default as identity primary key, -- 쿠폰 ID
+  code text not null unique
+    check (code ~ '^[A-Z0-9_-]{3,30}$'), -- 쿠폰 코드 (대문자, 숫자, -, _ / 입력 시 대문자로 변환)
+  name text not null, -- 쿠폰 이름 (관리자/고객 화면 표시용)
+  discount_type text not null check (discount_type in ('percentage', 'fixed')), -- 할인 방식
+  discount_value numeric not null check (discount_value > 0), -- 할인율(%) 또는 할인 금액(원)
+  max_discount_amount numeric check (max_discount_amount > 0), -- 정률 할인의 최대 할인 금액 (null이면 제한 없음)
+  min_order_amount numeric default 0 not null check (min_order_amount >= 0), -- 최소 주문 금액 (상품 총액 기준)
+  starts_at timestamp with time zone, -- 사용 시작 시각 (null이면 즉시)
+  expires_at timestamp with time zone, -- 만료 시각 (null이면 무기한)
+  usage_limit integer check (usage_limit > 0), -- 전체 사용 가능 횟수 (null이면 제한 없음)
+  per_user_limit integer default 1 check (per_user_limit > 0), -- 사용자별 사용 가능 횟수 (null이면 제한 없음)
+  scope text default 'all' not null check (scope in ('all', 'category', 'product')), -- 적용 범위
+  scope_category text, -- 적용 카테고리 (scope = 'category')
+  scope_product_ids bigint[] default '{}' not null, -- 적용 상품 ID 목록 (scope = 'product')
+  is_active boolean default true not null, -- 사용 가능 여부 (관리자가 중지할 수 있음)
+  created_by uuid references profiles(id) on delete set null, -- 쿠폰을 만든 관리자
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 생성 시각
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 마지막 수정 시각
+  constraint coupons_percentage_check
+    check (discount_type <> 'percentage' or discount_value <= 100), -- 할인율은 100% 이하
+  constraint coupons_period_check
+    check (starts_at is null or expires_at is null or starts_at < expires_at), -- 시작 시각은 만료 시각 이전
+  constraint coupons_scope_target_check
+    check (
+      scope = 'all'
+      or (scope = 'category' and scope_category is not null)
+      or (scope = 'product' and cardinality(scope_product_ids) > 0)
+    ) -- 카테고리/상품 쿠폰은 적용 대상이 있어야 함
+);
+
+-- updated_at 자동 갱신
+create or replace function public.set_coupons_updated_at()
+returns trigger as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger coupons_set_updated_at
+  before update on coupons
+  for each row
+  execute procedure public.set_coupons_updated_at();
+
+-- 2. 쿠폰 사용 내역 (주문당 쿠폰 한 장)
+-- 사용 내역이 있는 쿠폰은 삭제할 수 없습니다. (사용 중지로 처리)
+create table coupon_redemptions (
+  id bigint generated by default as identity primary key, -- 사용 내역 ID
+  coupon_id bigint references coupons(id) on delete restrict not null, -- 사용한 쿠폰
+  user_id uuid references profiles(id) on delete cascade not null, -- 사용한 사용자
+  order_id bigint references orders(id) on delete cascade not null unique, -- 쿠폰을 적용한 주문
+  discount_amount numeric not null check (discount_amount >= 0), -- 할인 금액
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null -- 사용 시각
+);
+
+create index coupon_redemptions_coupon_user_idx
+  on coupon_redemptions (coupon_id, user_id); -- 쿠폰별/사용자별 사용 횟수 조회
+
+-- 3. 주문에 적용된 쿠폰과 할인 금액
+-- 쿠폰이 수정되거나 주문이 취소되어도 주문 당시 할인 내역을 그대로 보여주기 위해 코드를 함께 저장합니다.
+alter table orders
+  add column coupon_code text, -- 적용한 쿠폰 코드 (없으면 null)
+  add column discount_amount numeric default 0 not null check (discount_amount >= 0); -- 쿠폰 할인 금액 (total_amount에서 차감됨)
+
+-- 4. RLS
+-- 쿠폰 코드는 고객에게 노출하지 않습니다. 고객은 preview_coupon / create_order 함수로만 쿠폰을 사용합니다.
+alter table coupons enable row level security;
+alter table coupon_redemptions enable row level security;
+
+create policy "Admins can view coupons" -- 관리자만 쿠폰 조회 가능
+  on coupons for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can insert coupons" -- 관리자만 쿠폰 추가 가능
+  on coupons for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can update coupons" -- 관리자만 쿠폰 수정 가능
+  on coupons for update
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can delete coupons" -- 관리자만 쿠폰 삭제 가능
+  on coupons for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 사용 내역은 create_order 함수로만 기록하므로 조회 정책만 제공합니다.
+create policy "Users can view their own coupon redemptions" -- 사용자는 자신의 쿠폰 사용 내역만 조회 가능
+  on coupon_redemptions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Admins can view all coupon redemptions" -- 관리자는 모든 쿠폰 사용 내역 조회 가능
+  on coupon_redemptions for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 5. 쿠폰 적용 가능 여부와 할인 금액 계산 (내부용)
+-- preview_coupon(주문서 미리보기)과 create_order(주문 생성)가 같은 규칙을 쓰도록 한 곳에서 계산합니다.
+-- p_items: [{"product_id": 1, "quantity": 2}, ...] (단가는 항상 products.price 사용)
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "coupon_id": 3, "code": "WELCOME10", "name": "신규 가입 10%", "discount_amount": 3000, "eligible_amount": 30000}
+--   실패: {"success": false, "error_code": "coupon_min_order_not_met", "min_order_amount": 30000}
+--   error_code 종류: coupon_inactive, coupon_not_started, coupon_expired, coupon_usage_limit_reached,
+--                    coupon_already_used, coupon_min_order_not_met, coupon_not_applicable
+create or replace function public.evaluate_coupon(
+  p_coupon public.coupons,
+  p_user_id uuid,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_now timestamp with time zone := timezone('utc'::text, now());
+  v_subtotal numeric; -- 상품 총액
+  v_eligible numeric; -- 쿠폰 적용 대상 상품 금액
+  v_used integer; -- 사용 횟수
+  v_discount numeric; -- 할인 금액
+begin
+  if not p_coupon.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_inactive');
+  end if;
+
+  if p_coupon.starts_at is not null and p_coupon.starts_at > v_now then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_not_started',
+      'starts_at', p_coupon.starts_at
+    );
+  end if;
+
+  if p_coupon.expires_at is not null and p_coupon.expires_at <= v_now then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_expired');
+  end if;
+
+  if p_coupon.usage_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id;
+
+    if v_used >= p_coupon.usage_limit then
+      return jsonb_build_object('success', false, 'error_code', 'coupon_usage_limit_reached');
+    end if;
+  end if;
+
+  if p_coupon.per_user_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id
+      and user_id = p_user_id;
+
+    if v_used >= p_coupon.per_user_limit then
+      return jsonb_build_object(
+        'success', false,
+        'error_code', 'coupon_already_used',
+        'per_user_limit', p_coupon.per_user_limit
+      );
+    end if;
+  end if;
+
+  select
+    coalesce(sum(products.price * items.quantity), 0),
+    coalesce(sum(products.price * items.quantity) filter (
+      where p_coupon.scope = 'all'
+        or (p_coupon.scope = 'product' and products.id = any(p_coupon.scope_product_ids))
+        or (p_coupon.scope = 'category' and products.category = p_coupon.scope_category)
+    ), 0)
+  into v_subtotal, v_eligible
+  from jsonb_to_recordset(p_items) as items(product_id bigint, quantity integer)
+  join public.products on products.id = items.product_id;
+
+  if v_subtotal < p_coupon.min_order_amount then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_min_order_not_met',
+      'min_order_amount', p_coupon.min_order_amount
+    );
+  end if;
+
+  if v_eligible <= 0 then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_applicable');
+  end if;
+
+  -- 정률 할인은 원 단위 미만을 버리고, 정액 할인은 적용 대상 금액을 넘지 않게 합니다.
+  if p_coupon.discount_type = 'percentage' then
+    v_discount := floor(v_eligible * p_coupon.discount_value / 100);
+    if p_coupon.max_discount_amount is not null then
+      v_discount := least(v_discount, p_coupon.max_discount_amount);
+    end if;
+  else
+    v_discount := least(p_coupon.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'coupon_id', p_coupon.id,
+    'code', p_coupon.code,
+    'name', p_coupon.name,
+    'discount_amount', v_discount,
+    'eligible_amount', v_eligible
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+-- 다른 함수 안에서만 사용합니다.
+revoke execute on function public.evaluate_coupon(public.coupons, uuid, jsonb) from public, anon, authenticated;
+
+-- 6. 쿠폰 미리보기 (주문서에서 쿠폰 코드 입력 시)
+-- 서버 액션(previewCoupon)에서 supabase.rpc('preview_coupon', ...)로 호출합니다.
+-- 실패 시 error_code에 coupon_not_found가 추가됩니다.
+create or replace function public.preview_coupon(
+  p_code text,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_coupon public.coupons%rowtype; -- 입력한 코드의 쿠폰
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  select * into v_coupon
+  from public.coupons
+  where code = upper(trim(p_code));
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_found');
+  end if;
+
+  return public.evaluate_coupon(v_coupon, v_user_id, coalesce(p_items, '[]'::jsonb));
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+revoke execute on function public.preview_coupon(text, jsonb) from public, anon;
+grant execute on function public.preview_coupon(text, jsonb) to authenticated;
+
+-- 7. 주문 취소 시 쿠폰 사용 내역 삭제 (쿠폰을 다시 사용할 수 있도록)
+-- 결제 실패로 취소된 주문도 같은 경로로 쿠폰이 돌아갑니다. 주문의 coupon_code/discount_amount는 기록으로 남깁니다.
+create or replace function public.release_coupon_redemption()
+returns trigger as $$
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    delete from public.coupon_redemptions where order_id = new.id;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 사용 내역 테이블에는 delete 정책이 없으므로 함수 소유자 권한으로 삭제합니다.
+
+create trigger orders_release_coupon_redemption
+  after update of status on orders
+  for each row
+  execute procedure public.release_coupon_redemption();
+
+-- 8. 주문 생성 함수가 쿠폰 코드를 받도록 시그니처를 변경합니다.
+-- 추가된 입력값: p_coupon_code (선택)
+-- total_amount = 상품 총액 + 배송비 - 쿠폰 할인
+-- 쿠폰을 쓸 수 없으면 evaluate_coupon의 error_code(coupon_*)로 주문을 거부합니다.
+drop function if exists public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric);
+
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0,
+  p_coupon_code text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product record; -- 재고 차감 후의 상품 정보
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_coupon public.coupons%rowtype; -- 적용할 쿠폰
+  v_coupon_result jsonb; -- 쿠폰 적용 결과
+  v_discount numeric := 0; -- 쿠폰 할인 금액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감, 쿠폰 사용)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning id, name, price into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select id, name, stock_quantity into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      -- 고객이 확인한 단가와 현재 가격이 다르면 주문을 거부하고 다시 확인받습니다.
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_product.price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'old_price', v_expected_price,
+            'new_price', v_product.price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 가격을 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_product.price);
+
+      v_total := v_total + v_product.price * v_item.quantity;
+    end loop;
+
+    -- 쿠폰 적용: 쿠폰 행을 잠가 사용 한도 확인과 사용 기록 사이에 다른 주문이 끼어들지 못하게 합니다.
+    if coalesce(trim(p_coupon_code), '') <> '' then
+      select * into v_coupon
+      from public.coupons
+      where code = upper(trim(p_coupon_code))
+      for update;
+
+      if not found then
+        raise exception 'coupon_not_found';
+      end if;
+
+      v_coupon_result := public.evaluate_coupon(v_coupon, v_user_id, p_items);
+
+      if not (v_coupon_result->>'success')::boolean then
+        raise exception '%', v_coupon_result->>'error_code'
+          using detail = (v_coupon_result - 'success' - 'error_code')::text;
+      end if;
+
+      v_discount := (v_coupon_result->>'discount_amount')::numeric;
+
+      insert into public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+      values (v_coupon.id, v_user_id, v_order_id, v_discount);
+    end if;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee - v_discount,
+        coupon_code = v_coupon.code,
+        discount_amount = v_discount
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee - v_discount,
+    'shipping_fee', p_shipping_fee,
+    'discount_amount', v_discount
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text) to authenticated;
@@ -0,0 +1,396 @@
+-- 세일 가격과 가격 변경 이력
+-- 세일 적용 여부와 할인율 계산은 src/lib/pricing.ts와 동일하게 유지해야 합니다.
+--
+--   price: 정가 (기존 컬럼 그대로 사용)
+--   sale_price: 세일가 (정가보다 낮아야 함, null이면 세일 없음)
+--   sale_starts_at / sale_ends_at: 세일 기간 (null이면 즉시 시작 / 종료일 없음)
+--   세일 시작과 종료는 조회 시점에 판단하므로 예약된 가격 변경을 위한 별도 작업이 필요 없습니다.
+
+-- 1. 상품 세일 가격
+alter table products
+  add column sale_price numeric check (sale_price > 0), -- 세일가 (null이면 세일 없음)
+  add column sale_starts_at timestamp with time zone, -- 세일 시작 시각 (null이면 즉시)
+  add column sale_ends_at timestamp with time zone, -- 세일 종료 시각 (null이면 종료일 없음)
+  add constraint products_sale_price_check
+    check (sale_price is null or sale_price < price), -- 세일가는 정가보다 낮아야 함
+  add constraint products_sale_period_check
+    check (sale_starts_at is null or sale_ends_at is null or sale_starts_at < sale_ends_at); -- 시작 시각은 종료 시각 이전
+
+-- 2. 현재 판매가 (세일 기간이면 세일가, 아니면 정가)
+-- 주문 생성과 쿠폰 할인 계산이 같은 판매가를 쓰도록 한 곳에서 계산합니다.
+create or replace function public.product_current_price(p_product public.products)
+returns numeric as $$
+  select case
+    when p_product.sale_price is not null
+      and (p_product.sale_starts_at is null or p_product.sale_starts_at <= now())
+      and (p_product.sale_ends_at is null or p_product.sale_ends_at > now())
+    then p_product.sale_price
+    else p_product.price
+  end;
+$$ language sql stable;
+
+-- 3. 가격 변경 이력
+-- 상품 등록과 정가/세일 가격이 바뀔 때마다 트리거가 변경 후 값을 기록합니다. (관리자 화면에서 직접 수정해도 누락되지 않음)
+create table product_price_history (
+  id bigint generated by default as identity primary key, -- 이력 ID
+  product_id bigint references products(id) on delete cascade not null, -- 상품 ID
+  price numeric not null, -- 변경 후 정가
+  sale_price numeric, -- 변경 후 세일가
+  sale_starts_at timestamp with time zone, -- 변경 후 세일 시작 시각
+  sale_ends_at timestamp with time zone, -- 변경 후 세일 종료 시각
+  changed_by uuid references profiles(id) on delete set null, -- 변경한 관리자 (SQL로 직접 수정한 경우 null)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null -- 변경 시각
+);
+
+create index product_price_history_product_id_idx
+  on product_price_history (product_id, created_at desc); -- 상품별 최신 이력 조회
+
+alter table product_price_history enable row level security;
+
+create policy "Admins can view product price history" -- 관리자만 가격 이력 조회 가능
+  on product_price_history for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create or replace function public.record_product_price_history()
+returns trigger as $$
+begin
+  if tg_op = 'UPDATE'
+    and (new.price, new.sale_price, new.sale_starts_at, new.sale_ends_at)
+      is not distinct from (old.price, old.sale_price, old.sale_starts_at, old.sale_ends_at) then
+    return new;
+  end if;
+
+  insert into public.product_price_history (product_id, price, sale_price, sale_starts_at, sale_ends_at, changed_by)
+  values (new.id, new.price, new.sale_price, new.sale_starts_at, new.sale_ends_at, auth.uid());
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 이력 테이블에는 insert 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+create trigger products_record_price_history
+  after insert or update of price, sale_price, sale_starts_at, sale_ends_at on products
+  for each row
+  execute procedure public.record_product_price_history();
+
+-- 기존 상품은 현재 가격을 첫 이력으로 남깁니다.
+insert into product_price_history (product_id, price, changed_by, created_at)
+select id, price, created_by, coalesce(created_at, timezone('utc'::text, now()))
+from products;
+
+-- 4. 쿠폰 할인 금액을 현재 판매가 기준으로 계산합니다. (세일 상품은 세일가에서 쿠폰 할인)
+create or replace function public.evaluate_coupon(
+  p_coupon public.coupons,
+  p_user_id uuid,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_now timestamp with time zone := timezone('utc'::text, now());
+  v_subtotal numeric; -- 상품 총액
+  v_eligible numeric; -- 쿠폰 적용 대상 상품 금액
+  v_used integer; -- 사용 횟수
+  v_discount numeric; -- 할인 금액
+begin
+  if not p_coupon.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_inactive');
+  end if;
+
+  if p_coupon.starts_at is not null and p_coupon.starts_at > v_now then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_not_started',
+      'starts_at', p_coupon.starts_at
+    );
+  end if;
+
+  if p_coupon.expires_at is not null and p_coupon.expires_at <= v_now then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_expired');
+  end if;
+
+  if p_coupon.usage_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id;
+
+    if v_used >= p_coupon.usage_limit then
+      return jsonb_build_object('success', false, 'error_code', 'coupon_usage_limit_reached');
+    end if;
+  end if;
+
+  if p_coupon.per_user_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id
+      and user_id = p_user_id;
+
+    if v_used >= p_coupon.per_user_limit then
+      return jsonb_build_object(
+        'success', false,
+        'error_code', 'coupon_already_used',
+        'per_user_limit', p_coupon.per_user_limit
+      );
+    end if;
+  end if;
+
+  select
+    coalesce(sum(public.product_current_price(products) * items.quantity), 0),
+    coalesce(sum(public.product_current_price(products) * items.quantity) filter (
+      where p_coupon.scope = 'all'
+        or (p_coupon.scope = 'product' and products.id = any(p_coupon.scope_product_ids))
+        or (p_coupon.scope = 'category' and products.category = p_coupon.scope_category)
+    ), 0)
+  into v_subtotal, v_eligible
+  from jsonb_to_recordset(p_items) as items(product_id bigint, quantity integer)
+  join public.products on products.id = items.product_id;
+
+  if v_subtotal < p_coupon.min_order_amount then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_min_order_not_met',
+      'min_order_amount', p_coupon.min_order_amount
+    );
+  end if;
+
+  if v_eligible <= 0 then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_applicable');
+  end if;
+
+  -- 정률 할인은 원 단위 미만을 버리고, 정액 할인은 적용 대상 금액을 넘지 않게 합니다.
+  if p_coupon.discount_type = 'percentage' then
+    v_discount := floor(v_eligible * p_coupon.discount_value / 100);
+    if p_coupon.max_discount_amount is not null then
+      v_discount := least(v_discount, p_coupon.max_discount_amount);
+    end if;
+  else
+    v_discount := least(p_coupon.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'coupon_id', p_coupon.id,
+    'code', p_coupon.code,
+    'name', p_coupon.name,
+    'discount_amount', v_discount,
+    'eligible_amount', v_eligible
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+-- 5. 주문 생성 시 현재 판매가로 주문합니다.
+-- 시그니처는 그대로이며, 단가 확인(price_changed)과 order_items.price_at_time, total_amount 모두 판매가를 사용합니다.
+-- 세일이 시작되거나 끝나 장바구니에서 본 가격과 달라지면 price_changed로 다시 확인받습니다.
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0,
+  p_coupon_code text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product public.products%rowtype; -- 재고 차감 후의 상품 정보
+  v_price numeric; -- 주문 시점의 판매가 (세일 중이면 세일가)
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_coupon public.coupons%rowtype; -- 적용할 쿠폰
+  v_coupon_result jsonb; -- 쿠폰 적용 결과
+  v_discount numeric := 0; -- 쿠폰 할인 금액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감, 쿠폰 사용)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning * into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select * into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      v_price := public.product_current_price(v_product);
+
+      -- 고객이 확인한 단가와 현재 판매가가 다르면 주문을 거부하고 다시 확인받습니다. (세일 시작/종료 포함)
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'old_price', v_expected_price,
+            'new_price', v_price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 판매가를 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_price);
+
+      v_total := v_total + v_price * v_item.quantity;
+    end loop;
+
+    -- 쿠폰 적용: 쿠폰 행을 잠가 사용 한도 확인과 사용 기록 사이에 다른 주문이 끼어들지 못하게 합니다.
+    if coalesce(trim(p_coupon_code), '') <> '' then
+      select * into v_coupon
+      from public.coupons
+      where code = upper(trim(p_coupon_code))
+      for update;
+
+      if not found then
+        raise exception 'coupon_not_found';
+      end if;
+
+      v_coupon_result := public.evaluate_coupon(v_coupon, v_user_id, p_items);
+
+      if not (v_coupon_result->>'success')::boolean then
+        raise exception '%', v_coupon_result->>'error_code'
+          using detail = (v_coupon_result - 'success' - 'error_code')::text;
+      end if;
+
+      v_discount := (v_coupon_result->>'discount_amount')::numeric;
+
+      insert into public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+      values (v_coupon.id, v_user_id, v_order_id, v_discount);
+    end if;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee - v_discount,
+        coupon_code = v_coupon.code,
+        discount_amount = v_discount
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee - v_discount,
+    'shipping_fee', p_shipping_fee,
+    'discount_amount', v_discount
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
@@ -0,0 +1,24 @@
+-- 관리자 주문 조회 정책
+-- 기존 정책은 본인 주문만 조회할 수 있어, 관리자 주문 관리 화면과 영수증(/orders/[id]/invoice)에서
+-- 다른 사용자의 주문을 읽을 수 없었습니다. 관리자는 모든 주문과 주문 상품을 조회할 수 있도록 합니다.
+create policy "Admins can view all orders" -- 관리자는 모든 주문 조회 가능
+  on orders for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can view all order items" -- 관리자는 모든 주문 상품 조회 가능
+  on order_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
@@ -0,0 +1,679 @@
+-- 적립금(포인트) 원장과 주문 적립/사용/소멸
+-- 거래 유형 값과 에러 메시지는 src/lib/points.ts와 동일하게 유지해야 합니다.
+--
+--   earn(구매 적립)          : 주문이 배송 완료(delivered)되면 결제 금액(배송비 제외)의 적립률만큼 적립
+--   redeem(주문 사용)        : 주문서에서 사용 (쿠폰 할인 후 상품 금액의 최대 사용 비율까지)
+--   redeem_cancel(사용 취소) : 주문이 취소되면 사용한 적립금을 되돌림 (유효기간은 새로 시작)
+--   earn_cancel(적립 취소)   : 적립 후 주문이 취소되거나 반품 환불되면 적립분을 회수 (잔액 한도 내)
+--   expire(유효기간 만료)    : 적립 후 유효기간(개월)이 지나면 남은 적립금 소멸
+--   adjust(관리자 조정)      : 관리자가 사유와 함께 직접 지급(+)하거나 차감(-)
+--
+-- 적립금은 먼저 소멸되는 적립분부터 사용합니다. (적립 행의 remaining_amount가 아직 쓰지 않은 금액)
+-- 잔액 = 모든 거래 금액의 합 - 유효기간이 지났지만 아직 소멸 처리되지 않은 적립분
+
+-- 1. 적립금 정책 (한 행만 존재, 관리자가 사용자 관리 페이지에서 변경)
+create table point_settings (
+  id boolean default true primary key check (id), -- 정책은 한 행만 존재
+  earn_rate numeric default 1 not null check (earn_rate >= 0 and earn_rate <= 100), -- 적립률 (결제 금액 대비 %, 배송비 제외)
+  expiry_months integer default 12 not null check (expiry_months > 0), -- 유효기간 (적립일로부터 개월 수)
+  max_redeem_rate numeric default 50 not null
+    check (max_redeem_rate >= 0 and max_redeem_rate <= 100), -- 주문당 최대 사용 비율 (쿠폰 할인 후 상품 금액 대비 %)
+  updated_by uuid references profiles(id) on delete set null, -- 마지막으로 변경한 관리자
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null -- 마지막 변경 시각
+);
+
+insert into point_settings default values;
+
+-- 2. 적립금 거래 원장
+create table point_transactions (
+  id bigint generated by default as identity primary key, -- 거래 ID
+  user_id uuid references profiles(id) on delete cascade not null, -- 적립금 소유자
+  type text not null
+    check (type in ('earn', 'redeem', 'redeem_cancel', 'earn_cancel', 'expire', 'adjust')), -- 거래 유형
+  amount integer not null check (amount <> 0), -- 변동 금액 (지급은 +, 사용/회수/소멸은 -)
+  remaining_amount integer default 0 not null check (remaining_amount >= 0), -- 지급분 중 아직 쓰지 않은 금액 (+ 거래만)
+  expires_at timestamp with time zone, -- 지급분 소멸 시각 (+ 거래만)
+  order_id bigint references orders(id) on delete set null, -- 관련 주문
+  return_id bigint references returns(id) on delete set null, -- 관련 반품 (반품 환불로 회수한 경우)
+  reason text, -- 사유 (관리자 조정 사유, 소멸 안내 등)
+  created_by uuid references profiles(id) on delete set null, -- 조정한 관리자 (자동 처리는 null)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 거래 시각
+  constraint point_transactions_remaining_check
+    check (remaining_amount <= greatest(amount, 0)) -- 남은 금액은 지급 금액 이하
+);
+
+create index point_transactions_user_id_idx on point_transactions (user_id, created_at desc); -- 사용자별 내역 조회
+create index point_transactions_remaining_idx
+  on point_transactions (user_id, expires_at)
+  where remaining_amount > 0; -- 사용/소멸 대상 지급분 조회
+create unique index point_transactions_order_earn_idx
+  on point_transactions (order_id)
+  where type = 'earn'; -- 주문당 구매 적립은 한 번만
+
+-- 3. 주문에 사용/적립한 적립금
+alter table orders
+  add column points_used integer default 0 not null check (points_used >= 0), -- 사용한 적립금 (total_amount에서 차감됨)
+  add column points_earned integer default 0 not null check (points_earned >= 0); -- 배송 완료로 적립한 적립금 (회수분 포함 전)
+
+-- 4. 사용자별 잔액 (관리자 사용자 목록에서 조회)
+-- security_invoker: 조회하는 사용자의 RLS가 적용되어 일반 사용자는 자신의 잔액만 볼 수 있습니다.
+create view point_balances with (security_invoker = true) as
+select
+  user_id,
+  (
+    sum(amount)
+    - coalesce(sum(remaining_amount) filter (where expires_at <= now()), 0)
+  )::integer as balance
+from point_transactions
+group by user_id;
+
+-- 5. RLS: 적립금 거래는 아래 함수로만 기록하므로 조회 정책만 제공합니다.
+alter table point_settings enable row level security;
+alter table point_transactions enable row level security;
+
+create policy "Authenticated users can view point settings" -- 로그인 사용자는 적립금 정책 조회 가능 (주문서, 프로필)
+  on point_settings for select
+  to authenticated
+  using (true);
+
+create policy "Admins can update point settings" -- 관리자만 적립금 정책 변경 가능
+  on point_settings for update
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Users can view their own point transactions" -- 사용자는 자신의 적립금 내역만 조회 가능
+  on point_transactions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Admins can view all point transactions" -- 관리자는 모든 적립금 내역 조회 가능
+  on point_transactions for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 6. 내부용 함수 (다른 함수와 트리거에서만 호출)
+-- 현재 잔액
+create or replace function public.point_balance(p_user_id uuid)
+returns integer as $$
+  select (
+    coalesce(sum(amount), 0)
+    - coalesce(sum(remaining_amount) filter (where expires_at <= now()), 0)
+  )::integer
+  from public.point_transactions
+  where user_id = p_user_id;
+$$ language sql stable security definer set search_path = public;
+
+-- 적립금 지급 (유효기간은 현재 정책 기준으로 지급 시점부터 계산)
+create or replace function public.grant_points(
+  p_user_id uuid,
+  p_type text,
+  p_amount integer,
+  p_order_id bigint default null,
+  p_reason text default null,
+  p_created_by uuid default null
+)
+returns void as $$
+declare
+  v_expiry_months integer; -- 유효기간 (개월)
+begin
+  select expiry_months into v_expiry_months from public.point_settings;
+
+  insert into public.point_transactions (user_id, type, amount, remaining_amount, expires_at, order_id, reason, created_by)
+  values (
+    p_user_id,
+    p_type,
+    p_amount,
+    p_amount,
+    timezone('utc'::text, now()) + make_interval(months => v_expiry_months),
+    p_order_id,
+    p_reason,
+    p_created_by
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 적립금 차감 (먼저 소멸되는 지급분부터 차감, 잔액 확인은 호출하는 쪽에서 처리)
+create or replace function public.deduct_points(
+  p_user_id uuid,
+  p_type text,
+  p_amount integer,
+  p_order_id bigint default null,
+  p_return_id bigint default null,
+  p_reason text default null,
+  p_created_by uuid default null
+)
+returns void as $$
+declare
+  v_grant record; -- 차감할 지급분
+  v_left integer := p_amount; -- 남은 차감 금액
+  v_use integer; -- 이 지급분에서 차감할 금액
+begin
+  for v_grant in
+    select id, remaining_amount
+    from public.point_transactions
+    where user_id = p_user_id
+      and remaining_amount > 0
+      and (expires_at is null or expires_at > now())
+    order by expires_at nulls last, id
+    for update
+  loop
+    exit when v_left <= 0;
+
+    v_use := least(v_left, v_grant.remaining_amount);
+
+    update public.point_transactions
+    set remaining_amount = remaining_amount - v_use
+    where id = v_grant.id;
+
+    v_left := v_left - v_use;
+  end loop;
+
+  insert into public.point_transactions (user_id, type, amount, order_id, return_id, reason, created_by)
+  values (p_user_id, p_type, -p_amount, p_order_id, p_return_id, p_reason, p_created_by);
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.point_balance(uuid) from public, anon, authenticated;
+revoke execute on function public.grant_points(uuid, text, integer, bigint, text, uuid) from public, anon, authenticated;
+revoke execute on function public.deduct_points(uuid, text, integer, bigint, bigint, text, uuid) from public, anon, authenticated;
+
+-- 7. 유효기간 만료 처리
+-- 잔액 계산은 만료 처리 여부와 관계없이 정확하며, 이 함수는 소멸 내역을 원장에 남깁니다.
+-- 사용자 조회(get_point_summary) 시 해당 사용자분을 처리하고, 전체 처리는 pg_cron 등으로 매일 실행합니다.
+--   예: select cron.schedule('expire-points', '0 15 * * *', 'select public.expire_points()'); -- 매일 자정(한국 시간)
+--
+-- 반환값: 소멸 처리한 지급분 수
+create or replace function public.expire_points(p_user_id uuid default null)
+returns integer as $$
+declare
+  v_count integer; -- 소멸 처리한 지급분 수
+begin
+  with expired as (
+    select id, user_id, remaining_amount
+    from public.point_transactions
+    where remaining_amount > 0
+      and expires_at <= now()
+      and (p_user_id is null or user_id = p_user_id)
+    for update
+  ), cleared as (
+    update public.point_transactions
+    set remaining_amount = 0
+    from expired
+    where point_transactions.id = expired.id
+  )
+  insert into public.point_transactions (user_id, type, amount, reason)
+  select user_id, 'expire', -remaining_amount, '유효기간 만료'
+  from expired;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.expire_points(uuid) from public, anon, authenticated;
+
+-- 8. 적립금 요약 조회 (프로필, 주문서)
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "balance": 12000, "expiring_amount": 3000, "next_expires_at": "2025-07-01T00:00:00+00:00"}
+--         expiring_amount: 30일 안에 소멸 예정인 금액, next_expires_at: 가장 먼저 소멸되는 시각 (없으면 null)
+--   실패: {"success": false, "error_code": "unauthenticated"}
+create or replace function public.get_point_summary()
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_expiring record; -- 소멸 예정 적립금
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  perform public.expire_points(v_user_id);
+
+  select
+    coalesce(sum(remaining_amount) filter (where expires_at <= now() + interval '30 days'), 0) as amount,
+    min(expires_at) as next_expires_at
+  into v_expiring
+  from public.point_transactions
+  where user_id = v_user_id
+    and remaining_amount > 0;
+
+  return jsonb_build_object(
+    'success', true,
+    'balance', public.point_balance(v_user_id),
+    'expiring_amount', v_expiring.amount,
+    'next_expires_at', v_expiring.next_expires_at
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.get_point_summary() from public, anon;
+grant execute on function public.get_point_summary() to authenticated;
+
+-- 9. 관리자 적립금 조정
+-- 양수는 지급(유효기간 적용), 음수는 차감입니다. 차감은 현재 잔액까지만 가능합니다.
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "user_id": "...", "balance": 15000}
+--   실패: {"success": false, "error_code": "points_insufficient", "balance": 2000}
+--   error_code 종류: unauthenticated, forbidden, user_not_found,
+--                    points_invalid_amount, points_reason_required, points_insufficient
+create or replace function public.adjust_points(
+  p_user_id uuid,
+  p_amount integer,
+  p_reason text
+)
+returns jsonb as $$
+declare
+  v_admin_id uuid := auth.uid(); -- 함수를 호출한 관리자 ID
+  v_balance integer; -- 조정 전 잔액
+begin
+  if v_admin_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_admin_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  if p_amount is null or p_amount = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'points_invalid_amount');
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'points_reason_required');
+  end if;
+
+  -- 사용자 행을 잠가 같은 사용자의 주문/조정이 동시에 잔액을 쓰지 못하게 합니다.
+  perform 1 from public.profiles where id = p_user_id for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'user_not_found');
+  end if;
+
+  perform public.expire_points(p_user_id);
+
+  if p_amount > 0 then
+    perform public.grant_points(p_user_id, 'adjust', p_amount, null, trim(p_reason), v_admin_id);
+  else
+    v_balance := public.point_balance(p_user_id);
+
+    if -p_amount > v_balance then
+      return jsonb_build_object('success', false, 'error_code', 'points_insufficient', 'balance', v_balance);
+    end if;
+
+    perform public.deduct_points(p_user_id, 'adjust', -p_amount, null, null, trim(p_reason), v_admin_id);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'user_id', p_user_id,
+    'balance', public.point_balance(p_user_id)
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.adjust_points(uuid, integer, text) from public, anon;
+grant execute on function public.adjust_points(uuid, integer, text) to authenticated;
+
+-- 10. 주문 상태 변경 시 적립/회수
+--   delivered: 결제 금액(배송비 제외)의 적립률만큼 적립 (주문당 한 번)
+--   cancelled: 사용한 적립금을 되돌리고, 이미 적립했다면 남은 적립분을 회수
+create or replace function public.apply_order_points()
+returns trigger as $$
+declare
+  v_earn_rate numeric; -- 적립률 (%)
+  v_points integer; -- 적립/회수할 금액
+begin
+  if new.status = 'delivered' and old.status is distinct from 'delivered' and new.points_earned = 0 then
+    select earn_rate into v_earn_rate from public.point_settings;
+    v_points := floor(greatest(new.total_amount - new.shipping_fee, 0) * v_earn_rate / 100);
+
+    if v_points > 0 then
+      perform public.grant_points(new.user_id, 'earn', v_points, new.id);
+
+      update public.orders
+      set points_earned = v_points
+      where id = new.id;
+    end if;
+  end if;
+
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    perform 1 from public.profiles where id = new.user_id for update;
+
+    if new.points_used > 0 then
+      perform public.grant_points(new.user_id, 'redeem_cancel', new.points_used, new.id, '주문 취소');
+    end if;
+
+    -- 이미 쓴 적립분은 회수하지 않습니다. (잔액 한도 내)
+    v_points := least(
+      new.points_earned + coalesce((
+        select sum(amount) from public.point_transactions
+        where order_id = new.id and type = 'earn_cancel'
+      ), 0),
+      public.point_balance(new.user_id)
+    );
+
+    if v_points > 0 then
+      perform public.deduct_points(new.user_id, 'earn_cancel', v_points, new.id, null, '주문 취소');
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 적립금 원장에는 insert 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+create trigger orders_apply_points
+  after update of status on orders
+  for each row
+  execute procedure public.apply_order_points();
+
+-- 11. 반품 환불 시 적립분 회수
+-- 환불 금액이 적립 기준 금액(결제 금액 - 배송비)에서 차지하는 비율만큼 회수합니다. (잔액 한도 내)
+create or replace function public.reverse_return_points()
+returns trigger as $$
+declare
+  v_order record; -- 반품 대상 주문
+  v_reversed integer; -- 이 주문에서 이미 회수한 금액
+  v_points integer; -- 회수할 금액
+begin
+  if new.status = 'refunded' and old.status is distinct from 'refunded' and new.refund_amount > 0 then
+    select id, user_id, total_amount, shipping_fee, points_earned into v_order
+    from public.orders
+    where id = new.order_id;
+
+    if v_order.points_earned > 0 and v_order.total_amount - v_order.shipping_fee > 0 then
+      perform 1 from public.profiles where id = v_order.user_id for update;
+
+      select coalesce(-sum(amount), 0) into v_reversed
+      from public.point_transactions
+      where order_id = v_order.id and type = 'earn_cancel';
+
+      v_points := least(
+        ceil(v_order.points_earned * new.refund_amount / (v_order.total_amount - v_order.shipping_fee))::integer,
+        v_order.points_earned - v_reversed,
+        public.point_balance(v_order.user_id)
+      );
+
+      if v_points > 0 then
+        perform public.deduct_points(v_order.user_id, 'earn_cancel', v_points, v_order.id, new.id, '반품 환불');
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 적립금 원장에는 insert 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+create trigger returns_reverse_points
+  after update of status on returns
+  for each row
+  execute procedure public.reverse_return_points();
+
+-- 12. 주문 생성 함수가 적립금 사용 금액을 받도록 시그니처를 변경합니다.
+-- 추가된 입력값: p_points_to_use (선택, 기본 0)
+-- total_amount = 상품 총액 + 배송비 - 쿠폰 할인 - 적립금 사용
+-- 사용 가능 금액: 잔액 이하, 쿠폰 할인 후 상품 금액 × 최대 사용 비율 이하
+--   (points_insufficient: 잔액 부족, points_limit_exceeded: 사용 한도 초과, points_invalid_amount: 음수)
+drop function if exists public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text);
+
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0,
+  p_coupon_code text default null,
+  p_points_to_use integer default 0
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품별로 합산된 주문 항목
+  v_product public.products%rowtype; -- 재고 차감 후의 상품 정보
+  v_price numeric; -- 주문 시점의 판매가 (세일 중이면 세일가)
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_coupon public.coupons%rowtype; -- 적용할 쿠폰
+  v_coupon_result jsonb; -- 쿠폰 적용 결과
+  v_discount numeric := 0; -- 쿠폰 할인 금액
+  v_max_points integer; -- 이 주문에 사용할 수 있는 최대 적립금
+  v_balance integer; -- 적립금 잔액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  if p_points_to_use is null or p_points_to_use < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'points_invalid_amount');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감, 쿠폰 사용, 적립금 사용)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+      update public.products
+      set stock_quantity = stock_quantity - v_item.quantity
+      where id = v_item.product_id
+        and stock_quantity >= v_item.quantity
+      returning * into v_product;
+
+      if not found then
+        -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+        select * into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        if not found then
+          raise exception 'product_not_found'
+            using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+        end if;
+
+        raise exception 'insufficient_stock'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'available', v_product.stock_quantity
+          )::text;
+      end if;
+
+      v_price := public.product_current_price(v_product);
+
+      -- 고객이 확인한 단가와 현재 판매가가 다르면 주문을 거부하고 다시 확인받습니다. (세일 시작/종료 포함)
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'old_price', v_expected_price,
+            'new_price', v_price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 판매가를 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time)
+      values (v_order_id, v_product.id, v_item.quantity, v_price);
+
+      v_total := v_total + v_price * v_item.quantity;
+    end loop;
+
+    -- 쿠폰 적용: 쿠폰 행을 잠가 사용 한도 확인과 사용 기록 사이에 다른 주문이 끼어들지 못하게 합니다.
+    if coalesce(trim(p_coupon_code), '') <> '' then
+      select * into v_coupon
+      from public.coupons
+      where code = upper(trim(p_coupon_code))
+      for update;
+
+      if not found then
+        raise exception 'coupon_not_found';
+      end if;
+
+      v_coupon_result := public.evaluate_coupon(v_coupon, v_user_id, p_items);
+
+      if not (v_coupon_result->>'success')::boolean then
+        raise exception '%', v_coupon_result->>'error_code'
+          using detail = (v_coupon_result - 'success' - 'error_code')::text;
+      end if;
+
+      v_discount := (v_coupon_result->>'discount_amount')::numeric;
+
+      insert into public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+      values (v_coupon.id, v_user_id, v_order_id, v_discount);
+    end if;
+
+    -- 적립금 사용: 사용자 행을 잠가 같은 사용자의 동시 주문/조정이 잔액을 함께 쓰지 못하게 합니다.
+    if p_points_to_use > 0 then
+      perform 1 from public.profiles where id = v_user_id for update;
+
+      v_balance := public.point_balance(v_user_id);
+
+      if p_points_to_use > v_balance then
+        raise exception 'points_insufficient'
+          using detail = jsonb_build_object('balance', v_balance)::text;
+      end if;
+
+      select floor((v_total - v_discount) * max_redeem_rate / 100) into v_max_points
+      from public.point_settings;
+
+      if p_points_to_use > v_max_points then
+        raise exception 'points_limit_exceeded'
+          using detail = jsonb_build_object('max_points', v_max_points)::text;
+      end if;
+
+      perform public.deduct_points(v_user_id, 'redeem', p_points_to_use, v_order_id);
+    end if;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee - v_discount - p_points_to_use,
+        coupon_code = v_coupon.code,
+        discount_amount = v_discount,
+        points_used = p_points_to_use
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee - v_discount - p_points_to_use,
+    'shipping_fee', p_shipping_fee,
+    'discount_amount', v_discount,
+    'points_used', p_points_to_use
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) to authenticated;
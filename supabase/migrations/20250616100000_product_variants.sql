@@ -0,0 +1,725 @@
+-- 상품 옵션(변형)별 SKU, 가격, 재고
+-- 옵션 라벨과 가격 계산은 src/lib/variants.ts와 동일하게 유지해야 합니다.
+--
+--   products.option_names: 옵션 종류와 표시 순서 (예: {사이즈,색상}, 비어 있으면 옵션 없는 상품)
+--   product_variants.options: 옵션 종류별 값 (예: {"사이즈": "M", "색상": "블랙"})
+--   옵션 판매가 = 상품 현재 판매가(세일가 포함) + price_delta
+--   옵션이 있는 상품의 products.stock_quantity는 판매 중인 옵션 재고의 합계이며 트리거가 맞춰 줍니다.
+--   (상품 목록, 품절 표시, 재고 필터는 기존처럼 products.stock_quantity를 사용)
+--
+-- 옵션이 있는 상품은 장바구니와 주문에서 반드시 옵션을 선택해야 하며, 재고 확인과 차감은 옵션 재고로 처리합니다.
+
+-- 1. 상품 옵션 종류
+alter table products
+  add column option_names text[] default '{}' not null; -- 옵션 종류 (표시 순서대로, 비어 있으면 옵션 없음)
+
+-- 2. 상품 옵션
+create table product_variants (
+  id bigint generated by default as identity primary key, -- 옵션 ID
+  product_id bigint references products(id) on delete cascade not null, -- 상품 ID
+  sku text not null unique check (sku ~ '^[A-Za-z0-9_-]{1,50}$'), -- 재고 관리 코드 (전체 상품에서 고유)
+  options jsonb default '{}'::jsonb not null
+    check (jsonb_typeof(options) = 'object'), -- 옵션 종류별 값
+  price_delta numeric default 0 not null, -- 상품 판매가 대비 추가 금액 (음수면 할인)
+  stock_quantity integer default 0 not null check (stock_quantity >= 0), -- 옵션 재고
+  is_active boolean default true not null, -- 판매 여부 (중지하면 선택할 수 없고 재고 합계에서 제외)
+  sort_order integer default 0 not null, -- 표시 순서
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 생성 시각
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 마지막 수정 시각
+  constraint product_variants_options_key unique (product_id, options), -- 같은 옵션 조합은 한 번만
+  constraint product_variants_id_product_id_key unique (id, product_id) -- 장바구니에서 옵션과 상품을 함께 참조
+);
+
+create index product_variants_product_id_idx
+  on product_variants (product_id, sort_order); -- 상품별 옵션 조회
+
+-- updated_at 자동 갱신
+create or replace function public.set_product_variants_updated_at()
+returns trigger as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger product_variants_set_updated_at
+  before update on product_variants
+  for each row
+  execute procedure public.set_product_variants_updated_at();
+
+alter table product_variants enable row level security;
+
+create policy "Anyone can view product variants" -- 모든 사용자가 상품 옵션을 볼 수 있음
+  on product_variants for select
+  to authenticated, anon
+  using (true);
+
+create policy "Admins can insert product variants" -- 관리자만 상품 옵션을 추가할 수 있음
+  on product_variants for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can update product variants" -- 관리자만 상품 옵션을 수정할 수 있음
+  on product_variants for update
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can delete product variants" -- 관리자만 상품 옵션을 삭제할 수 있음
+  on product_variants for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 3. 옵션 라벨 (예: "사이즈: M / 색상: 블랙")
+-- 주문 상품에 라벨을 남겨 옵션이 수정/삭제되어도 주문 내역에는 주문 당시 옵션이 표시되게 합니다.
+create or replace function public.product_variant_label(p_options jsonb, p_option_names text[])
+returns text as $$
+  select string_agg(option_names.name || ': ' || (p_options ->> option_names.name), ' / ' order by option_names.position)
+  from unnest(p_option_names) with ordinality as option_names(name, position)
+  where p_options ? option_names.name;
+$$ language sql immutable;
+
+-- 4. 상품 재고를 옵션 재고 합계로 맞춥니다.
+-- 옵션 재고 변경(주문, 취소, 관리자 수정)은 변경량만 더해, 같은 상품의 다른 옵션이 동시에 주문되어도 합계가 어긋나지 않게 합니다.
+-- 옵션 추가/삭제는 관리자만 하므로 합계를 다시 계산합니다. (첫 옵션이 추가되면 기존 상품 재고 대신 옵션 재고 합계를 사용)
+create or replace function public.sync_product_variant_stock()
+returns trigger as $$
+declare
+  v_old_stock integer := 0; -- 변경 전 합계에 포함된 재고
+  v_new_stock integer := 0; -- 변경 후 합계에 포함될 재고
+begin
+  if tg_op = 'UPDATE' then
+    if old.is_active then
+      v_old_stock := old.stock_quantity;
+    end if;
+
+    if new.is_active then
+      v_new_stock := new.stock_quantity;
+    end if;
+
+    if v_new_stock <> v_old_stock then
+      update public.products
+      set stock_quantity = stock_quantity + v_new_stock - v_old_stock
+      where id = new.product_id;
+    end if;
+  else
+    update public.products
+    set stock_quantity = (
+      select coalesce(sum(stock_quantity), 0)
+      from public.product_variants
+      where product_id = products.id
+        and is_active
+    )
+    where id = coalesce(new.product_id, old.product_id);
+  end if;
+
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 주문 시 옵션 재고 차감은 일반 사용자 권한으로 호출한 함수에서도 상품 재고에 반영되어야 합니다.
+
+create trigger product_variants_sync_stock
+  after insert or update of stock_quantity, is_active or delete on product_variants
+  for each row
+  execute procedure public.sync_product_variant_stock();
+
+-- 5. 장바구니: 같은 상품도 옵션이 다르면 따로 담습니다.
+-- (variant_id, product_id)로 참조해 다른 상품의 옵션을 담을 수 없게 합니다.
+alter table cart_items
+  add column variant_id bigint, -- 선택한 옵션 (옵션 없는 상품은 null)
+  add constraint cart_items_variant_id_fkey
+    foreign key (variant_id, product_id) references product_variants (id, product_id) on delete cascade,
+  drop constraint unique_user_product,
+  add constraint unique_user_product_variant
+    unique nulls not distinct (user_id, product_id, variant_id); -- 같은 사용자가 같은 상품/옵션을 중복해서 담을 수 없게 합니다.
+
+-- 6. 주문 상품: 주문 당시 옵션을 함께 남깁니다.
+alter table order_items
+  add column variant_id bigint references product_variants(id) on delete set null, -- 주문한 옵션 (옵션이 삭제되면 null)
+  add column variant_label text, -- 주문 당시 옵션 라벨
+  add column sku text; -- 주문 당시 SKU
+
+-- 7. 쿠폰 할인 금액을 옵션 판매가 기준으로 계산합니다.
+-- p_items: [{"product_id": 1, "variant_id": 3, "quantity": 2}, ...] (옵션 없는 상품은 variant_id 생략)
+create or replace function public.evaluate_coupon(
+  p_coupon public.coupons,
+  p_user_id uuid,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_now timestamp with time zone := timezone('utc'::text, now());
+  v_subtotal numeric; -- 상품 총액
+  v_eligible numeric; -- 쿠폰 적용 대상 상품 금액
+  v_used integer; -- 사용 횟수
+  v_discount numeric; -- 할인 금액
+begin
+  if not p_coupon.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_inactive');
+  end if;
+
+  if p_coupon.starts_at is not null and p_coupon.starts_at > v_now then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_not_started',
+      'starts_at', p_coupon.starts_at
+    );
+  end if;
+
+  if p_coupon.expires_at is not null and p_coupon.expires_at <= v_now then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_expired');
+  end if;
+
+  if p_coupon.usage_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id;
+
+    if v_used >= p_coupon.usage_limit then
+      return jsonb_build_object('success', false, 'error_code', 'coupon_usage_limit_reached');
+    end if;
+  end if;
+
+  if p_coupon.per_user_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id
+      and user_id = p_user_id;
+
+    if v_used >= p_coupon.per_user_limit then
+      return jsonb_build_object(
+        'success', false,
+        'error_code', 'coupon_already_used',
+        'per_user_limit', p_coupon.per_user_limit
+      );
+    end if;
+  end if;
+
+  select
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity), 0),
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity) filter (
+      where p_coupon.scope = 'all'
+        or (p_coupon.scope = 'product' and products.id = any(p_coupon.scope_product_ids))
+        or (p_coupon.scope = 'category' and products.category = p_coupon.scope_category)
+    ), 0)
+  into v_subtotal, v_eligible
+  from jsonb_to_recordset(p_items) as items(product_id bigint, variant_id bigint, quantity integer)
+  join public.products on products.id = items.product_id
+  left join public.product_variants as variants
+    on variants.id = items.variant_id
+    and variants.product_id = items.product_id;
+
+  if v_subtotal < p_coupon.min_order_amount then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_min_order_not_met',
+      'min_order_amount', p_coupon.min_order_amount
+    );
+  end if;
+
+  if v_eligible <= 0 then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_applicable');
+  end if;
+
+  -- 정률 할인은 원 단위 미만을 버리고, 정액 할인은 적용 대상 금액을 넘지 않게 합니다.
+  if p_coupon.discount_type = 'percentage' then
+    v_discount := floor(v_eligible * p_coupon.discount_value / 100);
+    if p_coupon.max_discount_amount is not null then
+      v_discount := least(v_discount, p_coupon.max_discount_amount);
+    end if;
+  else
+    v_discount := least(p_coupon.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'coupon_id', p_coupon.id,
+    'code', p_coupon.code,
+    'name', p_coupon.name,
+    'discount_amount', v_discount,
+    'eligible_amount', v_eligible
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+-- 8. 주문 생성 시 옵션 재고를 차감하고 옵션 판매가로 주문합니다.
+-- 시그니처는 그대로이며, p_items 항목에 variant_id를 받습니다.
+-- 추가 error_code: variant_required (옵션 상품인데 옵션 미선택), variant_not_found (없거나 판매 중지된 옵션)
+-- insufficient_stock, price_changed에는 옵션 상품이면 variant_id, variant_label이 함께 담깁니다.
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0,
+  p_coupon_code text default null,
+  p_points_to_use integer default 0
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품/옵션별로 합산된 주문 항목
+  v_product public.products%rowtype; -- 재고 차감 후의 상품 정보
+  v_variant public.product_variants%rowtype; -- 재고 차감 후의 옵션 정보 (옵션 없는 상품은 null)
+  v_variant_label text; -- 주문 당시 옵션 라벨
+  v_price numeric; -- 주문 시점의 판매가 (세일가 + 옵션 추가 금액)
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_coupon public.coupons%rowtype; -- 적용할 쿠폰
+  v_coupon_result jsonb; -- 쿠폰 적용 결과
+  v_discount numeric := 0; -- 쿠폰 할인 금액
+  v_max_points integer; -- 이 주문에 사용할 수 있는 최대 적립금
+  v_balance integer; -- 적립금 잔액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  if p_points_to_use is null or p_points_to_use < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'points_invalid_amount');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감, 쿠폰 사용, 적립금 사용)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품/옵션이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID, 옵션 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    -- (옵션 재고를 차감하면 트리거가 이어서 상품 행을 잠그므로 잠금 순서는 옵션 → 상품으로 일정합니다)
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        nullif(elem->>'variant_id', '')::bigint as variant_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1, 2
+      order by 1, 2
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      v_variant := null;
+      v_variant_label := null;
+
+      if v_item.variant_id is null then
+        -- 옵션이 있는 상품은 옵션을 선택해야 주문할 수 있습니다.
+        if exists (select 1 from public.product_variants where product_id = v_item.product_id) then
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          raise exception 'variant_required'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name
+            )::text;
+        end if;
+
+        -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+        update public.products
+        set stock_quantity = stock_quantity - v_item.quantity
+        where id = v_item.product_id
+          and stock_quantity >= v_item.quantity
+        returning * into v_product;
+
+        if not found then
+          -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          if not found then
+            raise exception 'product_not_found'
+              using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+          end if;
+
+          raise exception 'insufficient_stock'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name,
+              'available', v_product.stock_quantity
+            )::text;
+        end if;
+      else
+        -- 옵션 재고를 조건부로 차감합니다. (상품 재고 합계는 트리거가 함께 줄입니다)
+        update public.product_variants
+        set stock_quantity = stock_quantity - v_item.quantity
+        where id = v_item.variant_id
+          and product_id = v_item.product_id
+          and is_active
+          and stock_quantity >= v_item.quantity
+        returning * into v_variant;
+
+        if not found then
+          select * into v_variant
+          from public.product_variants
+          where id = v_item.variant_id
+            and product_id = v_item.product_id
+            and is_active;
+
+          if not found then
+            raise exception 'variant_not_found'
+              using detail = jsonb_build_object(
+                'product_id', v_item.product_id,
+                'variant_id', v_item.variant_id
+              )::text;
+          end if;
+
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          raise exception 'insufficient_stock'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name,
+              'variant_id', v_variant.id,
+              'variant_label', public.product_variant_label(v_variant.options, v_product.option_names),
+              'available', v_variant.stock_quantity
+            )::text;
+        end if;
+
+        select * into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        v_variant_label := public.product_variant_label(v_variant.options, v_product.option_names);
+      end if;
+
+      v_price := public.product_current_price(v_product) + coalesce(v_variant.price_delta, 0);
+
+      -- 고객이 확인한 단가와 현재 판매가가 다르면 주문을 거부하고 다시 확인받습니다. (세일 시작/종료, 옵션 가격 변경 포함)
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'variant_id', v_variant.id,
+            'variant_label', v_variant_label,
+            'old_price', v_expected_price,
+            'new_price', v_price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 판매가를 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time, variant_id, variant_label, sku)
+      values (v_order_id, v_product.id, v_item.quantity, v_price, v_variant.id, v_variant_label, v_variant.sku);
+
+      v_total := v_total + v_price * v_item.quantity;
+    end loop;
+
+    -- 쿠폰 적용: 쿠폰 행을 잠가 사용 한도 확인과 사용 기록 사이에 다른 주문이 끼어들지 못하게 합니다.
+    if coalesce(trim(p_coupon_code), '') <> '' then
+      select * into v_coupon
+      from public.coupons
+      where code = upper(trim(p_coupon_code))
+      for update;
+
+      if not found then
+        raise exception 'coupon_not_found';
+      end if;
+
+      v_coupon_result := public.evaluate_coupon(v_coupon, v_user_id, p_items);
+
+      if not (v_coupon_result->>'success')::boolean then
+        raise exception '%', v_coupon_result->>'error_code'
+          using detail = (v_coupon_result - 'success' - 'error_code')::text;
+      end if;
+
+      v_discount := (v_coupon_result->>'discount_amount')::numeric;
+
+      insert into public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+      values (v_coupon.id, v_user_id, v_order_id, v_discount);
+    end if;
+
+    -- 적립금 사용: 사용자 행을 잠가 같은 사용자의 동시 주문/조정이 잔액을 함께 쓰지 못하게 합니다.
+    if p_points_to_use > 0 then
+      perform 1 from public.profiles where id = v_user_id for update;
+
+      v_balance := public.point_balance(v_user_id);
+
+      if p_points_to_use > v_balance then
+        raise exception 'points_insufficient'
+          using detail = jsonb_build_object('balance', v_balance)::text;
+      end if;
+
+      select floor((v_total - v_discount) * max_redeem_rate / 100) into v_max_points
+      from public.point_settings;
+
+      if p_points_to_use > v_max_points then
+        raise exception 'points_limit_exceeded'
+          using detail = jsonb_build_object('max_points', v_max_points)::text;
+      end if;
+
+      perform public.deduct_points(v_user_id, 'redeem', p_points_to_use, v_order_id);
+    end if;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee - v_discount - p_points_to_use,
+        coupon_code = v_coupon.code,
+        discount_amount = v_discount,
+        points_used = p_points_to_use
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee - v_discount - p_points_to_use,
+    'shipping_fee', p_shipping_fee,
+    'discount_amount', v_discount,
+    'points_used', p_points_to_use
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) to authenticated;
+
+-- 9. 주문 취소 시 옵션 재고를 복구합니다.
+-- 옵션이 삭제된 주문 상품(variant_id는 null, variant_label은 남음)은 되돌릴 옵션 재고가 없으므로 건너뜁니다.
+create or replace function public.restock_cancelled_order()
+returns trigger as $$
+declare
+  v_item record; -- 상품/옵션별로 합산된 주문 상품
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    -- 상품 ID, 옵션 ID 순서로 갱신해 create_order와 같은 순서로 잠금을 잡습니다. (교착 상태 방지)
+    for v_item in
+      select product_id, variant_id, sum(quantity) as quantity
+      from public.order_items
+      where order_id = new.id
+        and (variant_id is not null or variant_label is null)
+      group by product_id, variant_id
+      order by product_id, variant_id
+    loop
+      if v_item.variant_id is not null then
+        update public.product_variants
+        set stock_quantity = stock_quantity + v_item.quantity
+        where id = v_item.variant_id;
+      else
+        update public.products
+        set stock_quantity = stock_quantity + v_item.quantity
+        where id = v_item.product_id;
+      end if;
+    end loop;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 10. 반품 환불 시 재입고를 옵션 재고로 처리합니다.
+create or replace function public.complete_return_refund(
+  p_return_id bigint,
+  p_items jsonb,
+  p_note text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_return record; -- 환불할 반품
+  v_elem jsonb; -- 입력된 상품별 환불 정보
+  v_return_item record; -- 환불할 반품 상품
+  v_refund numeric; -- 상품별 환불 금액
+  v_max numeric; -- 상품별 최대 환불 금액
+  v_total numeric := 0; -- 총 환불 금액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  select id, status into v_return
+  from public.returns
+  where id = p_return_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'return_not_found');
+  end if;
+
+  if not public.return_status_transition_allowed(v_return.status, 'refunded') then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'invalid_status_transition',
+      'from', v_return.status,
+      'to', 'refunded'
+    );
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 환불 기록과 재고 복구가 모두 롤백됩니다.
+  begin
+    for v_elem in
+      select elem from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as elem
+    loop
+      select ri.id, ri.quantity, oi.product_id, oi.variant_id, oi.variant_label, oi.price_at_time into v_return_item
+      from public.return_items ri
+      join public.order_items oi on oi.id = ri.order_item_id
+      where ri.id = (v_elem->>'return_item_id')::bigint
+        and ri.return_id = p_return_id;
+
+      if not found then
+        raise exception 'invalid_item'
+          using detail = jsonb_build_object('return_item_id', v_elem->'return_item_id')::text;
+      end if;
+
+      v_refund := coalesce((v_elem->>'refund_amount')::numeric, 0);
+      v_max := v_return_item.price_at_time * v_return_item.quantity;
+
+      if v_refund < 0 or v_refund > v_max then
+        raise exception 'invalid_refund_amount'
+          using detail = jsonb_build_object('return_item_id', v_return_item.id, 'max', v_max)::text;
+      end if;
+
+      update public.return_items
+      set refund_amount = v_refund,
+          restocked = coalesce((v_elem->>'restock')::boolean, false)
+      where id = v_return_item.id;
+
+      -- 옵션 상품은 옵션 재고로 되돌립니다. (옵션이 삭제되었으면 되돌릴 재고가 없음)
+      if coalesce((v_elem->>'restock')::boolean, false) then
+        if v_return_item.variant_id is not null then
+          update public.product_variants
+          set stock_quantity = stock_quantity + v_return_item.quantity
+          where id = v_return_item.variant_id;
+        elsif v_return_item.variant_label is null then
+          update public.products
+          set stock_quantity = stock_quantity + v_return_item.quantity
+          where id = v_return_item.product_id;
+        end if;
+      end if;
+
+      v_total := v_total + v_refund;
+    end loop;
+
+    update public.returns
+    set status = 'refunded',
+        refund_amount = v_total,
+        admin_note = coalesce(nullif(trim(p_note), ''), admin_note)
+    where id = p_return_id;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'return_id', p_return_id,
+    'refund_amount', v_total
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
@@ -0,0 +1,94 @@
+-- 상품 이미지 여러 장 (상품 상세 갤러리)
+--
+--   product_images: 상품별 이미지 URL, 대체 텍스트, 표시 순서, 대표 이미지 여부
+--   상품마다 대표 이미지는 하나이며, products.image_url은 대표 이미지 URL로 트리거가 맞춰 줍니다.
+--   (상품 카드, 장바구니, 주문 내역은 기존처럼 products.image_url을 사용)
+
+-- 1. 상품 이미지
+create table product_images (
+  id bigint generated by default as identity primary key, -- 이미지 ID
+  product_id bigint references products(id) on delete cascade not null, -- 상품 ID
+  url text not null check (length(trim(url)) > 0), -- 이미지 URL
+  alt_text text check (alt_text is null or length(alt_text) <= 200), -- 대체 텍스트 (비어 있으면 상품명 사용)
+  sort_order integer default 0 not null, -- 표시 순서
+  is_primary boolean default false not null, -- 대표 이미지 여부
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null -- 생성 시각
+);
+
+create index product_images_product_id_idx
+  on product_images (product_id, sort_order); -- 상품별 이미지 조회
+
+create unique index product_images_primary_key
+  on product_images (product_id)
+  where is_primary; -- 상품마다 대표 이미지는 하나만
+
+alter table product_images enable row level security;
+
+create policy "Anyone can view product images" -- 모든 사용자가 상품 이미지를 볼 수 있음
+  on product_images for select
+  to authenticated, anon
+  using (true);
+
+create policy "Admins can insert product images" -- 관리자만 상품 이미지를 추가할 수 있음
+  on product_images for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can update product images" -- 관리자만 상품 이미지를 수정할 수 있음
+  on product_images for update
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can delete product images" -- 관리자만 상품 이미지를 삭제할 수 있음
+  on product_images for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 2. 기존 상품 이미지를 대표 이미지로 옮기기
+insert into product_images (product_id, url, alt_text, sort_order, is_primary)
+select id, image_url, name, 0, true
+from products
+where image_url is not null
+  and length(trim(image_url)) > 0;
+
+-- 3. products.image_url을 대표 이미지로 맞추기
+-- 대표 이미지가 없으면 첫 번째 이미지를, 이미지가 모두 삭제되면 null을 사용합니다.
+create or replace function public.sync_product_primary_image()
+returns trigger as $$
+begin
+  update public.products
+  set image_url = (
+    select url
+    from public.product_images
+    where product_id = products.id
+    order by is_primary desc, sort_order, id
+    limit 1
+  )
+  where id = coalesce(new.product_id, old.product_id);
+
+  return null;
+end;
+$$ language plpgsql;
+
+create trigger product_images_sync_primary
+  after insert or update or delete on product_images
+  for each row
+  execute procedure public.sync_product_primary_image();
@@ -0,0 +1,128 @@
+-- 상품 카테고리
+-- 카테고리 값 목록은 src/constants/categories.ts의 ACTUAL_CATEGORIES와 동일하게 유지해야 합니다.
+--
+--   products.category: 상품 카테고리 (기본값 general = 기타)
+--   기존 상품과 목록에 없는 값은 general로 채웁니다.
+--   카테고리 쿠폰은 products.category로 적용 대상을 판단합니다.
+
+-- 1. 상품 카테고리 컬럼
+-- 쿠폰 마이그레이션(20250612100000_create_coupons.sql)이 제약 없이 추가한 컬럼이나 일부 환경에 남아 있는 컬럼은 그대로 사용합니다.
+alter table products
+  add column if not exists category text;
+
+update products
+set category = 'general'
+where category is null
+  or category not in ('electronics', 'fashion', 'beauty', 'home', 'sports', 'books', 'food', 'health', 'general');
+
+alter table products
+  alter column category set default 'general',
+  alter column category set not null,
+  add constraint products_category_check
+    check (category in ('electronics', 'fashion', 'beauty', 'home', 'sports', 'books', 'food', 'health', 'general')); -- 카테고리 값 목록
+
+create index if not exists products_category_idx
+  on products (category, created_at desc); -- 카테고리별 상품 목록 조회
+
+-- 2. 쿠폰 적용 가능 여부와 할인 금액 계산 (카테고리 쿠폰이 products.category를 사용하도록 다시 정의)
+-- 나머지 계산은 20250616100000_product_variants.sql과 동일합니다.
+create or replace function public.evaluate_coupon(
+  p_coupon public.coupons,
+  p_user_id uuid,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_now timestamp with time zone := timezone('utc'::text, now());
+  v_subtotal numeric; -- 상품 총액
+  v_eligible numeric; -- 쿠폰 적용 대상 상품 금액
+  v_used integer; -- 사용 횟수
+  v_discount numeric; -- 할인 금액
+begin
+  if not p_coupon.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_inactive');
+  end if;
+
+  if p_coupon.starts_at is not null and p_coupon.starts_at > v_now then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_not_started',
+      'starts_at', p_coupon.starts_at
+    );
+  end if;
+
+  if p_coupon.expires_at is not null and p_coupon.expires_at <= v_now then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_expired');
+  end if;
+
+  if p_coupon.usage_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id;
+
+    if v_used >= p_coupon.usage_limit then
+      return jsonb_build_object('success', false, 'error_code', 'coupon_usage_limit_reached');
+    end if;
+  end if;
+
+  if p_coupon.per_user_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id
+      and user_id = p_user_id;
+
+    if v_used >= p_coupon.per_user_limit then
+      return jsonb_build_object(
+        'success', false,
+        'error_code', 'coupon_already_used',
+        'per_user_limit', p_coupon.per_user_limit
+      );
+    end if;
+  end if;
+
+  select
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity), 0),
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity) filter (
+      where p_coupon.scope = 'all'
+        or (p_coupon.scope = 'product' and products.id = any(p_coupon.scope_product_ids))
+        or (p_coupon.scope = 'category' and products.category = p_coupon.scope_category)
+    ), 0)
+  into v_subtotal, v_eligible
+  from jsonb_to_recordset(p_items) as items(product_id bigint, variant_id bigint, quantity integer)
+  join public.products on products.id = items.product_id
+  left join public.product_variants as variants
+    on variants.id = items.variant_id
+    and variants.product_id = items.product_id;
+
+  if v_subtotal < p_coupon.min_order_amount then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_min_order_not_met',
+      'min_order_amount', p_coupon.min_order_amount
+    );
+  end if;
+
+  if v_eligible <= 0 then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_applicable');
+  end if;
+
+  -- 정률 할인은 원 단위 미만을 버리고, 정액 할인은 적용 대상 금액을 넘지 않게 합니다.
+  if p_coupon.discount_type = 'percentage' then
+    v_discount := floor(v_eligible * p_coupon.discount_value / 100);
+    if p_coupon.max_discount_amount is not null then
+      v_discount := least(v_discount, p_coupon.max_discount_amount);
+    end if;
+  else
+    v_discount := least(p_coupon.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'coupon_id', p_coupon.id,
+    'code', p_coupon.code,
+    'name', p_coupon.name,
+    'discount_amount', v_discount,
+    'eligible_amount', v_eligible
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
@@ -0,0 +1,245 @@
+-- 관리자가 관리하는 카테고리 트리
+-- 하위 카테고리 계산은 src/lib/categories.ts(getCategorySubtreeSlugs)와 동일하게 유지해야 합니다.
+--
+--   categories: 카테고리 이름, 슬러그(URL과 products.category에 쓰는 값), 상위 카테고리, 아이콘, 표시 순서, 노출 여부
+--   products.category와 coupons.scope_category는 categories.slug를 참조합니다.
+--   (슬러그를 바꾸면 함께 바뀌고, 상품이나 쿠폰이 쓰는 카테고리는 삭제할 수 없음)
+--   상위 카테고리로 상품을 찾거나 쿠폰을 적용하면 하위 카테고리 상품도 포함합니다.
+
+-- 1. 카테고리
+create table categories (
+  id bigint generated by default as identity primary key, -- 카테고리 ID
+  parent_id bigint references categories(id) on delete restrict, -- 상위 카테고리 ID (null이면 최상위, 하위 카테고리가 있으면 삭제 불가)
+  slug text not null unique check (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' and length(slug) <= 50), -- 슬러그 (영문 소문자, 숫자, -)
+  name text not null check (length(trim(name)) between 1 and 30), -- 카테고리 이름
+  icon text, -- 아이콘 이름 (src/lib/categories.ts의 CATEGORY_ICONS, null이면 기본 아이콘)
+  sort_order integer default 0 not null, -- 같은 상위 카테고리 안에서의 표시 순서
+  is_visible boolean default true not null, -- 고객 화면 노출 여부 (숨겨도 상품과 쿠폰은 그대로 유지)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 생성 시각
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null, -- 마지막 수정 시각
+  constraint categories_parent_check check (parent_id is null or parent_id <> id) -- 자기 자신을 상위 카테고리로 지정할 수 없음
+);
+
+create index categories_parent_id_idx
+  on categories (parent_id, sort_order); -- 상위 카테고리별 하위 카테고리 조회
+
+-- updated_at 자동 갱신
+create or replace function public.set_categories_updated_at()
+returns trigger as $$
+begin
+  new.updated_at := timezone('utc'::text, now());
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger categories_set_updated_at
+  before update on categories
+  for each row
+  execute procedure public.set_categories_updated_at();
+
+-- 상위 카테고리를 바꿀 때 자신의 하위 카테고리 아래로 옮기지 못하게 합니다. (순환 방지)
+create or replace function public.check_category_parent()
+returns trigger as $$
+begin
+  if new.parent_id is not null and exists (
+    with recursive ancestors as (
+      select id, parent_id from public.categories where id = new.parent_id
+      union all
+      select categories.id, categories.parent_id
+      from public.categories
+      join ancestors on categories.id = ancestors.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'category_cycle'
+      using detail = jsonb_build_object('category_id', new.id, 'parent_id', new.parent_id)::text;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger categories_check_parent
+  before update of parent_id on categories
+  for each row
+  execute procedure public.check_category_parent();
+
+alter table categories enable row level security;
+
+create policy "Anyone can view categories" -- 모든 사용자가 카테고리를 볼 수 있음 (숨김 카테고리는 화면에서 제외)
+  on categories for select
+  to authenticated, anon
+  using (true);
+
+create policy "Admins can insert categories" -- 관리자만 카테고리를 추가할 수 있음
+  on categories for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can update categories" -- 관리자만 카테고리를 수정할 수 있음
+  on categories for update
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+create policy "Admins can delete categories" -- 관리자만 카테고리를 삭제할 수 있음
+  on categories for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 2. 기존 카테고리 옮기기 (src/constants/categories.ts에 있던 목록)
+insert into categories (slug, name, icon, sort_order) values
+  ('electronics', '전자제품', 'smartphone', 0),
+  ('fashion', '패션/의류', 'shirt', 1),
+  ('beauty', '뷰티/화장품', 'sparkles', 2),
+  ('home', '홈/리빙', 'sofa', 3),
+  ('sports', '스포츠/레저', 'dumbbell', 4),
+  ('books', '도서/문구', 'book-open', 5),
+  ('food', '식품/음료', 'utensils', 6),
+  ('health', '건강/의료', 'heart-pulse', 7),
+  ('general', '기타', 'package', 8);
+
+-- 3. 상품과 쿠폰이 카테고리 슬러그를 참조하도록 변경
+alter table products
+  drop constraint products_category_check,
+  add constraint products_category_fkey
+    foreign key (category) references categories(slug)
+    on update cascade on delete restrict;
+
+alter table coupons
+  add constraint coupons_scope_category_fkey
+    foreign key (scope_category) references categories(slug)
+    on update cascade on delete restrict;
+
+-- 4. 카테고리와 모든 하위 카테고리의 슬러그 (상위 카테고리로 상품을 찾거나 쿠폰을 적용할 때 사용)
+create or replace function public.category_subtree_slugs(p_slug text)
+returns text[] as $$
+  with recursive subtree as (
+    select id, slug from public.categories where slug = p_slug
+    union all
+    select categories.id, categories.slug
+    from public.categories
+    join subtree on categories.parent_id = subtree.id
+  )
+  select coalesce(array_agg(slug), '{}') from subtree;
+$$ language sql stable;
+
+-- 5. 쿠폰 적용 가능 여부와 할인 금액 계산 (카테고리 쿠폰이 하위 카테고리 상품에도 적용되도록 다시 정의)
+-- 나머지 계산은 20250618100000_product_categories.sql과 동일합니다.
+create or replace function public.evaluate_coupon(
+  p_coupon public.coupons,
+  p_user_id uuid,
+  p_items jsonb
+)
+returns jsonb as $$
+declare
+  v_now timestamp with time zone := timezone('utc'::text, now());
+  v_subtotal numeric; -- 상품 총액
+  v_eligible numeric; -- 쿠폰 적용 대상 상품 금액
+  v_used integer; -- 사용 횟수
+  v_discount numeric; -- 할인 금액
+begin
+  if not p_coupon.is_active then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_inactive');
+  end if;
+
+  if p_coupon.starts_at is not null and p_coupon.starts_at > v_now then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_not_started',
+      'starts_at', p_coupon.starts_at
+    );
+  end if;
+
+  if p_coupon.expires_at is not null and p_coupon.expires_at <= v_now then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_expired');
+  end if;
+
+  if p_coupon.usage_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id;
+
+    if v_used >= p_coupon.usage_limit then
+      return jsonb_build_object('success', false, 'error_code', 'coupon_usage_limit_reached');
+    end if;
+  end if;
+
+  if p_coupon.per_user_limit is not null then
+    select count(*) into v_used
+    from public.coupon_redemptions
+    where coupon_id = p_coupon.id
+      and user_id = p_user_id;
+
+    if v_used >= p_coupon.per_user_limit then
+      return jsonb_build_object(
+        'success', false,
+        'error_code', 'coupon_already_used',
+        'per_user_limit', p_coupon.per_user_limit
+      );
+    end if;
+  end if;
+
+  select
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity), 0),
+    coalesce(sum((public.product_current_price(products) + coalesce(variants.price_delta, 0)) * items.quantity) filter (
+      where p_coupon.scope = 'all'
+        or (p_coupon.scope = 'product' and products.id = any(p_coupon.scope_product_ids))
+        or (p_coupon.scope = 'category' and products.category = any(public.category_subtree_slugs(p_coupon.scope_category)))
+    ), 0)
+  into v_subtotal, v_eligible
+  from jsonb_to_recordset(p_items) as items(product_id bigint, variant_id bigint, quantity integer)
+  join public.products on products.id = items.product_id
+  left join public.product_variants as variants
+    on variants.id = items.variant_id
+    and variants.product_id = items.product_id;
+
+  if v_subtotal < p_coupon.min_order_amount then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'coupon_min_order_not_met',
+      'min_order_amount', p_coupon.min_order_amount
+    );
+  end if;
+
+  if v_eligible <= 0 then
+    return jsonb_build_object('success', false, 'error_code', 'coupon_not_applicable');
+  end if;
+
+  -- 정률 할인은 원 단위 미만을 버리고, 정액 할인은 적용 대상 금액을 넘지 않게 합니다.
+  if p_coupon.discount_type = 'percentage' then
+    v_discount := floor(v_eligible * p_coupon.discount_value / 100);
+    if p_coupon.max_discount_amount is not null then
+      v_discount := least(v_discount, p_coupon.max_discount_amount);
+    end if;
+  else
+    v_discount := least(p_coupon.discount_value, v_eligible);
+  end if;
+
+  return jsonb_build_object(
+    'success', true,
+    'coupon_id', p_coupon.id,
+    'code', p_coupon.code,
+    'name', p_coupon.name,
+    'discount_amount', v_discount,
+    'eligible_amount', v_eligible
+  );
+end;
+$$ language plpgsql stable security definer set search_path = public;
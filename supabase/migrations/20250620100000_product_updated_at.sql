@@ -0,0 +1,36 @@
+-- 상품 수정 시각
+-- 관리자 상품 수정 화면에서 불러온 뒤 다른 관리자가 상품을 저장했는지 확인하는 데 사용합니다.
+--
+--   products.updated_at: 관리자가 상품 정보를 마지막으로 바꾼 시각
+--   주문/취소/반품으로 재고만 바뀌거나, 이미지 저장으로 대표 이미지 URL만 바뀌면 갱신하지 않습니다.
+--   (재고는 주문마다 바뀌므로 수정 충돌로 보지 않음)
+
+-- 1. 상품 수정 시각 컬럼 (기존 상품은 등록 시각으로 채움)
+alter table products
+  add column updated_at timestamp with time zone;
+
+update products
+set updated_at = coalesce(created_at, timezone('utc'::text, now()));
+
+alter table products
+  alter column updated_at set default timezone('utc'::text, now()),
+  alter column updated_at set not null;
+
+-- 2. updated_at 자동 갱신 (재고, 대표 이미지 URL 외의 값이 바뀔 때만)
+create or replace function public.set_products_updated_at()
+returns trigger as $$
+begin
+  if (to_jsonb(new) - 'stock_quantity' - 'image_url' - 'updated_at')
+    is distinct from (to_jsonb(old) - 'stock_quantity' - 'image_url' - 'updated_at') then
+    new.updated_at := timezone('utc'::text, now());
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger products_set_updated_at
+  before update on products
+  for each row
+  execute procedure public.set_products_updated_at();
@@ -0,0 +1,378 @@
+-- 상품 공개 상태와 예약 공개
+-- 지금까지는 상품을 등록하는 즉시 모든 사용자에게 공개되었습니다.
+-- 상품마다 상태와 공개 기간을 두어, 준비 중인 상품은 관리자만 볼 수 있게 합니다.
+--
+--   products.status: draft(작성 중), published(공개), archived(보관)
+--   products.publish_at: 이 시각부터 공개 (null이면 바로 공개)
+--   products.unpublish_at: 이 시각부터 비공개 (null이면 계속 공개)
+--   공개 상품 = status가 published이고 지금이 공개 기간 안인 상품
+
+-- 1. 상태/공개 기간 컬럼 (기존 상품은 모두 공개 상태로 둠)
+alter table products
+  add column status text,
+  add column publish_at timestamp with time zone,
+  add column unpublish_at timestamp with time zone;
+
+update products
+set status = 'published';
+
+alter table products
+  alter column status set default 'draft',
+  alter column status set not null,
+  add constraint products_status_check
+    check (status in ('draft', 'published', 'archived')),
+  add constraint products_publish_period_check
+    check (publish_at is null or unpublish_at is null or unpublish_at > publish_at);
+
+create index products_status_idx on products(status);
+
+-- 2. 상품이 지금 공개 중인지 확인하는 함수 (RLS 정책과 주문 생성에서 함께 사용)
+create or replace function public.product_is_visible(p_product public.products)
+returns boolean as $$
+  select p_product.status = 'published'
+    and (p_product.publish_at is null or p_product.publish_at <= now())
+    and (p_product.unpublish_at is null or p_product.unpublish_at > now());
+$$ language sql stable;
+
+-- 3. 조회 정책: 일반 사용자는 공개 상품만, 관리자는 모든 상품을 볼 수 있습니다.
+drop policy "Anyone can view products" on products;
+
+create policy "Anyone can view published products"
+  on products for select
+  to authenticated, anon
+  using (public.product_is_visible(products));
+
+create policy "Admins can view all products"
+  on products for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 4. 주문 생성 시 공개되지 않은 상품은 주문할 수 없습니다.
+-- create_order는 security definer라 RLS를 거치지 않으므로 함수 안에서 직접 확인합니다.
+-- 공개되지 않은 상품은 없는 상품과 같이 product_not_found로 알려줍니다.
+create or replace function public.create_order(
+  p_items jsonb,
+  p_customer_name text,
+  p_customer_phone text,
+  p_customer_address text,
+  p_clear_cart boolean default false,
+  p_idempotency_key uuid default null,
+  p_customer_postcode text default null,
+  p_shipping_fee numeric default 0,
+  p_coupon_code text default null,
+  p_points_to_use integer default 0
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order_id bigint; -- 새로 생성된 주문 ID
+  v_total numeric := 0; -- 서버에서 다시 계산한 상품 총액
+  v_item record; -- 상품/옵션별로 합산된 주문 항목
+  v_product public.products%rowtype; -- 재고 차감 후의 상품 정보
+  v_variant public.product_variants%rowtype; -- 재고 차감 후의 옵션 정보 (옵션 없는 상품은 null)
+  v_variant_label text; -- 주문 당시 옵션 라벨
+  v_price numeric; -- 주문 시점의 판매가 (세일가 + 옵션 추가 금액)
+  v_expected_price numeric; -- 고객이 확인한 단가와 다른 가격
+  v_existing record; -- 같은 멱등성 키로 이미 생성된 주문
+  v_coupon public.coupons%rowtype; -- 적용할 쿠폰
+  v_coupon_result jsonb; -- 쿠폰 적용 결과
+  v_discount numeric := 0; -- 쿠폰 할인 금액
+  v_max_points integer; -- 이 주문에 사용할 수 있는 최대 적립금
+  v_balance integer; -- 적립금 잔액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 같은 키로 이미 주문이 만들어졌다면 새 주문을 만들지 않고 기존 주문을 돌려줍니다. (재시도, 다른 탭에서 중복 제출)
+  if p_idempotency_key is not null then
+    select id, total_amount into v_existing
+    from public.orders
+    where user_id = v_user_id
+      and idempotency_key = p_idempotency_key;
+
+    if found then
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    end if;
+  end if;
+
+  -- 배송 정보는 필수입니다. (형식 검증은 서버 액션의 zod 스키마에서 처리)
+  if coalesce(trim(p_customer_name), '') = ''
+    or coalesce(trim(p_customer_phone), '') = ''
+    or coalesce(trim(p_customer_address), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_info');
+  end if;
+
+  if p_shipping_fee is null or p_shipping_fee < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_shipping_fee');
+  end if;
+
+  if p_points_to_use is null or p_points_to_use < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'points_invalid_amount');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 블록 안의 모든 변경(주문, 재고 차감, 쿠폰 사용, 적립금 사용)이 롤백됩니다.
+  begin
+    insert into public.orders (user_id, status, total_amount, customer_name, customer_phone, customer_address, customer_postcode, shipping_fee, idempotency_key)
+    values (v_user_id, 'pending', 0, trim(p_customer_name), trim(p_customer_phone), trim(p_customer_address), nullif(trim(p_customer_postcode), ''), p_shipping_fee, p_idempotency_key)
+    returning id into v_order_id;
+
+    -- 같은 상품/옵션이 여러 번 들어와도 한 번에 처리하도록 합산하고,
+    -- 상품 ID, 옵션 ID 순서로 잠금을 잡아 동시 주문 간 교착 상태(deadlock)를 피합니다.
+    -- (옵션 재고를 차감하면 트리거가 이어서 상품 행을 잠그므로 잠금 순서는 옵션 → 상품으로 일정합니다)
+    for v_item in
+      select
+        (elem->>'product_id')::bigint as product_id,
+        nullif(elem->>'variant_id', '')::bigint as variant_id,
+        sum((elem->>'quantity')::integer) as quantity,
+        array_agg(distinct (elem->>'unit_price')::numeric)
+          filter (where elem ? 'unit_price') as unit_prices -- 고객이 확인한 단가 (선택)
+      from jsonb_array_elements(p_items) as elem
+      group by 1, 2
+      order by 1, 2
+    loop
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      -- 작성 중/보관/공개 기간 밖의 상품은 장바구니에 남아 있어도 주문할 수 없습니다.
+      if not exists (
+        select 1 from public.products
+        where id = v_item.product_id
+          and public.product_is_visible(products)
+      ) then
+        raise exception 'product_not_found'
+          using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+      end if;
+
+      v_variant := null;
+      v_variant_label := null;
+
+      if v_item.variant_id is null then
+        -- 옵션이 있는 상품은 옵션을 선택해야 주문할 수 있습니다.
+        if exists (select 1 from public.product_variants where product_id = v_item.product_id) then
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          raise exception 'variant_required'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name
+            )::text;
+        end if;
+
+        -- 조건부 재고 차감: 재고가 충분할 때만 차감되므로, 마지막 한 개를 두 사람이 동시에 사도 한 명만 성공합니다.
+        update public.products
+        set stock_quantity = stock_quantity - v_item.quantity
+        where id = v_item.product_id
+          and stock_quantity >= v_item.quantity
+        returning * into v_product;
+
+        if not found then
+          -- 차감에 실패한 이유(상품 없음 / 재고 부족)를 구분해서 알려줍니다.
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          if not found then
+            raise exception 'product_not_found'
+              using detail = jsonb_build_object('product_id', v_item.product_id)::text;
+          end if;
+
+          raise exception 'insufficient_stock'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name,
+              'available', v_product.stock_quantity
+            )::text;
+        end if;
+      else
+        -- 옵션 재고를 조건부로 차감합니다. (상품 재고 합계는 트리거가 함께 줄입니다)
+        update public.product_variants
+        set stock_quantity = stock_quantity - v_item.quantity
+        where id = v_item.variant_id
+          and product_id = v_item.product_id
+          and is_active
+          and stock_quantity >= v_item.quantity
+        returning * into v_variant;
+
+        if not found then
+          select * into v_variant
+          from public.product_variants
+          where id = v_item.variant_id
+            and product_id = v_item.product_id
+            and is_active;
+
+          if not found then
+            raise exception 'variant_not_found'
+              using detail = jsonb_build_object(
+                'product_id', v_item.product_id,
+                'variant_id', v_item.variant_id
+              )::text;
+          end if;
+
+          select * into v_product
+          from public.products
+          where id = v_item.product_id;
+
+          raise exception 'insufficient_stock'
+            using detail = jsonb_build_object(
+              'product_id', v_product.id,
+              'product_name', v_product.name,
+              'variant_id', v_variant.id,
+              'variant_label', public.product_variant_label(v_variant.options, v_product.option_names),
+              'available', v_variant.stock_quantity
+            )::text;
+        end if;
+
+        select * into v_product
+        from public.products
+        where id = v_item.product_id;
+
+        v_variant_label := public.product_variant_label(v_variant.options, v_product.option_names);
+      end if;
+
+      v_price := public.product_current_price(v_product) + coalesce(v_variant.price_delta, 0);
+
+      -- 고객이 확인한 단가와 현재 판매가가 다르면 주문을 거부하고 다시 확인받습니다. (세일 시작/종료, 옵션 가격 변경 포함)
+      select price into v_expected_price
+      from unnest(v_item.unit_prices) as price
+      where price <> v_price
+      limit 1;
+
+      if v_expected_price is not null then
+        raise exception 'price_changed'
+          using detail = jsonb_build_object(
+            'product_id', v_product.id,
+            'product_name', v_product.name,
+            'variant_id', v_variant.id,
+            'variant_label', v_variant_label,
+            'old_price', v_expected_price,
+            'new_price', v_price
+          )::text;
+      end if;
+
+      -- 주문 당시 가격은 항상 DB의 현재 판매가를 사용합니다.
+      insert into public.order_items (order_id, product_id, quantity, price_at_time, variant_id, variant_label, sku)
+      values (v_order_id, v_product.id, v_item.quantity, v_price, v_variant.id, v_variant_label, v_variant.sku);
+
+      v_total := v_total + v_price * v_item.quantity;
+    end loop;
+
+    -- 쿠폰 적용: 쿠폰 행을 잠가 사용 한도 확인과 사용 기록 사이에 다른 주문이 끼어들지 못하게 합니다.
+    if coalesce(trim(p_coupon_code), '') <> '' then
+      select * into v_coupon
+      from public.coupons
+      where code = upper(trim(p_coupon_code))
+      for update;
+
+      if not found then
+        raise exception 'coupon_not_found';
+      end if;
+
+      v_coupon_result := public.evaluate_coupon(v_coupon, v_user_id, p_items);
+
+      if not (v_coupon_result->>'success')::boolean then
+        raise exception '%', v_coupon_result->>'error_code'
+          using detail = (v_coupon_result - 'success' - 'error_code')::text;
+      end if;
+
+      v_discount := (v_coupon_result->>'discount_amount')::numeric;
+
+      insert into public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+      values (v_coupon.id, v_user_id, v_order_id, v_discount);
+    end if;
+
+    -- 적립금 사용: 사용자 행을 잠가 같은 사용자의 동시 주문/조정이 잔액을 함께 쓰지 못하게 합니다.
+    if p_points_to_use > 0 then
+      perform 1 from public.profiles where id = v_user_id for update;
+
+      v_balance := public.point_balance(v_user_id);
+
+      if p_points_to_use > v_balance then
+        raise exception 'points_insufficient'
+          using detail = jsonb_build_object('balance', v_balance)::text;
+      end if;
+
+      select floor((v_total - v_discount) * max_redeem_rate / 100) into v_max_points
+      from public.point_settings;
+
+      if p_points_to_use > v_max_points then
+        raise exception 'points_limit_exceeded'
+          using detail = jsonb_build_object('max_points', v_max_points)::text;
+      end if;
+
+      perform public.deduct_points(v_user_id, 'redeem', p_points_to_use, v_order_id);
+    end if;
+
+    update public.orders
+    set total_amount = v_total + p_shipping_fee - v_discount - p_points_to_use,
+        coupon_code = v_coupon.code,
+        discount_amount = v_discount,
+        points_used = p_points_to_use
+    where id = v_order_id;
+
+    if p_clear_cart then
+      delete from public.cart_items where user_id = v_user_id;
+    end if;
+  exception
+    when unique_violation then
+      -- 동시에 들어온 같은 키의 요청이 먼저 커밋된 경우: 그 주문을 돌려줍니다.
+      select id, total_amount into v_existing
+      from public.orders
+      where user_id = v_user_id
+        and idempotency_key = p_idempotency_key;
+
+      if not found then
+        raise; -- 멱등성 키와 무관한 제약 위반은 그대로 전달
+      end if;
+
+      return jsonb_build_object(
+        'success', true,
+        'order_id', v_existing.id,
+        'total_amount', v_existing.total_amount,
+        'duplicate', true
+      );
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'order_id', v_order_id,
+    'total_amount', v_total + p_shipping_fee - v_discount - p_points_to_use,
+    'shipping_fee', p_shipping_fee,
+    'discount_amount', v_discount,
+    'points_used', p_points_to_use
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+-- 로그인한 사용자만 함수를 호출할 수 있도록 권한을 제한합니다.
+revoke execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) from public, anon;
+grant execute on function public.create_order(jsonb, text, text, text, boolean, uuid, text, numeric, text, integer) to authenticated;
@@ -0,0 +1,24 @@
+-- 주문 내역이 있는 상품 보관
+-- order_items.product_id는 on delete restrict라 한 번이라도 판매된 상품은 삭제할 수 없습니다.
+-- 이런 상품은 삭제 대신 보관(status = 'archived')하여 쇼핑몰에서 숨깁니다.
+--
+--   보관한 상품은 공개 상품 조회 정책(product_is_visible)에 걸려 쇼핑몰과 장바구니 담기에서 제외되지만,
+--   주문 내역, 거래명세서, 반품 신청은 상품 정보를 조인해서 보여주므로
+--   주문한 고객은 공개 여부와 관계없이 자신이 주문한 상품을 계속 볼 수 있어야 합니다.
+--   (관리자는 "Admins can view all products" 정책으로 모든 상품을 볼 수 있음)
+
+-- 1. 조회 정책: 고객은 자신이 주문한 상품을 공개 여부와 관계없이 볼 수 있습니다.
+create policy "Users can view products they ordered"
+  on products for select
+  to authenticated
+  using (
+    exists (
+      select 1 from order_items
+      join orders on orders.id = order_items.order_id
+      where order_items.product_id = products.id
+      and orders.user_id = auth.uid()
+    )
+  );
+
+-- 2. 주문 상품 조회용 인덱스 (위 정책과 상품 삭제 전 주문 내역 확인에서 사용)
+create index order_items_product_id_idx on order_items (product_id);
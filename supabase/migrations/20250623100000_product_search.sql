@@ -0,0 +1,75 @@
+-- 상품 검색
+-- 지금까지는 상품명/설명을 ilike '%검색어%'로 찾아서 매번 전체 상품을 훑었고,
+-- 단어 순서가 바뀌거나 오타가 있으면 찾지 못했으며, 검색어에 쉼표나 %가 들어가면 필터가 깨졌습니다.
+--
+--   products.search_text: 검색 대상 문자열 (상품명 + 설명, 소문자) - 생성 컬럼
+--   search_text에 pg_trgm GIN 인덱스를 두어 부분 일치(like)와 유사도 검색을 인덱스로 처리합니다.
+--   한글은 형태소 분석 없이 글자 단위로 비교하므로 "티셔"처럼 음절 일부만 입력해도 찾을 수 있습니다.
+
+-- 1. 트라이그램(3글자 조각) 유사도 확장
+create extension if not exists pg_trgm with schema extensions;
+
+-- 2. 검색 대상 문자열 (상품명이나 설명이 바뀌면 자동으로 다시 계산)
+alter table products
+  add column search_text text
+    generated always as (lower(name || ' ' || coalesce(description, ''))) stored;
+
+create index products_search_text_trgm_idx
+  on products using gin (search_text extensions.gin_trgm_ops);
+
+-- 3. 수정 시각 갱신에서 검색 문자열 제외
+-- 생성 컬럼은 BEFORE 트리거가 끝난 뒤 계산되므로 트리거 안의 new.search_text는 믿을 수 없습니다.
+-- (상품명/설명이 바뀌면 다른 컬럼 비교로 이미 수정 시각이 갱신됨)
+create or replace function public.set_products_updated_at()
+returns trigger as $$
+begin
+  if (to_jsonb(new) - 'stock_quantity' - 'image_url' - 'updated_at' - 'search_text')
+    is distinct from (to_jsonb(old) - 'stock_quantity' - 'image_url' - 'updated_at' - 'search_text') then
+    new.updated_at := timezone('utc'::text, now());
+  else
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+-- 4. 상품 검색 함수
+-- 검색어를 공백으로 나눈 단어가 모두 상품명/설명에 들어 있거나(순서 무관),
+-- 검색어 전체가 상품명/설명의 단어와 충분히 비슷하면(오타 허용, pg_trgm.word_similarity_threshold) 검색 결과에 포함합니다.
+-- 관련도 순(상품명 일치 > 상품명 시작 > 상품명에 모든 단어 포함 > 설명까지 포함 > 유사 단어)으로 정렬해서 돌려주며,
+-- 호출하는 쪽에서 카테고리/상태 필터와 페이지 범위를 이어서 적용합니다.
+-- security invoker(기본값)이므로 products RLS가 그대로 적용됩니다.
+create or replace function public.search_products(p_query text)
+returns setof public.products as $$
+declare
+  v_term text := lower(regexp_replace(trim(coalesce(p_query, '')), '\s+', ' ', 'g')); -- 정리한 검색어
+  v_patterns text[]; -- 단어별 like 패턴 ('%단어%')
+begin
+  if v_term = '' then
+    return;
+  end if;
+
+  -- like 패턴에서 특수 문자(\, %, _)는 글자 그대로 비교하도록 이스케이프
+  select array_agg('%' || replace(replace(replace(word, '\', '\\'), '%', '\%'), '_', '\_') || '%')
+  into v_patterns
+  from unnest(string_to_array(v_term, ' ')) as word;
+
+  return query
+  select p.*
+  from public.products p
+  where (p.search_text like v_patterns[1] and p.search_text like all (v_patterns))
+    or v_term <% p.search_text
+  order by
+    case
+      when lower(p.name) = v_term then 4
+      when lower(p.name) like ltrim(v_patterns[1], '%') then 3
+      when lower(p.name) like all (v_patterns) then 2
+      when p.search_text like all (v_patterns) then 1
+      else 0
+    end desc,
+    word_similarity(v_term, lower(p.name)) desc,
+    word_similarity(v_term, p.search_text) desc,
+    p.created_at desc,
+    p.id desc;
+end;
+$$ language plpgsql stable set search_path = public, extensions;
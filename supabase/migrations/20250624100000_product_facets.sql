@@ -0,0 +1,78 @@
+-- 상품 목록 정렬과 필터 항목(facet)
+-- 쇼핑몰 상품 목록에서 가격/판매량 순 정렬과 가격대, 재고 있는 상품만 보기 필터를 지원합니다.
+--
+--   product_sales_count(products): 상품 판매 수량 (PostgREST 계산 컬럼, order=product_sales_count.desc)
+--   product_current_price(products): 지금 판매가 (기존 함수, 가격 정렬/가격대 필터에 계산 컬럼으로 사용)
+--   product_facets(...): 필터별 상품 수와 가격 범위 (필터 화면에 표시)
+
+-- 1. 상품 판매 수량 (취소된 주문 제외)
+-- 고객은 RLS상 다른 사람의 주문을 볼 수 없으므로 함수 소유자 권한으로 합계만 계산합니다.
+create or replace function public.product_sales_count(p_product public.products)
+returns bigint as $$
+  select coalesce(sum(order_items.quantity), 0)::bigint
+  from public.order_items
+  join public.orders on orders.id = order_items.order_id
+  where order_items.product_id = p_product.id
+    and orders.status <> 'cancelled';
+$$ language sql stable security definer set search_path = public;
+
+-- 2. 필터 항목별 상품 수와 가격 범위
+-- 각 항목은 자기 자신을 뺀 나머지 필터를 적용해서 계산합니다.
+-- (예: 카테고리별 상품 수는 가격대/재고 필터만 적용 → 다른 카테고리를 골랐을 때의 상품 수를 미리 보여줌)
+-- 쇼핑몰 목록용이므로 관리자가 호출해도 공개 중인 상품만 셉니다.
+--
+-- 반환 예: {
+--   "category_counts": {"electronics": 3, "clothing": 5},  -- 카테고리별 상품 수 (하위 카테고리 합산은 화면에서)
+--   "price_min": 9000, "price_max": 120000,                -- 가격 범위 (가격대 필터 제외)
+--   "in_stock_count": 7                                     -- 재고 있는 상품 수 (재고 필터 제외)
+-- }
+create or replace function public.product_facets(
+  p_query text default null,
+  p_category_slugs text[] default null,
+  p_min_price numeric default null,
+  p_max_price numeric default null,
+  p_in_stock_only boolean default false
+)
+returns jsonb as $$
+  with base as (
+    select
+      p.category,
+      p.stock_quantity,
+      public.product_current_price(p) as current_price
+    from public.products p
+    where public.product_is_visible(p)
+      and (
+        coalesce(trim(p_query), '') = ''
+        or p.id in (select id from public.search_products(p_query))
+      )
+  ),
+  filtered as (
+    select
+      base.*,
+      (p_category_slugs is null or category = any(p_category_slugs)) as category_match,
+      ((p_min_price is null or current_price >= p_min_price)
+        and (p_max_price is null or current_price <= p_max_price)) as price_match,
+      (not coalesce(p_in_stock_only, false) or stock_quantity > 0) as stock_match
+    from base
+  )
+  select jsonb_build_object(
+    'category_counts', coalesce(
+      (
+        select jsonb_object_agg(category, product_count)
+        from (
+          select category, count(*) as product_count
+          from filtered
+          where price_match and stock_match
+          group by category
+        ) as counts
+      ),
+      '{}'::jsonb
+    ),
+    'price_min', (select min(current_price) from filtered where category_match and stock_match),
+    'price_max', (select max(current_price) from filtered where category_match and stock_match),
+    'in_stock_count', (
+      select count(*) from filtered
+      where category_match and price_match and stock_quantity > 0
+    )
+  );
+$$ language sql stable;
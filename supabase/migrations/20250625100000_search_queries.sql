@@ -0,0 +1,44 @@
+-- 인기 검색어
+-- 검색 팔레트에서 검색한 검색어를 모아 자주 찾는 검색어를 보여줍니다.
+--
+--   search_queries: 검색어별 검색 횟수와 마지막 검색 시각 (누가 검색했는지는 저장하지 않음)
+--   record_search_query(p_query): 검색어 기록 (로그인하지 않은 고객도 호출)
+--   검색어 정리 규칙(앞뒤 공백 제거, 연속 공백은 하나로, 소문자)은 src/lib/search.ts(normalizeSearchQuery)와 동일하게 유지해야 합니다.
+
+-- 1. 검색어
+create table search_queries (
+  query text primary key check (length(query) between 1 and 50), -- 정리한 검색어
+  search_count integer default 1 not null, -- 검색 횟수
+  last_searched_at timestamp with time zone default timezone('utc'::text, now()) not null -- 마지막 검색 시각
+);
+
+create index search_queries_popular_idx
+  on search_queries (last_searched_at, search_count desc); -- 최근 인기 검색어 조회
+
+alter table search_queries enable row level security;
+
+create policy "Anyone can view search queries" -- 모든 사용자가 인기 검색어를 볼 수 있음
+  on search_queries for select
+  to authenticated, anon
+  using (true);
+
+-- 2. 검색어 기록 (정리한 검색어가 비었거나 50자를 넘으면 기록하지 않음)
+create or replace function public.record_search_query(p_query text)
+returns void as $$
+declare
+  v_query text := lower(regexp_replace(trim(coalesce(p_query, '')), '\s+', ' ', 'g'));
+begin
+  if length(v_query) not between 1 and 50 then
+    return;
+  end if;
+
+  insert into search_queries (query)
+  values (v_query)
+  on conflict (query) do update
+  set search_count = search_queries.search_count + 1,
+      last_searched_at = timezone('utc'::text, now());
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 검색어 테이블에는 insert/update 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+grant execute on function public.record_search_query(text) to authenticated, anon;
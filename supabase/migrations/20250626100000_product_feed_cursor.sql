@@ -0,0 +1,17 @@
+-- 상품 목록 커서 페이지네이션
+-- 쇼핑몰 상품 목록(무한 스크롤)은 최신순일 때 (created_at, id) 기준으로 이어서 조회합니다.
+-- (다음 페이지 = 마지막으로 받은 상품보다 created_at이 이르거나, 같으면 id가 작은 상품)
+--
+--   products.created_at: 커서 비교를 위해 null을 허용하지 않음 (기존에 비어 있던 상품은 수정 시각으로 채움)
+
+-- 1. 상품 등록 시각 필수
+update products
+set created_at = updated_at
+where created_at is null;
+
+alter table products
+  alter column created_at set not null;
+
+-- 2. 최신순 목록 조회 인덱스
+create index products_created_at_id_idx
+  on products (created_at desc, id desc); -- 최신순 목록과 커서 비교
@@ -0,0 +1,235 @@
+-- 반품 환불 선점
+-- 지금까지 refundReturn 서버 액션은 반품이 회수 완료(received) 상태인지 읽기만 하고 결제 대행사 환불을 호출해서,
+-- 관리자 두 명이 동시에 (또는 한 명이 두 번) 환불 버튼을 누르면 같은 반품을 두 번 환불할 수 있었습니다.
+-- 이제는 결제 대행사를 호출하기 전에 반품을 환불 처리 중(refunding)으로 바꿔 선점하고,
+-- 선점에 성공한 요청만 환불을 진행합니다.
+-- 반품 상태 값과 전이 규칙은 src/constants/return-status.ts와 동일하게 유지해야 합니다.
+--
+--   received(반품 회수 완료)  → refunding (환불 선점 함수로만 변경)
+--   refunding(환불 처리 중)   → refunded (환불 완료 함수로만 변경)
+--                             → received (결제 대행사 환불 실패 시 선점 해제 함수로만 변경)
+--
+--   start_return_refund: 환불 선점 (관리자 전용, 환불할 총액을 함께 기록)
+--   release_return_refund: 결제 대행사 환불 실패 시 선점 해제 (서버 전용)
+--   complete_return_refund: 환불 처리 중인 반품만 완료
+
+-- 1. 환불 처리 중 상태 추가
+alter table returns
+  drop constraint returns_status_check,
+  add constraint returns_status_check
+    check (status in ('requested', 'approved', 'received', 'refunding', 'refunded', 'rejected'));
+
+-- 2. 반품 상태 전이 규칙 함수
+-- refunding → received는 선점 해제 함수에서만 직접 변경하므로 전이 규칙에는 넣지 않습니다.
+-- (change_return_status로 되돌리면 이미 환불한 반품을 다시 환불할 수 있음)
+create or replace function public.return_status_transition_allowed(p_from text, p_to text)
+returns boolean as $$
+  select case p_from
+    when 'requested' then p_to in ('approved', 'rejected')
+    when 'approved' then p_to in ('received', 'rejected')
+    when 'received' then p_to = 'refunding'
+    when 'refunding' then p_to = 'refunded'
+    else false -- refunded, rejected는 최종 상태
+  end;
+$$ language sql immutable;
+
+-- 3. 반품 환불 선점 함수 (관리자 전용)
+-- 서버 액션(refundReturn)이 결제 대행사 환불을 호출하기 전에 호출합니다.
+-- 회수 완료 상태일 때만 조건부로 변경하므로, 동시에 요청해도 한 요청만 성공합니다.
+-- 환불할 총액을 함께 기록해 두어, 결제 대행사 환불 후 완료 기록에 실패해도 얼마를 환불했는지 확인할 수 있습니다.
+--
+-- 반환값 (jsonb)
+--   성공: {"success": true, "return_id": 7}
+--   실패: {"success": false, "error_code": "invalid_status_transition", "from": "refunding", "to": "refunding"}
+--   error_code 종류: unauthenticated, forbidden, return_not_found, invalid_refund_amount, invalid_status_transition
+create or replace function public.start_return_refund(
+  p_return_id bigint,
+  p_refund_amount numeric
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_current_status text; -- 선점에 실패했을 때의 현재 상태
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  if p_refund_amount is null or p_refund_amount < 0 then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_refund_amount');
+  end if;
+
+  update public.returns
+  set status = 'refunding',
+      refund_amount = p_refund_amount
+  where id = p_return_id
+    and status = 'received';
+
+  if found then
+    return jsonb_build_object('success', true, 'return_id', p_return_id);
+  end if;
+
+  select status into v_current_status
+  from public.returns
+  where id = p_return_id;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'return_not_found');
+  end if;
+
+  return jsonb_build_object(
+    'success', false,
+    'error_code', 'invalid_status_transition',
+    'from', v_current_status,
+    'to', 'refunding'
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 4. 반품 환불 선점 해제 함수 (서버 전용)
+-- 결제 대행사 환불이 실패했을 때만 서버 액션이 서비스 롤로 호출해 다시 환불할 수 있게 되돌립니다.
+-- 관리자가 직접 호출해 이미 환불한 반품을 되돌리지 못하도록 service_role에만 실행 권한을 줍니다.
+create or replace function public.release_return_refund(p_return_id bigint)
+returns boolean as $$
+begin
+  update public.returns
+  set status = 'received',
+      refund_amount = 0
+  where id = p_return_id
+    and status = 'refunding';
+
+  return found;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 5. 반품 환불 완료 함수: 환불 처리 중(refunding)인 반품만 완료합니다.
+create or replace function public.complete_return_refund(
+  p_return_id bigint,
+  p_items jsonb,
+  p_note text default null
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_return record; -- 환불할 반품
+  v_elem jsonb; -- 입력된 상품별 환불 정보
+  v_return_item record; -- 환불할 반품 상품
+  v_refund numeric; -- 상품별 환불 금액
+  v_max numeric; -- 상품별 최대 환불 금액
+  v_total numeric := 0; -- 총 환불 금액
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  if not exists (
+    select 1 from public.profiles
+    where id = v_user_id
+    and is_admin = true
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'forbidden');
+  end if;
+
+  select id, status into v_return
+  from public.returns
+  where id = p_return_id
+  for update;
+
+  if not found then
+    return jsonb_build_object('success', false, 'error_code', 'return_not_found');
+  end if;
+
+  -- 환불 처리 중(refunding)으로 선점한 반품만 완료할 수 있습니다. (start_return_refund)
+  if not public.return_status_transition_allowed(v_return.status, 'refunded') then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'invalid_status_transition',
+      'from', v_return.status,
+      'to', 'refunded'
+    );
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 환불 기록과 재고 복구가 모두 롤백됩니다.
+  begin
+    for v_elem in
+      select elem from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as elem
+    loop
+      select ri.id, ri.quantity, oi.product_id, oi.variant_id, oi.variant_label, oi.price_at_time into v_return_item
+      from public.return_items ri
+      join public.order_items oi on oi.id = ri.order_item_id
+      where ri.id = (v_elem->>'return_item_id')::bigint
+        and ri.return_id = p_return_id;
+
+      if not found then
+        raise exception 'invalid_item'
+          using detail = jsonb_build_object('return_item_id', v_elem->'return_item_id')::text;
+      end if;
+
+      v_refund := coalesce((v_elem->>'refund_amount')::numeric, 0);
+      v_max := v_return_item.price_at_time * v_return_item.quantity;
+
+      if v_refund < 0 or v_refund > v_max then
+        raise exception 'invalid_refund_amount'
+          using detail = jsonb_build_object('return_item_id', v_return_item.id, 'max', v_max)::text;
+      end if;
+
+      update public.return_items
+      set refund_amount = v_refund,
+          restocked = coalesce((v_elem->>'restock')::boolean, false)
+      where id = v_return_item.id;
+
+      -- 옵션 상품은 옵션 재고로 되돌립니다. (옵션이 삭제되었으면 되돌릴 재고가 없음)
+      if coalesce((v_elem->>'restock')::boolean, false) then
+        if v_return_item.variant_id is not null then
+          update public.product_variants
+          set stock_quantity = stock_quantity + v_return_item.quantity
+          where id = v_return_item.variant_id;
+        elsif v_return_item.variant_label is null then
+          update public.products
+          set stock_quantity = stock_quantity + v_return_item.quantity
+          where id = v_return_item.product_id;
+        end if;
+      end if;
+
+      v_total := v_total + v_refund;
+    end loop;
+
+    update public.returns
+    set status = 'refunded',
+        refund_amount = v_total,
+        admin_note = coalesce(nullif(trim(p_note), ''), admin_note)
+    where id = p_return_id;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object(
+    'success', true,
+    'return_id', p_return_id,
+    'refund_amount', v_total
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 일반 사용자는 RLS 때문에 products 재고를 수정할 수 없으므로, 함수 소유자 권한으로 실행합니다.
+
+revoke execute on function public.start_return_refund(bigint, numeric) from public, anon;
+grant execute on function public.start_return_refund(bigint, numeric) to authenticated;
+
+revoke execute on function public.release_return_refund(bigint) from public, anon, authenticated;
+grant execute on function public.release_return_refund(bigint) to service_role;
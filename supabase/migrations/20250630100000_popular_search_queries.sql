@@ -0,0 +1,51 @@
+-- 인기 검색어 노출 제한
+-- 지금까지는 누구나 record_search_query로 아무 문자열이나 기록할 수 있었고, 기록된 검색어를 모두 조회할 수 있어서
+-- 스크립트로 넣은 욕설이나 다른 고객이 붙여 넣은 이메일/전화번호가 검색 팔레트의 인기 검색어에 보일 수 있었습니다.
+--
+--   record_search_query: 공개 상품이 하나 이상 검색되는 검색어만 기록
+--   popular_search_queries: 최근 30일 동안 5번 이상 검색한 검색어 중 상위 10개만 보여주는 뷰
+--   search_queries: 직접 조회 정책 제거 (인기 검색어는 뷰로만 조회)
+
+-- 1. 검색어 테이블 직접 조회 금지
+drop policy "Anyone can view search queries" on search_queries;
+
+-- 2. 검색 결과가 있는 검색어만 기록 (정리한 검색어가 비었거나 50자를 넘어도 기록하지 않음)
+-- security definer라 products RLS를 거치지 않으므로 공개 상품인지 직접 확인합니다.
+create or replace function public.record_search_query(p_query text)
+returns void as $$
+declare
+  v_query text := lower(regexp_replace(trim(coalesce(p_query, '')), '\s+', ' ', 'g'));
+begin
+  if length(v_query) not between 1 and 50 then
+    return;
+  end if;
+
+  if not exists (
+    select 1
+    from public.search_products(v_query) as products
+    where public.product_is_visible(products)
+  ) then
+    return;
+  end if;
+
+  insert into search_queries (query)
+  values (v_query)
+  on conflict (query) do update
+  set search_count = search_queries.search_count + 1,
+      last_searched_at = timezone('utc'::text, now());
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: 검색어 테이블에는 insert/update 정책이 없으므로 함수 소유자 권한으로 기록합니다.
+
+-- 3. 인기 검색어 뷰 (최근 30일, 5번 이상 검색한 검색어 중 검색 횟수 순 상위 10개)
+-- 뷰 소유자 권한으로 실행되므로 search_queries 조회 정책 없이 이 뷰의 검색어만 볼 수 있습니다.
+-- 기준 횟수와 개수는 src/actions/search.ts(getPopularSearchQueries)의 설명과 동일하게 유지해야 합니다.
+create view popular_search_queries as
+select query, search_count, last_searched_at
+from search_queries
+where last_searched_at >= now() - interval '30 days'
+  and search_count >= 5
+order by search_count desc, last_searched_at desc
+limit 10;
+
+grant select on popular_search_queries to authenticated, anon;
@@ -0,0 +1,8 @@
+-- 주문 직접 생성 금지
+-- 처음 RLS 설정(20250527114842_setup_rls.sql)의 주문/주문 상품 insert 정책이 남아 있어서,
+-- 로그인한 사용자가 create_order를 거치지 않고 orders, order_items에 임의의 가격/총액/상태로 행을 넣을 수 있었습니다.
+-- (서버 가격 계산, 배송비, 재고, 쿠폰 확인과 결제를 모두 건너뛰고, 결제된 주문에 없는 상품을 추가해 반품/환불을 신청할 수도 있음)
+-- 주문은 create_order 함수(서비스 롤 전용, security definer)로만 만들 수 있도록 두 정책을 제거합니다.
+
+drop policy "Users can create their own orders" on orders;
+drop policy "Users can insert their own order items" on order_items;
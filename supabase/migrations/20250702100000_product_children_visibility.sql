@@ -0,0 +1,55 @@
+-- 상품 옵션/이미지 조회를 상품 공개 상태에 맞춤
+-- 상품 공개 상태(20250621100000_product_status.sql)를 도입하면서 products 조회는 공개 상품으로 제한했지만,
+-- 옵션(product_variants)과 이미지(product_images)의 조회 정책은 using (true)로 남아 있어서
+-- 작성 중/보관 상품의 SKU, 옵션 가격, 재고와 이미지를 누구나 볼 수 있었습니다.
+-- products와 같이 일반 사용자는 공개 상품의 옵션/이미지만, 관리자는 모두 볼 수 있게 합니다.
+
+-- 1. 상품 옵션
+drop policy "Anyone can view product variants" on product_variants;
+
+create policy "Anyone can view variants of published products"
+  on product_variants for select
+  to authenticated, anon
+  using (
+    exists (
+      select 1 from products
+      where products.id = product_variants.product_id
+      and public.product_is_visible(products)
+    )
+  );
+
+create policy "Admins can view all product variants"
+  on product_variants for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
+
+-- 2. 상품 이미지
+drop policy "Anyone can view product images" on product_images;
+
+create policy "Anyone can view images of published products"
+  on product_images for select
+  to authenticated, anon
+  using (
+    exists (
+      select 1 from products
+      where products.id = product_images.product_id
+      and public.product_is_visible(products)
+    )
+  );
+
+create policy "Admins can view all product images"
+  on product_images for select
+  to authenticated
+  using (
+    exists (
+      select 1 from profiles
+      where profiles.id = auth.uid()
+      and profiles.is_admin = true
+    )
+  );
@@ -0,0 +1,133 @@
+-- 반품 사진 경로 확인
+-- 지금까지 request_return은 p_photo_paths를 그대로 저장해서, 다른 사용자가 올린 파일이나 버킷의 아무 경로를
+-- 반품 사진으로 첨부할 수 있었습니다(관리자 반품 화면에 그대로 노출됨).
+-- 반품 사진은 uploadReturnPhoto(src/actions/returns.ts)로 본인 폴더(<사용자 ID>/...)에 올리므로,
+-- 호출한 사용자의 폴더 밖을 가리키는 경로가 있으면 invalid_photo_path로 거부합니다.
+--
+-- error_code 종류 추가: invalid_photo_path
+
+create or replace function public.request_return(
+  p_order_id bigint,
+  p_items jsonb,
+  p_reason text,
+  p_photo_paths text[] default '{}'
+)
+returns jsonb as $$
+declare
+  v_user_id uuid := auth.uid(); -- 함수를 호출한 사용자 ID
+  v_order record; -- 반품할 주문
+  v_return_id bigint; -- 새로 생성된 반품 ID
+  v_item record; -- 주문 상품별로 합산된 반품 항목
+  v_order_item record; -- 반품할 주문 상품
+  v_returned integer; -- 이미 반품 신청된 수량
+  v_error_code text;
+  v_error_detail text;
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'error_code', 'unauthenticated');
+  end if;
+
+  -- 같은 주문의 반품 신청이 동시에 처리되지 않도록 주문 행 잠금
+  select id, user_id, status into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  -- 다른 사람의 주문은 존재 여부도 알려주지 않습니다.
+  if not found or v_order.user_id <> v_user_id then
+    return jsonb_build_object('success', false, 'error_code', 'order_not_found');
+  end if;
+
+  if v_order.status <> 'delivered' then
+    return jsonb_build_object(
+      'success', false,
+      'error_code', 'not_returnable',
+      'status', v_order.status
+    );
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_reason');
+  end if;
+
+  if coalesce(array_length(p_photo_paths, 1), 0) > 3 then
+    return jsonb_build_object('success', false, 'error_code', 'too_many_photos');
+  end if;
+
+  -- 사진은 본인 폴더(<사용자 ID>/...)에 올린 것만 첨부할 수 있습니다.
+  if exists (
+    select 1 from unnest(p_photo_paths) as path
+    where path is null
+      or not starts_with(path, v_user_id::text || '/')
+      or position('..' in path) > 0
+  ) then
+    return jsonb_build_object('success', false, 'error_code', 'invalid_photo_path');
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    return jsonb_build_object('success', false, 'error_code', 'empty_items');
+  end if;
+
+  -- 이 블록 안에서 예외가 발생하면 반품과 반품 상품이 모두 롤백됩니다.
+  begin
+    insert into public.returns (order_id, user_id, reason, photo_paths)
+    values (p_order_id, v_user_id, trim(p_reason), coalesce(p_photo_paths, '{}'))
+    returning id into v_return_id;
+
+    for v_item in
+      select
+        (elem->>'order_item_id')::bigint as order_item_id,
+        sum((elem->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) as elem
+      group by 1
+      order by 1
+    loop
+      select oi.id, oi.quantity, p.name as product_name into v_order_item
+      from public.order_items oi
+      join public.products p on p.id = oi.product_id
+      where oi.id = v_item.order_item_id
+        and oi.order_id = p_order_id;
+
+      if not found then
+        raise exception 'invalid_item'
+          using detail = jsonb_build_object('order_item_id', v_item.order_item_id)::text;
+      end if;
+
+      if v_item.quantity is null or v_item.quantity <= 0 then
+        raise exception 'invalid_quantity'
+          using detail = jsonb_build_object('order_item_id', v_item.order_item_id)::text;
+      end if;
+
+      -- 거절되지 않은 기존 반품 수량 (방금 만든 반품은 아직 상품이 없으므로 포함되지 않음)
+      select coalesce(sum(ri.quantity), 0) into v_returned
+      from public.return_items ri
+      join public.returns r on r.id = ri.return_id
+      where ri.order_item_id = v_item.order_item_id
+        and r.status <> 'rejected';
+
+      if v_returned + v_item.quantity > v_order_item.quantity then
+        raise exception 'quantity_exceeded'
+          using detail = jsonb_build_object(
+            'order_item_id', v_item.order_item_id,
+            'product_name', v_order_item.product_name,
+            'available', v_order_item.quantity - v_returned
+          )::text;
+      end if;
+
+      insert into public.return_items (return_id, order_item_id, quantity)
+      values (v_return_id, v_item.order_item_id, v_item.quantity);
+    end loop;
+  exception
+    when raise_exception then
+      get stacked diagnostics
+        v_error_code = message_text,
+        v_error_detail = pg_exception_detail;
+
+      return jsonb_build_object('success', false, 'error_code', v_error_code)
+        || coalesce(nullif(v_error_detail, '')::jsonb, '{}'::jsonb);
+  end;
+
+  return jsonb_build_object('success', true, 'return_id', v_return_id);
+end;
+$$ language plpgsql security definer set search_path = public;
+-- security definer: returns 테이블에는 insert 정책이 없으므로, 함수 소유자 권한으로 실행합니다.